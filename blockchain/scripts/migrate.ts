@@ -0,0 +1,57 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { getDatabasePath } from '../src/config/sqlite';
+import { getMigrationStatus, rollbackMigrations, runMigrations } from '../src/config/migrations';
+
+// Usage: npm run migrate -- [up | down [steps] | status]
+async function main() {
+  const [command = 'up', arg] = process.argv.slice(2);
+  const dbPath = getDatabasePath();
+
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.pragma('foreign_keys = ON');
+
+  try {
+    switch (command) {
+      case 'up': {
+        // Unlike startup, the CLI retries a migration that previously failed
+        const applied = runMigrations(db, { retryFailed: true });
+        console.log(applied.length > 0
+          ? `✅ Applied ${applied.length} migration(s)`
+          : '✅ Database schema is up to date');
+        break;
+      }
+      case 'down': {
+        const steps = arg ? parseInt(arg, 10) : 1;
+        if (isNaN(steps) || steps < 1) {
+          throw new Error('down expects a positive number of steps');
+        }
+        const reverted = rollbackMigrations(db, steps);
+        console.log(`↩️  Reverted ${reverted.length} migration(s)`);
+        break;
+      }
+      case 'status': {
+        console.log(`🗄️  ${dbPath}`);
+        getMigrationStatus(db).forEach(status => {
+          const version = String(status.version).padStart(3, '0');
+          const detail = status.error ? ` - ${status.error}` : status.appliedAt ? ` (${status.appliedAt})` : '';
+          console.log(`  ${status.state.padEnd(8)} ${version}_${status.name}${detail}`);
+        });
+        break;
+      }
+      default:
+        throw new Error(`Unknown command "${command}"; expected up, down or status`);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Migration failed:', error.message);
+    process.exit(1);
+  });
@@ -30,7 +30,6 @@ const connectDB = async (): Promise<boolean> => {
     return true;
   } catch (error: any) {
     logger.error('MongoDB Atlas connection failed:', error.message);
-    logger.warn('Falling back to in-memory storage');
     
     // Disconnect if partially connected
     try {
@@ -0,0 +1,214 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+  down: (db: Database.Database) => void;
+}
+
+export interface MigrationRow {
+  version: number;
+  name: string;
+  status: 'applied' | 'failed';
+  error: string | null;
+  appliedAt: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: 'applied' | 'failed' | 'pending' | 'missing';
+  appliedAt: string | null;
+  error: string | null;
+}
+
+export const MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+
+// e.g. 002_user_profile_fields.ts (or .js once compiled)
+const MIGRATION_FILE = /^(\d+)_(\w+)\.(ts|js)$/;
+
+export const loadMigrations = (dir: string = MIGRATIONS_DIR): Migration[] => {
+  const migrations = fs.readdirSync(dir)
+    .map(file => ({ file, match: MIGRATION_FILE.exec(file) }))
+    .filter(({ match }) => match !== null)
+    .map(({ file, match }) => {
+      // Loaded by file name at run time, so it cannot be a static import
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const module = require(path.join(dir, file));
+
+      if (typeof module.up !== 'function' || typeof module.down !== 'function') {
+        throw new Error(`Migration ${file} must export up and down functions`);
+      }
+
+      return {
+        version: parseInt(match![1], 10),
+        name: match![2],
+        up: module.up,
+        down: module.down
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migrations[index - 1].version === migration.version) {
+      throw new Error(`Duplicate migration version ${migration.version}`);
+    }
+  });
+
+  return migrations;
+};
+
+const ensureMigrationsTable = (db: Database.Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('applied', 'failed')),
+      error TEXT,
+      appliedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+};
+
+const getRecordedMigrations = (db: Database.Database): MigrationRow[] => {
+  ensureMigrationsTable(db);
+  return db.prepare('SELECT * FROM schema_migrations ORDER BY version ASC').all() as MigrationRow[];
+};
+
+const label = (migration: { version: number; name: string }) =>
+  `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+
+export const getMigrationStatus = (
+  db: Database.Database,
+  migrations: Migration[] = loadMigrations()
+): MigrationStatus[] => {
+  const recorded = getRecordedMigrations(db);
+  const statuses: MigrationStatus[] = migrations.map(migration => {
+    const row = recorded.find(r => r.version === migration.version);
+
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: row ? row.status : 'pending',
+      appliedAt: row ? row.appliedAt : null,
+      error: row ? row.error : null
+    };
+  });
+
+  // Recorded migrations whose files have since disappeared
+  recorded
+    .filter(row => !migrations.some(migration => migration.version === row.version))
+    .forEach(row => statuses.push({
+      version: row.version,
+      name: row.name,
+      state: 'missing',
+      appliedAt: row.appliedAt,
+      error: row.error
+    }));
+
+  return statuses.sort((a, b) => a.version - b.version);
+};
+
+/**
+ * Throw if the database is in a state we must not build on: a migration that
+ * failed, an applied migration whose file is gone, or a pending migration
+ * older than one already applied.
+ */
+const assertMigrationState = (statuses: MigrationStatus[], options: { retryFailed: boolean }) => {
+  const failed = statuses.find(status => status.state === 'failed');
+
+  if (failed && !options.retryFailed) {
+    throw new Error(
+      `Migration ${label(failed)} previously failed (${failed.error}); fix it and run "npm run migrate -- up"`
+    );
+  }
+
+  const missing = statuses.find(status => status.state === 'missing');
+
+  if (missing) {
+    throw new Error(`Migration ${label(missing)} is recorded in schema_migrations but its file is missing`);
+  }
+
+  const applied = statuses.filter(status => status.state === 'applied');
+  const latestApplied = applied.length > 0 ? applied[applied.length - 1].version : 0;
+  const outOfOrder = statuses.find(status => status.state !== 'applied' && status.version < latestApplied);
+
+  if (outOfOrder) {
+    throw new Error(
+      `Migration ${label(outOfOrder)} is older than applied migration ${latestApplied}; renumber it after ${latestApplied}`
+    );
+  }
+};
+
+/**
+ * Apply every pending migration in order, each in its own transaction.
+ * Startup refuses to retry a failed migration; the CLI passes retryFailed.
+ */
+export const runMigrations = (
+  db: Database.Database,
+  options: { retryFailed?: boolean; migrations?: Migration[] } = {}
+): Migration[] => {
+  const migrations = options.migrations || loadMigrations();
+  const statuses = getMigrationStatus(db, migrations);
+
+  assertMigrationState(statuses, { retryFailed: options.retryFailed === true });
+
+  const pending = migrations.filter(migration =>
+    statuses.find(status => status.version === migration.version)?.state !== 'applied'
+  );
+
+  const record = db.prepare(`
+    INSERT OR REPLACE INTO schema_migrations (version, name, status, error, appliedAt)
+    VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+  `);
+
+  pending.forEach(migration => {
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        record.run(migration.version, migration.name, 'applied', null);
+      })();
+      logger.info(`📦 Applied migration ${label(migration)}`);
+    } catch (error: any) {
+      record.run(migration.version, migration.name, 'failed', error.message);
+      logger.error(`Migration ${label(migration)} failed`, { error: error.message });
+      throw new Error(`Migration ${label(migration)} failed: ${error.message}`);
+    }
+  });
+
+  return pending;
+};
+
+/**
+ * Revert the most recently applied migrations, newest first
+ */
+export const rollbackMigrations = (
+  db: Database.Database,
+  steps: number = 1,
+  migrations: Migration[] = loadMigrations()
+): Migration[] => {
+  const statuses = getMigrationStatus(db, migrations);
+  const applied = statuses.filter(status => status.state === 'applied').reverse().slice(0, steps);
+
+  const reverted = applied.map(status => {
+    const migration = migrations.find(m => m.version === status.version);
+
+    if (!migration) {
+      throw new Error(`Cannot roll back ${label(status)}: migration file is missing`);
+    }
+
+    db.transaction(() => {
+      migration.down(db);
+      db.prepare('DELETE FROM schema_migrations WHERE version = ?').run(migration.version);
+    })();
+    logger.info(`↩️  Reverted migration ${label(migration)}`);
+
+    return migration;
+  });
+
+  return reverted;
+};
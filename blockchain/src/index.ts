@@ -11,13 +11,32 @@ import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import { notFoundHandler } from './middleware/notFoundHandler';
 import { authenticate } from './middleware/auth';
-import connectDB from './config/database';
+import { initializeStorage } from './repositories';
+import blockchain from './services/simpleBlockchain';
+import { advisoryService } from './services/advisoryService';
+import { alertService } from './services/alertService';
+import { anomalyService } from './services/anomalyService';
+import { geofenceService } from './services/geofenceService';
+import { locationService } from './services/locationService';
+import { missingPersonService } from './services/missingPersonService';
+import { analyticsService } from './services/analyticsService';
+import { safetyScoreService } from './services/safetyScoreService';
+import { tripService } from './services/tripService';
 import blockchainRoutes from './routes/blockchainRoutes';
 import simpleBlockchainRoutes from './routes/simpleBlockchainRoutes';
 import authRoutes from './routes/authRoutes';
 import healthRoutes from './routes/healthRoutes';
 import qrRoutes from './routes/qrRoutes';
 import portalRoutes from './routes/portalRoutes';
+import alertRoutes from './routes/alertRoutes';
+import eventRoutes from './routes/eventRoutes';
+import zoneRoutes from './routes/zoneRoutes';
+import locationRoutes from './routes/locationRoutes';
+import safetyRoutes from './routes/safetyRoutes';
+import tripRoutes from './routes/tripRoutes';
+import firRoutes from './routes/firRoutes';
+import missingPersonRoutes from './routes/missingPersonRoutes';
+import analyticsRoutes from './routes/analyticsRoutes';
 
 // Load environment variables
 dotenv.config();
@@ -33,7 +52,9 @@ app.use(cors({
   origin: process.env.CORS_ORIGIN || 'http://localhost:8080',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'Origin', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'Origin', 'X-Requested-With', 'Last-Event-ID'],
+  // Lets the dashboard name downloaded FIR PDFs
+  exposedHeaders: ['Content-Disposition']
 }));
 
 // Compression middleware
@@ -81,6 +102,15 @@ app.use('/api/health', healthRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/qr', qrRoutes);
 app.use('/api/portal', portalRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/events', eventRoutes);
+app.use('/api/zones', zoneRoutes);
+app.use('/api/locations', locationRoutes);
+app.use('/api/safety', safetyRoutes);
+app.use('/api/trips', tripRoutes);
+app.use('/api/firs', firRoutes);
+app.use('/api/missing-persons', missingPersonRoutes);
+app.use('/api/analytics', analyticsRoutes);
 app.use('/api', simpleBlockchainRoutes); // Using simplified routes without auth for now
 // app.use('/api', authenticate, blockchainRoutes); // Full blockchain routes with auth
 
@@ -92,6 +122,13 @@ app.get('/', (req, res) => {
     status: 'active',
     endpoints: {
       health: '/api/health',
+      alerts: '/api/alerts',
+      events: '/api/events',
+      zones: '/api/zones',
+      locations: '/api/locations',
+      safety: '/api/safety',
+      trips: '/api/trips',
+      firs: '/api/firs',
       wallet: '/api/blockchain/wallet',
       identity: '/api/blockchain/identity',
       stats: '/api/blockchain/stats',
@@ -113,17 +150,43 @@ app.get('/', (req, res) => {
 app.use(notFoundHandler);
 app.use(errorHandler);
 
-// Initialize MongoDB database and start server
+// Initialize storage and start server
 const startServer = async () => {
   try {
-    // Connect to MongoDB first
-    const mongoConnected = await connectDB();
-    
-    if (mongoConnected) {
-      logger.info('✅ MongoDB connection established - Full functionality available');
-    } else {
-      logger.warn('⚠️  MongoDB connection failed - Using in-memory storage only');
-    }
+    // Select the storage driver first; every route reads and writes through it
+    const storage = await initializeStorage();
+    logger.info(`✅ Storage driver ready: ${storage.driver}`);
+
+    // Reload and validate the persisted chain before serving requests
+    await blockchain.initialize();
+    logger.info(`⛓️  Simple chain loaded and validated (${blockchain.getChain().length} blocks)`);
+
+    // Escalate SOS alerts nobody has acknowledged in time
+    alertService.startEscalation();
+
+    // Dwell detection for tourists who stop sending pings
+    geofenceService.startMonitoring();
+
+    // Delete location pings past their retention window
+    locationService.startRetention();
+
+    // Start and finish trips on their dates
+    tripService.startMonitoring();
+
+    // Re-check itinerary warnings as alerts, zones and FIRs change
+    advisoryService.startMonitoring();
+
+    // Signal loss checks for tourists whose pings have stopped
+    anomalyService.startMonitoring();
+
+    // Keep tourists' safety scores current as pings, alerts and zones change
+    safetyScoreService.startMonitoring();
+
+    // Link missing-person FIRs to the tourist's open case as they are filed
+    missingPersonService.startMonitoring();
+
+    // Store daily analytics rollups before the pings behind them are pruned
+    analyticsService.startMonitoring();
     
     // Start the server
     app.listen(PORT, () => {
@@ -132,7 +195,7 @@ const startServer = async () => {
       logger.info(`🌐 CORS enabled for: ${process.env.CORS_ORIGIN || 'http://localhost:5173'}`);
       logger.info(`⛓️  Blockchain RPC: ${process.env.BLOCKCHAIN_RPC_URL || 'http://localhost:8545'}`);
       logger.info(`📄 Contract Address: ${process.env.CONTRACT_ADDRESS || 'Not deployed'}`);
-      logger.info(`🗄️  Database: ${mongoConnected ? 'MongoDB Atlas Connected' : 'In-Memory Only'}`);
+      logger.info(`🗄️  Database: ${storage.driver}`);
     });
   } catch (error) {
     logger.error('Failed to start server:', error);
@@ -1,25 +1,50 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import User, { IUser } from '../models/User';
+import { getStorage, UserRecord } from '../repositories';
 import { logger } from '../utils/logger';
 
 // Extend Request interface to include user
 declare global {
   namespace Express {
     interface Request {
-      user?: IUser;
+      user?: UserRecord;
     }
   }
 }
 
+declare module 'express-session' {
+  interface SessionData {
+    token?: string;
+  }
+}
+
 export interface AuthRequest extends Request {
-  user: IUser;
+  user: UserRecord;
 }
 
+export const getRequestToken = (req: Request): string | undefined => {
+  return req.header('Authorization')?.replace('Bearer ', '') || req.session?.token;
+};
+
+/**
+ * Resolve a token to its user; the token must still have a live session so
+ * that logging out revokes it
+ */
+export const resolveTokenUser = async (token: string): Promise<UserRecord | null> => {
+  const decoded = jwt.verify(token, process.env.JWT_SECRET || 'raksha-setu-secret') as any;
+  const storage = getStorage();
+  const session = await storage.sessions.findOne({ token });
+
+  if (!session || new Date(session.expiresAt).getTime() < Date.now()) {
+    return null;
+  }
+
+  return storage.users.findById(decoded.userId);
+};
+
 export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const token = req.header('Authorization')?.replace('Bearer ', '') || 
-                  req.session?.token;
+    const token = getRequestToken(req);
 
     if (!token) {
       return res.status(401).json({
@@ -28,13 +53,12 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
       });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'raksha-setu-secret') as any;
-    const user = await User.findById(decoded.userId).select('-password');
+    const user = await resolveTokenUser(token);
 
     if (!user) {
       return res.status(401).json({
         success: false,
-        error: 'Invalid token. User not found.'
+        error: 'Invalid token. Session or user not found.'
       });
     }
 
@@ -78,12 +102,10 @@ export const authorize = (...roles: string[]) => {
 
 export const optionalAuth = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const token = req.header('Authorization')?.replace('Bearer ', '') || 
-                  req.session?.token;
+    const token = getRequestToken(req);
 
     if (token) {
-      const decoded = jwt.verify(token, process.env.JWT_SECRET || 'raksha-setu-secret') as any;
-      const user = await User.findById(decoded.userId).select('-password');
+      const user = await resolveTokenUser(token);
       
       if (user && user.isActive) {
         req.user = user;
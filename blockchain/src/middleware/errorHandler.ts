@@ -6,6 +6,14 @@ export interface ApiError extends Error {
   isOperational?: boolean;
 }
 
+// Create an operational error that routes can surface with its own status code
+export const createApiError = (message: string, statusCode: number): ApiError => {
+  const error: ApiError = new Error(message);
+  error.statusCode = statusCode;
+  error.isOperational = true;
+  return error;
+};
+
 export const errorHandler = (
   err: ApiError,
   req: Request,
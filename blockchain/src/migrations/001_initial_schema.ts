@@ -0,0 +1,192 @@
+import Database from 'better-sqlite3';
+
+// Baseline schema. Uses IF NOT EXISTS so databases created before
+// migrations were introduced adopt it without changes.
+export const up = (db: Database.Database) => {
+  // Users table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS users (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      email TEXT UNIQUE NOT NULL,
+      password TEXT NOT NULL,
+      role TEXT NOT NULL CHECK (role IN ('admin', 'police', 'tourism', 'tourist')),
+      walletAddress TEXT UNIQUE,
+      isActive BOOLEAN DEFAULT 1,
+      lastLogin DATETIME,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Digital Identities table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS digital_identities (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      walletAddress TEXT UNIQUE NOT NULL,
+      identityId INTEGER UNIQUE NOT NULL,
+      name TEXT NOT NULL,
+      email TEXT NOT NULL,
+      nationality TEXT NOT NULL,
+      aadhaarHash TEXT,
+      passportHash TEXT,
+      emergencyContact TEXT NOT NULL,
+      roles TEXT NOT NULL, -- JSON array
+      isVerified BOOLEAN DEFAULT 0,
+      isActive BOOLEAN DEFAULT 1,
+      verificationDate DATETIME,
+      verifierAddress TEXT,
+      txHash TEXT,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Sessions table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      token TEXT UNIQUE NOT NULL,
+      expiresAt DATETIME NOT NULL,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Simple chain digital IDs table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS digital_ids (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      name TEXT NOT NULL,
+      email TEXT NOT NULL,
+      role TEXT NOT NULL,
+      walletAddress TEXT NOT NULL,
+      timestamp INTEGER NOT NULL,
+      hash TEXT UNIQUE NOT NULL,
+      verified BOOLEAN DEFAULT 0,
+      status TEXT NOT NULL DEFAULT 'pending',
+      statusReason TEXT,
+      expiresAt DATETIME,
+      additionalData TEXT, -- JSON
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Trips table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS trips (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      title TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'planned',
+      startDate DATETIME NOT NULL,
+      endDate DATETIME NOT NULL,
+      destinations TEXT NOT NULL, -- JSON array
+      members TEXT NOT NULL, -- JSON array
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Alerts table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS alerts (
+      id TEXT PRIMARY KEY,
+      type TEXT NOT NULL,
+      severity TEXT NOT NULL DEFAULT 'moderate',
+      status TEXT NOT NULL DEFAULT 'active',
+      userId TEXT,
+      message TEXT NOT NULL,
+      location TEXT, -- JSON
+      data TEXT, -- JSON
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Simple chain blocks table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS chain_blocks (
+      blockIndex INTEGER PRIMARY KEY,
+      timestamp INTEGER NOT NULL,
+      records TEXT NOT NULL, -- JSON array
+      merkleRoot TEXT NOT NULL,
+      previousHash TEXT NOT NULL,
+      difficulty INTEGER NOT NULL DEFAULT 0,
+      hash TEXT UNIQUE NOT NULL,
+      nonce INTEGER NOT NULL,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Simple chain transactions table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS chain_transactions (
+      id TEXT PRIMARY KEY,
+      fromAddress TEXT NOT NULL,
+      toAddress TEXT NOT NULL,
+      amount REAL NOT NULL,
+      nonce INTEGER NOT NULL,
+      timestamp INTEGER NOT NULL,
+      signature TEXT NOT NULL,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Records waiting to be mined
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS chain_mempool (
+      id TEXT PRIMARY KEY,
+      record TEXT NOT NULL, -- JSON
+      receivedAt INTEGER NOT NULL
+    )
+  `);
+
+  // Salted identity claims backing selective-disclosure presentations
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS identity_claims (
+      digitalIdHash TEXT PRIMARY KEY,
+      disclosures TEXT NOT NULL, -- JSON array of [salt, name, value]
+      claimsRoot TEXT NOT NULL,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Create indexes
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+    CREATE INDEX IF NOT EXISTS idx_users_wallet ON users(walletAddress);
+    CREATE INDEX IF NOT EXISTS idx_identities_wallet ON digital_identities(walletAddress);
+    CREATE INDEX IF NOT EXISTS idx_identities_user ON digital_identities(userId);
+    CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(token);
+    CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(userId);
+    CREATE INDEX IF NOT EXISTS idx_digital_ids_user ON digital_ids(userId);
+    CREATE INDEX IF NOT EXISTS idx_digital_ids_wallet ON digital_ids(walletAddress);
+    CREATE INDEX IF NOT EXISTS idx_trips_user ON trips(userId);
+    CREATE INDEX IF NOT EXISTS idx_alerts_status ON alerts(status);
+    CREATE INDEX IF NOT EXISTS idx_alerts_user ON alerts(userId);
+    CREATE INDEX IF NOT EXISTS idx_chain_transactions_timestamp ON chain_transactions(timestamp);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_chain_transactions_nonce ON chain_transactions(fromAddress, nonce);
+  `);
+};
+
+export const down = (db: Database.Database) => {
+  db.exec(`
+    DROP TABLE IF EXISTS identity_claims;
+    DROP TABLE IF EXISTS chain_mempool;
+    DROP TABLE IF EXISTS chain_transactions;
+    DROP TABLE IF EXISTS chain_blocks;
+    DROP TABLE IF EXISTS alerts;
+    DROP TABLE IF EXISTS trips;
+    DROP TABLE IF EXISTS digital_ids;
+    DROP TABLE IF EXISTS sessions;
+    DROP TABLE IF EXISTS digital_identities;
+    DROP TABLE IF EXISTS users;
+  `);
+};
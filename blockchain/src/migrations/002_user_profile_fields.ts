@@ -0,0 +1,18 @@
+import Database from 'better-sqlite3';
+
+// Profile fields collected at registration, plus contacts for emergencies
+export const up = (db: Database.Database) => {
+  db.exec(`
+    ALTER TABLE users ADD COLUMN language TEXT DEFAULT 'en';
+    ALTER TABLE users ADD COLUMN nationality TEXT;
+    ALTER TABLE users ADD COLUMN emergencyContacts TEXT; -- JSON array
+  `);
+};
+
+export const down = (db: Database.Database) => {
+  db.exec(`
+    ALTER TABLE users DROP COLUMN emergencyContacts;
+    ALTER TABLE users DROP COLUMN nationality;
+    ALTER TABLE users DROP COLUMN language;
+  `);
+};
@@ -0,0 +1,30 @@
+import Database from 'better-sqlite3';
+
+// SOS details, officer assignment and escalation tracking on alerts
+export const up = (db: Database.Database) => {
+  db.exec(`
+    ALTER TABLE alerts ADD COLUMN digitalIdHash TEXT;
+    ALTER TABLE alerts ADD COLUMN battery REAL;
+    ALTER TABLE alerts ADD COLUMN reportedAt DATETIME;
+    ALTER TABLE alerts ADD COLUMN assignedTo TEXT;
+    ALTER TABLE alerts ADD COLUMN acknowledgeBy DATETIME;
+    ALTER TABLE alerts ADD COLUMN escalationLevel INTEGER DEFAULT 0;
+    ALTER TABLE alerts ADD COLUMN history TEXT; -- JSON array
+
+    CREATE INDEX IF NOT EXISTS idx_alerts_acknowledge_by ON alerts(acknowledgeBy);
+  `);
+};
+
+export const down = (db: Database.Database) => {
+  db.exec(`
+    DROP INDEX IF EXISTS idx_alerts_acknowledge_by;
+
+    ALTER TABLE alerts DROP COLUMN history;
+    ALTER TABLE alerts DROP COLUMN escalationLevel;
+    ALTER TABLE alerts DROP COLUMN acknowledgeBy;
+    ALTER TABLE alerts DROP COLUMN assignedTo;
+    ALTER TABLE alerts DROP COLUMN reportedAt;
+    ALTER TABLE alerts DROP COLUMN battery;
+    ALTER TABLE alerts DROP COLUMN digitalIdHash;
+  `);
+};
@@ -0,0 +1,32 @@
+import Database from 'better-sqlite3';
+
+// Geofence zones drawn on the police and tourism dashboards
+export const up = (db: Database.Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS zones (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      type TEXT NOT NULL CHECK (type IN ('safe', 'restricted', 'alert')),
+      shape TEXT NOT NULL CHECK (shape IN ('polygon', 'circle')),
+      coordinates TEXT NOT NULL, -- JSON array of { lat, lng }
+      radius REAL,
+      description TEXT NOT NULL DEFAULT '',
+      status TEXT NOT NULL DEFAULT 'active',
+      timeWindows TEXT, -- JSON array
+      dwellSeconds INTEGER,
+      createdBy TEXT NOT NULL,
+      createdByName TEXT NOT NULL,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_zones_status ON zones(status);
+  `);
+};
+
+export const down = (db: Database.Database) => {
+  db.exec(`
+    DROP INDEX IF EXISTS idx_zones_status;
+    DROP TABLE IF EXISTS zones;
+  `);
+};
@@ -0,0 +1,50 @@
+import Database from 'better-sqlite3';
+
+// Opt-in location pings from the tourist app and the audit trail of police access to them
+export const up = (db: Database.Database) => {
+  db.exec(`
+    ALTER TABLE users ADD COLUMN locationSharing BOOLEAN DEFAULT 0;
+    ALTER TABLE users ADD COLUMN locationPrecision TEXT DEFAULT 'coarse';
+
+    CREATE TABLE IF NOT EXISTS locations (
+      id TEXT PRIMARY KEY,
+      userId TEXT NOT NULL,
+      lat REAL NOT NULL,
+      lng REAL NOT NULL,
+      accuracy REAL,
+      precision TEXT NOT NULL CHECK (precision IN ('coarse', 'precise')),
+      recordedAt DATETIME NOT NULL,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_locations_user_recorded ON locations(userId, recordedAt);
+    CREATE INDEX IF NOT EXISTS idx_locations_recorded ON locations(recordedAt);
+
+    CREATE TABLE IF NOT EXISTS location_access_log (
+      id TEXT PRIMARY KEY,
+      touristId TEXT NOT NULL,
+      officerId TEXT NOT NULL,
+      officerName TEXT NOT NULL,
+      caseType TEXT NOT NULL,
+      caseId TEXT NOT NULL,
+      points INTEGER NOT NULL DEFAULT 0,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_location_access_tourist ON location_access_log(touristId);
+  `);
+};
+
+export const down = (db: Database.Database) => {
+  db.exec(`
+    DROP INDEX IF EXISTS idx_location_access_tourist;
+    DROP TABLE IF EXISTS location_access_log;
+
+    DROP INDEX IF EXISTS idx_locations_recorded;
+    DROP INDEX IF EXISTS idx_locations_user_recorded;
+    DROP TABLE IF EXISTS locations;
+
+    ALTER TABLE users DROP COLUMN locationPrecision;
+    ALTER TABLE users DROP COLUMN locationSharing;
+  `);
+};
@@ -0,0 +1,14 @@
+import Database from 'better-sqlite3';
+
+// Per-zone thresholds for the movement anomaly detector
+export const up = (db: Database.Database) => {
+  db.exec(`
+    ALTER TABLE zones ADD COLUMN anomalyThresholds TEXT; -- JSON object
+  `);
+};
+
+export const down = (db: Database.Database) => {
+  db.exec(`
+    ALTER TABLE zones DROP COLUMN anomalyThresholds;
+  `);
+};
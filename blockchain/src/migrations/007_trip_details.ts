@@ -0,0 +1,18 @@
+import Database from 'better-sqlite3';
+
+// Trip descriptions from the tourist app's new trip form
+export const up = (db: Database.Database) => {
+  db.exec(`
+    ALTER TABLE trips ADD COLUMN description TEXT DEFAULT '';
+
+    CREATE INDEX IF NOT EXISTS idx_trips_status ON trips(status);
+  `);
+};
+
+export const down = (db: Database.Database) => {
+  db.exec(`
+    DROP INDEX IF EXISTS idx_trips_status;
+
+    ALTER TABLE trips DROP COLUMN description;
+  `);
+};
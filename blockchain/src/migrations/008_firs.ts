@@ -0,0 +1,47 @@
+import Database from 'better-sqlite3';
+
+// Electronic FIRs, numbered per station and year, with their append-only history
+export const up = (db: Database.Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS firs (
+      id TEXT PRIMARY KEY,
+      firNumber TEXT NOT NULL UNIQUE,
+      station TEXT NOT NULL,
+      year INTEGER NOT NULL,
+      sequence INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      description TEXT NOT NULL,
+      incidentType TEXT NOT NULL,
+      severity TEXT NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+      status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'pending', 'approved', 'rejected', 'closed')),
+      reportedBy TEXT NOT NULL,
+      incidentDate DATETIME NOT NULL,
+      location TEXT NOT NULL,
+      coordinates TEXT, -- JSON
+      involvedPersons TEXT, -- JSON array
+      touristId TEXT,
+      source TEXT, -- JSON
+      assignedTo TEXT,
+      assignedOfficerName TEXT,
+      createdBy TEXT NOT NULL,
+      createdByName TEXT NOT NULL,
+      history TEXT, -- JSON array
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (station, year, sequence)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_firs_status ON firs(status);
+    CREATE INDEX IF NOT EXISTS idx_firs_tourist ON firs(touristId);
+    CREATE INDEX IF NOT EXISTS idx_firs_assigned ON firs(assignedTo);
+  `);
+};
+
+export const down = (db: Database.Database) => {
+  db.exec(`
+    DROP INDEX IF EXISTS idx_firs_assigned;
+    DROP INDEX IF EXISTS idx_firs_tourist;
+    DROP INDEX IF EXISTS idx_firs_status;
+    DROP TABLE IF EXISTS firs;
+  `);
+};
@@ -0,0 +1,35 @@
+import Database from 'better-sqlite3';
+
+// Evidence files for FIRs, stored on disk by SHA-256, with their chain of custody
+export const up = (db: Database.Database) => {
+  db.exec(`
+    ALTER TABLE firs ADD COLUMN evidence TEXT DEFAULT '[]'; -- JSON array
+
+    CREATE TABLE IF NOT EXISTS evidence (
+      id TEXT PRIMARY KEY,
+      firId TEXT NOT NULL,
+      sha256 TEXT NOT NULL,
+      fileName TEXT NOT NULL,
+      mimeType TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      hasThumbnail INTEGER DEFAULT 0,
+      uploadedBy TEXT NOT NULL,
+      uploadedByName TEXT NOT NULL,
+      custody TEXT, -- JSON array
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (firId, sha256)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_evidence_sha256 ON evidence(sha256);
+  `);
+};
+
+export const down = (db: Database.Database) => {
+  db.exec(`
+    DROP INDEX IF EXISTS idx_evidence_sha256;
+    DROP TABLE IF EXISTS evidence;
+
+    ALTER TABLE firs DROP COLUMN evidence;
+  `);
+};
@@ -0,0 +1,46 @@
+import Database from 'better-sqlite3';
+
+// Missing-person cases with their bulletins and append-only history
+export const up = (db: Database.Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS missing_persons (
+      id TEXT PRIMARY KEY,
+      caseNumber TEXT NOT NULL UNIQUE,
+      year INTEGER NOT NULL,
+      sequence INTEGER NOT NULL,
+      touristId TEXT NOT NULL,
+      touristName TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'searching' CHECK (status IN ('searching', 'sighted', 'found', 'closed')),
+      description TEXT NOT NULL,
+      reportedBy TEXT NOT NULL,
+      reportedByContact TEXT,
+      lastSeenAt DATETIME NOT NULL,
+      lastSeenPlace TEXT,
+      lastSeenLocation TEXT, -- JSON
+      photoSha256 TEXT,
+      firId TEXT,
+      firNumber TEXT,
+      assignedTo TEXT,
+      assignedOfficerName TEXT,
+      openedBy TEXT NOT NULL,
+      openedByName TEXT NOT NULL,
+      closedAt DATETIME,
+      bulletins TEXT, -- JSON array
+      history TEXT, -- JSON array
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (year, sequence)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_missing_persons_tourist ON missing_persons(touristId);
+    CREATE INDEX IF NOT EXISTS idx_missing_persons_status ON missing_persons(status);
+  `);
+};
+
+export const down = (db: Database.Database) => {
+  db.exec(`
+    DROP INDEX IF EXISTS idx_missing_persons_status;
+    DROP INDEX IF EXISTS idx_missing_persons_tourist;
+    DROP TABLE IF EXISTS missing_persons;
+  `);
+};
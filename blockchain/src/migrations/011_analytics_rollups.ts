@@ -0,0 +1,28 @@
+import Database from 'better-sqlite3';
+
+// Zone districts for analytics filters, and one stored rollup per local day
+export const up = (db: Database.Database) => {
+  db.exec(`
+    ALTER TABLE zones ADD COLUMN district TEXT;
+
+    CREATE TABLE IF NOT EXISTS analytics_rollups (
+      id TEXT PRIMARY KEY,
+      day TEXT NOT NULL UNIQUE,
+      start DATETIME NOT NULL,
+      scopes TEXT, -- JSON object
+      zones TEXT, -- JSON array
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_zones_district ON zones(district);
+  `);
+};
+
+export const down = (db: Database.Database) => {
+  db.exec(`
+    DROP INDEX IF EXISTS idx_zones_district;
+    DROP TABLE IF EXISTS analytics_rollups;
+    ALTER TABLE zones DROP COLUMN district;
+  `);
+};
@@ -0,0 +1,19 @@
+import Database from 'better-sqlite3';
+
+// Newly committed identity claims, held apart until their root is mined
+export const up = (db: Database.Database) => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS identity_claims_pending (
+      digitalIdHash TEXT PRIMARY KEY,
+      disclosures TEXT NOT NULL, -- JSON array of [salt, name, value]
+      claimsRoot TEXT NOT NULL,
+      createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+};
+
+export const down = (db: Database.Database) => {
+  db.exec(`
+    DROP TABLE IF EXISTS identity_claims_pending;
+  `);
+};
@@ -0,0 +1,14 @@
+import Database from 'better-sqlite3';
+
+// Stored rollups marked for another pass when an alert or FIR for their day changes
+export const up = (db: Database.Database) => {
+  db.exec(`
+    ALTER TABLE analytics_rollups ADD COLUMN stale BOOLEAN DEFAULT 0;
+  `);
+};
+
+export const down = (db: Database.Database) => {
+  db.exec(`
+    ALTER TABLE analytics_rollups DROP COLUMN stale;
+  `);
+};
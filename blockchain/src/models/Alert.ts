@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { AlertEvent } from '../repositories/types';
+
+export interface IAlert extends Document {
+  _id: string;
+  type: string;
+  severity: 'low' | 'moderate' | 'high' | 'critical';
+  status: 'active' | 'acknowledged' | 'investigating' | 'resolved';
+  userId?: string;
+  message: string;
+  location?: { lat: number; lng: number; accuracy?: number; address?: string };
+  data?: Record<string, unknown>;
+  digitalIdHash?: string;
+  battery?: number;
+  reportedAt?: Date;
+  assignedTo?: string;
+  acknowledgeBy?: Date;
+  escalationLevel: number;
+  history: AlertEvent[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AlertSchema = new Schema<IAlert>({
+  type: {
+    type: String,
+    required: [true, 'Alert type is required'],
+    index: true
+  },
+  severity: {
+    type: String,
+    enum: ['low', 'moderate', 'high', 'critical'],
+    default: 'moderate'
+  },
+  status: {
+    type: String,
+    enum: ['active', 'acknowledged', 'investigating', 'resolved'],
+    default: 'active',
+    index: true
+  },
+  userId: {
+    type: String,
+    index: true
+  },
+  message: {
+    type: String,
+    required: [true, 'Message is required'],
+    trim: true
+  },
+  location: {
+    lat: Number,
+    lng: Number,
+    accuracy: Number,
+    address: String
+  },
+  data: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  digitalIdHash: {
+    type: String,
+    index: true
+  },
+  battery: {
+    type: Number,
+    min: 0,
+    max: 100
+  },
+  reportedAt: Date,
+  assignedTo: {
+    type: String,
+    index: true
+  },
+  acknowledgeBy: {
+    type: Date,
+    index: true
+  },
+  escalationLevel: {
+    type: Number,
+    default: 0
+  },
+  history: {
+    type: Schema.Types.Mixed,
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+AlertSchema.index({ createdAt: -1 });
+
+export default mongoose.model<IAlert>('Alert', AlertSchema);
@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { AnalyticsHour, AnalyticsZone } from '../repositories/types';
+
+export interface IAnalyticsRollup extends Document {
+  _id: string;
+  day: string;
+  start: Date;
+  scopes: Record<string, Record<string, AnalyticsHour>>;
+  zones: AnalyticsZone[];
+  stale: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AnalyticsRollupSchema = new Schema<IAnalyticsRollup>({
+  day: {
+    type: String,
+    required: [true, 'Day is required'],
+    unique: true
+  },
+  start: {
+    type: Date,
+    required: true
+  },
+  scopes: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  zones: {
+    type: Schema.Types.Mixed,
+    default: []
+  },
+  stale: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true,
+  minimize: false
+});
+
+export default mongoose.model<IAnalyticsRollup>('AnalyticsRollup', AnalyticsRollupSchema, 'analytics_rollups');
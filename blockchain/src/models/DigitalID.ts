@@ -10,6 +10,9 @@ export interface IDigitalID extends Document {
   timestamp: number;
   hash: string;
   verified: boolean;
+  status: 'pending' | 'verified' | 'suspended' | 'revoked' | 'expired';
+  statusReason?: string;
+  expiresAt?: Date;
   additionalData?: any;
   createdAt: Date;
   updatedAt: Date;
@@ -68,6 +71,20 @@ const DigitalIDSchema = new Schema<IDigitalID>({
     default: false,
     index: true
   },
+  status: {
+    type: String,
+    enum: ['pending', 'verified', 'suspended', 'revoked', 'expired'],
+    default: 'pending',
+    index: true
+  },
+  statusReason: {
+    type: String,
+    trim: true
+  },
+  expiresAt: {
+    type: Date,
+    index: true
+  },
   additionalData: {
     type: Schema.Types.Mixed,
     default: {}
@@ -76,10 +93,11 @@ const DigitalIDSchema = new Schema<IDigitalID>({
   timestamps: true,
   toJSON: {
     transform: function(doc, ret) {
-      ret.id = ret._id;
-      delete ret._id;
-      delete ret.__v;
-      return ret;
+      const json = ret as { id?: unknown; _id?: unknown; __v?: unknown };
+      json.id = json._id;
+      delete json._id;
+      delete json.__v;
+      return json;
     }
   }
 });
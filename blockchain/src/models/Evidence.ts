@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CustodyEvent } from '../repositories/types';
+
+export interface IEvidence extends Document {
+  _id: string;
+  firId: string;
+  sha256: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  hasThumbnail: boolean;
+  uploadedBy: string;
+  uploadedByName: string;
+  custody: CustodyEvent[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EvidenceSchema = new Schema<IEvidence>({
+  firId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  sha256: {
+    type: String,
+    required: true,
+    index: true
+  },
+  fileName: {
+    type: String,
+    required: true
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  hasThumbnail: {
+    type: Boolean,
+    default: false
+  },
+  uploadedBy: {
+    type: String,
+    required: true
+  },
+  uploadedByName: {
+    type: String,
+    required: true
+  },
+  custody: {
+    type: Schema.Types.Mixed,
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+EvidenceSchema.index({ firId: 1, sha256: 1 }, { unique: true });
+
+export default mongoose.model<IEvidence>('Evidence', EvidenceSchema, 'evidence');
@@ -0,0 +1,136 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { FIREvent } from '../repositories/types';
+
+export interface IFIR extends Document {
+  _id: string;
+  firNumber: string;
+  station: string;
+  year: number;
+  sequence: number;
+  title: string;
+  description: string;
+  incidentType: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  status: 'draft' | 'pending' | 'approved' | 'rejected' | 'closed';
+  reportedBy: string;
+  incidentDate: Date;
+  location: string;
+  coordinates?: { lat: number; lng: number } | null;
+  involvedPersons: string[];
+  touristId?: string | null;
+  source?: { type: 'alert' | 'missing_tourist'; id: string } | null;
+  assignedTo?: string | null;
+  assignedOfficerName?: string | null;
+  createdBy: string;
+  createdByName: string;
+  evidence: { evidenceId: string; sha256: string; fileName: string; mimeType: string; size: number }[];
+  history: FIREvent[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FIRSchema = new Schema<IFIR>({
+  firNumber: {
+    type: String,
+    required: [true, 'FIR number is required'],
+    unique: true
+  },
+  station: {
+    type: String,
+    required: [true, 'Station is required'],
+    trim: true
+  },
+  year: {
+    type: Number,
+    required: true
+  },
+  sequence: {
+    type: Number,
+    required: true
+  },
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    trim: true,
+    maxlength: [200, 'Title cannot exceed 200 characters']
+  },
+  description: {
+    type: String,
+    required: [true, 'Description is required'],
+    trim: true
+  },
+  incidentType: {
+    type: String,
+    required: [true, 'Incident type is required'],
+    index: true
+  },
+  severity: {
+    type: String,
+    enum: ['low', 'medium', 'high', 'critical'],
+    default: 'medium'
+  },
+  status: {
+    type: String,
+    enum: ['draft', 'pending', 'approved', 'rejected', 'closed'],
+    default: 'draft',
+    index: true
+  },
+  reportedBy: {
+    type: String,
+    required: [true, 'Reporter is required'],
+    trim: true
+  },
+  incidentDate: {
+    type: Date,
+    required: [true, 'Incident date is required']
+  },
+  location: {
+    type: String,
+    required: [true, 'Location is required'],
+    trim: true
+  },
+  coordinates: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  involvedPersons: {
+    type: [String],
+    default: []
+  },
+  touristId: {
+    type: String,
+    index: true
+  },
+  source: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  assignedTo: {
+    type: String,
+    index: true
+  },
+  assignedOfficerName: String,
+  createdBy: {
+    type: String,
+    required: true
+  },
+  createdByName: {
+    type: String,
+    required: true
+  },
+  evidence: {
+    type: Schema.Types.Mixed,
+    default: []
+  },
+  history: {
+    type: Schema.Types.Mixed,
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+FIRSchema.index({ station: 1, year: 1, sequence: 1 }, { unique: true });
+FIRSchema.index({ createdAt: -1 });
+
+export default mongoose.model<IFIR>('FIR', FIRSchema, 'firs');
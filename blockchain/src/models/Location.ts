@@ -0,0 +1,45 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ILocation extends Document {
+  _id: string;
+  userId: string;
+  lat: number;
+  lng: number;
+  accuracy?: number;
+  precision: 'coarse' | 'precise';
+  recordedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LocationSchema = new Schema<ILocation>({
+  userId: {
+    type: String,
+    required: [true, 'User ID is required']
+  },
+  lat: {
+    type: Number,
+    required: [true, 'Latitude is required']
+  },
+  lng: {
+    type: Number,
+    required: [true, 'Longitude is required']
+  },
+  accuracy: Number,
+  precision: {
+    type: String,
+    enum: ['coarse', 'precise'],
+    required: true
+  },
+  recordedAt: {
+    type: Date,
+    required: [true, 'Recorded time is required']
+  }
+}, {
+  timestamps: true
+});
+
+LocationSchema.index({ userId: 1, recordedAt: -1 });
+LocationSchema.index({ recordedAt: 1 });
+
+export default mongoose.model<ILocation>('Location', LocationSchema);
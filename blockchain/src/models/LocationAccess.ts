@@ -0,0 +1,47 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ILocationAccess extends Document {
+  _id: string;
+  touristId: string;
+  officerId: string;
+  officerName: string;
+  caseType: 'sos' | 'fir' | 'missing';
+  caseId: string;
+  points: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const LocationAccessSchema = new Schema<ILocationAccess>({
+  touristId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  officerId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  officerName: {
+    type: String,
+    required: true
+  },
+  caseType: {
+    type: String,
+    enum: ['sos', 'fir', 'missing'],
+    required: true
+  },
+  caseId: {
+    type: String,
+    required: true
+  },
+  points: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+export default mongoose.model<ILocationAccess>('LocationAccess', LocationAccessSchema, 'location_access_log');
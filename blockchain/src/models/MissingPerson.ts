@@ -0,0 +1,116 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { MissingPersonBulletin, MissingPersonEvent } from '../repositories/types';
+
+export interface IMissingPerson extends Document {
+  _id: string;
+  caseNumber: string;
+  year: number;
+  sequence: number;
+  touristId: string;
+  touristName: string;
+  status: 'searching' | 'sighted' | 'found' | 'closed';
+  description: string;
+  reportedBy: string;
+  reportedByContact?: string | null;
+  lastSeenAt: Date;
+  lastSeenPlace?: string | null;
+  lastSeenLocation?: { lat: number; lng: number } | null;
+  photoSha256?: string | null;
+  firId?: string | null;
+  firNumber?: string | null;
+  assignedTo?: string | null;
+  assignedOfficerName?: string | null;
+  openedBy: string;
+  openedByName: string;
+  closedAt?: Date | null;
+  bulletins: MissingPersonBulletin[];
+  history: MissingPersonEvent[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MissingPersonSchema = new Schema<IMissingPerson>({
+  caseNumber: {
+    type: String,
+    required: [true, 'Case number is required'],
+    unique: true
+  },
+  year: {
+    type: Number,
+    required: true
+  },
+  sequence: {
+    type: Number,
+    required: true
+  },
+  touristId: {
+    type: String,
+    required: [true, 'Tourist is required'],
+    index: true
+  },
+  touristName: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['searching', 'sighted', 'found', 'closed'],
+    default: 'searching',
+    index: true
+  },
+  description: {
+    type: String,
+    required: [true, 'Description is required'],
+    trim: true
+  },
+  reportedBy: {
+    type: String,
+    required: [true, 'Reporter is required'],
+    trim: true
+  },
+  reportedByContact: String,
+  lastSeenAt: {
+    type: Date,
+    required: [true, 'Last seen time is required']
+  },
+  lastSeenPlace: String,
+  lastSeenLocation: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  photoSha256: String,
+  firId: {
+    type: String,
+    index: true
+  },
+  firNumber: String,
+  assignedTo: {
+    type: String,
+    index: true
+  },
+  assignedOfficerName: String,
+  openedBy: {
+    type: String,
+    required: true
+  },
+  openedByName: {
+    type: String,
+    required: true
+  },
+  closedAt: Date,
+  bulletins: {
+    type: Schema.Types.Mixed,
+    default: []
+  },
+  history: {
+    type: Schema.Types.Mixed,
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+MissingPersonSchema.index({ year: 1, sequence: 1 }, { unique: true });
+MissingPersonSchema.index({ createdAt: -1 });
+
+export default mongoose.model<IMissingPerson>('MissingPerson', MissingPersonSchema, 'missing_persons');
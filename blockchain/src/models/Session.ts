@@ -0,0 +1,34 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISession extends Document {
+  _id: string;
+  userId: string;
+  token: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema = new Schema<ISession>({
+  userId: {
+    type: String,
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  token: {
+    type: String,
+    required: [true, 'Token is required'],
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry is required']
+  }
+}, {
+  timestamps: true
+});
+
+// Let MongoDB drop sessions once they expire
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>('Session', SessionSchema);
@@ -0,0 +1,130 @@
+import { getDatabase } from '../config/sqlite';
+import { Block, Transaction } from '../services/simpleBlockchain';
+import { MempoolEntry } from '../services/mempool';
+
+interface BlockRow {
+  blockIndex: number;
+  timestamp: number;
+  records: string;
+  merkleRoot: string;
+  previousHash: string;
+  difficulty: number;
+  hash: string;
+  nonce: number;
+}
+
+interface TransactionRow {
+  id: string;
+  fromAddress: string;
+  toAddress: string;
+  amount: number;
+  nonce: number;
+  timestamp: number;
+  signature: string;
+}
+
+interface MempoolRow {
+  id: string;
+  record: string;
+  receivedAt: number;
+}
+
+export class SqliteChain {
+  private db = getDatabase();
+
+  /**
+   * Save a block and drop the mempool entries it sealed in one transaction
+   */
+  saveBlock(block: Block, mempoolEntryIds: string[] = []): void {
+    const insertBlock = this.db.prepare(`
+      INSERT INTO chain_blocks (blockIndex, timestamp, records, merkleRoot, previousHash, difficulty, hash, nonce)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const deleteEntry = this.db.prepare('DELETE FROM chain_mempool WHERE id = ?');
+
+    this.db.transaction(() => {
+      insertBlock.run(
+        block.index,
+        block.timestamp,
+        JSON.stringify(block.records),
+        block.merkleRoot,
+        block.previousHash,
+        block.difficulty,
+        block.hash,
+        block.nonce
+      );
+      mempoolEntryIds.forEach(id => deleteEntry.run(id));
+    })();
+  }
+
+  getBlocks(): Block[] {
+    const stmt = this.db.prepare('SELECT * FROM chain_blocks ORDER BY blockIndex ASC');
+    const rows = stmt.all() as BlockRow[];
+
+    return rows.map(row => ({
+      index: row.blockIndex,
+      timestamp: row.timestamp,
+      records: JSON.parse(row.records),
+      merkleRoot: row.merkleRoot,
+      previousHash: row.previousHash,
+      difficulty: row.difficulty,
+      hash: row.hash,
+      nonce: row.nonce
+    }));
+  }
+
+  saveTransaction(transaction: Transaction): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO chain_transactions (id, fromAddress, toAddress, amount, nonce, timestamp, signature)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      transaction.id,
+      transaction.from,
+      transaction.to,
+      transaction.amount,
+      transaction.nonce,
+      transaction.timestamp,
+      transaction.signature
+    );
+  }
+
+  getTransactions(): Transaction[] {
+    const stmt = this.db.prepare('SELECT * FROM chain_transactions ORDER BY timestamp ASC');
+    const rows = stmt.all() as TransactionRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      from: row.fromAddress,
+      to: row.toAddress,
+      amount: row.amount,
+      nonce: row.nonce,
+      timestamp: row.timestamp,
+      signature: row.signature,
+      status: 'pending' as const // confirmed against the chain on load
+    }));
+  }
+
+  saveMempoolEntry(entry: MempoolEntry): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO chain_mempool (id, record, receivedAt)
+      VALUES (?, ?, ?)
+    `);
+
+    stmt.run(entry.id, JSON.stringify(entry.record), entry.receivedAt);
+  }
+
+  getMempoolEntries(): MempoolEntry[] {
+    const stmt = this.db.prepare('SELECT * FROM chain_mempool ORDER BY receivedAt ASC');
+    const rows = stmt.all() as MempoolRow[];
+
+    return rows.map(row => ({
+      id: row.id,
+      record: JSON.parse(row.record),
+      receivedAt: row.receivedAt
+    }));
+  }
+}
+
+export const sqliteChain = new SqliteChain();
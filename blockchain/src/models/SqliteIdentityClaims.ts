@@ -0,0 +1,75 @@
+import { getDatabase } from '../config/sqlite';
+import { ClaimDisclosure } from '../services/selectiveDisclosure';
+
+export interface IdentityClaimsRecord {
+  digitalIdHash: string;
+  disclosures: ClaimDisclosure[];
+  claimsRoot: string;
+}
+
+interface IdentityClaimsRow {
+  digitalIdHash: string;
+  disclosures: string;
+  claimsRoot: string;
+}
+
+const fromRow = (row: IdentityClaimsRow | undefined): IdentityClaimsRecord | null => {
+  if (!row) return null;
+
+  return {
+    digitalIdHash: row.digitalIdHash,
+    disclosures: JSON.parse(row.disclosures),
+    claimsRoot: row.claimsRoot
+  };
+};
+
+export class SqliteIdentityClaims {
+  private db = getDatabase();
+
+  /**
+   * Hold newly salted claims for a digital ID until their root is mined,
+   * replacing any earlier commitment that is still waiting
+   */
+  savePending(record: IdentityClaimsRecord): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO identity_claims_pending (digitalIdHash, disclosures, claimsRoot)
+      VALUES (?, ?, ?)
+      ON CONFLICT(digitalIdHash) DO UPDATE SET
+        disclosures = excluded.disclosures,
+        claimsRoot = excluded.claimsRoot,
+        createdAt = CURRENT_TIMESTAMP
+    `);
+
+    stmt.run(record.digitalIdHash, JSON.stringify(record.disclosures), record.claimsRoot);
+  }
+
+  findPending(digitalIdHash: string): IdentityClaimsRecord | null {
+    const stmt = this.db.prepare('SELECT * FROM identity_claims_pending WHERE digitalIdHash = ?');
+    return fromRow(stmt.get(digitalIdHash) as IdentityClaimsRow | undefined);
+  }
+
+  /**
+   * Replace the claims for a digital ID with its pending ones, once their
+   * root is on the chain
+   */
+  confirm(digitalIdHash: string): void {
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO identity_claims (digitalIdHash, disclosures, claimsRoot)
+        SELECT digitalIdHash, disclosures, claimsRoot FROM identity_claims_pending WHERE digitalIdHash = ?
+        ON CONFLICT(digitalIdHash) DO UPDATE SET
+          disclosures = excluded.disclosures,
+          claimsRoot = excluded.claimsRoot,
+          updatedAt = CURRENT_TIMESTAMP
+      `).run(digitalIdHash);
+      this.db.prepare('DELETE FROM identity_claims_pending WHERE digitalIdHash = ?').run(digitalIdHash);
+    })();
+  }
+
+  findByDigitalIdHash(digitalIdHash: string): IdentityClaimsRecord | null {
+    const stmt = this.db.prepare('SELECT * FROM identity_claims WHERE digitalIdHash = ?');
+    return fromRow(stmt.get(digitalIdHash) as IdentityClaimsRow | undefined);
+  }
+}
+
+export const sqliteIdentityClaims = new SqliteIdentityClaims();
@@ -0,0 +1,77 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ITrip extends Document {
+  _id: string;
+  userId: string;
+  title: string;
+  description?: string;
+  status: 'planned' | 'active' | 'completed' | 'cancelled';
+  startDate: Date;
+  endDate: Date;
+  destinations: {
+    id: string;
+    name: string;
+    time: string;
+    notes?: string;
+    lat?: number | null;
+    lng?: number | null;
+    status: 'upcoming' | 'completed';
+    completedAt?: string | null;
+    warnings?: {
+      kind: string;
+      severity: 'low' | 'moderate' | 'high';
+      message: string;
+      zoneId?: string;
+    }[];
+  }[];
+  members: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TripSchema = new Schema<ITrip>({
+  userId: {
+    type: String,
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    trim: true,
+    maxlength: [200, 'Title cannot exceed 200 characters']
+  },
+  description: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['planned', 'active', 'completed', 'cancelled'],
+    default: 'planned',
+    index: true
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required']
+  },
+  endDate: {
+    type: Date,
+    required: [true, 'End date is required']
+  },
+  destinations: {
+    type: Schema.Types.Mixed,
+    default: []
+  },
+  members: {
+    type: [String],
+    default: []
+  }
+}, {
+  timestamps: true
+});
+
+TripSchema.index({ userId: 1, status: 1 });
+
+export default mongoose.model<ITrip>('Trip', TripSchema);
@@ -8,6 +8,11 @@ export interface IUser extends Document {
   password: string;
   role: 'admin' | 'police' | 'tourism' | 'tourist';
   walletAddress?: string;
+  language?: string;
+  nationality?: string;
+  emergencyContacts?: { name: string; phone: string; relation?: string }[];
+  locationSharing: boolean;
+  locationPrecision: 'coarse' | 'precise';
   isActive: boolean;
   lastLogin?: Date;
   createdAt: Date;
@@ -55,6 +60,29 @@ const UserSchema = new Schema<IUser>({
       message: 'Invalid wallet address format'
     }
   },
+  language: {
+    type: String,
+    default: 'en'
+  },
+  nationality: {
+    type: String,
+    trim: true
+  },
+  emergencyContacts: [{
+    _id: false,
+    name: { type: String, required: true, trim: true },
+    phone: { type: String, required: true, trim: true },
+    relation: { type: String, trim: true }
+  }],
+  locationSharing: {
+    type: Boolean,
+    default: false
+  },
+  locationPrecision: {
+    type: String,
+    enum: ['coarse', 'precise'],
+    default: 'coarse'
+  },
   isActive: {
     type: Boolean,
     default: true
@@ -66,7 +94,7 @@ const UserSchema = new Schema<IUser>({
   timestamps: true,
   toJSON: {
     transform: function(doc, ret) {
-      delete ret.password;
+      delete (ret as { password?: string }).password;
       return ret;
     }
   }
@@ -77,18 +105,7 @@ UserSchema.index({ role: 1 });
 UserSchema.index({ isActive: 1 });
 UserSchema.index({ createdAt: -1 });
 
-// Hash password before saving
-UserSchema.pre('save', async function(next) {
-  if (!this.isModified('password')) return next();
-  
-  try {
-    const salt = await bcrypt.genSalt(12);
-    this.password = await bcrypt.hash(this.password, salt);
-    next();
-  } catch (error: any) {
-    next(error);
-  }
-});
+// Passwords are hashed by the user repository before they reach the model
 
 // Compare password method
 UserSchema.methods.comparePassword = async function(candidatePassword: string): Promise<boolean> {
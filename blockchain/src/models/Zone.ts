@@ -0,0 +1,87 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IZone extends Document {
+  _id: string;
+  name: string;
+  type: 'safe' | 'restricted' | 'alert';
+  shape: 'polygon' | 'circle';
+  coordinates: { lat: number; lng: number }[];
+  radius?: number;
+  description: string;
+  district?: string;
+  status: 'active' | 'inactive';
+  timeWindows?: { start: string; end: string; days?: number[] }[];
+  dwellSeconds?: number;
+  anomalyThresholds?: {
+    inactivityMinutes?: number;
+    maxSpeedKmh?: number;
+    signalLossMinutes?: number;
+    deviationKm?: number;
+  };
+  createdBy: string;
+  createdByName: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ZoneSchema = new Schema<IZone>({
+  name: {
+    type: String,
+    required: [true, 'Zone name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  type: {
+    type: String,
+    enum: ['safe', 'restricted', 'alert'],
+    required: [true, 'Zone type is required']
+  },
+  shape: {
+    type: String,
+    enum: ['polygon', 'circle'],
+    required: [true, 'Zone shape is required']
+  },
+  coordinates: {
+    type: [{ lat: Number, lng: Number, _id: false }],
+    required: [true, 'Coordinates are required']
+  },
+  radius: Number,
+  description: {
+    type: String,
+    default: '',
+    trim: true
+  },
+  district: {
+    type: String,
+    default: null,
+    trim: true,
+    index: true
+  },
+  status: {
+    type: String,
+    enum: ['active', 'inactive'],
+    default: 'active',
+    index: true
+  },
+  timeWindows: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  dwellSeconds: Number,
+  anomalyThresholds: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  createdBy: {
+    type: String,
+    required: true
+  },
+  createdByName: {
+    type: String,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+export default mongoose.model<IZone>('Zone', ZoneSchema);
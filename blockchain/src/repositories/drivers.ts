@@ -0,0 +1,161 @@
+import User, { IUser } from '../models/User';
+import DigitalID, { IDigitalID } from '../models/DigitalID';
+import Session, { ISession } from '../models/Session';
+import Trip, { ITrip } from '../models/Trip';
+import Alert, { IAlert } from '../models/Alert';
+import Zone, { IZone } from '../models/Zone';
+import Location, { ILocation } from '../models/Location';
+import LocationAccess, { ILocationAccess } from '../models/LocationAccess';
+import FIR, { IFIR } from '../models/FIR';
+import Evidence, { IEvidence } from '../models/Evidence';
+import MissingPerson, { IMissingPerson } from '../models/MissingPerson';
+import AnalyticsRollup, { IAnalyticsRollup } from '../models/AnalyticsRollup';
+import { MemoryCollection } from './memoryCollection';
+import { MongoCollection } from './mongoCollection';
+import { SqliteCollection } from './sqliteCollection';
+import {
+  AlertRecord,
+  AnalyticsRollupRecord,
+  DigitalIDRecord,
+  EvidenceRecord,
+  FIRRecord,
+  LocationAccessRecord,
+  LocationRecord,
+  MissingPersonRecord,
+  SessionRecord,
+  StorageDriver,
+  StoredUserRecord,
+  TripRecord,
+  ZoneRecord
+} from './types';
+
+export const createMemoryDriver = (): StorageDriver => ({
+  name: 'memory',
+  users: new MemoryCollection<StoredUserRecord>(),
+  digitalIDs: new MemoryCollection<DigitalIDRecord>(),
+  sessions: new MemoryCollection<SessionRecord>(),
+  trips: new MemoryCollection<TripRecord>(),
+  alerts: new MemoryCollection<AlertRecord>(),
+  zones: new MemoryCollection<ZoneRecord>(),
+  locations: new MemoryCollection<LocationRecord>(),
+  locationAccess: new MemoryCollection<LocationAccessRecord>(),
+  firs: new MemoryCollection<FIRRecord>(),
+  evidence: new MemoryCollection<EvidenceRecord>(),
+  missingPersons: new MemoryCollection<MissingPersonRecord>(),
+  analyticsRollups: new MemoryCollection<AnalyticsRollupRecord>()
+});
+
+export const createMongoDriver = (): StorageDriver => ({
+  name: 'mongo',
+  users: new MongoCollection<StoredUserRecord, IUser>(User, ['password']),
+  digitalIDs: new MongoCollection<DigitalIDRecord, IDigitalID>(DigitalID),
+  sessions: new MongoCollection<SessionRecord, ISession>(Session),
+  trips: new MongoCollection<TripRecord, ITrip>(Trip),
+  alerts: new MongoCollection<AlertRecord, IAlert>(Alert),
+  zones: new MongoCollection<ZoneRecord, IZone>(Zone),
+  locations: new MongoCollection<LocationRecord, ILocation>(Location),
+  locationAccess: new MongoCollection<LocationAccessRecord, ILocationAccess>(LocationAccess),
+  firs: new MongoCollection<FIRRecord, IFIR>(FIR),
+  evidence: new MongoCollection<EvidenceRecord, IEvidence>(Evidence),
+  missingPersons: new MongoCollection<MissingPersonRecord, IMissingPerson>(MissingPerson),
+  analyticsRollups: new MongoCollection<AnalyticsRollupRecord, IAnalyticsRollup>(AnalyticsRollup)
+});
+
+export const createSqliteDriver = (): StorageDriver => ({
+  name: 'sqlite',
+  users: new SqliteCollection<StoredUserRecord>({
+    table: 'users',
+    columns: [
+      'name', 'email', 'password', 'role', 'walletAddress', 'language', 'nationality',
+      'emergencyContacts', 'locationSharing', 'locationPrecision', 'isActive', 'lastLogin'
+    ],
+    jsonColumns: ['emergencyContacts'],
+    dateColumns: ['lastLogin'],
+    booleanColumns: ['locationSharing', 'isActive']
+  }),
+  digitalIDs: new SqliteCollection<DigitalIDRecord>({
+    table: 'digital_ids',
+    columns: [
+      'userId', 'name', 'email', 'role', 'walletAddress', 'timestamp', 'hash',
+      'verified', 'status', 'statusReason', 'expiresAt', 'additionalData'
+    ],
+    jsonColumns: ['additionalData'],
+    dateColumns: ['expiresAt'],
+    booleanColumns: ['verified']
+  }),
+  sessions: new SqliteCollection<SessionRecord>({
+    table: 'sessions',
+    columns: ['userId', 'token', 'expiresAt'],
+    dateColumns: ['expiresAt'],
+    hasUpdatedAt: false
+  }),
+  trips: new SqliteCollection<TripRecord>({
+    table: 'trips',
+    columns: ['userId', 'title', 'description', 'status', 'startDate', 'endDate', 'destinations', 'members'],
+    jsonColumns: ['destinations', 'members'],
+    dateColumns: ['startDate', 'endDate']
+  }),
+  alerts: new SqliteCollection<AlertRecord>({
+    table: 'alerts',
+    columns: [
+      'type', 'severity', 'status', 'userId', 'message', 'location', 'data', 'digitalIdHash',
+      'battery', 'reportedAt', 'assignedTo', 'acknowledgeBy', 'escalationLevel', 'history'
+    ],
+    jsonColumns: ['location', 'data', 'history'],
+    dateColumns: ['reportedAt', 'acknowledgeBy']
+  }),
+  zones: new SqliteCollection<ZoneRecord>({
+    table: 'zones',
+    columns: [
+      'name', 'type', 'shape', 'coordinates', 'radius', 'description', 'district', 'status', 'timeWindows',
+      'dwellSeconds', 'anomalyThresholds', 'createdBy', 'createdByName'
+    ],
+    jsonColumns: ['coordinates', 'timeWindows', 'anomalyThresholds']
+  }),
+  locations: new SqliteCollection<LocationRecord>({
+    table: 'locations',
+    columns: ['userId', 'lat', 'lng', 'accuracy', 'precision', 'recordedAt'],
+    dateColumns: ['recordedAt'],
+    hasUpdatedAt: false
+  }),
+  locationAccess: new SqliteCollection<LocationAccessRecord>({
+    table: 'location_access_log',
+    columns: ['touristId', 'officerId', 'officerName', 'caseType', 'caseId', 'points'],
+    hasUpdatedAt: false
+  }),
+  firs: new SqliteCollection<FIRRecord>({
+    table: 'firs',
+    columns: [
+      'firNumber', 'station', 'year', 'sequence', 'title', 'description', 'incidentType', 'severity',
+      'status', 'reportedBy', 'incidentDate', 'location', 'coordinates', 'involvedPersons', 'touristId',
+      'source', 'assignedTo', 'assignedOfficerName', 'createdBy', 'createdByName', 'evidence', 'history'
+    ],
+    jsonColumns: ['coordinates', 'involvedPersons', 'source', 'evidence', 'history'],
+    dateColumns: ['incidentDate']
+  }),
+  evidence: new SqliteCollection<EvidenceRecord>({
+    table: 'evidence',
+    columns: [
+      'firId', 'sha256', 'fileName', 'mimeType', 'size', 'hasThumbnail', 'uploadedBy', 'uploadedByName', 'custody'
+    ],
+    jsonColumns: ['custody'],
+    booleanColumns: ['hasThumbnail']
+  }),
+  missingPersons: new SqliteCollection<MissingPersonRecord>({
+    table: 'missing_persons',
+    columns: [
+      'caseNumber', 'year', 'sequence', 'touristId', 'touristName', 'status', 'description', 'reportedBy',
+      'reportedByContact', 'lastSeenAt', 'lastSeenPlace', 'lastSeenLocation', 'photoSha256', 'firId', 'firNumber',
+      'assignedTo', 'assignedOfficerName', 'openedBy', 'openedByName', 'closedAt', 'bulletins', 'history'
+    ],
+    jsonColumns: ['lastSeenLocation', 'bulletins', 'history'],
+    dateColumns: ['lastSeenAt', 'closedAt']
+  }),
+  analyticsRollups: new SqliteCollection<AnalyticsRollupRecord>({
+    table: 'analytics_rollups',
+    columns: ['day', 'start', 'scopes', 'zones', 'stale'],
+    jsonColumns: ['scopes', 'zones'],
+    dateColumns: ['start'],
+    booleanColumns: ['stale']
+  })
+});
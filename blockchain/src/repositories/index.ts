@@ -0,0 +1,106 @@
+import connectDB from '../config/database';
+import { logger } from '../utils/logger';
+import { createMemoryDriver, createMongoDriver, createSqliteDriver } from './drivers';
+import { UserRepository } from './userRepository';
+import {
+  AlertRecord,
+  AnalyticsRollupRecord,
+  Collection,
+  DigitalIDRecord,
+  EvidenceRecord,
+  FIRRecord,
+  LocationAccessRecord,
+  LocationRecord,
+  MissingPersonRecord,
+  SessionRecord,
+  StorageDriverName,
+  TripRecord,
+  ZoneRecord
+} from './types';
+
+export * from './types';
+export { UserRepository } from './userRepository';
+
+export interface Repositories {
+  driver: StorageDriverName;
+  users: UserRepository;
+  digitalIDs: Collection<DigitalIDRecord>;
+  sessions: Collection<SessionRecord>;
+  trips: Collection<TripRecord>;
+  alerts: Collection<AlertRecord>;
+  zones: Collection<ZoneRecord>;
+  locations: Collection<LocationRecord>;
+  locationAccess: Collection<LocationAccessRecord>;
+  firs: Collection<FIRRecord>;
+  evidence: Collection<EvidenceRecord>;
+  missingPersons: Collection<MissingPersonRecord>;
+  analyticsRollups: Collection<AnalyticsRollupRecord>;
+}
+
+const DRIVERS: StorageDriverName[] = ['mongo', 'sqlite', 'memory'];
+
+let repositories: Repositories | null = null;
+
+const parseDriverName = (value: string | undefined, fallback: StorageDriverName): StorageDriverName => {
+  if (!value) return fallback;
+
+  if (!DRIVERS.includes(value as StorageDriverName)) {
+    throw new Error(`Unknown storage driver "${value}"; expected one of ${DRIVERS.join(', ')}`);
+  }
+
+  return value as StorageDriverName;
+};
+
+const selectDriver = (name: StorageDriverName): Repositories => {
+  const driver = name === 'mongo'
+    ? createMongoDriver()
+    : name === 'sqlite'
+      ? createSqliteDriver()
+      : createMemoryDriver();
+
+  repositories = {
+    driver: driver.name,
+    users: new UserRepository(driver.users),
+    digitalIDs: driver.digitalIDs,
+    sessions: driver.sessions,
+    trips: driver.trips,
+    alerts: driver.alerts,
+    zones: driver.zones,
+    locations: driver.locations,
+    locationAccess: driver.locationAccess,
+    firs: driver.firs,
+    evidence: driver.evidence,
+    missingPersons: driver.missingPersons,
+    analyticsRollups: driver.analyticsRollups
+  };
+
+  return repositories;
+};
+
+/**
+ * Select the storage driver from STORAGE_DRIVER (mongo, sqlite or memory).
+ * If MongoDB is selected but unreachable, STORAGE_FALLBACK_DRIVER is used.
+ */
+export const initializeStorage = async (): Promise<Repositories> => {
+  const selected = parseDriverName(process.env.STORAGE_DRIVER, 'mongo');
+
+  if (selected === 'mongo') {
+    const mongoConnected = await connectDB();
+
+    if (!mongoConnected) {
+      const fallback = parseDriverName(process.env.STORAGE_FALLBACK_DRIVER, 'sqlite');
+      logger.warn(`⚠️  MongoDB unavailable - falling back to ${fallback} storage`);
+      return selectDriver(fallback);
+    }
+  }
+
+  return selectDriver(selected);
+};
+
+export const getStorage = (): Repositories => {
+  if (!repositories) {
+    throw new Error('Storage has not been initialized');
+  }
+
+  return repositories;
+};
@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import { BaseRecord, Collection, FindOptions, NewRecord, RecordFilter } from './types';
+
+export const matchesFilter = <T>(record: T, filter: RecordFilter<T> = {}): boolean => {
+  return Object.entries(filter).every(([key, value]) => {
+    if (value === undefined) return true;
+    return record[key as keyof T] === value;
+  });
+};
+
+export const sortRecords = <T>(records: T[], options: FindOptions<T> = {}): T[] => {
+  const { sort, order = 'asc', limit } = options;
+  let sorted = records;
+
+  if (sort) {
+    const direction = order === 'desc' ? -1 : 1;
+    // Dates compare by time; other sortable fields are strings or numbers
+    const sortValue = (record: T) => {
+      const value: unknown = record[sort];
+      return (value instanceof Date ? value.getTime() : value) as string | number;
+    };
+
+    sorted = [...records].sort((a, b) => {
+      const left = sortValue(a);
+      const right = sortValue(b);
+      if (left === right) return 0;
+      return left > right ? direction : -direction;
+    });
+  }
+
+  return limit ? sorted.slice(0, limit) : sorted;
+};
+
+/**
+ * Map-backed collection; data lives only as long as the process
+ */
+export class MemoryCollection<T extends BaseRecord> implements Collection<T> {
+  private records: Map<string, T> = new Map();
+
+  async create(data: NewRecord<T>): Promise<T> {
+    const now = new Date();
+    const record = {
+      ...data,
+      _id: data._id || crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now
+    } as T;
+
+    this.records.set(record._id, record);
+    return { ...record };
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const record = this.records.get(id);
+    return record ? { ...record } : null;
+  }
+
+  async findOne(filter: RecordFilter<T>): Promise<T | null> {
+    for (const record of this.records.values()) {
+      if (matchesFilter(record, filter)) {
+        return { ...record };
+      }
+    }
+    return null;
+  }
+
+  async find(filter: RecordFilter<T> = {}, options: FindOptions<T> = {}): Promise<T[]> {
+    const matches = Array.from(this.records.values()).filter(record => matchesFilter(record, filter));
+    return sortRecords(matches, options).map(record => ({ ...record }));
+  }
+
+  async update(id: string, updates: Partial<NewRecord<T>>): Promise<T | null> {
+    const record = this.records.get(id);
+    if (!record) return null;
+
+    const updated = { ...record, ...updates, _id: id, updatedAt: new Date() } as T;
+    this.records.set(id, updated);
+    return { ...updated };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.records.delete(id);
+  }
+
+  async count(filter: RecordFilter<T> = {}): Promise<number> {
+    return Array.from(this.records.values()).filter(record => matchesFilter(record, filter)).length;
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+
+  async findBetween(field: keyof T & string, from: Date, to: Date, filter: RecordFilter<T> = {}): Promise<T[]> {
+    return Array.from(this.records.values())
+      .filter(record => {
+        const value = record[field] as unknown;
+        if (!value) return false;
+
+        const time = new Date(value as Date).getTime();
+        return time >= from.getTime() && time < to.getTime() && matchesFilter(record, filter);
+      })
+      .map(record => ({ ...record }));
+  }
+
+  async deleteBefore(field: keyof T & string, before: Date): Promise<number> {
+    let deleted = 0;
+
+    this.records.forEach((record, id) => {
+      const value = record[field] as unknown;
+      if (value && new Date(value as Date).getTime() < before.getTime()) {
+        this.records.delete(id);
+        deleted++;
+      }
+    });
+
+    return deleted;
+  }
+}
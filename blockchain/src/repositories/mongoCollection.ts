@@ -0,0 +1,98 @@
+import { Model, RootFilterQuery, UpdateQuery, isValidObjectId } from 'mongoose';
+import { BaseRecord, Collection, FindOptions, NewRecord, RecordFilter } from './types';
+
+// Lean documents, before the ObjectId is turned into a string
+type LeanDocument = { _id: { toString(): string }; __v?: number } & Record<string, unknown>;
+
+const toRecord = <T>(doc: unknown): T | null => {
+  if (!doc) return null;
+
+  const { __v, ...rest } = doc as LeanDocument;
+  return { ...rest, _id: rest._id.toString() } as T;
+};
+
+const withoutUndefined = <D>(filter: object) =>
+  Object.fromEntries(Object.entries(filter).filter(([, value]) => value !== undefined)) as RootFilterQuery<D>;
+
+/**
+ * Collection backed by a Mongoose model of documents D. Fields hidden by the
+ * schema (select: false) are listed in hiddenFields so the repository can
+ * read them.
+ */
+export class MongoCollection<T extends BaseRecord, D> implements Collection<T> {
+  constructor(private model: Model<D>, private hiddenFields: string[] = []) {}
+
+  private get selection() {
+    return this.hiddenFields.map(field => `+${field}`).join(' ');
+  }
+
+  async create(data: NewRecord<T>): Promise<T> {
+    const doc = await this.model.create(data);
+    return (await this.findById(String(doc._id))) as T;
+  }
+
+  async findById(id: string): Promise<T | null> {
+    if (!isValidObjectId(id)) return null;
+
+    const doc = await this.model.findById(id).select(this.selection).lean();
+    return toRecord<T>(doc);
+  }
+
+  async findOne(filter: RecordFilter<T>): Promise<T | null> {
+    const doc = await this.model.findOne(withoutUndefined<D>(filter)).select(this.selection).lean();
+    return toRecord<T>(doc);
+  }
+
+  async find(filter: RecordFilter<T> = {}, options: FindOptions<T> = {}): Promise<T[]> {
+    let query = this.model.find(withoutUndefined<D>(filter)).select(this.selection);
+
+    if (options.sort) {
+      query = query.sort({ [options.sort]: options.order === 'desc' ? -1 : 1 });
+    }
+
+    if (options.limit) {
+      query = query.limit(options.limit);
+    }
+
+    const docs = await query.lean();
+    return docs.map(doc => toRecord<T>(doc) as T);
+  }
+
+  async update(id: string, updates: Partial<NewRecord<T>>): Promise<T | null> {
+    if (!isValidObjectId(id)) return null;
+
+    const doc = await this.model
+      .findByIdAndUpdate(id, updates as UpdateQuery<D>, { new: true, runValidators: true })
+      .select(this.selection)
+      .lean();
+    return toRecord<T>(doc);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!isValidObjectId(id)) return false;
+
+    const result = await this.model.deleteOne({ _id: id });
+    return result.deletedCount > 0;
+  }
+
+  async count(filter: RecordFilter<T> = {}): Promise<number> {
+    return this.model.countDocuments(withoutUndefined<D>(filter));
+  }
+
+  async clear(): Promise<void> {
+    await this.model.deleteMany({});
+  }
+
+  async findBetween(field: keyof T & string, from: Date, to: Date, filter: RecordFilter<T> = {}): Promise<T[]> {
+    const docs = await this.model
+      .find({ ...withoutUndefined<D>(filter), [field]: { $gte: from, $lt: to } } as RootFilterQuery<D>)
+      .select(this.selection)
+      .lean();
+    return docs.map(doc => toRecord<T>(doc) as T);
+  }
+
+  async deleteBefore(field: keyof T & string, before: Date): Promise<number> {
+    const result = await this.model.deleteMany({ [field]: { $lt: before } } as RootFilterQuery<D>);
+    return result.deletedCount;
+  }
+}
@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+import { getDatabase } from '../config/sqlite';
+import { BaseRecord, Collection, FindOptions, NewRecord, RecordFilter } from './types';
+
+export interface SqliteCollectionConfig {
+  table: string;
+  // Record fields stored in their own column, excluding id and timestamps
+  columns: string[];
+  jsonColumns?: string[];
+  dateColumns?: string[];
+  booleanColumns?: string[];
+  // Tables without an updatedAt column (e.g. sessions) are never updated
+  hasUpdatedAt?: boolean;
+}
+
+// What better-sqlite3 binds and returns
+type SqliteValue = string | number | bigint | Buffer | null;
+
+type SqliteRow = { id: string } & Record<string, SqliteValue>;
+
+/**
+ * Collection backed by a better-sqlite3 table. Records keep Mongo-style `_id`
+ * while the table uses an `id` column.
+ */
+export class SqliteCollection<T extends BaseRecord> implements Collection<T> {
+  private db = getDatabase();
+  private jsonColumns: Set<string>;
+  private dateColumns: Set<string>;
+  private booleanColumns: Set<string>;
+
+  constructor(private config: SqliteCollectionConfig) {
+    this.jsonColumns = new Set(config.jsonColumns || []);
+    this.dateColumns = new Set([...(config.dateColumns || []), 'createdAt', 'updatedAt']);
+    this.booleanColumns = new Set(config.booleanColumns || []);
+  }
+
+  private get hasUpdatedAt() {
+    return this.config.hasUpdatedAt !== false;
+  }
+
+  private toColumnValue(column: string, value: unknown): SqliteValue {
+    if (value === undefined || value === null) return null;
+    if (this.jsonColumns.has(column)) return JSON.stringify(value);
+    if (this.dateColumns.has(column)) return new Date(value as Date | string | number).toISOString();
+    if (this.booleanColumns.has(column)) return value ? 1 : 0;
+    return value as SqliteValue;
+  }
+
+  private toRecord(row: unknown): T | null {
+    if (!row) return null;
+
+    const { id, ...rest } = row as SqliteRow;
+    const record: Record<string, unknown> = { _id: id };
+
+    Object.entries(rest).forEach(([column, value]) => {
+      if (value === null) {
+        record[column] = this.jsonColumns.has(column) ? null : undefined;
+      } else if (this.jsonColumns.has(column)) {
+        record[column] = JSON.parse(value as string);
+      } else if (this.dateColumns.has(column)) {
+        record[column] = new Date(value as string);
+      } else if (this.booleanColumns.has(column)) {
+        record[column] = Boolean(value);
+      } else {
+        record[column] = value;
+      }
+    });
+
+    return record as unknown as T;
+  }
+
+  private assertColumn(column: string) {
+    if (column !== 'id' && column !== 'createdAt' && column !== 'updatedAt' && !this.config.columns.includes(column)) {
+      throw new Error(`Unknown column ${this.config.table}.${column}`);
+    }
+  }
+
+  private buildWhere(filter: RecordFilter<T> = {}) {
+    const clauses: string[] = [];
+    const values: SqliteValue[] = [];
+
+    Object.entries(filter).forEach(([field, value]) => {
+      if (value === undefined) return;
+
+      const column = field === '_id' ? 'id' : field;
+      this.assertColumn(column);
+
+      if (value === null) {
+        clauses.push(`${column} IS NULL`);
+      } else {
+        clauses.push(`${column} = ?`);
+        values.push(this.toColumnValue(column, value));
+      }
+    });
+
+    return {
+      sql: clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : '',
+      values
+    };
+  }
+
+  async create(data: NewRecord<T>): Promise<T> {
+    const id = data._id || crypto.randomUUID();
+    const now = new Date().toISOString();
+    const columns = ['id', ...this.config.columns, 'createdAt', ...(this.hasUpdatedAt ? ['updatedAt'] : [])];
+    const values = [
+      id,
+      ...this.config.columns.map(column => this.toColumnValue(column, (data as Record<string, unknown>)[column])),
+      now,
+      ...(this.hasUpdatedAt ? [now] : [])
+    ];
+
+    this.db
+      .prepare(`INSERT INTO ${this.config.table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`)
+      .run(...values);
+
+    return (await this.findById(id)) as T;
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const row = this.db.prepare(`SELECT * FROM ${this.config.table} WHERE id = ?`).get(id);
+    return this.toRecord(row);
+  }
+
+  async findOne(filter: RecordFilter<T>): Promise<T | null> {
+    const where = this.buildWhere(filter);
+    const row = this.db.prepare(`SELECT * FROM ${this.config.table}${where.sql} LIMIT 1`).get(...where.values);
+    return this.toRecord(row);
+  }
+
+  async find(filter: RecordFilter<T> = {}, options: FindOptions<T> = {}): Promise<T[]> {
+    const where = this.buildWhere(filter);
+    let sql = `SELECT * FROM ${this.config.table}${where.sql}`;
+
+    if (options.sort) {
+      const column = options.sort === '_id' ? 'id' : options.sort;
+      this.assertColumn(column);
+      sql += ` ORDER BY ${column} ${options.order === 'desc' ? 'DESC' : 'ASC'}`;
+    }
+
+    if (options.limit) {
+      sql += ` LIMIT ${Math.floor(options.limit)}`;
+    }
+
+    const rows = this.db.prepare(sql).all(...where.values);
+    return rows.map(row => this.toRecord(row) as T);
+  }
+
+  async update(id: string, updates: Partial<NewRecord<T>>): Promise<T | null> {
+    const fields: string[] = [];
+    const values: SqliteValue[] = [];
+
+    Object.entries(updates).forEach(([column, value]) => {
+      if (column === '_id' || value === undefined) return;
+
+      this.assertColumn(column);
+      fields.push(`${column} = ?`);
+      values.push(this.toColumnValue(column, value));
+    });
+
+    if (this.hasUpdatedAt) {
+      fields.push('updatedAt = ?');
+      values.push(new Date().toISOString());
+    }
+
+    if (fields.length > 0) {
+      this.db.prepare(`UPDATE ${this.config.table} SET ${fields.join(', ')} WHERE id = ?`).run(...values, id);
+    }
+
+    return this.findById(id);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = this.db.prepare(`DELETE FROM ${this.config.table} WHERE id = ?`).run(id);
+    return result.changes > 0;
+  }
+
+  async count(filter: RecordFilter<T> = {}): Promise<number> {
+    const where = this.buildWhere(filter);
+    const result = this.db
+      .prepare(`SELECT COUNT(*) as count FROM ${this.config.table}${where.sql}`)
+      .get(...where.values) as { count: number };
+    return result.count;
+  }
+
+  async clear(): Promise<void> {
+    this.db.prepare(`DELETE FROM ${this.config.table}`).run();
+  }
+
+  async findBetween(field: keyof T & string, from: Date, to: Date, filter: RecordFilter<T> = {}): Promise<T[]> {
+    this.assertColumn(field);
+
+    const where = this.buildWhere(filter);
+    const range = `${field} >= ? AND ${field} < ?`;
+    const rows = this.db
+      .prepare(`SELECT * FROM ${this.config.table}${where.sql ? `${where.sql} AND ${range}` : ` WHERE ${range}`}`)
+      .all(...where.values, from.toISOString(), to.toISOString());
+    return rows.map(row => this.toRecord(row) as T);
+  }
+
+  async deleteBefore(field: keyof T & string, before: Date): Promise<number> {
+    this.assertColumn(field);
+
+    const result = this.db
+      .prepare(`DELETE FROM ${this.config.table} WHERE ${field} < ?`)
+      .run(before.toISOString());
+    return result.changes;
+  }
+}
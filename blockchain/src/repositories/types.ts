@@ -0,0 +1,404 @@
+export type StorageDriverName = 'mongo' | 'sqlite' | 'memory';
+
+export type UserRole = 'admin' | 'police' | 'tourism' | 'tourist';
+
+export interface BaseRecord {
+  _id: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface EmergencyContact {
+  name: string;
+  phone: string;
+  relation?: string;
+}
+
+// Coarse locations are rounded before they are stored
+export type LocationPrecision = 'coarse' | 'precise';
+
+export interface UserRecord extends BaseRecord {
+  name: string;
+  email: string;
+  role: UserRole;
+  walletAddress?: string;
+  language?: string;
+  nationality?: string;
+  emergencyContacts?: EmergencyContact[];
+  // Opt-in; pings are refused while this is off
+  locationSharing?: boolean;
+  locationPrecision?: LocationPrecision;
+  isActive: boolean;
+  lastLogin?: Date;
+}
+
+// Stored shape of a user; the password hash never leaves the repository
+export interface StoredUserRecord extends UserRecord {
+  password: string;
+}
+
+export interface DigitalIDRecord extends BaseRecord {
+  userId: string;
+  name: string;
+  email: string;
+  role: string;
+  walletAddress: string;
+  timestamp: number;
+  hash: string;
+  verified: boolean;
+  status: 'pending' | 'verified' | 'suspended' | 'revoked' | 'expired';
+  statusReason?: string | null;
+  expiresAt?: Date | null;
+  additionalData?: unknown;
+}
+
+export interface SessionRecord extends BaseRecord {
+  userId: string;
+  token: string;
+  expiresAt: Date;
+}
+
+export type TripStatus = 'planned' | 'active' | 'completed' | 'cancelled';
+
+// Generated by the itinerary advisory; never entered by the tourist
+export interface TripWarning {
+  kind: 'restricted_zone' | 'alert_zone' | 'curfew' | 'open_alerts' | 'incident_history';
+  severity: 'low' | 'moderate' | 'high';
+  message: string;
+  zoneId?: string;
+}
+
+export interface TripDestination {
+  id: string;
+  name: string;
+  // Planned time as the tourist entered it, e.g. "09:00 AM"
+  time: string;
+  notes?: string;
+  // Optional; needed for automatic completion and itinerary checks
+  lat?: number | null;
+  lng?: number | null;
+  status: 'upcoming' | 'completed';
+  completedAt?: string | null;
+  warnings?: TripWarning[];
+}
+
+export interface TripRecord extends BaseRecord {
+  userId: string;
+  title: string;
+  description?: string;
+  status: TripStatus;
+  startDate: Date;
+  endDate: Date;
+  destinations: TripDestination[];
+  // Names of the people travelling with the tourist
+  members: string[];
+}
+
+export type AlertStatus = 'active' | 'acknowledged' | 'investigating' | 'resolved';
+
+export interface AlertEvent {
+  action: 'created' | 'updated' | 'acknowledged' | 'investigating' | 'resolved' | 'assigned' | 'escalated';
+  by?: string | null;
+  at: string;
+  note?: string;
+}
+
+export interface AlertRecord extends BaseRecord {
+  type: string;
+  severity: 'low' | 'moderate' | 'high' | 'critical';
+  status: AlertStatus;
+  userId?: string | null;
+  message: string;
+  location?: { lat: number; lng: number; accuracy?: number; address?: string } | null;
+  data?: Record<string, unknown> | null;
+  digitalIdHash?: string | null;
+  // Device battery percentage when the alert was raised
+  battery?: number | null;
+  // Device clock at the time of the alert, as opposed to createdAt
+  reportedAt?: Date | null;
+  assignedTo?: string | null;
+  // Escalate if still active past this deadline
+  acknowledgeBy?: Date | null;
+  escalationLevel?: number;
+  history?: AlertEvent[];
+}
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// Zone rules apply only during these windows, e.g. a night curfew; times are HH:MM
+export interface ZoneTimeWindow {
+  start: string;
+  end: string;
+  // 0 = Sunday; every day when omitted
+  days?: number[];
+}
+
+// Per-zone overrides for the movement anomaly detector; unset fields use the ANOMALY_* defaults
+export interface AnomalyThresholds {
+  // Minutes without moving before inactivity is flagged
+  inactivityMinutes?: number | null;
+  maxSpeedKmh?: number | null;
+  // Minutes without a ping before signal loss is flagged
+  signalLossMinutes?: number | null;
+  // Distance from the nearest planned destination
+  deviationKm?: number | null;
+}
+
+export interface ZoneRecord extends BaseRecord {
+  name: string;
+  type: 'safe' | 'restricted' | 'alert';
+  shape: 'polygon' | 'circle';
+  // Polygon vertices, or the single centre point of a circle
+  coordinates: GeoPoint[];
+  // Circle radius in metres
+  radius?: number | null;
+  description: string;
+  // Groups zones for analytics, e.g. "South Delhi"
+  district?: string | null;
+  status: 'active' | 'inactive';
+  timeWindows?: ZoneTimeWindow[] | null;
+  // Seconds inside before a dwell event; falls back to GEOFENCE_DWELL_SECONDS
+  dwellSeconds?: number | null;
+  anomalyThresholds?: AnomalyThresholds | null;
+  createdBy: string;
+  createdByName: string;
+}
+
+export interface LocationRecord extends BaseRecord {
+  userId: string;
+  lat: number;
+  lng: number;
+  accuracy?: number | null;
+  precision: LocationPrecision;
+  // Device clock when the fix was taken
+  recordedAt: Date;
+}
+
+// One officer viewing one tourist's precise track
+export interface LocationAccessRecord extends BaseRecord {
+  touristId: string;
+  officerId: string;
+  officerName: string;
+  // The open case that justified the access
+  caseType: 'sos' | 'fir' | 'missing';
+  caseId: string;
+  points: number;
+}
+
+export type FIRStatus = 'draft' | 'pending' | 'approved' | 'rejected' | 'closed';
+
+// One entry in an FIR's history; entries are only ever appended
+export interface FIREvent {
+  action: 'created' | 'updated' | 'submitted' | 'approved' | 'rejected' | 'closed' | 'returned' | 'assigned' | 'remark' | 'evidence_added';
+  by: string;
+  byName: string;
+  at: string;
+  from?: FIRStatus;
+  to?: FIRStatus;
+  note?: string;
+}
+
+// What an FIR was started from
+export interface FIRSource {
+  type: 'alert' | 'missing_tourist';
+  id: string;
+}
+
+// An evidence file as recorded on its FIR; the hash is what the chain vouches for
+export interface FIREvidence {
+  evidenceId: string;
+  sha256: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface FIRRecord extends BaseRecord {
+  // FIR-<station>-<year>-<sequence>, numbered per station and year
+  firNumber: string;
+  station: string;
+  year: number;
+  sequence: number;
+  title: string;
+  description: string;
+  incidentType: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  status: FIRStatus;
+  // Name and designation of the complainant, as written on the FIR
+  reportedBy: string;
+  incidentDate: Date;
+  location: string;
+  coordinates?: GeoPoint | null;
+  involvedPersons: string[];
+  // The tourist the FIR concerns, if any
+  touristId?: string | null;
+  source?: FIRSource | null;
+  assignedTo?: string | null;
+  assignedOfficerName?: string | null;
+  createdBy: string;
+  createdByName: string;
+  evidence: FIREvidence[];
+  history: FIREvent[];
+}
+
+// One entry in an evidence file's chain of custody; entries are only ever appended
+export interface CustodyEvent {
+  action: 'uploaded' | 'viewed' | 'downloaded';
+  by: string;
+  byName: string;
+  role: UserRole;
+  at: string;
+  ip?: string | null;
+}
+
+// A file stored by its SHA-256 under the evidence directory
+export interface EvidenceRecord extends BaseRecord {
+  firId: string;
+  sha256: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  hasThumbnail: boolean;
+  uploadedBy: string;
+  uploadedByName: string;
+  custody: CustodyEvent[];
+}
+
+// Searching until someone reports seeing the tourist, then found and closed
+export type MissingPersonStatus = 'searching' | 'sighted' | 'found' | 'closed';
+
+// One entry in a missing-person case's history; entries are only ever appended
+export interface MissingPersonEvent {
+  action: 'opened' | 'status_changed' | 'bulletin_issued' | 'photo_added' | 'fir_linked' | 'assigned' | 'note';
+  by: string;
+  byName: string;
+  at: string;
+  from?: MissingPersonStatus;
+  to?: MissingPersonStatus;
+  note?: string;
+  // Where the tourist was seen, for sightings
+  location?: GeoPoint | null;
+}
+
+// A notice broadcast to officers within radiusKm of where the tourist was last known to be
+export interface MissingPersonBulletin {
+  id: string;
+  issuedAt: string;
+  issuedBy: string;
+  issuedByName: string;
+  center: GeoPoint | null;
+  radiusKm: number;
+  text: string;
+}
+
+export interface MissingPersonRecord extends BaseRecord {
+  // MP-<year>-<sequence>
+  caseNumber: string;
+  year: number;
+  sequence: number;
+  touristId: string;
+  touristName: string;
+  status: MissingPersonStatus;
+  // Appearance, clothing and circumstances, as given by whoever reported it
+  description: string;
+  reportedBy: string;
+  reportedByContact?: string | null;
+  lastSeenAt: Date;
+  lastSeenPlace?: string | null;
+  lastSeenLocation?: GeoPoint | null;
+  // SHA-256 of the case photo, stored under the photo directory
+  photoSha256?: string | null;
+  firId?: string | null;
+  firNumber?: string | null;
+  assignedTo?: string | null;
+  assignedOfficerName?: string | null;
+  openedBy: string;
+  openedByName: string;
+  closedAt?: Date | null;
+  bulletins: MissingPersonBulletin[];
+  history: MissingPersonEvent[];
+}
+
+// Counts for one local hour of one analytics scope
+export interface AnalyticsHour {
+  alerts: Record<AlertRecord['severity'], number>;
+  // Keyed 'alert:<type>' or 'fir:<incidentType>'
+  types: Record<string, number>;
+  // Alerts and registered FIRs not started from an alert
+  incidents: number;
+  // Alerts acknowledged so far, and their total minutes to acknowledgement
+  responded: number;
+  responseMinutes: number;
+  // Distinct tourists with a location ping
+  tourists: number;
+  // New tourist digital IDs; only counted in the 'all' scope
+  registrations: number;
+}
+
+// A zone as it was when a day was rolled up
+export interface AnalyticsZone {
+  id: string;
+  name: string;
+  type: ZoneRecord['type'];
+  district?: string | null;
+}
+
+// One local day of analytics, kept so long ranges don't rescan raw records
+export interface AnalyticsRollupRecord extends BaseRecord {
+  // YYYY-MM-DD in ZONE_TIMEZONE
+  day: string;
+  start: Date;
+  // Scope ('all', 'zone:<id>', 'district:<name>' or 'outside') to local hour (0–23) to counts; empty hours are left out
+  scopes: Record<string, Record<string, AnalyticsHour>>;
+  zones: AnalyticsZone[];
+  // An alert or FIR for the day changed after it was stored; rolled up again when next read
+  stale: boolean;
+}
+
+export type NewRecord<T extends BaseRecord> = Omit<T, '_id' | 'createdAt' | 'updatedAt'> & { _id?: string };
+
+// Equality match on top-level fields
+export type RecordFilter<T> = Partial<T>;
+
+export interface FindOptions<T> {
+  sort?: keyof T & string;
+  order?: 'asc' | 'desc';
+  limit?: number;
+}
+
+/**
+ * Operations every storage driver implements for each record type
+ */
+export interface Collection<T extends BaseRecord> {
+  create(data: NewRecord<T>): Promise<T>;
+  findById(id: string): Promise<T | null>;
+  findOne(filter: RecordFilter<T>): Promise<T | null>;
+  find(filter?: RecordFilter<T>, options?: FindOptions<T>): Promise<T[]>;
+  update(id: string, updates: Partial<NewRecord<T>>): Promise<T | null>;
+  delete(id: string): Promise<boolean>;
+  count(filter?: RecordFilter<T>): Promise<number>;
+  clear(): Promise<void>;
+  // Records matching the filter whose date field is at or after `from` and before `to`
+  findBetween(field: keyof T & string, from: Date, to: Date, filter?: RecordFilter<T>): Promise<T[]>;
+  // Delete records whose date field is earlier than `before`; returns how many went
+  deleteBefore(field: keyof T & string, before: Date): Promise<number>;
+}
+
+export interface StorageDriver {
+  name: StorageDriverName;
+  users: Collection<StoredUserRecord>;
+  digitalIDs: Collection<DigitalIDRecord>;
+  sessions: Collection<SessionRecord>;
+  trips: Collection<TripRecord>;
+  alerts: Collection<AlertRecord>;
+  zones: Collection<ZoneRecord>;
+  locations: Collection<LocationRecord>;
+  locationAccess: Collection<LocationAccessRecord>;
+  firs: Collection<FIRRecord>;
+  evidence: Collection<EvidenceRecord>;
+  missingPersons: Collection<MissingPersonRecord>;
+  analyticsRollups: Collection<AnalyticsRollupRecord>;
+}
@@ -0,0 +1,107 @@
+import bcrypt from 'bcryptjs';
+import { Collection, FindOptions, NewRecord, RecordFilter, StoredUserRecord, UserRecord } from './types';
+
+export type NewUser = NewRecord<UserRecord> & { password: string };
+
+const stripPassword = (user: StoredUserRecord | null): UserRecord | null => {
+  if (!user) return null;
+
+  const { password, ...rest } = user;
+  return rest;
+};
+
+/**
+ * Users on top of any driver's collection. Passwords are hashed here, the
+ * same way for every driver, and are never returned to callers.
+ */
+export class UserRepository {
+  constructor(private collection: Collection<StoredUserRecord>) {}
+
+  async create(data: NewUser): Promise<UserRecord> {
+    const salt = await bcrypt.genSalt(12);
+    const user = await this.collection.create({
+      ...data,
+      email: data.email.toLowerCase(),
+      password: await bcrypt.hash(data.password, salt),
+      isActive: data.isActive !== undefined ? data.isActive : true
+    });
+
+    return stripPassword(user) as UserRecord;
+  }
+
+  async findById(id: string): Promise<UserRecord | null> {
+    return stripPassword(await this.collection.findById(id));
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    return stripPassword(await this.collection.findOne({ email: email.toLowerCase() }));
+  }
+
+  async findByEmailOrWallet(email: string, walletAddress?: string): Promise<UserRecord | null> {
+    const byEmail = await this.findByEmail(email);
+
+    if (byEmail || !walletAddress || walletAddress.trim() === '') {
+      return byEmail;
+    }
+
+    return stripPassword(await this.collection.findOne({ walletAddress }));
+  }
+
+  /**
+   * Return the user if the password matches, regardless of account status
+   */
+  async verifyCredentials(email: string, password: string): Promise<UserRecord | null> {
+    const user = await this.collection.findOne({ email: email.toLowerCase() });
+
+    if (!user || !(await bcrypt.compare(password, user.password))) {
+      return null;
+    }
+
+    return stripPassword(user);
+  }
+
+  async update(id: string, updates: Partial<NewUser>): Promise<UserRecord | null> {
+    const changes: Partial<NewUser> = { ...updates };
+
+    if (changes.password) {
+      changes.password = await bcrypt.hash(changes.password, await bcrypt.genSalt(12));
+    }
+
+    if (changes.email) {
+      changes.email = changes.email.toLowerCase();
+    }
+
+    return stripPassword(await this.collection.update(id, changes));
+  }
+
+  async find(filter: RecordFilter<UserRecord> = {}, options: FindOptions<UserRecord> = {}): Promise<UserRecord[]> {
+    const users = await this.collection.find(filter, options);
+    return users.map(user => stripPassword(user) as UserRecord);
+  }
+
+  /**
+   * Case-insensitive match on name, email or wallet address
+   */
+  async search(q: string | undefined, filter: RecordFilter<UserRecord> = {}): Promise<UserRecord[]> {
+    const users = await this.find(filter, { sort: 'createdAt', order: 'desc' });
+
+    if (!q) return users;
+
+    const needle = q.toLowerCase();
+    return users.filter(user =>
+      [user.name, user.email, user.walletAddress].some(value => value?.toLowerCase().includes(needle))
+    );
+  }
+
+  async count(filter: RecordFilter<UserRecord> = {}): Promise<number> {
+    return this.collection.count(filter);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.collection.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    return this.collection.clear();
+  }
+}
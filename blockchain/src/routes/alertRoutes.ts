@@ -0,0 +1,188 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { authenticate, authorize } from '../middleware/auth';
+import { AlertStatus } from '../repositories';
+import { alertService } from '../services/alertService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+const sosSchema = Joi.object({
+  location: Joi.object({
+    lat: Joi.number().min(-90).max(90).required(),
+    lng: Joi.number().min(-180).max(180).required(),
+    accuracy: Joi.number().min(0).optional(),
+    address: Joi.string().max(200).optional()
+  }).optional().allow(null),
+  battery: Joi.number().min(0).max(100).optional().allow(null),
+  reportedAt: Joi.date().iso().optional(),
+  digitalIdHash: Joi.string().optional(),
+  message: Joi.string().max(500).optional(),
+  sosTimeout: Joi.number().integer().min(1).optional()
+});
+
+const listSchema = Joi.object({
+  status: Joi.string().valid('active', 'acknowledged', 'investigating', 'resolved').optional(),
+  severity: Joi.string().valid('low', 'moderate', 'high', 'critical').optional(),
+  type: Joi.string().optional(),
+  assignedTo: Joi.string().optional(),
+  limit: Joi.number().integer().min(1).max(500).optional()
+});
+
+// Raise an SOS from the tourist app
+router.post('/sos', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { error, value } = sosSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const { alert, created } = await alertService.raiseSOS(req.user!, value);
+
+    res.status(created ? 201 : 200).json({
+      success: true,
+      data: alert
+    });
+  } catch (error: any) {
+    logger.error('Failed to raise SOS', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to raise SOS'
+    });
+  }
+});
+
+// Alerts raised by the current user
+router.get('/mine', authenticate, async (req: Request, res: Response) => {
+  try {
+    const alerts = await alertService.listUserAlerts(req.user!._id);
+
+    res.json({
+      success: true,
+      data: alerts
+    });
+  } catch (error: any) {
+    logger.error('Failed to get user alerts', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get alerts'
+    });
+  }
+});
+
+// List alerts for the police dashboard
+router.get('/', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = listSchema.validate(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const alerts = await alertService.listAlerts(value);
+
+    res.json({
+      success: true,
+      data: alerts
+    });
+  } catch (error: any) {
+    logger.error('Failed to list alerts', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list alerts'
+    });
+  }
+});
+
+// Get a single alert
+router.get('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const alert = await alertService.getAlert(req.params.id);
+
+    if (req.user!.role !== 'police' && req.user!.role !== 'admin' && alert.userId !== req.user!._id) {
+      return res.status(403).json({
+        success: false,
+        error: 'Insufficient permissions'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: alert
+    });
+  } catch (error: any) {
+    logger.error('Failed to get alert', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to get alert'
+    });
+  }
+});
+
+// Shared handler for status transitions made by officers
+const transitionAlert = (status: AlertStatus, action: string) => {
+  return async (req: Request, res: Response) => {
+    try {
+      const alert = await alertService.transition(req.params.id, status, req.user!, req.body?.note);
+
+      res.json({
+        success: true,
+        data: alert
+      });
+    } catch (error: any) {
+      logger.error(`Failed to ${action} alert`, { error: error.message });
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.statusCode ? error.message : `Failed to ${action} alert`
+      });
+    }
+  };
+};
+
+// Acknowledge an active alert
+router.post('/:id/acknowledge', authenticate, authorize('police', 'admin'),
+  transitionAlert('acknowledged', 'acknowledge'));
+
+// Start investigating an acknowledged alert
+router.post('/:id/investigate', authenticate, authorize('police', 'admin'),
+  transitionAlert('investigating', 'investigate'));
+
+// Resolve an alert
+router.post('/:id/resolve', authenticate, authorize('police', 'admin'),
+  transitionAlert('resolved', 'resolve'));
+
+// Assign an alert to an officer
+router.post('/:id/assign', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { officerId } = req.body;
+
+    if (!officerId) {
+      return res.status(400).json({
+        success: false,
+        error: 'officerId is required'
+      });
+    }
+
+    const alert = await alertService.assign(req.params.id, officerId, req.user!);
+
+    res.json({
+      success: true,
+      data: alert
+    });
+  } catch (error: any) {
+    logger.error('Failed to assign alert', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to assign alert'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,100 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { authenticate, authorize } from '../middleware/auth';
+import { analyticsService } from '../services/analyticsService';
+import { HotspotSource, hotspotService } from '../services/hotspotService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+const reportSchema = Joi.object({
+  range: Joi.string().valid('24h', '7d', '30d', '90d', 'custom').default('7d'),
+  from: Joi.date().iso().when('range', { is: 'custom', then: Joi.required(), otherwise: Joi.forbidden() }),
+  to: Joi.date().iso().when('range', { is: 'custom', then: Joi.optional(), otherwise: Joi.forbidden() }),
+  zoneId: Joi.string().optional(),
+  district: Joi.string().trim().max(100).optional()
+}).oxor('zoneId', 'district').messages({
+  'object.oxor': 'Filter by a zone or a district, not both'
+});
+
+const timeSchema = Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).messages({
+  'string.pattern.base': 'Times must be HH:MM'
+});
+
+const hotspotSchema = Joi.object({
+  range: Joi.string().valid('24h', '7d', '30d', '90d', 'custom').default('30d'),
+  from: Joi.date().iso().when('range', { is: 'custom', then: Joi.required(), otherwise: Joi.forbidden() }),
+  to: Joi.date().iso().when('range', { is: 'custom', then: Joi.optional(), otherwise: Joi.forbidden() }),
+  // Local time of day; wraps past midnight when timeStart is later than timeEnd
+  timeStart: timeSchema.optional(),
+  timeEnd: timeSchema.when('timeStart', { is: Joi.exist(), then: Joi.required().invalid(Joi.ref('timeStart')), otherwise: Joi.forbidden() }),
+  // Comma-separated subset of fir, sos and geofence
+  sources: Joi.string().pattern(/^(fir|sos|geofence)(,(fir|sos|geofence))*$/).messages({
+    'string.pattern.base': 'Sources must be a comma-separated list of fir, sos and geofence'
+  })
+}).messages({
+  'any.invalid': 'The time of day must start and end at different times'
+});
+
+// Alert trends, tourist flow, incident types, response times and zone heatmap for a time range
+router.get('/', authenticate, authorize('police', 'tourism', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = reportSchema.validate(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const { from, to } = analyticsService.resolveRange(value.range, value.from, value.to);
+    const report = await analyticsService.getReport({ from, to, zoneId: value.zoneId, district: value.district });
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error: any) {
+    logger.error('Failed to get analytics', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to get analytics'
+    });
+  }
+});
+
+// Incident hotspots and heat points for the map, optionally for one time of day
+router.get('/hotspots', authenticate, authorize('police', 'tourism', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = hotspotSchema.validate(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const { from, to } = analyticsService.resolveRange(value.range, value.from, value.to);
+    const hotspots = await hotspotService.getHotspots({
+      from,
+      to,
+      timeWindow: value.timeStart ? { start: value.timeStart, end: value.timeEnd } : null,
+      sources: value.sources ? value.sources.split(',') as HotspotSource[] : undefined
+    });
+
+    res.json({
+      success: true,
+      data: hotspots
+    });
+  } catch (error: any) {
+    logger.error('Failed to get hotspots', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to get hotspots'
+    });
+  }
+});
+
+export default router;
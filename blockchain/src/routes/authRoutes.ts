@@ -1,45 +1,72 @@
 import { Router, Request, Response } from 'express';
 import jwt from 'jsonwebtoken';
-import User from '../models/User';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { authenticate, getRequestToken } from '../middleware/auth';
 import { logger } from '../utils/logger';
 import Joi from 'joi';
-import mongoose from 'mongoose';
-import { inMemoryStorage } from '../services/inMemoryStorage';
+import { getStorage, UserRecord } from '../repositories';
 
 const router = Router();
 
-// Debug endpoint to check connection and clear memory
+// Debug endpoint to check the storage driver and record counts
 router.get('/debug', async (req: Request, res: Response) => {
-  const mongoState = mongoose.connection.readyState;
-  const mongoConnected = isMongoConnected();
-  
+  const storage = getStorage();
+
   res.json({
     success: true,
     data: {
-      mongoConnectionState: mongoState,
-      mongoConnected,
-      inMemoryUsers: inMemoryStorage.getUserCount(),
-      inMemoryDigitalIDs: inMemoryStorage.getDigitalIDCount(),
-      inMemorySessions: inMemoryStorage.getSessionCount()
+      driver: storage.driver,
+      users: await storage.users.count(),
+      digitalIDs: await storage.digitalIDs.count(),
+      sessions: await storage.sessions.count()
     }
   });
 });
 
 // Debug endpoint to clear in-memory storage
 router.post('/debug/clear-memory', async (req: Request, res: Response) => {
-  inMemoryStorage.clearAll();
+  const storage = getStorage();
+
+  if (storage.driver !== 'memory') {
+    return res.status(400).json({
+      success: false,
+      error: `Refusing to clear ${storage.driver} storage`
+    });
+  }
+
+  await Promise.all([
+    storage.users.clear(),
+    storage.digitalIDs.clear(),
+    storage.sessions.clear(),
+    storage.trips.clear(),
+    storage.alerts.clear()
+  ]);
+
   res.json({
     success: true,
     message: 'In-memory storage cleared'
   });
 });
 
-// Helper function to check if MongoDB is connected
-const isMongoConnected = () => {
-  const state = mongoose.connection.readyState;
-  logger.info(`MongoDB connection state: ${state} (0=disconnected, 1=connected, 2=connecting, 3=disconnecting)`);
-  return state === 1;
+const TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Issue a JWT and record the session it belongs to
+const startSession = async (req: Request, user: UserRecord): Promise<string> => {
+  const token = jwt.sign(
+    { userId: user._id, role: user.role },
+    process.env.JWT_SECRET || 'raksha-setu-secret',
+    { expiresIn: '7d' }
+  );
+
+  await getStorage().sessions.create({
+    userId: user._id,
+    token,
+    expiresAt: new Date(Date.now() + TOKEN_TTL_MS)
+  });
+
+  // Store token in session
+  req.session.token = token;
+
+  return token;
 };
 
 // Validation schemas
@@ -53,6 +80,12 @@ const registerSchema = Joi.object({
   walletAddress: Joi.string().optional().pattern(/^0x[a-fA-F0-9]{40}$/)
 });
 
+const emergencyContactsSchema = Joi.array().items(Joi.object({
+  name: Joi.string().required().max(100),
+  phone: Joi.string().required().max(30),
+  relation: Joi.string().optional().max(50)
+})).max(5);
+
 const loginSchema = Joi.object({
   email: Joi.string().email().required(),
   password: Joi.string().required()
@@ -70,29 +103,8 @@ router.post('/register', async (req: Request, res: Response) => {
     }
 
     // Check if user already exists
-    let existingUser = null;
-    const mongoConnected = isMongoConnected();
-    logger.info(`MongoDB connection state: ${mongoose.connection.readyState}, isMongoConnected: ${mongoConnected}`);
-    
-    if (mongoConnected) {
-      logger.info(`Searching for user with email: ${value.email}`);
-      
-      // Build query conditions
-      const queryConditions = [{ email: value.email }];
-      
-      // Only add walletAddress condition if it's provided and not empty
-      if (value.walletAddress && value.walletAddress.trim() !== '') {
-        queryConditions.push({ walletAddress: value.walletAddress });
-      }
-      
-      existingUser = await User.findOne({
-        $or: queryConditions
-      });
-      logger.info(`MongoDB search result: ${existingUser ? 'User found' : 'User not found'}`);
-    } else {
-      existingUser = await inMemoryStorage.findUserByEmail(value.email);
-      logger.info(`In-memory search result: ${existingUser ? 'User found' : 'User not found'}`);
-    }
+    const users = getStorage().users;
+    const existingUser = await users.findByEmailOrWallet(value.email, value.walletAddress);
 
     if (existingUser) {
       return res.status(400).json({
@@ -102,25 +114,18 @@ router.post('/register', async (req: Request, res: Response) => {
     }
 
     // Create new user
-    let user;
-    if (mongoConnected) {
-      logger.info('Creating user in MongoDB');
-      user = await User.create(value);
-    } else {
-      logger.info('Creating user in memory storage');
-      user = await inMemoryStorage.createUser(value);
-    }
-
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id, role: user.role },
-      process.env.JWT_SECRET || 'raksha-setu-secret',
-      { expiresIn: '7d' }
-    );
+    const user = await users.create({
+      name: value.name,
+      email: value.email,
+      password: value.password,
+      role: value.role,
+      walletAddress: value.walletAddress,
+      language: value.language,
+      nationality: value.nationality,
+      isActive: true
+    });
 
-    // Store token in session
-    req.session = req.session || {};
-    req.session.token = token;
+    const token = await startSession(req, user);
 
     logger.info('User registered successfully', { userId: user._id, email: user.email });
 
@@ -160,73 +165,28 @@ router.post('/login', async (req: Request, res: Response) => {
     }
 
     // Find user and check password
-    let user;
-    if (isMongoConnected()) {
-      user = await User.findOne({ email: value.email }).select('+password');
-      if (!user) {
-        return res.status(401).json({
-          success: false,
-          error: 'Invalid email or password'
-        });
-      }
-      
-      const isPasswordValid = await user.comparePassword(value.password);
-      if (!isPasswordValid) {
-        return res.status(401).json({
-          success: false,
-          error: 'Invalid email or password'
-        });
-      }
-      
-      if (!user.isActive) {
-        return res.status(401).json({
-          success: false,
-          error: 'Account is deactivated'
-        });
-      }
-      
-      // Update last login
-      user.lastLogin = new Date();
-      await user.save();
-    } else {
-      user = await inMemoryStorage.findUserByEmail(value.email);
-      if (!user) {
-        return res.status(401).json({
-          success: false,
-          error: 'Invalid email or password'
-        });
-      }
-      
-      // Simple password check for in-memory storage
-      if (user.password !== value.password) {
-        return res.status(401).json({
-          success: false,
-          error: 'Invalid email or password'
-        });
-      }
-      
-      if (!user.isActive) {
-        return res.status(401).json({
-          success: false,
-          error: 'Account is deactivated'
-        });
-      }
-      
-      // Update last login
-      user.lastLogin = new Date();
-      await inMemoryStorage.updateUser(user._id, { lastLogin: user.lastLogin });
+    const users = getStorage().users;
+    const user = await users.verifyCredentials(value.email, value.password);
+
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid email or password'
+      });
+    }
+
+    if (!user.isActive) {
+      return res.status(401).json({
+        success: false,
+        error: 'Account is deactivated'
+      });
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id, role: user.role },
-      process.env.JWT_SECRET || 'raksha-setu-secret',
-      { expiresIn: '7d' }
-    );
+    // Update last login
+    user.lastLogin = new Date();
+    await users.update(user._id, { lastLogin: user.lastLogin });
 
-    // Store token in session
-    req.session = req.session || {};
-    req.session.token = token;
+    const token = await startSession(req, user);
 
     logger.info('User logged in successfully', { userId: user._id, email: user.email });
 
@@ -255,20 +215,25 @@ router.post('/login', async (req: Request, res: Response) => {
 });
 
 // Get current user profile
-router.get('/profile', authenticate, async (req: AuthRequest, res: Response) => {
+router.get('/profile', authenticate, async (req: Request, res: Response) => {
   try {
+    const user = req.user!;
+
     res.json({
       success: true,
       data: {
         user: {
-          id: req.user._id,
-          name: req.user.name,
-          email: req.user.email,
-          role: req.user.role,
-          walletAddress: req.user.walletAddress,
-          isActive: req.user.isActive,
-          lastLogin: req.user.lastLogin,
-          createdAt: req.user.createdAt
+          id: user._id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          walletAddress: user.walletAddress,
+          language: user.language,
+          nationality: user.nationality,
+          emergencyContacts: user.emergencyContacts,
+          isActive: user.isActive,
+          lastLogin: user.lastLogin,
+          createdAt: user.createdAt
         }
       }
     });
@@ -282,12 +247,24 @@ router.get('/profile', authenticate, async (req: AuthRequest, res: Response) =>
 });
 
 // Update user profile
-router.put('/profile', authenticate, async (req: AuthRequest, res: Response) => {
+router.put('/profile', authenticate, async (req: Request, res: Response) => {
   try {
-    const { name, walletAddress } = req.body;
+    const { name, walletAddress, language, nationality, emergencyContacts } = req.body;
 
     const updateData: any = {};
     if (name) updateData.name = name;
+    if (language) updateData.language = language;
+    if (nationality) updateData.nationality = nationality;
+    if (emergencyContacts !== undefined) {
+      const { error } = emergencyContactsSchema.validate(emergencyContacts);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: error.details[0].message
+        });
+      }
+      updateData.emergencyContacts = emergencyContacts;
+    }
     if (walletAddress) {
       if (!/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
         return res.status(400).json({
@@ -298,11 +275,7 @@ router.put('/profile', authenticate, async (req: AuthRequest, res: Response) =>
       updateData.walletAddress = walletAddress;
     }
 
-    const user = await User.findByIdAndUpdate(
-      req.user._id,
-      updateData,
-      { new: true, runValidators: true }
-    );
+    const user = await getStorage().users.update(req.user!._id, updateData);
 
     if (!user) {
       return res.status(404).json({
@@ -320,6 +293,9 @@ router.put('/profile', authenticate, async (req: AuthRequest, res: Response) =>
           email: user.email,
           role: user.role,
           walletAddress: user.walletAddress,
+          language: user.language,
+          nationality: user.nationality,
+          emergencyContacts: user.emergencyContacts,
           isActive: user.isActive,
           lastLogin: user.lastLogin,
           updatedAt: user.updatedAt
@@ -336,8 +312,17 @@ router.put('/profile', authenticate, async (req: AuthRequest, res: Response) =>
 });
 
 // Logout user
-router.post('/logout', (req: Request, res: Response) => {
+router.post('/logout', async (req: Request, res: Response) => {
   try {
+    // Revoke the token's session so it can no longer authenticate
+    const token = getRequestToken(req);
+    const storage = getStorage();
+    const session = token ? await storage.sessions.findOne({ token }) : null;
+
+    if (session) {
+      await storage.sessions.delete(session._id);
+    }
+
     // Clear session
     if (req.session) {
       req.session.destroy((err) => {
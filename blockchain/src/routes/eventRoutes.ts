@@ -0,0 +1,118 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, authorize, getRequestToken, resolveTokenUser } from '../middleware/auth';
+import { BusEvent, EVENT_TOPICS, EventTopic, eventBus } from '../services/eventBus';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+const HEARTBEAT_MS = parseInt(process.env.EVENT_HEARTBEAT_MS || '25000', 10);
+const RETRY_MS = 3000;
+
+const parseTopics = (value: unknown): EventTopic[] | null => {
+  if (value === undefined || value === '') return EVENT_TOPICS;
+
+  const topics = String(value).split(',').map(topic => topic.trim()).filter(Boolean);
+  return topics.every(topic => EVENT_TOPICS.includes(topic as EventTopic))
+    ? Array.from(new Set(topics)) as EventTopic[]
+    : null;
+};
+
+const formatEvent = (event: BusEvent) =>
+  `id: ${event.id}\nevent: ${event.topic}\ndata: ${JSON.stringify({
+    type: event.type,
+    data: event.data,
+    timestamp: event.timestamp
+  })}\n\n`;
+
+// Subscribe to real-time events over Server-Sent Events
+router.get('/', authenticate, (req: Request, res: Response) => {
+  const topics = parseTopics(req.query.topics);
+
+  if (!topics) {
+    return res.status(400).json({
+      success: false,
+      error: `Unknown topic; expected any of ${EVENT_TOPICS.join(', ')}`
+    });
+  }
+
+  const user = req.user!;
+  const token = getRequestToken(req)!;
+  const lastEventId = req.header('Last-Event-ID') || (req.query.lastEventId as string | undefined);
+
+  const write = (chunk: string) => {
+    res.write(chunk);
+    // compression buffers the response unless told to flush
+    res.flush();
+  };
+
+  const send = (event: BusEvent) => {
+    write(formatEvent(event));
+    eventBus.recordSent();
+  };
+
+  let unsubscribe: () => void;
+  try {
+    unsubscribe = eventBus.subscribe({ user, topics, send });
+  } catch (error: any) {
+    return res.status(503).json({
+      success: false,
+      error: error.message
+    });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  write(`retry: ${RETRY_MS}\n\n`);
+
+  if (lastEventId) {
+    const missed = eventBus.replay({ user, topics }, lastEventId);
+
+    if (missed) {
+      missed.forEach(send);
+    } else {
+      // Too old to resume; the client should refetch its state
+      write(`event: reset\ndata: ${JSON.stringify({ lastEventId: eventBus.getLastEventId() })}\n\n`);
+    }
+  }
+
+  write(`event: ready\ndata: ${JSON.stringify({ topics, lastEventId: eventBus.getLastEventId() })}\n\n`);
+  logger.info('Event stream opened', { userId: user._id, topics, resumedFrom: lastEventId || null });
+
+  // Keep proxies from timing out the stream, and end it once the session is gone
+  const heartbeat = setInterval(async () => {
+    try {
+      const current = await resolveTokenUser(token);
+
+      if (!current || !current.isActive) {
+        write('event: revoked\ndata: {}\n\n');
+        res.end();
+        return;
+      }
+
+      write(': ping\n\n');
+    } catch (error: any) {
+      write('event: revoked\ndata: {}\n\n');
+      res.end();
+    }
+  }, HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    logger.info('Event stream closed', { userId: user._id });
+  });
+});
+
+// Event stream statistics for the system health view
+router.get('/stats', authenticate, authorize('admin'), (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: eventBus.getStats()
+  });
+});
+
+export default router;
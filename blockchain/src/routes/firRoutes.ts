@@ -0,0 +1,493 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import multer from 'multer';
+import { authenticate, authorize } from '../middleware/auth';
+import { FIRStatus } from '../repositories';
+import { firService } from '../services/firService';
+import { firDocumentService } from '../services/firDocumentService';
+import { evidenceService, EVIDENCE_MAX_FILE_BYTES, EVIDENCE_MAX_FILES } from '../services/evidenceService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Evidence is hashed and checked in memory before anything is written to disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: EVIDENCE_MAX_FILE_BYTES, files: EVIDENCE_MAX_FILES }
+});
+
+const uploadEvidence = (req: Request, res: Response, next: NextFunction) => {
+  upload.array('files', EVIDENCE_MAX_FILES)(req, res, (error: any) => {
+    if (error) {
+      return res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+        success: false,
+        error: error.code === 'LIMIT_FILE_SIZE'
+          ? `Files must be no larger than ${EVIDENCE_MAX_FILE_BYTES / 1024 / 1024} MB`
+          : error.message
+      });
+    }
+    next();
+  });
+};
+
+const firFields = {
+  title: Joi.string().min(1).max(200),
+  description: Joi.string().min(1).max(5000),
+  incidentType: Joi.string().min(1).max(50),
+  severity: Joi.string().valid('low', 'medium', 'high', 'critical'),
+  reportedBy: Joi.string().min(1).max(200),
+  incidentDate: Joi.date().iso().max('now'),
+  location: Joi.string().min(1).max(300),
+  coordinates: Joi.object({
+    lat: Joi.number().min(-90).max(90).required(),
+    lng: Joi.number().min(-180).max(180).required()
+  }).allow(null),
+  involvedPersons: Joi.array().items(Joi.string().min(1).max(200)).max(50),
+  touristId: Joi.string().allow(null)
+};
+
+const sourceSchema = Joi.object({
+  type: Joi.string().valid('alert', 'missing_tourist').required(),
+  id: Joi.string().required()
+});
+
+const createFIRSchema = Joi.object({
+  ...firFields,
+  title: firFields.title.required(),
+  description: firFields.description.required(),
+  incidentType: firFields.incidentType.required(),
+  severity: firFields.severity.required(),
+  reportedBy: firFields.reportedBy.required(),
+  incidentDate: firFields.incidentDate.required(),
+  location: firFields.location.required(),
+  station: Joi.string().pattern(/^[A-Za-z0-9]{2,12}$/).optional(),
+  source: sourceSchema.optional().allow(null)
+});
+
+const updateFIRSchema = Joi.object(firFields).min(1);
+
+const listSchema = Joi.object({
+  status: Joi.string().valid('draft', 'pending', 'approved', 'rejected', 'closed').optional(),
+  severity: Joi.string().valid('low', 'medium', 'high', 'critical').optional(),
+  station: Joi.string().optional(),
+  assignedTo: Joi.string().optional(),
+  touristId: Joi.string().optional(),
+  limit: Joi.number().integer().min(1).max(500).optional()
+});
+
+const prefillSchema = Joi.object({
+  alertId: Joi.string(),
+  touristId: Joi.string()
+}).xor('alertId', 'touristId');
+
+const noteSchema = Joi.object({
+  note: Joi.string().max(2000).allow('').optional()
+});
+
+const evidenceLinkSchema = Joi.object({
+  kind: Joi.string().valid('view', 'download').default('view')
+});
+
+const pdfSchema = Joi.object({
+  language: Joi.string().pattern(/^[a-z]{2,3}$/).optional()
+});
+
+const remarkSchema = Joi.object({
+  note: Joi.string().min(1).max(2000).required()
+});
+
+// List FIRs, newest first
+router.get('/', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = listSchema.validate(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const firs = await firService.listFIRs(value);
+
+    res.json({
+      success: true,
+      data: firs
+    });
+  } catch (error: any) {
+    logger.error('Failed to list FIRs', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list FIRs'
+    });
+  }
+});
+
+// A new FIR filled in from an alert or a missing tourist, not yet saved
+router.get('/prefill', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = prefillSchema.validate(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const draft = await firService.prefill(
+      value.alertId ? { type: 'alert', id: value.alertId } : { type: 'missing_tourist', id: value.touristId },
+      req.user!
+    );
+
+    res.json({
+      success: true,
+      data: draft
+    });
+  } catch (error: any) {
+    logger.error('Failed to prefill FIR', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to prefill FIR'
+    });
+  }
+});
+
+// Check an FIR against its revisions anchored on the blockchain. Public so
+// tourists and embassies can verify an FIR number; no FIR content is returned
+router.get('/verify/:firNumber', async (req: Request, res: Response) => {
+  try {
+    const verification = await firService.verify(req.params.firNumber.toUpperCase());
+
+    res.json({
+      success: true,
+      data: verification
+    });
+  } catch (error: any) {
+    logger.error('Failed to verify FIR', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to verify FIR'
+    });
+  }
+});
+
+// Open an evidence file through a signed link; the token identifies the officer
+router.get('/evidence/:token', async (req: Request, res: Response) => {
+  try {
+    const file = await evidenceService.open(req.params.token, req.ip);
+
+    // Links are opened from the dashboard's origin
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.setHeader('Cache-Control', 'private, no-store');
+    // Stored files have no extension, so the type comes from the evidence record
+    res.type(file.mimeType);
+
+    if (file.kind === 'download') {
+      return res.download(file.path, file.fileName);
+    }
+
+    res.setHeader('Content-Disposition', 'inline');
+    res.sendFile(file.path);
+  } catch (error: any) {
+    logger.error('Failed to open evidence', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to open evidence'
+    });
+  }
+});
+
+// List the signed-in tourist's registered FIRs, for downloading copies
+router.get('/mine', authenticate, authorize('tourist'), async (req: Request, res: Response) => {
+  try {
+    const firs = await firService.listTouristFIRs(req.user!._id);
+
+    res.json({
+      success: true,
+      data: firs
+    });
+  } catch (error: any) {
+    logger.error('Failed to get FIRs', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to get FIRs'
+    });
+  }
+});
+
+// Get an FIR with its history
+router.get('/:id', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const fir = await firService.getFIR(req.params.id);
+
+    res.json({
+      success: true,
+      data: fir
+    });
+  } catch (error: any) {
+    logger.error('Failed to get FIR', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to get FIR'
+    });
+  }
+});
+
+// File a new FIR as a draft
+router.post('/', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = createFIRSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const fir = await firService.createFIR(value, req.user!);
+
+    res.status(201).json({
+      success: true,
+      data: fir
+    });
+  } catch (error: any) {
+    logger.error('Failed to create FIR', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to create FIR'
+    });
+  }
+});
+
+// Edit a draft FIR
+router.put('/:id', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = updateFIRSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const fir = await firService.updateFIR(req.params.id, value, req.user!);
+
+    res.json({
+      success: true,
+      data: fir
+    });
+  } catch (error: any) {
+    logger.error('Failed to update FIR', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to update FIR'
+    });
+  }
+});
+
+// Shared handler for status transitions; the service checks who may make each one
+const transitionFIR = (status: FIRStatus, action: string) => {
+  return async (req: Request, res: Response) => {
+    try {
+      const { error, value } = noteSchema.validate(req.body || {});
+
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: error.details[0].message
+        });
+      }
+
+      const fir = await firService.transition(req.params.id, status, req.user!, value.note || undefined);
+
+      res.json({
+        success: true,
+        data: fir
+      });
+    } catch (error: any) {
+      logger.error(`Failed to ${action} FIR`, { error: error.message });
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.statusCode ? error.message : `Failed to ${action} FIR`
+      });
+    }
+  };
+};
+
+// Submit a draft for approval
+router.post('/:id/submit', authenticate, authorize('police', 'admin'),
+  transitionFIR('pending', 'submit'));
+
+// Approve a pending FIR
+router.post('/:id/approve', authenticate, authorize('police', 'admin'),
+  transitionFIR('approved', 'approve'));
+
+// Reject a pending FIR; a note with the reason is required
+router.post('/:id/reject', authenticate, authorize('police', 'admin'),
+  transitionFIR('rejected', 'reject'));
+
+// Send a pending or rejected FIR back to draft for changes
+router.post('/:id/return', authenticate, authorize('police', 'admin'),
+  transitionFIR('draft', 'return'));
+
+// Close an approved FIR
+router.post('/:id/close', authenticate, authorize('police', 'admin'),
+  transitionFIR('closed', 'close'));
+
+// Assign an FIR to an officer
+router.post('/:id/assign', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { officerId } = req.body;
+
+    if (!officerId) {
+      return res.status(400).json({
+        success: false,
+        error: 'officerId is required'
+      });
+    }
+
+    const fir = await firService.assign(req.params.id, officerId, req.user!);
+
+    res.json({
+      success: true,
+      data: fir
+    });
+  } catch (error: any) {
+    logger.error('Failed to assign FIR', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to assign FIR'
+    });
+  }
+});
+
+// Download an FIR as a PDF: a copy in the requested language, or the
+// tourist's own, followed by the English original
+router.get('/:id/pdf', authenticate, authorize('tourist', 'police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = pdfSchema.validate(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const document = await firDocumentService.exportFIR(req.params.id, req.user!, value.language);
+
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.setHeader('Content-Language', document.language);
+    res.attachment(document.fileName);
+    res.type('application/pdf');
+    res.send(document.buffer);
+  } catch (error: any) {
+    logger.error('Failed to export FIR', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to export FIR'
+    });
+  }
+});
+
+// List an FIR's evidence with each file's chain of custody
+router.get('/:id/evidence', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const evidence = await evidenceService.listEvidence(req.params.id, req.user!);
+
+    res.json({
+      success: true,
+      data: evidence
+    });
+  } catch (error: any) {
+    logger.error('Failed to list evidence', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to list evidence'
+    });
+  }
+});
+
+// Upload evidence files (multipart, field "files")
+router.post('/:id/evidence', authenticate, authorize('police', 'admin'), uploadEvidence, async (req: Request, res: Response) => {
+  try {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+    const evidence = await evidenceService.upload(
+      req.params.id,
+      files.map(file => ({ fileName: file.originalname, buffer: file.buffer })),
+      req.user!,
+      req.ip
+    );
+
+    res.status(201).json({
+      success: true,
+      data: evidence
+    });
+  } catch (error: any) {
+    logger.error('Failed to upload evidence', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to upload evidence'
+    });
+  }
+});
+
+// Get a short-lived link to view or download an evidence file
+router.post('/:id/evidence/:evidenceId/link', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = evidenceLinkSchema.validate(req.body || {});
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const link = await evidenceService.issueLink(req.params.id, req.params.evidenceId, value.kind, req.user!);
+
+    res.json({
+      success: true,
+      data: link
+    });
+  } catch (error: any) {
+    logger.error('Failed to create evidence link', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to create evidence link'
+    });
+  }
+});
+
+// Add a remark to an FIR's history
+router.post('/:id/remarks', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = remarkSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const fir = await firService.addRemark(req.params.id, value.note, req.user!);
+
+    res.json({
+      success: true,
+      data: fir
+    });
+  } catch (error: any) {
+    logger.error('Failed to add FIR remark', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to add FIR remark'
+    });
+  }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { logger } from '../utils/logger';
+import { getStorage } from '../repositories';
 
 const router = Router();
 
@@ -58,6 +59,7 @@ router.get('/detailed', (req: Request, res: Response) => {
 // Database test endpoint
 router.get('/db-test', async (req: Request, res: Response) => {
   try {
+    const storage = getStorage();
     const mongoose = require('mongoose');
     const connectionState = mongoose.connection.readyState;
     
@@ -69,6 +71,9 @@ router.get('/db-test', async (req: Request, res: Response) => {
     res.json({
       success: true,
       data: {
+        driver: storage.driver,
+        users: await storage.users.count(),
+        digitalIDs: await storage.digitalIDs.count(),
         connectionState,
         status: dbStatus,
         host: mongoose.connection.host,
@@ -0,0 +1,197 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { authenticate, authorize } from '../middleware/auth';
+import { locationService } from '../services/locationService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+const MAX_BATCH_SIZE = parseInt(process.env.LOCATION_MAX_BATCH || '100', 10);
+
+const sharingSchema = Joi.object({
+  enabled: Joi.boolean().optional(),
+  precision: Joi.string().valid('coarse', 'precise').optional()
+}).min(1);
+
+const pingsSchema = Joi.object({
+  pings: Joi.array().items(Joi.object({
+    lat: Joi.number().min(-90).max(90).required(),
+    lng: Joi.number().min(-180).max(180).required(),
+    accuracy: Joi.number().min(0).optional().allow(null),
+    recordedAt: Joi.date().iso().optional()
+  })).min(1).max(MAX_BATCH_SIZE).required()
+});
+
+const trackSchema = Joi.object({
+  since: Joi.date().iso().optional(),
+  limit: Joi.number().integer().min(1).max(5000).optional()
+});
+
+const accessLogSchema = Joi.object({
+  touristId: Joi.string().optional(),
+  officerId: Joi.string().optional(),
+  limit: Joi.number().integer().min(1).max(500).optional()
+});
+
+// Current user's sharing preference
+router.get('/sharing', authenticate, authorize('tourist'), async (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: locationService.getSharing(req.user!)
+  });
+});
+
+// Turn sharing on or off and choose coarse or precise
+router.put('/sharing', authenticate, authorize('tourist'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = sharingSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const sharing = await locationService.setSharing(req.user!, value);
+
+    res.json({
+      success: true,
+      data: sharing
+    });
+  } catch (error: any) {
+    logger.error('Failed to update location sharing', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to update location sharing'
+    });
+  }
+});
+
+// Batched pings from the tourist app
+router.post('/', authenticate, authorize('tourist'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = pingsSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const result = await locationService.ingest(req.user!, value.pings);
+
+    res.status(201).json({
+      success: true,
+      data: result
+    });
+  } catch (error: any) {
+    logger.error('Failed to store locations', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to store locations'
+    });
+  }
+});
+
+// The current user's stored pings
+router.get('/mine', authenticate, authorize('tourist'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = trackSchema.validate(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const points = await locationService.listOwn(req.user!._id, value);
+
+    res.json({
+      success: true,
+      data: points
+    });
+  } catch (error: any) {
+    logger.error('Failed to get locations', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get locations'
+    });
+  }
+});
+
+// Who has viewed the current user's precise track
+router.get('/mine/access', authenticate, authorize('tourist'), async (req: Request, res: Response) => {
+  try {
+    const entries = await locationService.listAccessLog({ touristId: req.user!._id });
+
+    res.json({
+      success: true,
+      data: entries
+    });
+  } catch (error: any) {
+    logger.error('Failed to get location access log', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get location access log'
+    });
+  }
+});
+
+// Audit trail of precise track views
+router.get('/access-log', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = accessLogSchema.validate(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const entries = await locationService.listAccessLog(value);
+
+    res.json({
+      success: true,
+      data: entries
+    });
+  } catch (error: any) {
+    logger.error('Failed to get location access log', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get location access log'
+    });
+  }
+});
+
+// A tourist's track; precise only for police with an open case
+router.get('/users/:userId', authenticate, authorize('police', 'tourism', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = trackSchema.validate(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const track = await locationService.getTrack(req.params.userId, req.user!, value);
+
+    res.json({
+      success: true,
+      data: track
+    });
+  } catch (error: any) {
+    logger.error('Failed to get location track', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to get location track'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,339 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import multer from 'multer';
+import { authenticate, authorize } from '../middleware/auth';
+import { MissingPersonStatus } from '../repositories';
+import { missingPersonService, MISSING_PERSON_PHOTO_MAX_BYTES } from '../services/missingPersonService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Photos are re-encoded in memory before anything is written to disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MISSING_PERSON_PHOTO_MAX_BYTES, files: 1 }
+});
+
+const uploadPhoto = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('photo')(req, res, (error: any) => {
+    if (error) {
+      return res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+        success: false,
+        error: error.code === 'LIMIT_FILE_SIZE'
+          ? `Photos must be no larger than ${MISSING_PERSON_PHOTO_MAX_BYTES / 1024 / 1024} MB`
+          : error.message
+      });
+    }
+    next();
+  });
+};
+
+const pointSchema = Joi.object({
+  lat: Joi.number().min(-90).max(90).required(),
+  lng: Joi.number().min(-180).max(180).required()
+});
+
+const openCaseSchema = Joi.object({
+  touristId: Joi.string().required(),
+  description: Joi.string().min(1).max(5000).required(),
+  reportedBy: Joi.string().min(1).max(200).required(),
+  reportedByContact: Joi.string().max(100).allow('', null).optional(),
+  lastSeenAt: Joi.date().iso().max('now').optional(),
+  lastSeenPlace: Joi.string().max(300).allow('', null).optional(),
+  lastSeenLocation: pointSchema.allow(null).optional(),
+  firId: Joi.string().allow(null).optional()
+});
+
+const listSchema = Joi.object({
+  status: Joi.string().valid('searching', 'sighted', 'found', 'closed').optional(),
+  touristId: Joi.string().optional(),
+  assignedTo: Joi.string().optional(),
+  limit: Joi.number().integer().min(1).max(500).optional()
+});
+
+const statusSchema = Joi.object({
+  note: Joi.string().max(2000).allow('').optional(),
+  location: pointSchema.allow(null).optional(),
+  place: Joi.string().max(300).allow('', null).optional()
+});
+
+const bulletinSchema = Joi.object({
+  radiusKm: Joi.number().min(0.5).max(500).optional(),
+  message: Joi.string().max(1000).allow('').optional()
+});
+
+const noteSchema = Joi.object({
+  note: Joi.string().min(1).max(2000).required()
+});
+
+// List missing-person cases, newest first
+router.get('/', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = listSchema.validate(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const cases = await missingPersonService.listCases(value);
+
+    res.json({
+      success: true,
+      data: cases
+    });
+  } catch (error: any) {
+    logger.error('Failed to list missing-person cases', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list missing-person cases'
+    });
+  }
+});
+
+// Open a case for a tourist reported missing
+router.post('/', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = openCaseSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const record = await missingPersonService.openCase(value, req.user!);
+
+    res.status(201).json({
+      success: true,
+      data: record
+    });
+  } catch (error: any) {
+    logger.error('Failed to open missing-person case', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to open missing-person case'
+    });
+  }
+});
+
+// Get a case file: the case with the tourist's digital ID, last pings, trip, contacts and FIR
+router.get('/:id', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const caseFile = await missingPersonService.getCaseFile(req.params.id, req.user!);
+
+    res.json({
+      success: true,
+      data: caseFile
+    });
+  } catch (error: any) {
+    logger.error('Failed to get missing-person case', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to get missing-person case'
+    });
+  }
+});
+
+// Shared handler for search status changes
+const transitionCase = (status: MissingPersonStatus, action: string) => {
+  return async (req: Request, res: Response) => {
+    try {
+      const { error, value } = statusSchema.validate(req.body || {});
+
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: error.details[0].message
+        });
+      }
+
+      const record = await missingPersonService.transition(req.params.id, status, req.user!, {
+        note: value.note || undefined,
+        location: value.location || null,
+        place: value.place || null
+      });
+
+      res.json({
+        success: true,
+        data: record
+      });
+    } catch (error: any) {
+      logger.error(`Failed to ${action}`, { error: error.message });
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.statusCode ? error.message : `Failed to ${action}`
+      });
+    }
+  };
+};
+
+// Record a sighting; a note describing it is required, and a location moves the last seen point
+router.post('/:id/sighted', authenticate, authorize('police', 'admin'),
+  transitionCase('sighted', 'record sighting'));
+
+// Go back to searching after a sighting that came to nothing
+router.post('/:id/searching', authenticate, authorize('police', 'admin'),
+  transitionCase('searching', 'resume search'));
+
+// Mark the tourist as found
+router.post('/:id/found', authenticate, authorize('police', 'admin'),
+  transitionCase('found', 'mark tourist found'));
+
+// Close a case; a reason is required unless the tourist was found
+router.post('/:id/close', authenticate, authorize('police', 'admin'),
+  transitionCase('closed', 'close case'));
+
+// Broadcast a bulletin to officers around the tourist's last known location
+router.post('/:id/bulletins', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = bulletinSchema.validate(req.body || {});
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const result = await missingPersonService.issueBulletin(req.params.id, req.user!, value);
+
+    res.status(201).json({
+      success: true,
+      data: result
+    });
+  } catch (error: any) {
+    logger.error('Failed to issue bulletin', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to issue bulletin'
+    });
+  }
+});
+
+// Get the case photo
+router.get('/:id/photo', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const photoPath = await missingPersonService.getPhotoPath(req.params.id);
+
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.sendFile(photoPath);
+  } catch (error: any) {
+    logger.error('Failed to get case photo', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to get case photo'
+    });
+  }
+});
+
+// Upload or replace the case photo (multipart, in the `photo` field)
+router.post('/:id/photo', authenticate, authorize('police', 'admin'), uploadPhoto, async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        error: 'No photo was uploaded'
+      });
+    }
+
+    const record = await missingPersonService.setPhoto(req.params.id, req.file.buffer, req.user!);
+
+    res.json({
+      success: true,
+      data: record
+    });
+  } catch (error: any) {
+    logger.error('Failed to upload case photo', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to upload case photo'
+    });
+  }
+});
+
+// Link the FIR filed for the missing tourist
+router.post('/:id/fir', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { firId } = req.body;
+
+    if (!firId) {
+      return res.status(400).json({
+        success: false,
+        error: 'firId is required'
+      });
+    }
+
+    const record = await missingPersonService.linkFIR(req.params.id, firId, req.user!);
+
+    res.json({
+      success: true,
+      data: record
+    });
+  } catch (error: any) {
+    logger.error('Failed to link FIR', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to link FIR'
+    });
+  }
+});
+
+// Assign a case to an officer
+router.post('/:id/assign', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { officerId } = req.body;
+
+    if (!officerId) {
+      return res.status(400).json({
+        success: false,
+        error: 'officerId is required'
+      });
+    }
+
+    const record = await missingPersonService.assign(req.params.id, officerId, req.user!);
+
+    res.json({
+      success: true,
+      data: record
+    });
+  } catch (error: any) {
+    logger.error('Failed to assign missing-person case', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to assign missing-person case'
+    });
+  }
+});
+
+// Add a note to a case's history
+router.post('/:id/notes', authenticate, authorize('police', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = noteSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const record = await missingPersonService.addNote(req.params.id, value.note, req.user!);
+
+    res.json({
+      success: true,
+      data: record
+    });
+  } catch (error: any) {
+    logger.error('Failed to add note', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to add note'
+    });
+  }
+});
+
+export default router;
@@ -1,5 +1,5 @@
 import { Router, Request, Response } from 'express';
-import User from '../models/User';
+import { getStorage, UserRole } from '../repositories';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -7,7 +7,7 @@ const router = Router();
 // Blockchain Portal - View all registered users
 router.get('/users', async (req: Request, res: Response) => {
   try {
-    const users = await User.find({}, '-password').sort({ createdAt: -1 });
+    const users = await getStorage().users.find({}, { sort: 'createdAt', order: 'desc' });
     
     res.json({
       success: true,
@@ -29,7 +29,7 @@ router.get('/users', async (req: Request, res: Response) => {
 // Blockchain Portal - View user details
 router.get('/users/:id', async (req: Request, res: Response) => {
   try {
-    const user = await User.findById(req.params.id, '-password');
+    const user = await getStorage().users.findById(req.params.id);
     
     if (!user) {
       return res.status(404).json({
@@ -54,20 +54,17 @@ router.get('/users/:id', async (req: Request, res: Response) => {
 // Blockchain Portal - Get blockchain statistics
 router.get('/stats', async (req: Request, res: Response) => {
   try {
-    const totalUsers = await User.countDocuments();
-    const activeUsers = await User.countDocuments({ isActive: true });
-    const usersByRole = await User.aggregate([
-      {
-        $group: {
-          _id: '$role',
-          count: { $sum: 1 }
-        }
-      }
-    ]);
+    const users = getStorage().users;
+    const totalUsers = await users.count();
+    const activeUsers = await users.count({ isActive: true });
+
+    const roleCounts = new Map<string, number>();
+    (await users.find()).forEach(user => {
+      roleCounts.set(user.role, (roleCounts.get(user.role) || 0) + 1);
+    });
+    const usersByRole = Array.from(roleCounts, ([role, count]) => ({ _id: role, count }));
     
-    const recentUsers = await User.find({}, '-password')
-      .sort({ createdAt: -1 })
-      .limit(5);
+    const recentUsers = await users.find({}, { sort: 'createdAt', order: 'desc', limit: 5 });
 
     res.json({
       success: true,
@@ -94,25 +91,10 @@ router.get('/search', async (req: Request, res: Response) => {
   try {
     const { q, role, active } = req.query;
     
-    let query: any = {};
-    
-    if (q) {
-      query.$or = [
-        { name: { $regex: q, $options: 'i' } },
-        { email: { $regex: q, $options: 'i' } },
-        { walletAddress: { $regex: q, $options: 'i' } }
-      ];
-    }
-    
-    if (role) {
-      query.role = role;
-    }
-    
-    if (active !== undefined) {
-      query.isActive = active === 'true';
-    }
-
-    const users = await User.find(query, '-password').sort({ createdAt: -1 });
+    const users = await getStorage().users.search(q as string | undefined, {
+      role: role as UserRole | undefined,
+      isActive: active !== undefined ? active === 'true' : undefined
+    });
     
     res.json({
       success: true,
@@ -1,15 +1,16 @@
 import { Router, Request, Response } from 'express';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { authenticate, authorize, AuthRequest } from '../middleware/auth';
 import { logger } from '../utils/logger';
 import QRService from '../services/qrService';
+import blockchain, { isDigitalIDValid } from '../services/simpleBlockchain';
+import { getStorage } from '../repositories';
+import SelectiveDisclosureService, { DISCLOSABLE_CLAIMS, PRESENTATION_TTL_MS } from '../services/selectiveDisclosure';
 
 const router = Router();
 
 // Generate Digital ID QR Code
 router.post('/digital-id', authenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const { additionalData } = req.body;
-    
     if (!req.user) {
       return res.status(401).json({
         success: false,
@@ -17,10 +18,24 @@ router.post('/digital-id', authenticate, async (req: AuthRequest, res: Response)
       });
     }
 
+    const digitalID = blockchain.findLatestDigitalID(req.user.walletAddress, req.user._id.toString());
+
+    if (!digitalID) {
+      return res.status(404).json({
+        success: false,
+        error: 'Digital ID not found'
+      });
+    }
+
+    // Only what the issued digital ID says is signed
     const qrCode = await QRService.generateDigitalIDQR(
       req.user._id.toString(),
       req.user.walletAddress || '',
-      additionalData
+      {
+        digitalIdHash: digitalID.hash,
+        status: digitalID.status,
+        expiresAt: digitalID.expiresAt ? new Date(digitalID.expiresAt).getTime() : null
+      }
     );
 
     res.json({
@@ -112,6 +127,56 @@ router.post('/transaction', authenticate, async (req: AuthRequest, res: Response
   }
 });
 
+// Verify a signed QR code, check the digital ID it refers to and accept it once
+const checkQRCode = (qrString: string) => {
+  const result = QRService.verifyQRCode(qrString);
+
+  if (!result.valid) {
+    return { ...result, statusCode: result.reason === 'malformed' ? 400 : 401 };
+  }
+
+  // Reject digital ID codes whose ID has been suspended, revoked or has expired
+  if (result.data.type === 'digital_id') {
+    // Codes name the ID they were issued for; older ones only the holder
+    const digitalID = result.data.data?.digitalIdHash
+      ? blockchain.getDigitalIDByHash(result.data.data.digitalIdHash)
+      : blockchain.findLatestDigitalID(result.data.walletAddress, result.data.userId);
+
+    if (!digitalID) {
+      return {
+        valid: false as const,
+        reason: 'digital_id_not_found',
+        message: 'Digital ID not found',
+        statusCode: 404
+      };
+    }
+
+    if (!isDigitalIDValid(digitalID)) {
+      return {
+        valid: false as const,
+        reason: `digital_id_${digitalID.status}`,
+        message: `Digital ID is ${digitalID.status}`,
+        statusCode: 403,
+        data: {
+          status: digitalID.status,
+          reason: digitalID.statusReason
+        }
+      };
+    }
+  }
+
+  if (!QRService.claimNonce(result.claims)) {
+    return {
+      valid: false as const,
+      reason: 'replayed',
+      message: 'QR code has already been used',
+      statusCode: 409
+    };
+  }
+
+  return { ...result, statusCode: 200 };
+};
+
 // Parse QR Code
 router.post('/parse', async (req: Request, res: Response) => {
   try {
@@ -124,18 +189,20 @@ router.post('/parse', async (req: Request, res: Response) => {
       });
     }
 
-    const qrData = QRService.parseQRCode(qrString);
-    
-    if (!qrData) {
-      return res.status(400).json({
+    const result = checkQRCode(qrString);
+
+    if (!result.valid) {
+      return res.status(result.statusCode).json({
         success: false,
-        error: 'Invalid QR code format'
+        error: result.message,
+        reason: result.reason,
+        ...('data' in result ? { data: result.data } : {})
       });
     }
 
     res.json({
       success: true,
-      data: qrData
+      data: result.data
     });
   } catch (error: any) {
     logger.error('QR parsing error:', error);
@@ -146,6 +213,244 @@ router.post('/parse', async (req: Request, res: Response) => {
   }
 });
 
+// Verify QR Code
+router.post('/verify', async (req: Request, res: Response) => {
+  try {
+    const { qrString } = req.body;
+
+    if (!qrString) {
+      return res.status(400).json({
+        success: false,
+        error: 'QR code string is required'
+      });
+    }
+
+    const result = checkQRCode(qrString);
+
+    if (!result.valid) {
+      return res.json({
+        success: true,
+        data: {
+          valid: false,
+          reason: result.reason,
+          message: result.message,
+          ...('data' in result ? { digitalID: result.data } : {})
+        }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        valid: true,
+        payload: result.data,
+        issuer: result.claims.iss,
+        nonce: result.claims.jti,
+        expiresAt: new Date(result.claims.exp * 1000).toISOString()
+      }
+    });
+  } catch (error: any) {
+    logger.error('QR verification error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify QR code'
+    });
+  }
+});
+
+// Get QR issuer public key for offline verification
+router.get('/issuer-key', (req: Request, res: Response) => {
+  try {
+    const issuerKey = QRService.getIssuerPublicKey();
+
+    res.json({
+      success: true,
+      data: {
+        ...issuerKey,
+        keys: [issuerKey.jwk]
+      }
+    });
+  } catch (error: any) {
+    logger.error('QR issuer key error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load QR issuer key'
+    });
+  }
+});
+
+// Commit salted identity claims for the caller's Digital ID, from their profile
+router.post('/claims', authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const digitalID = blockchain.findLatestDigitalID(req.user.walletAddress, req.user._id.toString());
+
+    if (!digitalID) {
+      return res.status(404).json({
+        success: false,
+        error: 'Digital ID not found'
+      });
+    }
+
+    const commitment = SelectiveDisclosureService.commitClaims(digitalID, req.user);
+
+    res.status(202).json({
+      success: true,
+      data: commitment
+    });
+  } catch (error: any) {
+    logger.error('Identity claims commit error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to commit identity claims'
+    });
+  }
+});
+
+// Commit a tourist's identity claims with document hashes checked by staff
+router.post('/claims/:digitalIdHash', authenticate, authorize('police', 'tourism', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { passportHash, aadhaarHash } = req.body;
+
+    if ([passportHash, aadhaarHash].some(value => value !== undefined && typeof value !== 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: 'passportHash and aadhaarHash must be strings'
+      });
+    }
+
+    const digitalID = blockchain.getDigitalIDByHash(req.params.digitalIdHash);
+    const tourist = digitalID ? await getStorage().users.findById(digitalID.userId) : null;
+
+    if (!digitalID || !tourist) {
+      return res.status(404).json({
+        success: false,
+        error: 'Digital ID not found'
+      });
+    }
+
+    const commitment = SelectiveDisclosureService.commitClaims(digitalID, tourist, { passportHash, aadhaarHash });
+
+    logger.info('Identity documents attested', { digitalIdHash: digitalID.hash, by: req.user?._id });
+
+    res.status(202).json({
+      success: true,
+      data: commitment
+    });
+  } catch (error: any) {
+    logger.error('Identity claims commit error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to commit identity claims'
+    });
+  }
+});
+
+// Generate a selective-disclosure presentation QR Code
+router.post('/presentation', authenticate, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        error: 'User not authenticated'
+      });
+    }
+
+    const { fields } = req.body;
+
+    if (!Array.isArray(fields) || fields.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: `fields must list claims to disclose: ${DISCLOSABLE_CLAIMS.join(', ')}`
+      });
+    }
+
+    const digitalID = blockchain.findLatestDigitalID(req.user.walletAddress, req.user._id.toString());
+
+    if (!digitalID) {
+      return res.status(404).json({
+        success: false,
+        error: 'Digital ID not found'
+      });
+    }
+
+    const presentation = SelectiveDisclosureService.createPresentation(digitalID, fields);
+    const expiresAt = Date.now() + PRESENTATION_TTL_MS;
+
+    const qrCode = await QRService.generatePresentationQR(
+      req.user._id.toString(),
+      req.user.walletAddress || '',
+      presentation,
+      expiresAt
+    );
+
+    res.json({
+      success: true,
+      data: {
+        qrCode,
+        digitalIdHash: digitalID.hash,
+        disclosed: fields,
+        expiresAt: new Date(expiresAt).toISOString(),
+        type: 'presentation'
+      }
+    });
+  } catch (error: any) {
+    logger.error('Presentation QR generation error:', error);
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to generate presentation QR code'
+    });
+  }
+});
+
+// Verify a selective-disclosure presentation
+router.post('/presentation/verify', async (req: Request, res: Response) => {
+  try {
+    const { qrString } = req.body;
+
+    if (!qrString) {
+      return res.status(400).json({
+        success: false,
+        error: 'QR code string is required'
+      });
+    }
+
+    const result = QRService.verifyQRCode(qrString);
+
+    if (!result.valid) {
+      return res.status(result.reason === 'malformed' ? 400 : 401).json({
+        success: false,
+        error: result.message,
+        reason: result.reason
+      });
+    }
+
+    if (result.data.type !== 'presentation') {
+      return res.status(400).json({
+        success: false,
+        error: 'QR code is not an identity presentation'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: SelectiveDisclosureService.verifyPresentation(result.data.data)
+    });
+  } catch (error: any) {
+    logger.error('Presentation verification error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify presentation'
+    });
+  }
+});
+
 // Generate QR Code as SVG
 router.post('/svg', async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,62 @@
+import { Router, Request, Response } from 'express';
+import { authenticate, authorize } from '../middleware/auth';
+import { safetyScoreService } from '../services/safetyScoreService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// The current tourist's score
+router.get('/me', authenticate, authorize('tourist'), async (req: Request, res: Response) => {
+  try {
+    const score = await safetyScoreService.getScore(req.user!._id);
+
+    res.json({
+      success: true,
+      data: score
+    });
+  } catch (error: any) {
+    logger.error('Failed to get safety score', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to get safety score'
+    });
+  }
+});
+
+// Scores for every active tourist
+router.get('/tourists', authenticate, authorize('police', 'tourism', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const scores = await safetyScoreService.listScores();
+
+    res.json({
+      success: true,
+      data: scores
+    });
+  } catch (error: any) {
+    logger.error('Failed to list safety scores', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list safety scores'
+    });
+  }
+});
+
+// A single tourist's score
+router.get('/tourists/:userId', authenticate, authorize('police', 'tourism', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const score = await safetyScoreService.getScore(req.params.userId);
+
+    res.json({
+      success: true,
+      data: score
+    });
+  } catch (error: any) {
+    logger.error('Failed to get safety score', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to get safety score'
+    });
+  }
+});
+
+export default router;
@@ -1,7 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { logger } from '../utils/logger';
-import blockchain from '../services/simpleBlockchain';
+import blockchain, { buildTransactionMessage, isDigitalIDValid, DigitalIDStatus } from '../services/simpleBlockchain';
 import { WalletService } from '../services/WalletService';
+import CredentialService from '../services/credentialService';
+import { tripService } from '../services/tripService';
+import { authenticate, authorize } from '../middleware/auth';
 
 const router = Router();
 
@@ -79,7 +82,7 @@ router.get('/wallet/:address', async (req: Request, res: Response) => {
 // Create Digital ID
 router.post('/digital-id/create', async (req: Request, res: Response) => {
   try {
-    const { userId, name, email, role, walletAddress, additionalData } = req.body;
+    const { userId, name, email, role, walletAddress, expiresAt, additionalData } = req.body;
     
     if (!userId || !name || !email || !role || !walletAddress) {
       return res.status(400).json({
@@ -88,12 +91,25 @@ router.post('/digital-id/create', async (req: Request, res: Response) => {
       });
     }
 
+    // Tourist IDs expire when the trip ends; without an explicit date, use their current or next trip
+    const expiry = expiresAt || additionalData?.tripEndDate ||
+      (role === 'tourist' ? await tripService.getIdExpiry(userId) : null);
+    const expiresAtMs = expiry ? new Date(expiry).getTime() : null;
+
+    if (expiresAtMs !== null && (isNaN(expiresAtMs) || expiresAtMs <= Date.now())) {
+      return res.status(400).json({
+        success: false,
+        error: 'expiresAt must be a valid future date'
+      });
+    }
+
     const digitalID = await blockchain.createDigitalID({
       userId,
       name,
       email,
       role,
       walletAddress,
+      expiresAt: expiresAtMs,
       additionalData
     });
     
@@ -110,8 +126,8 @@ router.post('/digital-id/create', async (req: Request, res: Response) => {
   }
 });
 
-// Verify Digital ID
-router.post('/digital-id/verify', async (req: Request, res: Response) => {
+// Verify a pending Digital ID
+router.post('/digital-id/verify', authenticate, authorize('police', 'tourism', 'admin'), async (req: Request, res: Response) => {
   try {
     const { hash } = req.body;
     
@@ -122,7 +138,7 @@ router.post('/digital-id/verify', async (req: Request, res: Response) => {
       });
     }
 
-    const digitalID = blockchain.verifyDigitalID(hash);
+    const digitalID = blockchain.verifyDigitalID(hash, `${req.user?.role}:${req.user?._id}`);
     
     if (!digitalID) {
       return res.status(404).json({
@@ -137,9 +153,9 @@ router.post('/digital-id/verify', async (req: Request, res: Response) => {
     });
   } catch (error: any) {
     logger.error('Failed to verify digital ID', { error: error.message });
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
-      error: 'Failed to verify digital ID'
+      error: error.statusCode ? error.message : 'Failed to verify digital ID'
     });
   }
 });
@@ -160,7 +176,10 @@ router.get('/digital-id/:hash', async (req: Request, res: Response) => {
     
     res.json({
       success: true,
-      data: digitalID
+      data: {
+        ...digitalID,
+        valid: isDigitalIDValid(digitalID)
+      }
     });
   } catch (error: any) {
     logger.error('Failed to get digital ID', { error: error.message });
@@ -171,6 +190,221 @@ router.get('/digital-id/:hash', async (req: Request, res: Response) => {
   }
 });
 
+// Get Merkle inclusion proof for a Digital ID
+router.get('/digital-id/:hash/proof', async (req: Request, res: Response) => {
+  try {
+    const { hash } = req.params;
+
+    const proof = blockchain.getDigitalIDProof(hash);
+
+    if (!proof) {
+      if (blockchain.isRecordPending(record => record.type === 'digital_id' && record.digitalIdHash === hash)) {
+        return res.status(202).json({
+          success: true,
+          data: {
+            digitalIdHash: hash,
+            pending: true
+          }
+        });
+      }
+
+      return res.status(404).json({
+        success: false,
+        error: 'Digital ID is not anchored on the blockchain'
+      });
+    }
+
+    // A revoke or suspend still in the mempool overrides the last mined status
+    const history = blockchain.getDigitalIDStatusHistory(hash);
+    const latest = history[history.length - 1];
+    const pendingStatus = latest && !latest.anchored ? latest : null;
+
+    res.json({
+      success: true,
+      data: {
+        digitalIdHash: hash,
+        anchor: proof.anchor,
+        latestStatus: proof.latestStatus,
+        pendingStatus,
+        verifiedOnChain: proof.latestStatus?.record.to === 'verified' && (!pendingStatus || pendingStatus.to === 'verified')
+      }
+    });
+  } catch (error: any) {
+    logger.error('Failed to get digital ID proof', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get digital ID proof'
+    });
+  }
+});
+
+// Get Digital ID lifecycle status and history
+router.get('/digital-id/:hash/status', async (req: Request, res: Response) => {
+  try {
+    const { hash } = req.params;
+
+    const digitalID = blockchain.getDigitalIDByHash(hash);
+
+    if (!digitalID) {
+      return res.status(404).json({
+        success: false,
+        error: 'Digital ID not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        hash,
+        status: digitalID.status,
+        reason: digitalID.statusReason,
+        valid: isDigitalIDValid(digitalID),
+        expiresAt: digitalID.expiresAt,
+        history: blockchain.getDigitalIDStatusHistory(hash)
+      }
+    });
+  } catch (error: any) {
+    logger.error('Failed to get digital ID status', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get digital ID status'
+    });
+  }
+});
+
+// Shared handler for lifecycle changes made by police and tourism staff
+const changeDigitalIDStatus = (status: DigitalIDStatus, action: string, requiresReason: boolean) => {
+  return async (req: Request, res: Response) => {
+    try {
+      const { hash } = req.params;
+      const { reason } = req.body;
+
+      if (requiresReason && !reason) {
+        return res.status(400).json({
+          success: false,
+          error: 'A reason is required'
+        });
+      }
+
+      const digitalID = blockchain.transitionDigitalID(
+        hash,
+        status,
+        reason || 'Reinstated',
+        `${req.user?.role}:${req.user?._id}`
+      );
+
+      res.json({
+        success: true,
+        data: {
+          ...digitalID,
+          valid: isDigitalIDValid(digitalID)
+        }
+      });
+    } catch (error: any) {
+      logger.error(`Failed to ${action} digital ID`, { error: error.message });
+      res.status(error.statusCode || 500).json({
+        success: false,
+        error: error.statusCode ? error.message : `Failed to ${action} digital ID`
+      });
+    }
+  };
+};
+
+// Revoke Digital ID
+router.post('/digital-id/:hash/revoke', authenticate, authorize('police', 'tourism', 'admin'),
+  changeDigitalIDStatus('revoked', 'revoke', true));
+
+// Suspend Digital ID
+router.post('/digital-id/:hash/suspend', authenticate, authorize('police', 'tourism', 'admin'),
+  changeDigitalIDStatus('suspended', 'suspend', true));
+
+// Reinstate a suspended Digital ID
+router.post('/digital-id/:hash/reinstate', authenticate, authorize('police', 'tourism', 'admin'),
+  changeDigitalIDStatus('verified', 'reinstate', false));
+
+// Issue a Digital ID as a W3C Verifiable Credential
+router.get('/digital-id/:hash/credential', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { hash } = req.params;
+
+    const digitalID = blockchain.getDigitalIDByHash(hash);
+
+    if (!digitalID) {
+      return res.status(404).json({
+        success: false,
+        error: 'Digital ID not found'
+      });
+    }
+
+    // Tourists may only export their own ID; staff may export any
+    const isOwner = digitalID.userId === req.user?._id.toString() ||
+      digitalID.walletAddress.toLowerCase() === req.user?.walletAddress?.toLowerCase();
+
+    if (!isOwner && !['police', 'tourism', 'admin'].includes(req.user?.role || '')) {
+      return res.status(403).json({
+        success: false,
+        error: 'Insufficient permissions.'
+      });
+    }
+
+    const credential = CredentialService.issueDigitalIDCredential(digitalID);
+
+    res.json({
+      success: true,
+      data: credential
+    });
+  } catch (error: any) {
+    logger.error('Failed to issue verifiable credential', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to issue verifiable credential'
+    });
+  }
+});
+
+// Verify a Verifiable Credential
+router.post('/credentials/verify', async (req: Request, res: Response) => {
+  try {
+    const { credential } = req.body;
+
+    if (!credential) {
+      return res.status(400).json({
+        success: false,
+        error: 'Credential is required'
+      });
+    }
+
+    const verification = CredentialService.verifyCredential(credential);
+
+    res.json({
+      success: true,
+      data: verification
+    });
+  } catch (error: any) {
+    logger.error('Failed to verify credential', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify credential'
+    });
+  }
+});
+
+// Get credential issuer DID and key
+router.get('/credentials/issuer', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: CredentialService.getIssuer()
+    });
+  } catch (error: any) {
+    logger.error('Failed to get credential issuer', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get credential issuer'
+    });
+  }
+});
+
 // Get all Digital IDs
 router.get('/digital-ids', async (req: Request, res: Response) => {
   try {
@@ -193,11 +427,11 @@ router.get('/digital-ids', async (req: Request, res: Response) => {
   }
 });
 
-// Add transaction
-router.post('/transaction', async (req: Request, res: Response) => {
+// Prepare the message a sender must sign for a transaction
+router.post('/transaction/prepare', async (req: Request, res: Response) => {
   try {
     const { from, to, amount } = req.body;
-    
+
     if (!from || !to || !amount) {
       return res.status(400).json({
         success: false,
@@ -205,21 +439,66 @@ router.post('/transaction', async (req: Request, res: Response) => {
       });
     }
 
+    if (!walletService.isValidAddress(from) || !walletService.isValidAddress(to)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid wallet address'
+      });
+    }
+
+    const nonce = blockchain.getNextNonce(from);
+    const message = buildTransactionMessage({
+      from,
+      to,
+      amount: parseFloat(amount),
+      nonce
+    });
+
+    res.json({
+      success: true,
+      data: {
+        nonce,
+        message
+      }
+    });
+  } catch (error: any) {
+    logger.error('Failed to prepare transaction', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to prepare transaction'
+    });
+  }
+});
+
+// Add signed transaction to the pending pool
+router.post('/transaction', async (req: Request, res: Response) => {
+  try {
+    const { from, to, amount, nonce, signature } = req.body;
+    
+    if (!from || !to || !amount || nonce === undefined || !signature) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: from, to, amount, nonce, signature'
+      });
+    }
+
     const transaction = blockchain.addTransaction({
       from,
       to,
-      amount: parseFloat(amount)
+      amount: parseFloat(amount),
+      nonce: Number(nonce),
+      signature
     });
     
-    res.json({
+    res.status(202).json({
       success: true,
       data: transaction
     });
   } catch (error: any) {
     logger.error('Failed to add transaction', { error: error.message });
-    res.status(500).json({
+    res.status(error.statusCode || 500).json({
       success: false,
-      error: 'Failed to add transaction'
+      error: error.statusCode ? error.message : 'Failed to add transaction'
     });
   }
 });
@@ -272,6 +551,68 @@ router.get('/transactions', async (req: Request, res: Response) => {
   }
 });
 
+// Get pending transactions
+router.get('/transactions/pending', async (req: Request, res: Response) => {
+  try {
+    const transactions = blockchain.getPendingTransactions();
+
+    res.json({
+      success: true,
+      data: {
+        transactions,
+        total: transactions.length
+      }
+    });
+  } catch (error: any) {
+    logger.error('Failed to get pending transactions', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get pending transactions'
+    });
+  }
+});
+
+// Get records waiting to be mined
+router.get('/mempool', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: blockchain.getMempool()
+    });
+  } catch (error: any) {
+    logger.error('Failed to get mempool', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get mempool'
+    });
+  }
+});
+
+// Mine pending records into a block without waiting for the block interval
+router.post('/mine', authenticate, authorize('admin'), async (req: Request, res: Response) => {
+  try {
+    const block = await blockchain.mineNow();
+
+    if (!block) {
+      return res.status(409).json({
+        success: false,
+        error: 'No pending records to mine'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: block
+    });
+  } catch (error: any) {
+    logger.error('Failed to mine block', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to mine block'
+    });
+  }
+});
+
 // Get blockchain info
 router.get('/info', async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,207 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { authenticate, authorize } from '../middleware/auth';
+import { tripService } from '../services/tripService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+const destinationSchema = Joi.object({
+  id: Joi.string().optional(),
+  name: Joi.string().min(1).max(200).required(),
+  time: Joi.string().min(1).max(50).required(),
+  notes: Joi.string().allow('').max(500).optional(),
+  lat: Joi.number().min(-90).max(90).optional().allow(null),
+  lng: Joi.number().min(-180).max(180).optional().allow(null)
+}).and('lat', 'lng');
+
+const tripFields = {
+  title: Joi.string().min(1).max(200),
+  description: Joi.string().allow('').max(1000),
+  startDate: Joi.date().iso(),
+  endDate: Joi.date().iso(),
+  destinations: Joi.array().items(destinationSchema).min(1).max(50),
+  members: Joi.array().items(Joi.string().min(1).max(100)).max(20)
+};
+
+const createTripSchema = Joi.object({
+  ...tripFields,
+  title: tripFields.title.required(),
+  startDate: tripFields.startDate.required(),
+  endDate: tripFields.endDate.min(Joi.ref('startDate')).required(),
+  destinations: tripFields.destinations.required()
+});
+
+const updateTripSchema = Joi.object(tripFields).min(1);
+
+const listSchema = Joi.object({
+  status: Joi.string().valid('planned', 'active', 'completed', 'cancelled').optional()
+});
+
+const statusSchema = Joi.object({
+  status: Joi.string().valid('active', 'completed', 'cancelled').required()
+});
+
+// Current user's trips, soonest first
+router.get('/', authenticate, authorize('tourist'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = listSchema.validate(req.query);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const trips = await tripService.listTrips(req.user!._id, value.status);
+
+    res.json({
+      success: true,
+      data: trips
+    });
+  } catch (error: any) {
+    logger.error('Failed to list trips', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list trips'
+    });
+  }
+});
+
+// A tourist's trips (police/tourism/admin)
+router.get('/users/:userId', authenticate, authorize('police', 'tourism', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const trips = await tripService.listTrips(req.params.userId);
+
+    res.json({
+      success: true,
+      data: trips
+    });
+  } catch (error: any) {
+    logger.error('Failed to list trips', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list trips'
+    });
+  }
+});
+
+// Get a trip
+router.get('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const trip = await tripService.getTrip(req.params.id, req.user!);
+
+    res.json({
+      success: true,
+      data: trip
+    });
+  } catch (error: any) {
+    logger.error('Failed to get trip', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to get trip'
+    });
+  }
+});
+
+// Plan a trip
+router.post('/', authenticate, authorize('tourist'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = createTripSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const trip = await tripService.createTrip(req.user!, value);
+
+    res.status(201).json({
+      success: true,
+      data: trip
+    });
+  } catch (error: any) {
+    logger.error('Failed to create trip', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create trip'
+    });
+  }
+});
+
+// Update a planned or active trip; destinations sent with their id keep their progress
+router.put('/:id', authenticate, authorize('tourist'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = updateTripSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const trip = await tripService.updateTrip(req.params.id, req.user!, value);
+
+    res.json({
+      success: true,
+      data: trip
+    });
+  } catch (error: any) {
+    logger.error('Failed to update trip', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to update trip'
+    });
+  }
+});
+
+// Start, finish or cancel a trip early
+router.post('/:id/status', authenticate, authorize('tourist'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = statusSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const trip = await tripService.setStatus(req.params.id, req.user!, value.status);
+
+    res.json({
+      success: true,
+      data: trip
+    });
+  } catch (error: any) {
+    logger.error('Failed to update trip status', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to update trip status'
+    });
+  }
+});
+
+// Delete a trip
+router.delete('/:id', authenticate, authorize('tourist'), async (req: Request, res: Response) => {
+  try {
+    await tripService.deleteTrip(req.params.id, req.user!);
+
+    res.json({
+      success: true,
+      message: 'Trip deleted'
+    });
+  } catch (error: any) {
+    logger.error('Failed to delete trip', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to delete trip'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,245 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { authenticate, authorize } from '../middleware/auth';
+import { geofenceService } from '../services/geofenceService';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+const pointSchema = Joi.object({
+  lat: Joi.number().min(-90).max(90).required(),
+  lng: Joi.number().min(-180).max(180).required()
+});
+
+const timeSchema = Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).messages({
+  'string.pattern.base': 'Times must be HH:MM'
+});
+
+const zoneFields = {
+  name: Joi.string().min(1).max(100),
+  type: Joi.string().valid('safe', 'restricted', 'alert'),
+  shape: Joi.string().valid('polygon', 'circle'),
+  coordinates: Joi.array().items(pointSchema).min(1),
+  radius: Joi.number().positive().max(100000).allow(null),
+  description: Joi.string().allow('').max(500),
+  district: Joi.string().trim().max(100).allow('', null),
+  status: Joi.string().valid('active', 'inactive'),
+  timeWindows: Joi.array().items(Joi.object({
+    start: timeSchema.required(),
+    end: timeSchema.required(),
+    days: Joi.array().items(Joi.number().integer().min(0).max(6)).unique().optional()
+  })).allow(null),
+  dwellSeconds: Joi.number().integer().min(30).allow(null),
+  anomalyThresholds: Joi.object({
+    inactivityMinutes: Joi.number().min(1).max(1440).allow(null),
+    maxSpeedKmh: Joi.number().min(5).max(1000).allow(null),
+    signalLossMinutes: Joi.number().min(1).max(1440).allow(null),
+    deviationKm: Joi.number().min(0.5).max(1000).allow(null)
+  }).allow(null)
+};
+
+const createZoneSchema = Joi.object({
+  ...zoneFields,
+  name: zoneFields.name.required(),
+  type: zoneFields.type.required(),
+  shape: zoneFields.shape.required(),
+  coordinates: zoneFields.coordinates.required(),
+  description: zoneFields.description.default(''),
+  status: zoneFields.status.default('active')
+});
+
+const updateZoneSchema = Joi.object(zoneFields).min(1);
+
+const locationSchema = Joi.object({
+  lat: Joi.number().min(-90).max(90).required(),
+  lng: Joi.number().min(-180).max(180).required(),
+  recordedAt: Joi.date().iso().optional()
+});
+
+/**
+ * Circles need one centre point and a radius, polygons at least three vertices
+ */
+const checkGeometry = (zone: { shape: string; coordinates: unknown[]; radius?: number | null }): string | null => {
+  if (zone.shape === 'circle') {
+    if (zone.coordinates.length !== 1) return 'A circle zone needs exactly one centre coordinate';
+    if (!zone.radius) return 'A circle zone needs a radius';
+  } else if (zone.coordinates.length < 3) {
+    return 'A polygon zone needs at least three coordinates';
+  }
+
+  return null;
+};
+
+// List zones with live occupancy
+router.get('/', authenticate, async (req: Request, res: Response) => {
+  try {
+    const zones = await geofenceService.listZones();
+
+    res.json({
+      success: true,
+      data: zones
+    });
+  } catch (error: any) {
+    logger.error('Failed to list zones', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list zones'
+    });
+  }
+});
+
+// Check a location against the zones; pings from tourists sharing their location also feed the geofence engine
+router.post('/check', authenticate, async (req: Request, res: Response) => {
+  try {
+    const { error, value } = locationSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const location = { lat: value.lat, lng: value.lng };
+    const at = value.recordedAt ? new Date(value.recordedAt) : new Date();
+    const events = req.user!.role === 'tourist' && req.user!.locationSharing
+      ? await geofenceService.processLocation(req.user!, location, at)
+      : [];
+    const zones = await geofenceService.zonesAt(location, at);
+
+    res.json({
+      success: true,
+      data: {
+        zones: zones.map(zone => ({ _id: zone._id, name: zone.name, type: zone.type, description: zone.description })),
+        events
+      }
+    });
+  } catch (error: any) {
+    logger.error('Failed to check location', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to check location'
+    });
+  }
+});
+
+// Get a single zone
+router.get('/:id', authenticate, async (req: Request, res: Response) => {
+  try {
+    const zone = await geofenceService.getZone(req.params.id);
+
+    res.json({
+      success: true,
+      data: zone
+    });
+  } catch (error: any) {
+    logger.error('Failed to get zone', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to get zone'
+    });
+  }
+});
+
+// Tourists currently inside a zone
+router.get('/:id/occupants', authenticate, authorize('police', 'tourism', 'admin'), async (req: Request, res: Response) => {
+  try {
+    await geofenceService.getZone(req.params.id);
+
+    res.json({
+      success: true,
+      data: geofenceService.getOccupants(req.params.id)
+    });
+  } catch (error: any) {
+    logger.error('Failed to get zone occupants', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to get zone occupants'
+    });
+  }
+});
+
+// Create a zone
+router.post('/', authenticate, authorize('police', 'tourism', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = createZoneSchema.validate(req.body);
+    const geometryError = error ? null : checkGeometry(value);
+
+    if (error || geometryError) {
+      return res.status(400).json({
+        success: false,
+        error: error ? error.details[0].message : geometryError
+      });
+    }
+
+    const zone = await geofenceService.createZone(value, req.user!);
+
+    res.status(201).json({
+      success: true,
+      data: zone
+    });
+  } catch (error: any) {
+    logger.error('Failed to create zone', { error: error.message });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create zone'
+    });
+  }
+});
+
+// Update a zone
+router.put('/:id', authenticate, authorize('police', 'tourism', 'admin'), async (req: Request, res: Response) => {
+  try {
+    const { error, value } = updateZoneSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        error: error.details[0].message
+      });
+    }
+
+    const existing = await geofenceService.getZone(req.params.id);
+    const geometryError = checkGeometry({ ...existing, ...value });
+
+    if (geometryError) {
+      return res.status(400).json({
+        success: false,
+        error: geometryError
+      });
+    }
+
+    const zone = await geofenceService.updateZone(req.params.id, value);
+
+    res.json({
+      success: true,
+      data: zone
+    });
+  } catch (error: any) {
+    logger.error('Failed to update zone', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to update zone'
+    });
+  }
+});
+
+// Delete a zone
+router.delete('/:id', authenticate, authorize('police', 'tourism', 'admin'), async (req: Request, res: Response) => {
+  try {
+    await geofenceService.deleteZone(req.params.id);
+
+    res.json({
+      success: true,
+      message: 'Zone deleted'
+    });
+  } catch (error: any) {
+    logger.error('Failed to delete zone', { error: error.message });
+    res.status(error.statusCode || 500).json({
+      success: false,
+      error: error.statusCode ? error.message : 'Failed to delete zone'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,285 @@
+import {
+  AlertRecord,
+  FIRRecord,
+  GeoPoint,
+  getStorage,
+  TripDestination,
+  TripRecord,
+  TripWarning,
+  ZoneRecord,
+  ZoneTimeWindow
+} from '../repositories';
+import { pluralize } from '../utils/format';
+import { logger } from '../utils/logger';
+import { OPEN_ALERT_STATUSES } from './alertService';
+import { BusEvent, eventBus } from './eventBus';
+import { firService } from './firService';
+import { distanceMeters, geofenceService, localTime, windowCovers } from './geofenceService';
+import { countIncidents } from './safetyScoreService';
+
+const ALERT_RADIUS_METERS = parseInt(process.env.ADVISORY_ALERT_RADIUS_METERS || '2000', 10);
+const INCIDENT_RADIUS_METERS = parseInt(process.env.ADVISORY_INCIDENT_RADIUS_METERS || '1000', 10);
+const INCIDENT_LOOKBACK_MS = parseInt(process.env.ADVISORY_INCIDENT_LOOKBACK_DAYS || '90', 10) * 24 * 60 * 60 * 1000;
+// Fewer past incidents than this near a stop are not worth a warning
+const INCIDENT_THRESHOLD = parseInt(process.env.ADVISORY_INCIDENT_THRESHOLD || '3', 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Zone changes that can move a warning; enter/exit/dwell and occupancy events cannot
+const ZONE_CHANGES = ['zone_created', 'zone_updated', 'zone_deleted'];
+
+const describeWindow = (window: ZoneTimeWindow) => `${window.start}–${window.end}`;
+
+/**
+ * Minutes past midnight for the free-text time on an itinerary stop, e.g.
+ * "09:00 AM", "9pm" or "21:30"; null when it cannot be read
+ */
+export const parsePlannedTime = (time: string): number | null => {
+  const match = time.trim().match(/^(\d{1,2})(?:[:.](\d{2}))?\s*([ap])\.?m?\.?$|^(\d{1,2})[:.](\d{2})$/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1] ?? match[4], 10);
+  const minutes = parseInt(match[2] ?? match[5] ?? '0', 10);
+  const meridiem = match[3]?.toLowerCase();
+
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = hours % 12 + (meridiem === 'p' ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+};
+
+const sameWarnings = (a: TripWarning[] = [], b: TripWarning[] = []) =>
+  a.length === b.length && a.every((warning, i) =>
+    warning.kind === b[i].kind && warning.severity === b[i].severity && warning.message === b[i].message);
+
+const SEVERITY_ORDER: TripWarning['severity'][] = ['high', 'moderate', 'low'];
+
+/**
+ * Itinerary advisories. Each upcoming stop on a planned or active trip is
+ * checked against restricted and alert zones (including curfew windows at
+ * its planned time on the trip's days), open alerts around it and how many
+ * incidents (alerts and registered FIRs) were reported there recently.
+ * Warnings are stored on the stop, worked out when a trip is saved and again
+ * whenever alerts, zones or FIRs change;
+ * a tourist whose upcoming stop gets a different warning receives an
+ * 'advisory_changed' event on the 'trips' topic.
+ */
+export class AdvisoryService {
+  private stopListening: (() => void) | null = null;
+
+  /**
+   * The trip's destinations with fresh warnings on every upcoming stop;
+   * completed stops keep what they had
+   */
+  async annotate(trip: Pick<TripRecord, 'userId' | 'startDate' | 'endDate' | 'destinations'>, now: Date = new Date()): Promise<TripDestination[]> {
+    const alerts = await getStorage().alerts.find({}, { sort: 'createdAt', order: 'desc' });
+    const firs = await firService.listIncidents(new Date(now.getTime() - INCIDENT_LOOKBACK_MS));
+    const days = this.tripDays(trip.startDate, trip.endDate);
+    const annotated: TripDestination[] = [];
+
+    for (const destination of trip.destinations) {
+      if (destination.status === 'completed') {
+        annotated.push(destination);
+        continue;
+      }
+
+      const warnings = Number.isFinite(destination.lat) && Number.isFinite(destination.lng)
+        ? await this.assess(trip.userId, { lat: destination.lat!, lng: destination.lng! }, destination.time, days, alerts, firs, now)
+        : [];
+      annotated.push({ ...destination, warnings });
+    }
+
+    return annotated;
+  }
+
+  /**
+   * Re-check every open trip and save and announce those whose upcoming stops changed
+   */
+  async refreshAll(now: Date = new Date()): Promise<number> {
+    let changed = 0;
+
+    for (const status of ['planned', 'active'] as const) {
+      const trips = await getStorage().trips.find({ status });
+
+      for (const trip of trips) {
+        if (await this.refreshTrip(trip, now)) changed++;
+      }
+    }
+
+    return changed;
+  }
+
+  public startMonitoring() {
+    if (this.stopListening) return;
+
+    this.stopListening = eventBus.listen(['alerts', 'zones', 'firs'], event => {
+      this.handleEvent(event).catch(error => {
+        logger.error('Itinerary advisory refresh failed', { error: error.message });
+      });
+    });
+
+    logger.info('Itinerary advisories started', { alertRadiusMeters: ALERT_RADIUS_METERS });
+  }
+
+  public stopMonitoring() {
+    if (this.stopListening) {
+      this.stopListening();
+      this.stopListening = null;
+    }
+  }
+
+  private async handleEvent(event: BusEvent) {
+    if (event.topic === 'zones' && !ZONE_CHANGES.includes(event.type)) return;
+    // Only a status change moves an FIR in or out of the incident count
+    if (event.topic === 'firs' && event.type !== 'status_changed') return;
+    await this.refreshAll();
+  }
+
+  private async refreshTrip(trip: TripRecord, now: Date): Promise<boolean> {
+    const annotated = new Map((await this.annotate(trip, now)).map(destination => [destination.id, destination]));
+
+    // Stops may have been ticked off or edited while the warnings were worked
+    // out, so the warnings are merged onto the trip as it is now and only
+    // where the stop is still upcoming at the same place and time
+    const current = await getStorage().trips.findById(trip._id);
+    if (!current) return false;
+
+    const changedIds: string[] = [];
+    const destinations = current.destinations.map(destination => {
+      const fresh = annotated.get(destination.id);
+      if (
+        !fresh ||
+        destination.status !== 'upcoming' ||
+        fresh.lat !== destination.lat ||
+        fresh.lng !== destination.lng ||
+        fresh.time !== destination.time ||
+        sameWarnings(fresh.warnings, destination.warnings)
+      ) {
+        return destination;
+      }
+
+      changedIds.push(destination.id);
+      return { ...destination, warnings: fresh.warnings };
+    });
+
+    if (changedIds.length === 0) return false;
+
+    const updated = await getStorage().trips.update(trip._id, { destinations });
+    logger.info('Itinerary advisories changed', { tripId: trip._id, userId: trip.userId, destinations: changedIds });
+    eventBus.publish('trips', 'advisory_changed', { ...updated, changedDestinations: changedIds }, trip.userId);
+
+    return true;
+  }
+
+  private async assess(
+    userId: string,
+    point: GeoPoint,
+    time: string,
+    days: number[],
+    alerts: AlertRecord[],
+    firs: FIRRecord[],
+    now: Date
+  ): Promise<TripWarning[]> {
+    const zones = await geofenceService.zonesContaining(point);
+    const warnings: TripWarning[] = [
+      ...zones.flatMap(zone => this.zoneWarnings(zone, parsePlannedTime(time), days)),
+      ...this.alertWarnings(userId, point, alerts, firs, now)
+    ];
+
+    return warnings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+  }
+
+  private zoneWarnings(zone: ZoneRecord, minutes: number | null, days: number[]): TripWarning[] {
+    if (zone.type === 'safe') return [];
+
+    const restricted = zone.type === 'restricted';
+    const kind = restricted ? 'restricted_zone' : 'alert_zone';
+
+    if (!zone.timeWindows || zone.timeWindows.length === 0) {
+      return [{
+        kind,
+        severity: restricted ? 'high' : 'moderate',
+        message: `Inside ${restricted ? 'restricted' : 'alert'} zone ${zone.name}`,
+        zoneId: zone._id
+      }];
+    }
+
+    // A curfew: only a problem when the planned time falls inside it on one of the trip's days
+    const onTripDays = zone.timeWindows.filter(window => days.some(day =>
+      windowCovers(window, day, parsePlannedTime(window.start)!) || windowCovers(window, day, 0)));
+    if (onTripDays.length === 0) return [];
+
+    const clash = minutes === null
+      ? undefined
+      : onTripDays.find(window => days.some(day => windowCovers(window, day, minutes)));
+
+    if (clash) {
+      return [{
+        kind: 'curfew',
+        severity: restricted ? 'high' : 'moderate',
+        message: `Planned time falls in the ${describeWindow(clash)} curfew of ${zone.name}`,
+        zoneId: zone._id
+      }];
+    }
+
+    return [{
+      kind: 'curfew',
+      severity: 'low',
+      message: `${zone.name} has a curfew (${onTripDays.map(describeWindow).join(', ')})`,
+      zoneId: zone._id
+    }];
+  }
+
+  // The tourist's own alerts and FIRs are left out, as in the safety score
+  private alertWarnings(userId: string, point: GeoPoint, alerts: AlertRecord[], firs: FIRRecord[], now: Date): TripWarning[] {
+    const warnings: TripWarning[] = [];
+    const others = alerts.filter(alert => alert.userId !== userId && alert.location);
+
+    const open = others.filter(alert =>
+      OPEN_ALERT_STATUSES.includes(alert.status) &&
+      distanceMeters(point, alert.location!) <= ALERT_RADIUS_METERS
+    );
+    if (open.length > 0) {
+      const serious = open.some(alert => alert.severity === 'high' || alert.severity === 'critical');
+      warnings.push({
+        kind: 'open_alerts',
+        severity: serious ? 'high' : 'moderate',
+        message: `${pluralize(open.length, 'open alert')} within ${ALERT_RADIUS_METERS / 1000} km`
+      });
+    }
+
+    const since = new Date(now.getTime() - INCIDENT_LOOKBACK_MS);
+    const incidents = countIncidents(userId, point, alerts, firs, INCIDENT_RADIUS_METERS, since);
+    if (incidents >= INCIDENT_THRESHOLD) {
+      warnings.push({
+        kind: 'incident_history',
+        severity: incidents >= INCIDENT_THRESHOLD * 2 ? 'moderate' : 'low',
+        message: `${pluralize(incidents, 'incident')} reported within ${INCIDENT_RADIUS_METERS / 1000} km in the last ${INCIDENT_LOOKBACK_MS / DAY_MS} days`
+      });
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Local days of week the trip covers
+   */
+  private tripDays(startDate: Date, endDate: Date): number[] {
+    const days = new Set<number>();
+
+    for (let at = startDate.getTime(); at <= endDate.getTime() && days.size < 7; at += DAY_MS) {
+      days.add(localTime(new Date(at)).day);
+    }
+    days.add(localTime(endDate).day);
+
+    return Array.from(days);
+  }
+}
+
+export const advisoryService = new AdvisoryService();
+export default advisoryService;
@@ -0,0 +1,352 @@
+import { createApiError } from '../middleware/errorHandler';
+import { AlertEvent, AlertRecord, AlertStatus, GeoPoint, getStorage, UserRecord, ZoneRecord } from '../repositories';
+import { logger } from '../utils/logger';
+import { eventBus } from './eventBus';
+
+export interface SOSRequest {
+  location?: { lat: number; lng: number; accuracy?: number; address?: string } | null;
+  battery?: number | null;
+  reportedAt?: string | Date;
+  digitalIdHash?: string;
+  message?: string;
+  // Seconds police have to acknowledge before the alert escalates
+  sosTimeout?: number;
+}
+
+export type AnomalyKind = 'inactivity' | 'speed' | 'signal_loss' | 'deviation';
+
+// What the movement anomaly detector saw, attached to the alert as evidence
+export interface AnomalyReport {
+  kind: AnomalyKind;
+  severity: 'low' | 'moderate';
+  message: string;
+  location: GeoPoint | null;
+  evidence: {
+    observed: number;
+    threshold: number;
+    unit: 'minutes' | 'km/h' | 'km';
+    zoneId?: string | null;
+    zoneName?: string | null;
+    tripId?: string | null;
+    // The pings the finding is based on, oldest first
+    points: { lat: number; lng: number; recordedAt: string }[];
+  };
+}
+
+export interface AlertListFilter {
+  status?: AlertStatus;
+  severity?: AlertRecord['severity'];
+  type?: string;
+  assignedTo?: string;
+  limit?: number;
+}
+
+// Status an alert may move to from each status; anything else is a 409
+const TRANSITIONS: Record<AlertStatus, AlertStatus[]> = {
+  active: ['acknowledged', 'resolved'],
+  acknowledged: ['investigating', 'resolved'],
+  investigating: ['resolved'],
+  resolved: []
+};
+
+// Alerts still needing attention
+export const OPEN_ALERT_STATUSES: AlertStatus[] = ['active', 'acknowledged', 'investigating'];
+
+const DEFAULT_SOS_TIMEOUT_SECONDS = parseInt(process.env.SOS_DEFAULT_TIMEOUT_SECONDS || '30', 10);
+const MIN_SOS_TIMEOUT_SECONDS = 10;
+const MAX_SOS_TIMEOUT_SECONDS = 600;
+const ESCALATION_CHECK_MS = parseInt(process.env.SOS_ESCALATION_CHECK_MS || '5000', 10);
+const MAX_ESCALATION_LEVEL = parseInt(process.env.SOS_MAX_ESCALATION_LEVEL || '3', 10);
+
+const event = (action: AlertEvent['action'], by?: string | null, note?: string): AlertEvent => ({
+  action,
+  by: by || null,
+  at: new Date().toISOString(),
+  ...(note ? { note } : {})
+});
+
+const clampTimeout = (seconds: number | undefined): number => {
+  if (seconds === undefined || !Number.isFinite(seconds)) return DEFAULT_SOS_TIMEOUT_SECONDS;
+  return Math.min(MAX_SOS_TIMEOUT_SECONDS, Math.max(MIN_SOS_TIMEOUT_SECONDS, Math.round(seconds)));
+};
+
+/**
+ * SOS alerts and their lifecycle: active → acknowledged → investigating → resolved.
+ * Alerts that stay active past their acknowledgement deadline are escalated.
+ * Every change is published on the 'alerts' event topic.
+ */
+export class AlertService {
+  private escalationTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Record a tourist's SOS. Pressing SOS again while an earlier alert is
+   * still open refreshes that alert's location and battery instead.
+   */
+  async raiseSOS(user: UserRecord, request: SOSRequest): Promise<{ alert: AlertRecord; created: boolean }> {
+    const alerts = getStorage().alerts;
+    const digitalIdHash = await this.resolveDigitalId(user, request.digitalIdHash);
+    const sosTimeout = clampTimeout(request.sosTimeout);
+    const reportedAt = request.reportedAt ? new Date(request.reportedAt) : new Date();
+
+    const open = (await alerts.find({ type: 'sos', userId: user._id }, { sort: 'createdAt', order: 'desc' }))
+      .find(alert => OPEN_ALERT_STATUSES.includes(alert.status));
+
+    if (open) {
+      const updated = await alerts.update(open._id, {
+        location: request.location || open.location,
+        battery: request.battery ?? open.battery,
+        reportedAt,
+        history: [...(open.history || []), event('updated', user._id, 'SOS pressed again')]
+      });
+
+      this.publish('updated', updated!);
+      return { alert: updated!, created: false };
+    }
+
+    const alert = await alerts.create({
+      type: 'sos',
+      severity: 'critical',
+      status: 'active',
+      userId: user._id,
+      message: request.message || `SOS raised by ${user.name}`,
+      location: request.location || null,
+      data: { touristName: user.name, nationality: user.nationality || null, sosTimeout },
+      digitalIdHash,
+      battery: request.battery ?? null,
+      reportedAt,
+      assignedTo: null,
+      acknowledgeBy: new Date(Date.now() + sosTimeout * 1000),
+      escalationLevel: 0,
+      history: [event('created', user._id)]
+    });
+
+    logger.warn('🚨 SOS alert raised', {
+      alertId: alert._id,
+      userId: user._id,
+      digitalIdHash,
+      location: alert.location
+    });
+
+    this.publish('created', alert);
+    return { alert, created: true };
+  }
+
+  /**
+   * Record a zone breach found by the geofence engine. These alerts are not
+   * escalated; only SOS alerts carry an acknowledgement deadline.
+   */
+  async raiseGeofenceAlert(
+    user: UserRecord,
+    breach: { event: 'enter' | 'exit' | 'dwell'; severity: AlertRecord['severity']; zone: ZoneRecord; location: GeoPoint }
+  ): Promise<AlertRecord> {
+    const { event: breachEvent, severity, zone, location } = breach;
+    const verb = breachEvent === 'enter' ? 'entered' : breachEvent === 'exit' ? 'left' : 'is lingering in';
+
+    const alert = await getStorage().alerts.create({
+      type: 'geofence',
+      severity,
+      status: 'active',
+      userId: user._id,
+      message: `${user.name} ${verb} ${zone.type} zone ${zone.name}`,
+      location,
+      data: {
+        touristName: user.name,
+        nationality: user.nationality || null,
+        zoneId: zone._id,
+        zoneName: zone.name,
+        zoneType: zone.type,
+        event: breachEvent
+      },
+      digitalIdHash: await this.resolveDigitalId(user),
+      battery: null,
+      reportedAt: new Date(),
+      assignedTo: null,
+      acknowledgeBy: null,
+      escalationLevel: 0,
+      history: [event('created', null, `Geofence ${breachEvent}`)]
+    });
+
+    this.publish('created', alert);
+    return alert;
+  }
+
+  /**
+   * Record an unusual movement pattern found by the anomaly detector. Like
+   * geofence alerts these carry no acknowledgement deadline.
+   */
+  async raiseAnomalyAlert(user: UserRecord, report: AnomalyReport): Promise<AlertRecord> {
+    const alert = await getStorage().alerts.create({
+      type: 'anomaly',
+      severity: report.severity,
+      status: 'active',
+      userId: user._id,
+      message: report.message,
+      location: report.location,
+      data: {
+        touristName: user.name,
+        nationality: user.nationality || null,
+        kind: report.kind,
+        evidence: report.evidence
+      },
+      digitalIdHash: await this.resolveDigitalId(user),
+      battery: null,
+      reportedAt: new Date(),
+      assignedTo: null,
+      acknowledgeBy: null,
+      escalationLevel: 0,
+      history: [event('created', null, `Anomaly: ${report.kind}`)]
+    });
+
+    logger.info('Movement anomaly detected', { alertId: alert._id, userId: user._id, kind: report.kind });
+    this.publish('created', alert);
+    return alert;
+  }
+
+  async getAlert(id: string): Promise<AlertRecord> {
+    const alert = await getStorage().alerts.findById(id);
+
+    if (!alert) {
+      throw createApiError('Alert not found', 404);
+    }
+
+    return alert;
+  }
+
+  async listAlerts(filter: AlertListFilter = {}): Promise<AlertRecord[]> {
+    const { limit, ...where } = filter;
+    return getStorage().alerts.find(where, { sort: 'createdAt', order: 'desc', limit });
+  }
+
+  async listUserAlerts(userId: string): Promise<AlertRecord[]> {
+    return getStorage().alerts.find({ userId }, { sort: 'createdAt', order: 'desc' });
+  }
+
+  async transition(id: string, status: AlertStatus, actor: UserRecord, note?: string): Promise<AlertRecord> {
+    const alert = await this.getAlert(id);
+
+    if (!TRANSITIONS[alert.status].includes(status)) {
+      throw createApiError(`Cannot move alert from ${alert.status} to ${status}`, 409);
+    }
+
+    // active is only ever the initial status
+    const action = status as Exclude<AlertStatus, 'active'>;
+    const updates: Partial<AlertRecord> = {
+      status,
+      acknowledgeBy: null,
+      history: [...(alert.history || []), event(action, actor._id, note)]
+    };
+
+    // Whoever picks up an unassigned alert owns it
+    if (!alert.assignedTo && actor.role === 'police') {
+      updates.assignedTo = actor._id;
+    }
+
+    const updated = await getStorage().alerts.update(id, updates);
+    logger.info(`Alert ${id} ${alert.status} → ${status}`, { by: actor._id });
+
+    this.publish(action, updated!);
+    return updated!;
+  }
+
+  async assign(id: string, officerId: string, actor: UserRecord): Promise<AlertRecord> {
+    const alert = await this.getAlert(id);
+
+    if (alert.status === 'resolved') {
+      throw createApiError('Cannot assign a resolved alert', 409);
+    }
+
+    const officer = await getStorage().users.findById(officerId);
+
+    if (!officer || officer.role !== 'police' || !officer.isActive) {
+      throw createApiError('Officer not found', 400);
+    }
+
+    const updated = await getStorage().alerts.update(id, {
+      assignedTo: officer._id,
+      history: [...(alert.history || []), event('assigned', actor._id, `Assigned to ${officer.name}`)]
+    });
+
+    this.publish('assigned', updated!);
+    return updated!;
+  }
+
+  /**
+   * Escalate every active alert whose acknowledgement deadline has passed.
+   * Each escalation restarts the deadline until MAX_ESCALATION_LEVEL.
+   */
+  async escalateOverdue(now: Date = new Date()): Promise<AlertRecord[]> {
+    const alerts = getStorage().alerts;
+    const overdue = (await alerts.find({ status: 'active' }))
+      .filter(alert => alert.acknowledgeBy && alert.acknowledgeBy.getTime() <= now.getTime());
+
+    const escalated: AlertRecord[] = [];
+
+    for (const alert of overdue) {
+      const level = (alert.escalationLevel || 0) + 1;
+      const sosTimeout = clampTimeout(alert.data?.sosTimeout as number | undefined);
+
+      const updated = await alerts.update(alert._id, {
+        severity: 'critical',
+        escalationLevel: level,
+        acknowledgeBy: level < MAX_ESCALATION_LEVEL ? new Date(now.getTime() + sosTimeout * 1000) : null,
+        history: [
+          ...(alert.history || []),
+          event('escalated', null, `Not acknowledged within ${sosTimeout}s (level ${level})`)
+        ]
+      });
+
+      logger.warn(`⏫ Alert ${alert._id} escalated to level ${level}`, { userId: alert.userId });
+      this.publish('escalated', updated!);
+      escalated.push(updated!);
+    }
+
+    return escalated;
+  }
+
+  private publish(action: AlertEvent['action'], alert: AlertRecord) {
+    eventBus.publish('alerts', action, alert, alert.userId);
+  }
+
+  public startEscalation() {
+    if (this.escalationTimer) return;
+
+    this.escalationTimer = setInterval(() => {
+      this.escalateOverdue().catch(error => {
+        logger.error('Alert escalation check failed', { error: error.message });
+      });
+    }, ESCALATION_CHECK_MS);
+    this.escalationTimer.unref();
+
+    logger.info('SOS escalation started', { checkIntervalMs: ESCALATION_CHECK_MS, maxLevel: MAX_ESCALATION_LEVEL });
+  }
+
+  public stopEscalation() {
+    if (this.escalationTimer) {
+      clearInterval(this.escalationTimer);
+      this.escalationTimer = null;
+    }
+  }
+
+  /**
+   * The tourist's own digital ID: the one they named, or their latest
+   */
+  private async resolveDigitalId(user: UserRecord, hash?: string): Promise<string | null> {
+    const digitalIDs = getStorage().digitalIDs;
+
+    if (hash) {
+      const digitalID = await digitalIDs.findOne({ hash });
+
+      if (!digitalID || digitalID.userId !== user._id) {
+        throw createApiError('Digital ID does not belong to this user', 403);
+      }
+
+      return digitalID.hash;
+    }
+
+    const [latest] = await digitalIDs.find({ userId: user._id }, { sort: 'createdAt', order: 'desc', limit: 1 });
+    return latest ? latest.hash : null;
+  }
+}
+
+export const alertService = new AlertService();
+export default alertService;
@@ -0,0 +1,604 @@
+import { createApiError } from '../middleware/errorHandler';
+import {
+  AlertRecord,
+  AnalyticsHour,
+  AnalyticsRollupRecord,
+  AnalyticsZone,
+  GeoPoint,
+  getStorage,
+  NewRecord,
+  ZoneRecord
+} from '../repositories';
+import { logger } from '../utils/logger';
+import { BusEvent, eventBus } from './eventBus';
+import { REGISTERED_STATUSES } from './firService';
+import { zoneContains } from './geofenceService';
+import { RETENTION_MS as PING_RETENTION_MS } from './locationService';
+
+export type AnalyticsRange = '24h' | '7d' | '30d' | '90d' | 'custom';
+
+export interface AnalyticsQuery {
+  from: Date;
+  to: Date;
+  zoneId?: string;
+  district?: string;
+}
+
+export interface AnalyticsSummary {
+  alerts: number;
+  incidents: number;
+  // Most tourists seen in any one hour
+  peakTourists: number;
+  // Null under a zone or district filter; registrations have no location
+  registrations: number | null;
+  avgResponseMinutes: number | null;
+}
+
+export interface AnalyticsReport {
+  from: string;
+  to: string;
+  granularity: 'hour' | 'day';
+  zoneId: string | null;
+  district: string | null;
+  summary: AnalyticsSummary;
+  // The same figures for the period of equal length just before
+  previous: AnalyticsSummary;
+  // Active restricted and alert zones within the filter, as of now
+  riskZones: number;
+  alertTrends: { date: string; critical: number; high: number; moderate: number; low: number }[];
+  touristFlow: { hour: string; count: number; registrations: number }[];
+  incidentTypes: { type: string; name: string; value: number }[];
+  responseTime: { zoneId: string | null; zone: string; avgTime: number | null; incidents: number }[];
+  heatmapData: { zoneId: string; zone: string; type: ZoneRecord['type']; incidents: number; risk: 'high' | 'medium' | 'low' }[];
+  generatedAt: string;
+}
+
+interface DayWindow {
+  day: string;
+  start: Date;
+}
+
+type Rollup = NewRecord<AnalyticsRollupRecord>;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const RANGE_PRESETS: Record<Exclude<AnalyticsRange, 'custom'>, number> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  '90d': 90 * DAY_MS
+};
+
+// Days are cut in the same local time used for zone curfews
+const LOCAL_TIMEZONE = process.env.ZONE_TIMEZONE || 'Asia/Kolkata';
+const SETTLE_MS = parseFloat(process.env.ANALYTICS_SETTLE_HOURS || '6') * HOUR_MS;
+const BACKFILL_DAYS = parseInt(process.env.ANALYTICS_BACKFILL_DAYS || '90', 10);
+const MAX_RANGE_MS = parseInt(process.env.ANALYTICS_MAX_RANGE_DAYS || '366', 10) * DAY_MS;
+const LIVE_TTL_MS = parseInt(process.env.ANALYTICS_LIVE_TTL_SECONDS || '60', 10) * 1000;
+const ROLLUP_INTERVAL_MS = parseInt(process.env.ANALYTICS_ROLLUP_INTERVAL_MS || '3600000', 10);
+// Ranges up to this long are charted hour by hour
+const HOURLY_MAX_MS = 48 * HOUR_MS;
+
+// Time from an alert being raised to the first officer response
+const RESPONSE_ACTIONS = ['acknowledged', 'investigating', 'resolved'];
+
+const INCIDENT_LABELS: Record<string, string> = {
+  'alert:sos': 'SOS',
+  'alert:geofence': 'Zone Breach',
+  'alert:anomaly': 'Movement Anomaly',
+  'fir:theft': 'Theft',
+  'fir:missing': 'Missing Person',
+  'fir:accident': 'Traffic Accident',
+  'fir:assault': 'Assault',
+  'fir:fraud': 'Fraud',
+  'fir:other': 'Other'
+};
+
+const localFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: LOCAL_TIMEZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23'
+});
+
+const localParts = (at: Date): { day: string; hour: number; offsetMs: number } => {
+  const parts = localFormat.formatToParts(at);
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)!.value, 10);
+  const hour = part('hour');
+
+  return {
+    day: `${part('year')}-${String(part('month')).padStart(2, '0')}-${String(part('day')).padStart(2, '0')}`,
+    hour,
+    // Time since local midnight
+    offsetMs: ((hour * 60 + part('minute')) * 60 + part('second')) * 1000 + at.getUTCMilliseconds()
+  };
+};
+
+const dayWindow = (at: Date): DayWindow => {
+  const { day, offsetMs } = localParts(at);
+  return { day, start: new Date(at.getTime() - offsetMs) };
+};
+
+// Noon of the next day is always in the next day, whatever the clocks do overnight
+const nextDay = (day: DayWindow): DayWindow => dayWindow(new Date(day.start.getTime() + 36 * HOUR_MS));
+
+const dayWindows = (from: Date, to: Date): DayWindow[] => {
+  const days: DayWindow[] = [];
+
+  for (let day = dayWindow(from); day.start.getTime() < to.getTime(); day = nextDay(day)) {
+    days.push(day);
+  }
+
+  return days;
+};
+
+const emptyHour = (): AnalyticsHour => ({
+  alerts: { low: 0, moderate: 0, high: 0, critical: 0 },
+  types: {},
+  incidents: 0,
+  responded: 0,
+  responseMinutes: 0,
+  tourists: 0,
+  registrations: 0
+});
+
+const responseMinutes = (alert: AlertRecord): number | null => {
+  const response = (alert.history || []).find(event => RESPONSE_ACTIONS.includes(event.action));
+  if (!response) return null;
+
+  return Math.max(0, (new Date(response.at).getTime() - alert.createdAt.getTime()) / 60000);
+};
+
+const incidentLabel = (type: string) => {
+  if (INCIDENT_LABELS[type]) return INCIDENT_LABELS[type];
+
+  const name = type.slice(type.indexOf(':') + 1).replace(/[_-]+/g, ' ');
+  return name.charAt(0).toUpperCase() + name.slice(1);
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Dashboard analytics over alerts, registered FIRs, location pings and
+ * tourist digital-ID registrations. Everything is counted per local hour and
+ * per scope: every record counts towards 'all', and located ones also towards
+ * each zone and district containing them, or 'outside' when no zone does.
+ * Each local day is rolled up once it is ANALYTICS_SETTLE_HOURS old and
+ * stored, so long ranges read a row per day instead of rescanning records;
+ * newer days are worked out on request and kept for ANALYTICS_LIVE_TTL_SECONDS.
+ * An alert or FIR change for a stored day marks it stale so it is rolled up
+ * again, even after a restart.
+ * Pings are only kept for LOCATION_RETENTION_HOURS, so a day rolled up again
+ * after that keeps the tourist counts it was first stored with, and zone
+ * figures use the zones as they were when the day was rolled up.
+ */
+export class AnalyticsService {
+  private live: Map<string, { rollup: Rollup; expires: number }> = new Map();
+  private rollupTimer: NodeJS.Timeout | null = null;
+  private stopListening: (() => void) | null = null;
+
+  /**
+   * The start and end of a preset range, or of a custom one after checking it
+   */
+  resolveRange(range: AnalyticsRange, from?: Date, to?: Date, now: Date = new Date()): { from: Date; to: Date } {
+    if (range !== 'custom') {
+      return { from: new Date(now.getTime() - RANGE_PRESETS[range]), to: now };
+    }
+
+    const end = to && to.getTime() < now.getTime() ? to : now;
+
+    if (!from || from.getTime() >= end.getTime()) {
+      throw createApiError('A custom range needs a start before its end', 400);
+    }
+
+    if (end.getTime() - from.getTime() > MAX_RANGE_MS) {
+      throw createApiError(`Ranges cannot be longer than ${MAX_RANGE_MS / DAY_MS} days`, 400);
+    }
+
+    return { from, to: end };
+  }
+
+  async getReport(query: AnalyticsQuery, now: Date = new Date()): Promise<AnalyticsReport> {
+    const { from, to } = query;
+    const span = to.getTime() - from.getTime();
+    const previousFrom = new Date(from.getTime() - span);
+
+    if (query.zoneId && !(await getStorage().zones.findById(query.zoneId))) {
+      throw createApiError('Zone not found', 404);
+    }
+
+    const days = dayWindows(previousFrom, to);
+    const rollups = await this.loadDays(days, now);
+    const scope = query.zoneId ? `zone:${query.zoneId}` : query.district ? `district:${query.district}` : 'all';
+    const granularity = span <= HOURLY_MAX_MS ? 'hour' : 'day';
+
+    // Every zone seen in the range, as most recently rolled up
+    const zones = new Map<string, AnalyticsZone>();
+    days.forEach(day => rollups.get(day.day)?.zones.forEach(zone => zones.set(zone.id, zone)));
+    const inFilter = [...zones.values()].filter(zone =>
+      query.zoneId ? zone.id === query.zoneId : query.district ? zone.district === query.district : true
+    );
+
+    const hours = (scopeKey: string, start: Date, end: Date) => {
+      const found: { at: Date; hour: number; stats: AnalyticsHour }[] = [];
+
+      for (const day of days) {
+        const slots = rollups.get(day.day)?.scopes[scopeKey] || {};
+
+        Object.entries(slots).forEach(([hour, stats]) => {
+          const at = new Date(day.start.getTime() + Number(hour) * HOUR_MS);
+          if (at >= start && at < end) found.push({ at, hour: Number(hour), stats });
+        });
+      }
+
+      return found;
+    };
+
+    const summarize = (start: Date, end: Date): AnalyticsSummary => {
+      const slots = hours(scope, start, end).map(slot => slot.stats);
+      const responded = slots.reduce((total, h) => total + h.responded, 0);
+
+      return {
+        alerts: slots.reduce((total, h) => total + h.alerts.low + h.alerts.moderate + h.alerts.high + h.alerts.critical, 0),
+        incidents: slots.reduce((total, h) => total + h.incidents, 0),
+        peakTourists: slots.reduce((peak, h) => Math.max(peak, h.tourists), 0),
+        registrations: scope === 'all' ? slots.reduce((total, h) => total + h.registrations, 0) : null,
+        avgResponseMinutes: responded > 0
+          ? round(slots.reduce((total, h) => total + h.responseMinutes, 0) / responded)
+          : null
+      };
+    };
+
+    const current = hours(scope, from, to);
+
+    // Zero-filled so charts show quiet periods
+    const trendKey = (at: Date) => (granularity === 'hour' ? at : dayWindow(at).start).toISOString();
+    const trends = new Map<string, AnalyticsReport['alertTrends'][number]>();
+    // How many times each local hour of day falls in the range
+    const occurrences: number[] = new Array(24).fill(0);
+    for (const day of days) {
+      for (let hour = 0; hour < 24; hour++) {
+        const at = new Date(day.start.getTime() + hour * HOUR_MS);
+        if (at < from || at >= to) continue;
+
+        occurrences[hour]++;
+        const key = trendKey(at);
+        if (!trends.has(key)) trends.set(key, { date: key, critical: 0, high: 0, moderate: 0, low: 0 });
+      }
+    }
+    current.forEach(({ at, stats }) => {
+      const bucket = trends.get(trendKey(at));
+      if (!bucket) return;
+      bucket.critical += stats.alerts.critical;
+      bucket.high += stats.alerts.high;
+      bucket.moderate += stats.alerts.moderate;
+      bucket.low += stats.alerts.low;
+    });
+
+    // Tourists by local hour of day, averaged over the days in the range
+    const flow = Array.from({ length: 24 }, (_, hour) => ({ hour, tourists: 0, registrations: 0 }));
+    current.forEach(({ hour, stats }) => {
+      flow[hour].tourists += stats.tourists;
+      flow[hour].registrations += stats.registrations;
+    });
+
+    const types = new Map<string, number>();
+    current.forEach(({ stats }) => {
+      Object.entries(stats.types).forEach(([type, count]) => types.set(type, (types.get(type) || 0) + count));
+    });
+
+    const zoneTotals = (scopeKey: string) => {
+      const slots = hours(scopeKey, from, to).map(slot => slot.stats);
+      const responded = slots.reduce((total, h) => total + h.responded, 0);
+
+      return {
+        alerts: slots.reduce((total, h) => total + h.alerts.low + h.alerts.moderate + h.alerts.high + h.alerts.critical, 0),
+        incidents: slots.reduce((total, h) => total + h.incidents, 0),
+        avgTime: responded > 0 ? round(slots.reduce((total, h) => total + h.responseMinutes, 0) / responded) : null
+      };
+    };
+
+    const byZone = inFilter.map(zone => ({ zone, ...zoneTotals(`zone:${zone.id}`) }));
+    const outside = scope === 'all' ? zoneTotals('outside') : null;
+    const mostIncidents = Math.max(0, ...byZone.map(entry => entry.incidents));
+
+    const riskZones = (await getStorage().zones.find({ status: 'active' })).filter(zone =>
+      zone.type !== 'safe' &&
+      (query.zoneId ? zone._id === query.zoneId : query.district ? zone.district === query.district : true)
+    ).length;
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      granularity,
+      zoneId: query.zoneId || null,
+      district: query.district || null,
+      summary: summarize(from, to),
+      previous: summarize(previousFrom, from),
+      riskZones,
+      alertTrends: [...trends.values()],
+      touristFlow: flow.map(entry => ({
+        hour: `${String(entry.hour).padStart(2, '0')}:00`,
+        count: occurrences[entry.hour] > 0 ? round(entry.tourists / occurrences[entry.hour]) : 0,
+        registrations: entry.registrations
+      })),
+      incidentTypes: [...types.entries()]
+        .map(([type, value]) => ({ type, name: incidentLabel(type), value }))
+        .sort((a, b) => b.value - a.value),
+      responseTime: [
+        ...byZone.map(entry => ({ zoneId: entry.zone.id, zone: entry.zone.name, avgTime: entry.avgTime, incidents: entry.alerts })),
+        ...(outside && outside.alerts > 0 ? [{ zoneId: null, zone: 'Outside zones', avgTime: outside.avgTime, incidents: outside.alerts }] : [])
+      ],
+      // Risk is relative to the busiest zone in the range
+      heatmapData: byZone
+        .map(entry => ({
+          zoneId: entry.zone.id,
+          zone: entry.zone.name,
+          type: entry.zone.type,
+          incidents: entry.incidents,
+          risk: (entry.incidents > 0 && entry.incidents >= mostIncidents * 2 / 3
+            ? 'high'
+            : entry.incidents > 0 && entry.incidents >= mostIncidents / 3 ? 'medium' : 'low') as 'high' | 'medium' | 'low'
+        }))
+        .sort((a, b) => b.incidents - a.incidents),
+      generatedAt: now.toISOString()
+    };
+  }
+
+  /**
+   * Store every settled day in the backfill window that isn't stored yet or has changed
+   */
+  async rollUp(now: Date = new Date()): Promise<number> {
+    const days = dayWindows(new Date(now.getTime() - BACKFILL_DAYS * DAY_MS), now)
+      .filter(day => this.isSettled(day, now));
+    const pending: DayWindow[] = [];
+
+    for (const day of days) {
+      const stored = await getStorage().analyticsRollups.findOne({ day: day.day });
+      if (!stored || stored.stale) pending.push(day);
+    }
+
+    // Settled days are read from storage from now on
+    this.live.forEach((_, day) => {
+      if (days.some(d => d.day === day)) this.live.delete(day);
+    });
+
+    if (pending.length > 0) {
+      await this.loadDays(pending, now);
+      logger.info(`Rolled up analytics for ${pending.length} day(s)`);
+    }
+
+    return pending.length;
+  }
+
+  public startMonitoring() {
+    if (this.stopListening) return;
+
+    this.stopListening = eventBus.listen(['alerts', 'firs', 'zones'], event => {
+      this.handleEvent(event).catch(error => {
+        logger.error('Failed to mark analytics rollup stale', { error: error.message });
+      });
+    });
+
+    this.rollUp().catch(error => {
+      logger.error('Analytics rollup failed', { error: error.message });
+    });
+    this.rollupTimer = setInterval(() => {
+      this.rollUp().catch(error => {
+        logger.error('Analytics rollup failed', { error: error.message });
+      });
+    }, ROLLUP_INTERVAL_MS);
+    this.rollupTimer.unref();
+
+    logger.info('Analytics rollups started', {
+      timezone: LOCAL_TIMEZONE,
+      settleHours: SETTLE_MS / HOUR_MS,
+      backfillDays: BACKFILL_DAYS,
+      rollupIntervalMs: ROLLUP_INTERVAL_MS
+    });
+  }
+
+  public stopMonitoring() {
+    if (this.stopListening) {
+      this.stopListening();
+      this.stopListening = null;
+    }
+    if (this.rollupTimer) {
+      clearInterval(this.rollupTimer);
+      this.rollupTimer = null;
+    }
+  }
+
+  private async handleEvent(event: BusEvent) {
+    if (event.topic === 'zones') {
+      this.live.clear();
+      return;
+    }
+
+    const record = event.data as { createdAt?: Date | string; incidentDate?: Date | string };
+    const at = event.topic === 'firs' ? record.incidentDate : record.createdAt;
+    if (!at) return;
+
+    const day = dayWindow(new Date(at));
+    this.live.delete(day.day);
+    if (!this.isSettled(day, new Date())) return;
+
+    const stored = await getStorage().analyticsRollups.findOne({ day: day.day });
+    if (stored && !stored.stale) await getStorage().analyticsRollups.update(stored._id, { stale: true });
+  }
+
+  private isSettled(day: DayWindow, now: Date): boolean {
+    return nextDay(day).start.getTime() + SETTLE_MS <= now.getTime();
+  }
+
+  /**
+   * Rollups for the given days: stored ones for settled days, cached ones for
+   * recent days, and the rest worked out in one pass over the records
+   */
+  private async loadDays(days: DayWindow[], now: Date): Promise<Map<string, Rollup>> {
+    const rollups = new Map<string, Rollup>();
+    const previous = new Map<string, AnalyticsRollupRecord>();
+    const missing: DayWindow[] = [];
+
+    for (const day of days) {
+      if (this.isSettled(day, now)) {
+        const stored = await getStorage().analyticsRollups.findOne({ day: day.day });
+        if (stored && !stored.stale) {
+          rollups.set(day.day, stored);
+          continue;
+        }
+        if (stored) {
+          previous.set(day.day, stored);
+          // Cleared before counting, so a change made meanwhile marks it stale again
+          await getStorage().analyticsRollups.update(stored._id, { stale: false });
+        }
+      } else {
+        const cached = this.live.get(day.day);
+        if (cached && cached.expires > now.getTime()) {
+          rollups.set(day.day, cached.rollup);
+          continue;
+        }
+      }
+
+      missing.push(day);
+    }
+
+    if (missing.length === 0) return rollups;
+
+    const computed = await this.compute(missing, previous, now);
+
+    for (const day of missing) {
+      const rollup = computed.get(day.day)!;
+      rollups.set(day.day, rollup);
+
+      if (!this.isSettled(day, now)) {
+        this.live.set(day.day, { rollup, expires: now.getTime() + LIVE_TTL_MS });
+        continue;
+      }
+
+      const stored = previous.get(day.day);
+      if (stored) {
+        await getStorage().analyticsRollups.update(stored._id, { start: rollup.start, scopes: rollup.scopes, zones: rollup.zones });
+      } else {
+        await getStorage().analyticsRollups.create(rollup);
+      }
+    }
+
+    return rollups;
+  }
+
+  private async compute(days: DayWindow[], previous: Map<string, AnalyticsRollupRecord>, now: Date): Promise<Map<string, Rollup>> {
+    const storage = getStorage();
+    const zones = await storage.zones.find({ status: 'active' }, { sort: 'createdAt', order: 'asc' });
+    const snapshot: AnalyticsZone[] = zones.map(zone => ({ id: zone._id, name: zone.name, type: zone.type, district: zone.district || null }));
+    const rollups = new Map<string, Rollup>(days.map(day => [day.day, { day: day.day, start: day.start, scopes: {}, zones: snapshot, stale: false }]));
+
+    const first = days[0].start.getTime();
+    const end = nextDay(days[days.length - 1]).start.getTime();
+    // Only records from the first day to the end of the last are read
+    const from = new Date(first);
+    const to = new Date(end);
+
+    const slot = (at: Date) => {
+      if (at.getTime() < first || at.getTime() >= end) return null;
+
+      const { day, hour } = localParts(at);
+      const rollup = rollups.get(day);
+      return rollup ? { rollup, hour: String(hour) } : null;
+    };
+
+    const scopesAt = (point?: GeoPoint | null): string[] => {
+      const inside = point ? zones.filter(zone => zoneContains(zone, point)) : [];
+      if (inside.length === 0) return ['all', 'outside'];
+
+      const districts = new Set(inside.filter(zone => zone.district).map(zone => zone.district!));
+      return ['all', ...inside.map(zone => `zone:${zone._id}`), ...[...districts].map(district => `district:${district}`)];
+    };
+
+    const hourOf = (rollup: Rollup, scope: string, hour: string) => {
+      const slots = rollup.scopes[scope] || (rollup.scopes[scope] = {});
+      return slots[hour] || (slots[hour] = emptyHour());
+    };
+
+    for (const alert of await storage.alerts.findBetween('createdAt', from, to)) {
+      const at = slot(alert.createdAt);
+      if (!at) continue;
+
+      const minutes = responseMinutes(alert);
+      for (const scope of scopesAt(alert.location)) {
+        const stats = hourOf(at.rollup, scope, at.hour);
+        stats.alerts[alert.severity]++;
+        stats.types[`alert:${alert.type}`] = (stats.types[`alert:${alert.type}`] || 0) + 1;
+        stats.incidents++;
+        if (minutes !== null) {
+          stats.responded++;
+          stats.responseMinutes += minutes;
+        }
+      }
+    }
+
+    // FIRs started from an alert are left out so that alert is not counted twice
+    for (const fir of await storage.firs.findBetween('incidentDate', from, to)) {
+      if (!REGISTERED_STATUSES.includes(fir.status) || fir.source?.type === 'alert') continue;
+
+      const at = slot(fir.incidentDate);
+      if (!at) continue;
+
+      for (const scope of scopesAt(fir.coordinates)) {
+        const stats = hourOf(at.rollup, scope, at.hour);
+        stats.types[`fir:${fir.incidentType}`] = (stats.types[`fir:${fir.incidentType}`] || 0) + 1;
+        stats.incidents++;
+      }
+    }
+
+    for (const digitalID of await storage.digitalIDs.findBetween('createdAt', from, to, { role: 'tourist' })) {
+      const at = slot(digitalID.createdAt);
+      if (at) hourOf(at.rollup, 'all', at.hour).registrations++;
+    }
+
+    // Pings for older days have been pruned; keep what those days were first stored with
+    const pingDays = new Set(days
+      .filter(day => day.start.getTime() >= now.getTime() - PING_RETENTION_MS || !previous.has(day.day))
+      .map(day => day.day));
+    for (const day of days) {
+      if (pingDays.has(day.day)) continue;
+
+      Object.entries(previous.get(day.day)?.scopes || {}).forEach(([scope, slots]) => {
+        Object.entries(slots).forEach(([hour, stats]) => {
+          if (stats.tourists > 0) hourOf(rollups.get(day.day)!, scope, hour).tourists = stats.tourists;
+        });
+      });
+    }
+
+    if (pingDays.size > 0) {
+      const seen = new Map<string, { rollup: Rollup; scope: string; hour: string; tourists: Set<string> }>();
+      const tourists = new Set((await storage.users.find({ role: 'tourist' })).map(tourist => tourist._id));
+      const pingsFrom = new Date(Math.min(...days.filter(day => pingDays.has(day.day)).map(day => day.start.getTime())));
+
+      for (const ping of await storage.locations.findBetween('recordedAt', pingsFrom, to)) {
+        const at = slot(ping.recordedAt);
+        if (!at || !pingDays.has(at.rollup.day) || !tourists.has(ping.userId)) continue;
+
+        for (const scope of scopesAt(ping)) {
+          const key = `${at.rollup.day}|${scope}|${at.hour}`;
+          if (!seen.has(key)) seen.set(key, { rollup: at.rollup, scope, hour: at.hour, tourists: new Set() });
+          seen.get(key)!.tourists.add(ping.userId);
+        }
+      }
+
+      seen.forEach(({ rollup, scope, hour, tourists }) => {
+        hourOf(rollup, scope, hour).tourists = tourists.size;
+      });
+    }
+
+    return rollups;
+  }
+}
+
+export const analyticsService = new AnalyticsService();
+export default analyticsService;
@@ -0,0 +1,295 @@
+import { AnomalyThresholds, GeoPoint, getStorage, LocationRecord, UserRecord, ZoneRecord } from '../repositories';
+import { logger } from '../utils/logger';
+import { AnomalyKind, AnomalyReport, alertService } from './alertService';
+import { distanceMeters, geofenceService } from './geofenceService';
+import { coarsen } from './locationService';
+import { mappedDestinations, tripService } from './tripService';
+
+type ThresholdKey = keyof AnomalyThresholds;
+
+interface TrackPoint extends GeoPoint {
+  at: number;
+  accuracy: number | null;
+  precise: boolean;
+}
+
+interface Track {
+  recent: TrackPoint[];
+  // Where the tourist stopped moving, and when
+  still: TrackPoint | null;
+  // Findings already raised; each is cleared once its condition ends
+  raised: Set<string>;
+}
+
+const DEFAULT_THRESHOLDS: Record<ThresholdKey, number> = {
+  inactivityMinutes: parseFloat(process.env.ANOMALY_INACTIVITY_MINUTES || '20'),
+  maxSpeedKmh: parseFloat(process.env.ANOMALY_MAX_SPEED_KMH || '150'),
+  signalLossMinutes: parseFloat(process.env.ANOMALY_SIGNAL_LOSS_MINUTES || '30'),
+  deviationKm: parseFloat(process.env.ANOMALY_DEVIATION_KM || '20')
+};
+
+// Movement within this radius still counts as standing still
+const STILL_RADIUS_METERS = parseInt(process.env.ANOMALY_STILL_RADIUS_METERS || '50', 10);
+// Fixes closer together than this are too noisy to derive a speed from
+const MIN_SPEED_INTERVAL_MS = 10 * 1000;
+const SWEEP_INTERVAL_MS = parseInt(process.env.ANOMALY_SWEEP_MS || '60000', 10);
+// Tracks without a ping for this long are forgotten
+const TRACK_TTL_MS = 24 * 60 * 60 * 1000;
+const RECENT_POINTS = 10;
+
+const RISKY_ZONE_TYPES: ZoneRecord['type'][] = ['restricted', 'alert'];
+
+/**
+ * The strictest value any of the zones sets for a threshold, or the default
+ */
+export const thresholdFor = (zones: ZoneRecord[], key: ThresholdKey): number => {
+  const values = zones
+    .map(zone => zone.anomalyThresholds?.[key])
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+
+  return values.length > 0 ? Math.min(...values) : DEFAULT_THRESHOLDS[key];
+};
+
+// Alerts reach every officer; the precise track is only served, and logged, by locationService.getTrack
+const toEvidencePoint = (point: TrackPoint) => ({
+  ...coarsen(point),
+  recordedAt: new Date(point.at).toISOString()
+});
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Looks for unusual movement in the tourist location stream: standing still
+ * for too long inside a restricted or alert zone, implausible speed between
+ * two fixes, pings stopping altogether and straying far from the active
+ * trip's destinations. Each finding raises one low or moderate 'anomaly'
+ * alert, with the pings behind it attached, until the condition clears.
+ * Alert locations and attached pings are rounded as in coarse mode.
+ * Zones can tighten or relax every threshold. Inactivity and speed need
+ * precise pings; coarse ones are only used for signal loss and deviation.
+ */
+export class AnomalyService {
+  private tracks: Map<string, Track> = new Map();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Check one stored ping against the tourist's recent movement
+   */
+  async analyze(user: UserRecord, location: LocationRecord): Promise<AnomalyKind[]> {
+    const point: TrackPoint = {
+      lat: location.lat,
+      lng: location.lng,
+      at: location.recordedAt.getTime(),
+      accuracy: location.accuracy ?? null,
+      precise: location.precision === 'precise'
+    };
+    const track = this.tracks.get(user._id) || { recent: [], still: null, raised: new Set<string>() };
+    const previous = track.recent[track.recent.length - 1];
+
+    // Late pings from an old batch say nothing about current movement
+    if (previous && point.at <= previous.at) return [];
+
+    track.recent = [...track.recent, point].slice(-RECENT_POINTS);
+    track.raised.delete('signal_loss');
+    this.tracks.set(user._id, track);
+
+    const zones = await geofenceService.zonesAt(point, new Date(point.at));
+    const reports = [
+      this.checkSpeed(user, track, previous, point, zones),
+      this.checkInactivity(user, track, point, zones),
+      await this.checkDeviation(user, track, point, zones)
+    ].filter((report): report is AnomalyReport => report !== null);
+
+    for (const report of reports) {
+      await alertService.raiseAnomalyAlert(user, report);
+    }
+
+    return reports.map(report => report.kind);
+  }
+
+  /**
+   * Stop watching a tourist, e.g. when they turn location sharing off
+   */
+  forgetUser(userId: string): void {
+    this.tracks.delete(userId);
+  }
+
+  /**
+   * Raise signal loss for tourists whose pings have stopped, and forget
+   * tourists who stopped sharing or have been silent for a day
+   */
+  async sweep(now: Date = new Date()): Promise<void> {
+    for (const [userId, track] of Array.from(this.tracks)) {
+      const last = track.recent[track.recent.length - 1];
+      const silentMs = now.getTime() - last.at;
+
+      if (silentMs > TRACK_TTL_MS) {
+        this.tracks.delete(userId);
+        continue;
+      }
+      if (track.raised.has('signal_loss')) continue;
+
+      const zones = await geofenceService.zonesAt(last, now);
+      const threshold = thresholdFor(zones, 'signalLossMinutes');
+      if (silentMs < threshold * 60000) continue;
+
+      const user = await getStorage().users.findById(userId);
+      if (!user || !user.locationSharing) {
+        this.tracks.delete(userId);
+        continue;
+      }
+
+      const risky = zones.find(zone => RISKY_ZONE_TYPES.includes(zone.type));
+      track.raised.add('signal_loss');
+
+      await alertService.raiseAnomalyAlert(user, {
+        kind: 'signal_loss',
+        severity: risky ? 'moderate' : 'low',
+        message: `No location from ${user.name} for ${Math.round(silentMs / 60000)} minutes${risky ? `, last seen in ${risky.name}` : ''}`,
+        location: coarsen(last),
+        evidence: {
+          observed: Math.round(silentMs / 60000),
+          threshold,
+          unit: 'minutes',
+          zoneId: risky?._id || null,
+          zoneName: risky?.name || null,
+          points: [toEvidencePoint(last)]
+        }
+      });
+    }
+  }
+
+  public startMonitoring() {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch(error => {
+        logger.error('Anomaly sweep failed', { error: error.message });
+      });
+    }, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+
+    logger.info('Anomaly detection started', { sweepIntervalMs: SWEEP_INTERVAL_MS, defaults: DEFAULT_THRESHOLDS });
+  }
+
+  public stopMonitoring() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  private checkSpeed(
+    user: UserRecord,
+    track: Track,
+    previous: TrackPoint | undefined,
+    point: TrackPoint,
+    zones: ZoneRecord[]
+  ): AnomalyReport | null {
+    if (!previous || !previous.precise || !point.precise) return null;
+
+    const elapsedMs = point.at - previous.at;
+    if (elapsedMs < MIN_SPEED_INTERVAL_MS) return null;
+
+    // Give the benefit of the doubt for GPS error at both ends
+    const meters = Math.max(0, distanceMeters(previous, point) - (previous.accuracy || 0) - (point.accuracy || 0));
+    const speedKmh = meters / 1000 / (elapsedMs / 3600000);
+    const threshold = thresholdFor(zones, 'maxSpeedKmh');
+
+    if (speedKmh <= threshold) {
+      track.raised.delete('speed');
+      return null;
+    }
+    if (track.raised.has('speed')) return null;
+
+    track.raised.add('speed');
+    return {
+      kind: 'speed',
+      severity: 'moderate',
+      message: `${user.name} moved ${round(meters / 1000)} km in ${Math.round(elapsedMs / 1000)} s (${Math.round(speedKmh)} km/h)`,
+      location: coarsen(point),
+      evidence: {
+        observed: Math.round(speedKmh),
+        threshold,
+        unit: 'km/h',
+        zoneId: zones[0]?._id || null,
+        zoneName: zones[0]?.name || null,
+        points: [toEvidencePoint(previous), toEvidencePoint(point)]
+      }
+    };
+  }
+
+  private checkInactivity(user: UserRecord, track: Track, point: TrackPoint, zones: ZoneRecord[]): AnomalyReport | null {
+    if (!point.precise) {
+      track.still = null;
+      return null;
+    }
+
+    if (!track.still || distanceMeters(track.still, point) > STILL_RADIUS_METERS) {
+      track.still = point;
+      track.raised.delete('inactivity');
+      return null;
+    }
+
+    const risky = zones.filter(zone => RISKY_ZONE_TYPES.includes(zone.type));
+    if (risky.length === 0 || track.raised.has('inactivity')) return null;
+
+    const stillSince = track.still.at;
+    const stillMinutes = (point.at - stillSince) / 60000;
+    const threshold = thresholdFor(risky, 'inactivityMinutes');
+    if (stillMinutes < threshold) return null;
+
+    track.raised.add('inactivity');
+    return {
+      kind: 'inactivity',
+      severity: 'moderate',
+      message: `${user.name} has not moved for ${Math.round(stillMinutes)} minutes in ${risky[0].type} zone ${risky[0].name}`,
+      location: coarsen(point),
+      evidence: {
+        observed: Math.round(stillMinutes),
+        threshold,
+        unit: 'minutes',
+        zoneId: risky[0]._id,
+        zoneName: risky[0].name,
+        points: track.recent.filter(p => p.at >= stillSince).map(toEvidencePoint)
+      }
+    };
+  }
+
+  private async checkDeviation(user: UserRecord, track: Track, point: TrackPoint, zones: ZoneRecord[]): Promise<AnomalyReport | null> {
+    const trip = await tripService.getCurrentTrip(user._id, new Date(point.at));
+    const destinations = mappedDestinations(trip);
+
+    if (!trip || destinations.length === 0) return null;
+
+    const key = `deviation:${trip._id}`;
+    const nearestKm = Math.min(...destinations.map(destination => distanceMeters(point, destination))) / 1000;
+    const threshold = thresholdFor(zones, 'deviationKm');
+
+    if (nearestKm <= threshold) {
+      track.raised.delete(key);
+      return null;
+    }
+    if (track.raised.has(key)) return null;
+
+    track.raised.add(key);
+    return {
+      kind: 'deviation',
+      severity: 'low',
+      message: `${user.name} is ${round(nearestKm)} km from the nearest destination on ${trip.title}`,
+      location: coarsen(point),
+      evidence: {
+        observed: round(nearestKm),
+        threshold,
+        unit: 'km',
+        zoneId: zones[0]?._id || null,
+        zoneName: zones[0]?.name || null,
+        tripId: trip._id,
+        points: [toEvidencePoint(point)]
+      }
+    };
+  }
+}
+
+export const anomalyService = new AnomalyService();
+export default anomalyService;
@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import { getAddress } from 'ethers';
+import { logger } from '../utils/logger';
+import { getIssuerKey, didKeyToPublicKey, toMultibase, fromMultibase } from './issuerKey';
+import { canonicalize } from './merkleTree';
+import blockchain, { DigitalID, isDigitalIDValid } from './simpleBlockchain';
+import {
+  VerifiableCredential,
+  DataIntegrityProof,
+  CredentialVerification
+} from '../types/blockchain';
+import { createApiError } from '../middleware/errorHandler';
+
+const CREDENTIAL_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+const ISSUER_NAME = 'RakshaSetu';
+
+const getPublicApiUrl = (): string =>
+  process.env.PUBLIC_API_URL || `http://localhost:${process.env.BLOCKCHAIN_PORT || 3002}`;
+
+const sha256 = (value: string): Buffer => crypto.createHash('sha256').update(value, 'utf8').digest();
+
+/**
+ * ecdsa-jcs-2019 hash data: sha256(JCS(proof config)) || sha256(JCS(document))
+ */
+const hashCredential = (
+  credential: VerifiableCredential,
+  proofConfig: Omit<DataIntegrityProof, 'proofValue'>
+): Buffer => {
+  const { proof, ...unsecured } = credential;
+
+  return Buffer.concat([
+    sha256(canonicalize({ ...proofConfig, '@context': credential['@context'] })),
+    sha256(canonicalize(unsecured))
+  ]);
+};
+
+export class CredentialService {
+  /**
+   * did:ethr identifier for a wallet on the configured chain
+   */
+  static walletToDid(walletAddress: string): string {
+    const chainId = parseInt(process.env.CHAIN_ID || '1', 10);
+    const address = getAddress(walletAddress);
+
+    return chainId === 1 ? `did:ethr:${address}` : `did:ethr:0x${chainId.toString(16)}:${address}`;
+  }
+
+  /**
+   * Issuer DID and verification method, published for partners that pin our key
+   */
+  static getIssuer() {
+    const { did, publicKey } = getIssuerKey();
+
+    return {
+      id: did,
+      name: ISSUER_NAME,
+      verificationMethod: `${did}#${did.slice('did:key:'.length)}`,
+      publicKeyJwk: publicKey.export({ format: 'jwk' })
+    };
+  }
+
+  /**
+   * Issue a verified tourist digital ID as a W3C Verifiable Credential
+   */
+  static issueDigitalIDCredential(digitalID: DigitalID): VerifiableCredential {
+    if (digitalID.status !== 'verified') {
+      throw createApiError(`Cannot issue a credential for a ${digitalID.status} digital ID`, 409);
+    }
+
+    const { privateKey } = getIssuerKey();
+    const issuer = CredentialService.getIssuer();
+    const now = new Date();
+
+    const credential: VerifiableCredential = {
+      '@context': [CREDENTIAL_CONTEXT],
+      id: `urn:uuid:${crypto.randomUUID()}`,
+      type: ['VerifiableCredential', 'TouristDigitalIDCredential'],
+      issuer: { id: issuer.id, name: issuer.name },
+      validFrom: now.toISOString(),
+      validUntil: digitalID.expiresAt ? new Date(digitalID.expiresAt).toISOString() : undefined,
+      credentialSubject: {
+        id: CredentialService.walletToDid(digitalID.walletAddress),
+        name: digitalID.name,
+        role: digitalID.role,
+        walletAddress: getAddress(digitalID.walletAddress),
+        digitalIdHash: digitalID.hash
+      },
+      credentialStatus: {
+        id: `${getPublicApiUrl()}/api/digital-id/${digitalID.hash}/status`,
+        type: 'RakshaSetuDigitalIDStatus'
+      }
+    };
+
+    if (!credential.validUntil) {
+      delete credential.validUntil;
+    }
+
+    const proofConfig: Omit<DataIntegrityProof, 'proofValue'> = {
+      type: 'DataIntegrityProof',
+      cryptosuite: 'ecdsa-jcs-2019',
+      created: now.toISOString(),
+      verificationMethod: issuer.verificationMethod,
+      proofPurpose: 'assertionMethod'
+    };
+
+    const signature = crypto.sign('sha256', hashCredential(credential, proofConfig), {
+      key: privateKey,
+      dsaEncoding: 'ieee-p1363'
+    });
+
+    logger.info('Verifiable credential issued', { digitalIdHash: digitalID.hash, credentialId: credential.id });
+
+    return {
+      ...credential,
+      proof: { ...proofConfig, proofValue: toMultibase(signature) }
+    };
+  }
+
+  /**
+   * Check a credential's signature, issuer, validity period and revocation status
+   */
+  static verifyCredential(credential: VerifiableCredential): CredentialVerification {
+    const errors: string[] = [];
+    const checks = { signature: false, issuer: false, expiry: false, revocation: false };
+    let status: string | undefined;
+
+    if (!credential || typeof credential !== 'object' || !credential.credentialSubject) {
+      return { valid: false, checks, errors: ['Credential is malformed'] };
+    }
+
+    const { proof } = credential;
+
+    // Signature
+    if (!proof || proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== 'ecdsa-jcs-2019') {
+      errors.push('Unsupported or missing proof');
+    } else {
+      try {
+        const { proofValue, ...proofConfig } = proof;
+
+        checks.signature = crypto.verify(
+          'sha256',
+          hashCredential(credential, proofConfig),
+          { key: didKeyToPublicKey(proof.verificationMethod), dsaEncoding: 'ieee-p1363' },
+          fromMultibase(proofValue)
+        );
+      } catch (error: any) {
+        logger.warn('Credential proof could not be checked', { error: error.message });
+      }
+
+      if (!checks.signature) {
+        errors.push('Proof signature is invalid');
+      }
+    }
+
+    // Issuer: must be us, and the proof must be made with the issuer's own key
+    const issuerId = typeof credential.issuer === 'string' ? credential.issuer : credential.issuer?.id;
+    checks.issuer = issuerId === getIssuerKey().did && proof?.verificationMethod?.split('#')[0] === issuerId;
+
+    if (!checks.issuer) {
+      errors.push('Credential was not issued by RakshaSetu');
+    }
+
+    // Validity period
+    const now = Date.now();
+    const validFrom = Date.parse(credential.validFrom);
+    const validUntil = credential.validUntil ? Date.parse(credential.validUntil) : Infinity;
+    checks.expiry = !Number.isNaN(validFrom) && validFrom <= now && validUntil > now;
+
+    if (!checks.expiry) {
+      errors.push(validUntil <= now ? 'Credential has expired' : 'Credential is not yet valid');
+    }
+
+    // Revocation, against the live digital ID lifecycle
+    const subject = credential.credentialSubject;
+    const digitalID = subject.digitalIdHash ? blockchain.getDigitalIDByHash(subject.digitalIdHash) : null;
+
+    if (!digitalID) {
+      errors.push('Digital ID not found');
+    } else {
+      status = digitalID.status;
+      checks.revocation = isDigitalIDValid(digitalID) &&
+        digitalID.walletAddress.toLowerCase() === String(subject.walletAddress).toLowerCase();
+
+      if (!checks.revocation) {
+        errors.push(isDigitalIDValid(digitalID)
+          ? 'Credential subject does not match the digital ID'
+          : `Digital ID is ${digitalID.status}`);
+      }
+    }
+
+    return {
+      valid: Object.values(checks).every(Boolean),
+      checks,
+      errors,
+      status
+    };
+  }
+}
+
+export default CredentialService;
@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import { UserRecord, UserRole } from '../repositories';
+import { logger } from '../utils/logger';
+
+export type EventTopic = 'alerts' | 'locations' | 'zones' | 'trips' | 'firs' | 'missing-persons' | 'digital-ids' | 'blocks';
+
+export interface BusEvent {
+  id: string;
+  topic: EventTopic;
+  type: string;
+  data: unknown;
+  // Owner of the event; users outside the topic's roles only see their own
+  userId?: string | null;
+  timestamp: string;
+}
+
+export interface Subscriber {
+  user: UserRecord;
+  topics: EventTopic[];
+  send: (event: BusEvent) => void;
+}
+
+// In-process consumer, e.g. a service recomputing state; sees every event on its topics
+export type EventListener = (event: BusEvent) => void;
+
+export interface EventBusStats {
+  connections: number;
+  maxConnections: number;
+  subscriptions: Record<EventTopic, number>;
+  eventsPublished: number;
+  messagesSent: number;
+  bufferedEvents: number;
+  lastEventId: string | null;
+}
+
+/**
+ * Roles that receive every event on a topic. Any other authenticated user may
+ * subscribe but only receives events they own; '*' means everyone sees all.
+ */
+export const TOPIC_ACCESS: Record<EventTopic, UserRole[] | '*'> = {
+  alerts: ['police', 'admin'],
+  locations: ['police', 'tourism', 'admin'],
+  zones: ['police', 'tourism', 'admin'],
+  trips: ['police', 'tourism', 'admin'],
+  firs: ['police', 'admin'],
+  'missing-persons': ['police', 'admin'],
+  'digital-ids': ['police', 'tourism', 'admin'],
+  blocks: '*'
+};
+
+export const EVENT_TOPICS = Object.keys(TOPIC_ACCESS) as EventTopic[];
+
+const BUFFER_SIZE = parseInt(process.env.EVENT_BUFFER_SIZE || '1000', 10);
+const MAX_CONNECTIONS = parseInt(process.env.EVENT_MAX_CONNECTIONS || '1000', 10);
+
+export const canReceive = (user: UserRecord, event: Pick<BusEvent, 'topic' | 'userId'>): boolean => {
+  const access = TOPIC_ACCESS[event.topic];
+  if (access === '*' || access.includes(user.role)) return true;
+  return !!event.userId && event.userId === user._id;
+};
+
+/**
+ * In-process pub/sub for dashboard updates. Recent events are kept in a ring
+ * buffer so a client that reconnects with its last event ID misses nothing.
+ * Event IDs are `<boot id>-<sequence>`; an ID from an earlier boot, or one
+ * older than the buffer, cannot be resumed and the client must refetch.
+ */
+export class EventBus {
+  private readonly bootId = crypto.randomBytes(4).toString('hex');
+  private sequence = 0;
+  private buffer: BusEvent[] = [];
+  private subscribers: Set<Subscriber> = new Set();
+  private listeners: Set<{ topics: EventTopic[]; listener: EventListener }> = new Set();
+  private messagesSent = 0;
+
+  publish(topic: EventTopic, type: string, data: unknown, userId?: string | null): BusEvent {
+    const event: BusEvent = {
+      id: `${this.bootId}-${++this.sequence}`,
+      topic,
+      type,
+      data,
+      userId: userId || null,
+      timestamp: new Date().toISOString()
+    };
+
+    this.buffer.push(event);
+    if (this.buffer.length > BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+
+    this.subscribers.forEach(subscriber => this.deliver(subscriber, event));
+    this.listeners.forEach(({ topics, listener }) => {
+      if (!topics.includes(topic)) return;
+
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('Event listener failed', { error: (error as Error).message, topic });
+      }
+    });
+
+    return event;
+  }
+
+  /**
+   * Listen for events inside the server. Listeners are not connections and
+   * are not subject to topic access rules.
+   */
+  listen(topics: EventTopic[], listener: EventListener): () => void {
+    const entry = { topics, listener };
+
+    this.listeners.add(entry);
+    return () => {
+      this.listeners.delete(entry);
+    };
+  }
+
+  /**
+   * Register a subscriber. Throws if the server is at capacity.
+   */
+  subscribe(subscriber: Subscriber): () => void {
+    if (this.subscribers.size >= MAX_CONNECTIONS) {
+      throw new Error('Too many event stream connections');
+    }
+
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  /**
+   * Events after lastEventId visible to the subscriber, or null when that ID
+   * can no longer be resumed from
+   */
+  replay(subscriber: Pick<Subscriber, 'user' | 'topics'>, lastEventId: string): BusEvent[] | null {
+    const [bootId, sequence] = lastEventId.split('-');
+    const lastSequence = parseInt(sequence, 10);
+
+    if (bootId !== this.bootId || !Number.isInteger(lastSequence) || lastSequence > this.sequence) {
+      return null;
+    }
+
+    const oldest = this.buffer.length > 0 ? this.sequenceOf(this.buffer[0]) : this.sequence + 1;
+    if (lastSequence < oldest - 1) {
+      return null;
+    }
+
+    return this.buffer
+      .filter(event => this.sequenceOf(event) > lastSequence)
+      .filter(event => this.matches(subscriber, event));
+  }
+
+  getLastEventId(): string | null {
+    return this.sequence > 0 ? `${this.bootId}-${this.sequence}` : null;
+  }
+
+  recordSent(count: number = 1) {
+    this.messagesSent += count;
+  }
+
+  getStats(): EventBusStats {
+    const subscriptions = EVENT_TOPICS.reduce((counts, topic) => {
+      counts[topic] = 0;
+      return counts;
+    }, {} as Record<EventTopic, number>);
+
+    this.subscribers.forEach(subscriber => {
+      subscriber.topics.forEach(topic => subscriptions[topic]++);
+    });
+
+    return {
+      connections: this.subscribers.size,
+      maxConnections: MAX_CONNECTIONS,
+      subscriptions,
+      eventsPublished: this.sequence,
+      messagesSent: this.messagesSent,
+      bufferedEvents: this.buffer.length,
+      lastEventId: this.getLastEventId()
+    };
+  }
+
+  private matches(subscriber: Pick<Subscriber, 'user' | 'topics'>, event: BusEvent): boolean {
+    return subscriber.topics.includes(event.topic) && canReceive(subscriber.user, event);
+  }
+
+  private deliver(subscriber: Subscriber, event: BusEvent) {
+    if (!this.matches(subscriber, event)) return;
+
+    try {
+      subscriber.send(event);
+    } catch (error) {
+      logger.error('Failed to deliver event', { error: (error as Error).message, topic: event.topic });
+    }
+  }
+
+  private sequenceOf(event: BusEvent): number {
+    return parseInt(event.id.split('-')[1], 10);
+  }
+}
+
+export const eventBus = new EventBus();
+export default eventBus;
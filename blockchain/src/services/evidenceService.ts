@@ -0,0 +1,298 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import sharp from 'sharp';
+import { createApiError } from '../middleware/errorHandler';
+import { CustodyEvent, EvidenceRecord, getStorage, UserRecord, UserRole } from '../repositories';
+import { logger } from '../utils/logger';
+import { firService } from './firService';
+
+export interface EvidenceUpload {
+  fileName: string;
+  buffer: Buffer;
+}
+
+export type EvidenceLinkKind = 'view' | 'download' | 'thumbnail';
+
+export type EvidenceListItem = EvidenceRecord & { thumbnailUrl: string | null };
+
+export interface EvidenceFile {
+  path: string;
+  fileName: string;
+  mimeType: string;
+  kind: EvidenceLinkKind;
+}
+
+const EVIDENCE_DIR = process.env.EVIDENCE_DIR || path.join(process.cwd(), 'data', 'evidence');
+const THUMBNAIL_SIZE = parseInt(process.env.EVIDENCE_THUMBNAIL_SIZE || '320', 10);
+const LINK_TTL_SECONDS = parseInt(process.env.EVIDENCE_LINK_TTL_SECONDS || '300', 10);
+const LINK_SECRET = process.env.JWT_SECRET || 'raksha-setu-secret';
+const LINK_AUDIENCE = 'evidence';
+
+export const EVIDENCE_MAX_FILE_BYTES = parseInt(process.env.EVIDENCE_MAX_FILE_MB || '25', 10) * 1024 * 1024;
+export const EVIDENCE_MAX_FILES = parseInt(process.env.EVIDENCE_MAX_FILES || '10', 10);
+
+const ALLOWED_TYPES = (process.env.EVIDENCE_ALLOWED_TYPES ||
+  'image/jpeg,image/png,image/webp,video/mp4,video/quicktime,audio/mpeg,audio/wav,application/pdf')
+  .split(',').map(type => type.trim()).filter(Boolean);
+
+// Roles that may open evidence files; links are checked against the role again when used
+const EVIDENCE_ROLES: UserRole[] = ['police', 'admin'];
+
+const THUMBNAIL_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const CUSTODY_ACTIONS: Record<EvidenceLinkKind, CustodyEvent['action'] | null> = {
+  view: 'viewed',
+  download: 'downloaded',
+  // Thumbnails are shown whenever an FIR is opened, so they are not logged
+  thumbnail: null
+};
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0) =>
+  bytes.every((byte, i) => buffer[offset + i] === byte);
+
+const ascii = (buffer: Buffer, start: number, end: number) => buffer.subarray(start, end).toString('latin1');
+
+/**
+ * Work out a file's type from its leading bytes. The type a browser declares
+ * is only a guess from the file name, so it is not trusted.
+ */
+export const detectMimeType = (buffer: Buffer): string | null => {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WAVE') return 'audio/wav';
+  if (ascii(buffer, 0, 5) === '%PDF-') return 'application/pdf';
+  if (ascii(buffer, 4, 8) === 'ftyp') return ascii(buffer, 8, 12) === 'qt  ' ? 'video/quicktime' : 'video/mp4';
+  if (ascii(buffer, 0, 3) === 'ID3' || (buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0)) return 'audio/mpeg';
+  return null;
+};
+
+const cleanFileName = (name: string) =>
+  // eslint-disable-next-line no-control-regex
+  path.basename(name).replace(/[\u0000-\u001f\u007f"\\]/g, '').slice(0, 200) || 'evidence';
+
+const blobPath = (sha256: string) => path.join(EVIDENCE_DIR, sha256.slice(0, 2), sha256);
+
+const thumbnailPath = (sha256: string) => path.join(EVIDENCE_DIR, 'thumbnails', `${sha256}.webp`);
+
+const hashFile = (filePath: string): Promise<string> => new Promise((resolve, reject) => {
+  const hash = crypto.createHash('sha256');
+  fs.createReadStream(filePath)
+    .on('data', chunk => hash.update(chunk))
+    .on('end', () => resolve(hash.digest('hex')))
+    .on('error', reject);
+});
+
+/**
+ * Write a file unless it is already there, via a temporary file so a
+ * half-written file never sits at the final path
+ */
+const writeOnce = async (filePath: string, data: Buffer) => {
+  if (fs.existsSync(filePath)) return;
+
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const temporary = `${filePath}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+  await fs.promises.writeFile(temporary, data);
+  await fs.promises.rename(temporary, filePath);
+};
+
+/**
+ * Evidence files for e-FIRs. Files are stored on disk under their SHA-256, so
+ * the same file attached to two FIRs is kept once. Each upload records the
+ * hash on the FIR, where it is anchored on the chain with the FIR's other
+ * revisions, and the file is checked against that hash whenever it is opened.
+ * Files are opened through short-lived signed links, and every view and
+ * download is appended to the file's chain of custody.
+ */
+export class EvidenceService {
+  async upload(firId: string, uploads: EvidenceUpload[], actor: UserRecord, ip?: string): Promise<EvidenceRecord[]> {
+    const fir = await firService.getFIR(firId);
+
+    if (fir.status === 'closed') {
+      throw createApiError('Cannot add evidence to a closed FIR', 409);
+    }
+    if (uploads.length === 0) {
+      throw createApiError('No files were uploaded', 400);
+    }
+
+    // Check every file before storing any so a bad file doesn't leave half an upload
+    const files = uploads.map(upload => {
+      const fileName = cleanFileName(upload.fileName);
+      const mimeType = detectMimeType(upload.buffer);
+
+      if (!mimeType || !ALLOWED_TYPES.includes(mimeType)) {
+        throw createApiError(`${fileName} is not an allowed file type (${ALLOWED_TYPES.join(', ')})`, 415);
+      }
+      if (upload.buffer.length > EVIDENCE_MAX_FILE_BYTES) {
+        throw createApiError(`${fileName} is larger than ${EVIDENCE_MAX_FILE_BYTES / 1024 / 1024} MB`, 413);
+      }
+
+      return {
+        fileName,
+        mimeType,
+        buffer: upload.buffer,
+        sha256: crypto.createHash('sha256').update(upload.buffer).digest('hex')
+      };
+    });
+
+    for (const file of files) {
+      const existing = await getStorage().evidence.findOne({ firId, sha256: file.sha256 });
+      if (existing || files.filter(other => other.sha256 === file.sha256).length > 1) {
+        throw createApiError(`${file.fileName} is already attached to this FIR${existing ? ` as ${existing.fileName}` : ''}`, 409);
+      }
+    }
+
+    const created: EvidenceRecord[] = [];
+
+    for (const file of files) {
+      await writeOnce(blobPath(file.sha256), file.buffer);
+      const hasThumbnail = THUMBNAIL_TYPES.includes(file.mimeType) && await this.createThumbnail(file.sha256, file.buffer);
+
+      const evidence = await getStorage().evidence.create({
+        firId,
+        sha256: file.sha256,
+        fileName: file.fileName,
+        mimeType: file.mimeType,
+        size: file.buffer.length,
+        hasThumbnail,
+        uploadedBy: actor._id,
+        uploadedByName: actor.name,
+        custody: [this.custodyEvent('uploaded', actor, ip)]
+      });
+
+      await firService.attachEvidence(firId, {
+        evidenceId: evidence._id,
+        sha256: evidence.sha256,
+        fileName: evidence.fileName,
+        mimeType: evidence.mimeType,
+        size: evidence.size
+      }, actor);
+
+      logger.info('Evidence uploaded', { firId, evidenceId: evidence._id, sha256: file.sha256, by: actor._id });
+      created.push(evidence);
+    }
+
+    return created;
+  }
+
+  /**
+   * An FIR's evidence with its custody log and a thumbnail link for the viewer
+   */
+  async listEvidence(firId: string, actor: UserRecord): Promise<EvidenceListItem[]> {
+    await firService.getFIR(firId);
+    const evidence = await getStorage().evidence.find({ firId }, { sort: 'createdAt', order: 'asc' });
+
+    return evidence.map(item => ({
+      ...item,
+      thumbnailUrl: item.hasThumbnail ? this.signLink(item._id, 'thumbnail', actor).url : null
+    }));
+  }
+
+  async issueLink(firId: string, evidenceId: string, kind: Exclude<EvidenceLinkKind, 'thumbnail'>, actor: UserRecord) {
+    const evidence = await getStorage().evidence.findById(evidenceId);
+
+    if (!evidence || evidence.firId !== firId) {
+      throw createApiError('Evidence not found', 404);
+    }
+
+    return this.signLink(evidence._id, kind, actor);
+  }
+
+  /**
+   * Resolve a signed link to the file it opens. The link's user must still be
+   * active and allowed to see evidence, and the file must still match the hash
+   * recorded on its FIR; views and downloads are added to the custody log.
+   */
+  async open(token: string, ip?: string): Promise<EvidenceFile> {
+    let claims: { evidenceId: string; kind: EvidenceLinkKind; sub: string };
+
+    try {
+      claims = jwt.verify(token, LINK_SECRET, { audience: LINK_AUDIENCE }) as typeof claims;
+    } catch {
+      throw createApiError('Evidence link is invalid or has expired', 401);
+    }
+
+    const user = await getStorage().users.findById(claims.sub);
+
+    if (!user || !user.isActive || !EVIDENCE_ROLES.includes(user.role)) {
+      throw createApiError('Insufficient permissions', 403);
+    }
+
+    const evidence = await getStorage().evidence.findById(claims.evidenceId);
+
+    if (!evidence) {
+      throw createApiError('Evidence not found', 404);
+    }
+
+    if (claims.kind === 'thumbnail') {
+      return { path: thumbnailPath(evidence.sha256), fileName: evidence.fileName, mimeType: 'image/webp', kind: claims.kind };
+    }
+
+    const fir = await firService.getFIR(evidence.firId);
+    const recorded = (fir.evidence || []).find(item => item.evidenceId === evidence._id);
+    const filePath = blobPath(evidence.sha256);
+    const actual = fs.existsSync(filePath) ? await hashFile(filePath) : null;
+
+    if (!recorded || recorded.sha256 !== evidence.sha256 || actual !== evidence.sha256) {
+      logger.error('Evidence failed its integrity check', {
+        evidenceId: evidence._id,
+        firNumber: fir.firNumber,
+        recorded: recorded?.sha256 || null,
+        stored: evidence.sha256,
+        actual
+      });
+      throw createApiError('Evidence file does not match the hash recorded on its FIR', 409);
+    }
+
+    await getStorage().evidence.update(evidence._id, {
+      custody: [...evidence.custody, this.custodyEvent(CUSTODY_ACTIONS[claims.kind]!, user, ip)]
+    });
+
+    return { path: filePath, fileName: evidence.fileName, mimeType: evidence.mimeType, kind: claims.kind };
+  }
+
+  private signLink(evidenceId: string, kind: EvidenceLinkKind, actor: UserRecord) {
+    const token = jwt.sign({ evidenceId, kind }, LINK_SECRET, {
+      subject: actor._id,
+      audience: LINK_AUDIENCE,
+      expiresIn: LINK_TTL_SECONDS
+    });
+    const baseUrl = process.env.PUBLIC_API_URL || `http://localhost:${process.env.BLOCKCHAIN_PORT || 3002}`;
+
+    return {
+      url: `${baseUrl}/api/firs/evidence/${token}`,
+      expiresAt: new Date(Date.now() + LINK_TTL_SECONDS * 1000).toISOString()
+    };
+  }
+
+  private async createThumbnail(sha256: string, buffer: Buffer): Promise<boolean> {
+    try {
+      const thumbnail = await sharp(buffer)
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp()
+        .toBuffer();
+      await writeOnce(thumbnailPath(sha256), thumbnail);
+      return true;
+    } catch (error: any) {
+      logger.warn('Failed to create evidence thumbnail', { sha256, error: error.message });
+      return false;
+    }
+  }
+
+  private custodyEvent(action: CustodyEvent['action'], actor: UserRecord, ip?: string): CustodyEvent {
+    return {
+      action,
+      by: actor._id,
+      byName: actor.name,
+      role: actor.role,
+      at: new Date().toISOString(),
+      ip: ip || null
+    };
+  }
+}
+
+export const evidenceService = new EvidenceService();
+export default evidenceService;
@@ -0,0 +1,327 @@
+import fs from 'fs';
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { FIREvent, FIRRecord, FIRStatus, getStorage, UserRecord } from '../repositories';
+import { logger } from '../utils/logger';
+import { firService } from './firService';
+import { translationClient } from './translationClient';
+
+export interface FIRDocument {
+  fileName: string;
+  buffer: Buffer;
+  // Language of the translated copy, or 'en' when there is only the original
+  language: string;
+}
+
+type Translate = (text: string) => string;
+
+const FONT_DIR = process.env.FIR_PDF_FONT_DIR || path.join(process.cwd(), 'data', 'fonts');
+// FIR times are printed in the same local time used for zone curfews
+const LOCAL_TIMEZONE = process.env.ZONE_TIMEZONE || 'Asia/Kolkata';
+
+// The built-in PDF fonts only cover Latin text; other scripts need a Noto font in FIR_PDF_FONT_DIR
+const SCRIPT_FONTS: Record<string, string> = {
+  hi: 'NotoSansDevanagari-Regular.ttf',
+  mr: 'NotoSansDevanagari-Regular.ttf',
+  brx: 'NotoSansDevanagari-Regular.ttf',
+  bn: 'NotoSansBengali-Regular.ttf',
+  as: 'NotoSansBengali-Regular.ttf',
+  mni: 'NotoSansBengali-Regular.ttf',
+  ta: 'NotoSansTamil-Regular.ttf',
+  te: 'NotoSansTelugu-Regular.ttf',
+  gu: 'NotoSansGujarati-Regular.ttf'
+};
+
+const LABELS = {
+  heading: 'First Information Report',
+  subheading: 'Electronic FIR issued through RakshaSetu',
+  firNumber: 'FIR number',
+  station: 'Police station',
+  status: 'Status',
+  filedOn: 'Filed on',
+  incidentDate: 'Date and time of incident',
+  parties: 'Parties',
+  complainant: 'Complainant',
+  involvedPersons: 'Persons involved',
+  incident: 'Incident',
+  incidentType: 'Type of incident',
+  severity: 'Severity',
+  location: 'Place of occurrence',
+  coordinates: 'Coordinates',
+  narrative: 'Statement of facts',
+  officers: 'Officers',
+  filedBy: 'Filed by',
+  assignedTo: 'Investigating officer',
+  unassigned: 'Not yet assigned',
+  history: 'Status history',
+  evidence: 'Evidence',
+  none: 'None recorded',
+  verify: 'Scan to check this FIR against its record on the RakshaSetu blockchain',
+  translation: 'This is a translation. The English original is attached and prevails over this copy.',
+  original: 'English original',
+  translationUnavailable: 'A translated copy could not be produced; only the English original is included.',
+  generated: 'Generated'
+};
+
+const STATUS_LABELS: Record<FIRStatus, string> = {
+  draft: 'Draft',
+  pending: 'Pending approval',
+  approved: 'Registered',
+  rejected: 'Rejected',
+  closed: 'Closed'
+};
+
+const SEVERITY_LABELS: Record<FIRRecord['severity'], string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+  critical: 'Critical'
+};
+
+const INCIDENT_TYPES: Record<string, string> = {
+  theft: 'Theft',
+  missing: 'Missing person',
+  accident: 'Traffic accident',
+  assault: 'Assault',
+  fraud: 'Fraud',
+  other: 'Other'
+};
+
+const ACTION_LABELS: Record<FIREvent['action'], string> = {
+  created: 'Created',
+  updated: 'Edited',
+  submitted: 'Submitted for approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  closed: 'Closed',
+  returned: 'Returned to draft',
+  assigned: 'Assigned',
+  remark: 'Remark',
+  evidence_added: 'Evidence added'
+};
+
+const formatDate = (value: Date | string) => new Date(value).toLocaleString('en-IN', {
+  timeZone: LOCAL_TIMEZONE,
+  dateStyle: 'medium',
+  timeStyle: 'short'
+});
+
+const getPublicApiUrl = (): string =>
+  process.env.PUBLIC_API_URL || `http://localhost:${process.env.BLOCKCHAIN_PORT || 3002}`;
+
+/**
+ * Printable e-FIRs. Each document is the FIR in the complainant's language,
+ * translated through the language backend, followed by the English original.
+ * Every copy carries a QR code linking to the FIR's public verification.
+ */
+export class FIRDocumentService {
+  async exportFIR(id: string, user: UserRecord, language?: string): Promise<FIRDocument> {
+    const fir = user.role === 'tourist'
+      ? await firService.getTouristFIR(id, user._id)
+      : await firService.getFIR(id);
+    const tourist = user.role === 'tourist'
+      ? user
+      : fir.touristId ? await getStorage().users.findById(fir.touristId) : null;
+    const target = language || tourist?.language || 'en';
+
+    const copies: { translate: Translate; font: string | null; translated: boolean }[] = [];
+    let translationFailed = false;
+
+    if (target !== 'en') {
+      const font = this.fontFor(target);
+
+      if (font === undefined) {
+        logger.warn('No font for FIR translation', { language: target, fontDir: FONT_DIR });
+        translationFailed = true;
+      } else {
+        try {
+          copies.push({ translate: await this.translator(fir, target), font, translated: true });
+        } catch {
+          translationFailed = true;
+        }
+      }
+    }
+
+    copies.push({ translate: text => text, font: null, translated: false });
+
+    const qrCode = await QRCode.toBuffer(`${getPublicApiUrl()}/api/firs/verify/${encodeURIComponent(fir.firNumber)}`, {
+      errorCorrectionLevel: 'M',
+      margin: 1,
+      width: 240
+    });
+    const buffer = await this.render(fir, copies, qrCode, translationFailed);
+    const documentLanguage = copies[0].translated ? target : 'en';
+
+    logger.info('FIR exported', { firNumber: fir.firNumber, by: user._id, language: documentLanguage });
+
+    return {
+      fileName: `${fir.firNumber}${documentLanguage === 'en' ? '' : `-${documentLanguage}`}.pdf`,
+      buffer,
+      language: documentLanguage
+    };
+  }
+
+  /**
+   * Font file for a language's script, null when the built-in Latin fonts
+   * will do, or undefined when the font it needs is not installed
+   */
+  private fontFor(language: string): string | null | undefined {
+    const fileName = SCRIPT_FONTS[language];
+    if (!fileName) return null;
+
+    const fontPath = path.join(FONT_DIR, fileName);
+    return fs.existsSync(fontPath) ? fontPath : undefined;
+  }
+
+  /**
+   * Translate every label and the FIR's free text in one batch. Names,
+   * numbers and file names are left as they are.
+   */
+  private async translator(fir: FIRRecord, language: string): Promise<Translate> {
+    const texts = Array.from(new Set([
+      ...Object.values(LABELS),
+      ...Object.values(STATUS_LABELS),
+      ...Object.values(SEVERITY_LABELS),
+      ...Object.values(ACTION_LABELS),
+      INCIDENT_TYPES[fir.incidentType] || fir.incidentType,
+      fir.title,
+      fir.description,
+      fir.location,
+      ...fir.history.map(event => event.action !== 'evidence_added' ? event.note || '' : '')
+    ].filter(Boolean)));
+
+    const translated = await translationClient.translate(texts, language);
+    const dictionary = new Map(texts.map((text, i) => [text, translated[i]]));
+
+    return text => dictionary.get(text) ?? text;
+  }
+
+  private render(
+    fir: FIRRecord,
+    copies: { translate: Translate; font: string | null; translated: boolean }[],
+    qrCode: Buffer,
+    translationFailed: boolean
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({
+        size: 'A4',
+        margin: 50,
+        info: { Title: `${LABELS.heading} ${fir.firNumber}`, Author: 'RakshaSetu' }
+      });
+      const chunks: Buffer[] = [];
+
+      doc.on('data', chunk => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      copies.forEach((copy, index) => {
+        if (index > 0) doc.addPage();
+
+        if (copy.font) {
+          doc.registerFont('Body', copy.font);
+          doc.registerFont('Heading', copy.font);
+        } else {
+          doc.registerFont('Body', 'Helvetica');
+          doc.registerFont('Heading', 'Helvetica-Bold');
+        }
+
+        const notice = copy.translated
+          ? LABELS.translation
+          : copies.length > 1 ? LABELS.original : translationFailed ? LABELS.translationUnavailable : null;
+
+        this.renderCopy(doc, fir, copy.translate, qrCode, notice);
+      });
+
+      doc.end();
+    });
+  }
+
+  private renderCopy(doc: PDFKit.PDFDocument, fir: FIRRecord, t: Translate, qrCode: Buffer, notice: string | null) {
+    const section = (title: string) => {
+      doc.moveDown(0.8).font('Heading').fontSize(12).fillColor('#1f2937').text(t(title));
+      doc.moveTo(doc.page.margins.left, doc.y + 2)
+        .lineTo(doc.page.width - doc.page.margins.right, doc.y + 2)
+        .strokeColor('#d1d5db')
+        .stroke();
+      doc.moveDown(0.4);
+    };
+    const field = (label: string, value: string) => {
+      doc.font('Heading').fontSize(10).fillColor('#374151').text(`${t(label)}: `, { continued: true })
+        .font('Body').fillColor('#111827').text(value);
+    };
+
+    doc.font('Heading').fontSize(18).fillColor('#111827').text(t(LABELS.heading), { align: 'center' });
+    doc.font('Body').fontSize(10).fillColor('#4b5563').text(t(LABELS.subheading), { align: 'center' });
+
+    if (notice) {
+      doc.moveDown(0.5).fontSize(9).fillColor('#b45309').text(t(notice), { align: 'center' });
+    }
+
+    doc.moveDown(1);
+    field(LABELS.firNumber, fir.firNumber);
+    field(LABELS.station, fir.station);
+    field(LABELS.status, t(STATUS_LABELS[fir.status]));
+    field(LABELS.filedOn, formatDate(fir.createdAt));
+    field(LABELS.incidentDate, formatDate(fir.incidentDate));
+
+    section(LABELS.parties);
+    field(LABELS.complainant, fir.reportedBy);
+    field(LABELS.involvedPersons, fir.involvedPersons.length > 0 ? fir.involvedPersons.join(', ') : t(LABELS.none));
+
+    section(LABELS.incident);
+    doc.font('Heading').fontSize(11).fillColor('#111827').text(t(fir.title));
+    doc.moveDown(0.3);
+    field(LABELS.incidentType, t(INCIDENT_TYPES[fir.incidentType] || fir.incidentType));
+    field(LABELS.severity, t(SEVERITY_LABELS[fir.severity]));
+    field(LABELS.location, t(fir.location));
+    if (fir.coordinates) {
+      field(LABELS.coordinates, `${fir.coordinates.lat.toFixed(5)}, ${fir.coordinates.lng.toFixed(5)}`);
+    }
+
+    section(LABELS.narrative);
+    doc.font('Body').fontSize(10).fillColor('#111827').text(t(fir.description), { align: 'justify' });
+
+    section(LABELS.officers);
+    field(LABELS.filedBy, fir.createdByName);
+    field(LABELS.assignedTo, fir.assignedOfficerName || t(LABELS.unassigned));
+
+    section(LABELS.history);
+    fir.history.forEach(event => {
+      doc.font('Heading').fontSize(9).fillColor('#374151')
+        .text(`${formatDate(event.at)}  ${t(ACTION_LABELS[event.action])}`, { continued: true })
+        .font('Body').text(` - ${event.byName}`);
+      if (event.note && event.action !== 'evidence_added') {
+        doc.font('Body').fontSize(9).fillColor('#4b5563').text(t(event.note), { indent: 12 });
+      }
+    });
+
+    section(LABELS.evidence);
+    if ((fir.evidence || []).length === 0) {
+      doc.font('Body').fontSize(9).fillColor('#4b5563').text(t(LABELS.none));
+    }
+    (fir.evidence || []).forEach(item => {
+      doc.font('Body').fontSize(9).fillColor('#111827').text(item.fileName);
+      doc.font('Courier').fontSize(7).fillColor('#6b7280').text(`SHA-256 ${item.sha256}`);
+    });
+
+    // Keep the QR block together at the foot of the copy
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 140) {
+      doc.addPage();
+    }
+    doc.moveDown(1.5);
+    const top = doc.y;
+    doc.image(qrCode, doc.page.margins.left, top, { width: 100 });
+    doc.font('Body').fontSize(9).fillColor('#374151')
+      .text(t(LABELS.verify), doc.page.margins.left + 115, top + 20, { width: 350 });
+    doc.font('Courier').fontSize(7).fillColor('#6b7280')
+      .text(`${getPublicApiUrl()}/api/firs/verify/${fir.firNumber}`, { width: 350 });
+    doc.font('Body').fontSize(8).fillColor('#6b7280')
+      .text(`${t(LABELS.generated)} ${formatDate(new Date())}`, { width: 350 });
+    doc.x = doc.page.margins.left;
+    doc.y = Math.max(doc.y, top + 110);
+  }
+}
+
+export const firDocumentService = new FIRDocumentService();
+export default firDocumentService;
@@ -0,0 +1,541 @@
+import crypto from 'crypto';
+import { createApiError } from '../middleware/errorHandler';
+import {
+  AlertRecord,
+  FIREvent,
+  FIREvidence,
+  FIRRecord,
+  FIRSource,
+  FIRStatus,
+  GeoPoint,
+  getStorage,
+  UserRecord,
+  UserRole
+} from '../repositories';
+import { formatPoint } from '../utils/format';
+import { logger } from '../utils/logger';
+import { alertService } from './alertService';
+import { eventBus } from './eventBus';
+import { locationService } from './locationService';
+import { canonicalize } from './merkleTree';
+import { blockchain, ChainRecord } from './simpleBlockchain';
+
+export type FIRInput = Pick<FIRRecord,
+  'title' | 'description' | 'incidentType' | 'severity' | 'reportedBy' | 'incidentDate' | 'location'
+> & {
+  station?: string;
+  coordinates?: GeoPoint | null;
+  involvedPersons?: string[];
+  touristId?: string | null;
+  source?: FIRSource | null;
+};
+
+// An unsaved FIR filled in from an alert or a missing tourist, for the officer to review
+export type FIRDraft = Omit<FIRInput, 'incidentDate'> & { incidentDate: string };
+
+export interface FIRListFilter {
+  status?: FIRStatus;
+  severity?: FIRRecord['severity'];
+  station?: string;
+  assignedTo?: string;
+  touristId?: string;
+  limit?: number;
+}
+
+export interface FIRRevisionCheck {
+  revision: number;
+  action: FIREvent['action'] | null;
+  at: string;
+  // Sealed into this block, or null while waiting in the mempool
+  blockIndex: number | null;
+  matches: boolean;
+}
+
+export interface FIRVerification {
+  firNumber: string;
+  valid: boolean;
+  revisions: FIRRevisionCheck[];
+  firstDivergentRevision: number | null;
+  reason: string | null;
+}
+
+type FIRAction = Extract<FIREvent['action'], 'submitted' | 'approved' | 'rejected' | 'closed' | 'returned'>;
+
+// Status an FIR may move to from each status and the roles allowed to move it; anything else is a 409
+const TRANSITIONS: Record<FIRStatus, Partial<Record<FIRStatus, UserRole[]>>> = {
+  draft: { pending: ['police', 'admin'] },
+  pending: { approved: ['police', 'admin'], rejected: ['police', 'admin'], draft: ['police', 'admin'] },
+  approved: { closed: ['police', 'admin'] },
+  rejected: { draft: ['police', 'admin'] },
+  closed: {}
+};
+
+// History action recorded for a move into each status
+const ACTIONS: Record<FIRStatus, FIRAction> = {
+  draft: 'returned',
+  pending: 'submitted',
+  approved: 'approved',
+  rejected: 'rejected',
+  closed: 'closed'
+};
+
+// FIRs that justify precise location access to the tourist they concern
+const OPEN_STATUSES: FIRStatus[] = ['pending', 'approved'];
+// FIRs that count as recorded incidents; drafts and rejected FIRs do not
+export const REGISTERED_STATUSES: FIRStatus[] = ['pending', 'approved', 'closed'];
+
+const DEFAULT_STATION = process.env.FIR_DEFAULT_STATION || 'PS001';
+
+const ALERT_SEVERITY: Record<AlertRecord['severity'], FIRRecord['severity']> = {
+  low: 'low',
+  moderate: 'medium',
+  high: 'high',
+  critical: 'critical'
+};
+
+const event = (action: FIREvent['action'], actor: UserRecord, extra: Partial<FIREvent> = {}): FIREvent => ({
+  action,
+  by: actor._id,
+  byName: actor.name,
+  at: new Date().toISOString(),
+  ...extra
+});
+
+const sha256 = (value: unknown) => crypto.createHash('sha256').update(canonicalize(value)).digest('hex');
+
+/**
+ * Hash of the fields an FIR revision can change. Storage bookkeeping
+ * (_id, timestamps) is left out, and the history is covered entry by entry.
+ */
+export const hashFIRContent = (fir: FIRRecord): string => sha256({
+  firNumber: fir.firNumber,
+  station: fir.station,
+  title: fir.title,
+  description: fir.description,
+  incidentType: fir.incidentType,
+  severity: fir.severity,
+  status: fir.status,
+  reportedBy: fir.reportedBy,
+  incidentDate: new Date(fir.incidentDate).toISOString(),
+  location: fir.location,
+  coordinates: fir.coordinates || null,
+  involvedPersons: fir.involvedPersons,
+  touristId: fir.touristId || null,
+  source: fir.source || null,
+  assignedTo: fir.assignedTo || null,
+  createdBy: fir.createdBy,
+  // Left out while empty so revisions anchored before FIRs had evidence still verify
+  evidence: fir.evidence?.length ? fir.evidence : undefined
+});
+
+export const hashFIREvent = (event: FIREvent): string => sha256(event);
+
+const isFIRRevision = (firNumber: string) => (record: ChainRecord) =>
+  record.type === 'fir_revision' && record.firNumber === firNumber;
+
+/**
+ * Electronic FIRs: draft → pending → approved → closed, with rejected FIRs
+ * going back to draft for revision. Numbers are sequential per station and
+ * year (FIR-<station>-<year>-<sequence>) and never reused. Every status
+ * change, assignment and remark is appended to the FIR's history, which is
+ * never rewritten. Each history entry is a revision anchored on the chain
+ * with hashes of the entry and of the FIR as it stood, so edits made outside
+ * the service can be found. Changes to one FIR are applied one at a time so
+ * each revision is anchored once, in order. Changes are published on the
+ * 'firs' event topic.
+ */
+export class FIRService {
+  // Creations are serialised so two FIRs never take the same number
+  private numbering: Promise<unknown> = Promise.resolve();
+  // Changes to one FIR are serialised so none is lost and revisions are anchored in order
+  private writes: Map<string, Promise<unknown>> = new Map();
+
+  async listFIRs(filter: FIRListFilter = {}): Promise<FIRRecord[]> {
+    const { limit, ...where } = filter;
+    return getStorage().firs.find(where, { sort: 'createdAt', order: 'desc', limit });
+  }
+
+  async getFIR(id: string): Promise<FIRRecord> {
+    const fir = await getStorage().firs.findById(id);
+
+    if (!fir) {
+      throw createApiError('FIR not found', 404);
+    }
+
+    return fir;
+  }
+
+  /**
+   * The tourist's registered FIRs, newest first. Drafts and rejected FIRs
+   * were never issued, so tourists do not see them.
+   */
+  async listTouristFIRs(touristId: string): Promise<FIRRecord[]> {
+    const firs = await getStorage().firs.find({ touristId }, { sort: 'createdAt', order: 'desc' });
+    return firs.filter(fir => REGISTERED_STATUSES.includes(fir.status));
+  }
+
+  /**
+   * One of the tourist's registered FIRs; any other FIR is reported as missing
+   */
+  async getTouristFIR(id: string, touristId: string): Promise<FIRRecord> {
+    const fir = await getStorage().firs.findById(id);
+
+    if (!fir || fir.touristId !== touristId || !REGISTERED_STATUSES.includes(fir.status)) {
+      throw createApiError('FIR not found', 404);
+    }
+
+    return fir;
+  }
+
+  async createFIR(input: FIRInput, creator: UserRecord): Promise<FIRRecord> {
+    if (input.source) {
+      await this.resolveSource(input.source);
+    }
+
+    const next = this.numbering.then(() => this.insert(input, creator));
+    this.numbering = next.catch(() => undefined);
+    const fir = await next;
+
+    logger.info('FIR created', { firId: fir._id, firNumber: fir.firNumber, by: creator._id, source: fir.source?.type });
+    this.commit('created', fir);
+
+    return fir;
+  }
+
+  /**
+   * Edit a draft; the changed fields are noted in the history
+   */
+  async updateFIR(id: string, updates: Partial<Omit<FIRInput, 'station' | 'source'>>, actor: UserRecord): Promise<FIRRecord> {
+    return this.serialize(id, async () => {
+      const fir = await this.getFIR(id);
+
+      if (fir.status !== 'draft') {
+        throw createApiError(`Cannot edit a ${fir.status} FIR`, 409);
+      }
+
+      const fields = Object.keys(updates);
+      const updated = await getStorage().firs.update(id, {
+        ...updates,
+        history: [...fir.history, event('updated', actor, { note: `Updated ${fields.join(', ')}` })]
+      });
+
+      this.commit('updated', updated!);
+      return updated!;
+    });
+  }
+
+  async transition(id: string, status: FIRStatus, actor: UserRecord, note?: string): Promise<FIRRecord> {
+    return this.serialize(id, async () => {
+      const fir = await this.getFIR(id);
+      const roles = TRANSITIONS[fir.status][status];
+
+      if (!roles) {
+        throw createApiError(`Cannot move FIR from ${fir.status} to ${status}`, 409);
+      }
+      if (!roles.includes(actor.role)) {
+        throw createApiError('Insufficient permissions', 403);
+      }
+      // A second officer signs off on an FIR; admins may approve their own
+      if ((status === 'approved' || status === 'rejected') && actor.role !== 'admin' && fir.createdBy === actor._id) {
+        throw createApiError('An FIR must be approved or rejected by someone other than its author', 403);
+      }
+      if (status === 'rejected' && !note) {
+        throw createApiError('A reason is required to reject an FIR', 400);
+      }
+
+      const updated = await getStorage().firs.update(id, {
+        status,
+        history: [...fir.history, event(ACTIONS[status], actor, { from: fir.status, to: status, ...(note ? { note } : {}) })]
+      });
+      logger.info(`FIR ${fir.firNumber} ${fir.status} → ${status}`, { by: actor._id });
+
+      this.commit('status_changed', updated!);
+      return updated!;
+    });
+  }
+
+  async assign(id: string, officerId: string, actor: UserRecord): Promise<FIRRecord> {
+    return this.serialize(id, async () => {
+      const fir = await this.getFIR(id);
+
+      if (fir.status === 'closed') {
+        throw createApiError('Cannot assign a closed FIR', 409);
+      }
+
+      const officer = await getStorage().users.findById(officerId);
+
+      if (!officer || officer.role !== 'police' || !officer.isActive) {
+        throw createApiError('Officer not found', 400);
+      }
+
+      const updated = await getStorage().firs.update(id, {
+        assignedTo: officer._id,
+        assignedOfficerName: officer.name,
+        history: [...fir.history, event('assigned', actor, { note: `Assigned to ${officer.name}` })]
+      });
+
+      this.commit('assigned', updated!);
+      return updated!;
+    });
+  }
+
+  /**
+   * Record an uploaded evidence file's hash on the FIR, as its own revision
+   */
+  async attachEvidence(id: string, evidence: FIREvidence, actor: UserRecord): Promise<FIRRecord> {
+    return this.serialize(id, async () => {
+      const fir = await this.getFIR(id);
+
+      if (fir.status === 'closed') {
+        throw createApiError('Cannot add evidence to a closed FIR', 409);
+      }
+
+      const updated = await getStorage().firs.update(id, {
+        evidence: [...(fir.evidence || []), evidence],
+        history: [...fir.history, event('evidence_added', actor, { note: `${evidence.fileName} (sha256 ${evidence.sha256})` })]
+      });
+
+      this.commit('evidence_added', updated!);
+      return updated!;
+    });
+  }
+
+  // Remarks may be added at any stage, including after closing
+  async addRemark(id: string, note: string, actor: UserRecord): Promise<FIRRecord> {
+    return this.serialize(id, async () => {
+      const fir = await this.getFIR(id);
+
+      const updated = await getStorage().firs.update(id, {
+        history: [...fir.history, event('remark', actor, { note })]
+      });
+
+      this.commit('remark', updated!);
+      return updated!;
+    });
+  }
+
+  /**
+   * Fill in a new FIR from a live alert or from a tourist reported missing
+   */
+  async prefill(source: FIRSource, officer: UserRecord): Promise<FIRDraft> {
+    const { alert, tourist } = await this.resolveSource(source);
+
+    if (alert) {
+      const name = tourist?.name || alert.data?.touristName || 'Unknown tourist';
+      const location = alert.location
+        ? alert.location.address || formatPoint(alert.location)
+        : 'Location unavailable';
+      // Lost contact is the nearest thing an alert has to a missing person
+      const missing = alert.type === 'anomaly' && alert.data?.kind === 'signal_loss';
+
+      return {
+        title: `${alert.type === 'sos' ? 'SOS' : alert.type.charAt(0).toUpperCase() + alert.type.slice(1)} alert: ${name}`,
+        description: alert.message,
+        incidentType: missing ? 'missing' : 'other',
+        severity: ALERT_SEVERITY[alert.severity],
+        reportedBy: alert.type === 'sos' ? `${name} (Tourist, via SOS)` : `${officer.name} (from system alert)`,
+        incidentDate: (alert.reportedAt || alert.createdAt).toISOString(),
+        location,
+        coordinates: alert.location ? { lat: alert.location.lat, lng: alert.location.lng } : null,
+        involvedPersons: [`${name} (Tourist)`],
+        touristId: alert.userId || null,
+        source
+      };
+    }
+
+    // Through the location service so the officer gets the precision (and
+    // access log entry) that any other view of the track would
+    const { points: [lastSeen] } = await locationService.getTrack(tourist!._id, officer, { limit: 1 });
+    const nationality = tourist!.nationality ? ` (${tourist!.nationality})` : '';
+
+    return {
+      title: `Missing tourist: ${tourist!.name}`,
+      description: lastSeen
+        ? `${tourist!.name}${nationality} reported missing. Last known location ${formatPoint(lastSeen)} at ${lastSeen.recordedAt.toISOString()}.`
+        : `${tourist!.name}${nationality} reported missing. No location has been shared.`,
+      incidentType: 'missing',
+      severity: 'high',
+      reportedBy: officer.name,
+      incidentDate: (lastSeen?.recordedAt || new Date()).toISOString(),
+      location: lastSeen ? formatPoint(lastSeen) : 'Unknown',
+      coordinates: lastSeen ? { lat: lastSeen.lat, lng: lastSeen.lng } : null,
+      involvedPersons: [`${tourist!.name} (Tourist)`],
+      touristId: tourist!._id,
+      source
+    };
+  }
+
+  /**
+   * The tourist's most recent pending or approved FIR, if any
+   */
+  async findOpenFIR(touristId: string): Promise<FIRRecord | null> {
+    const firs = await getStorage().firs.find({ touristId }, { sort: 'createdAt', order: 'desc' });
+    return firs.find(fir => OPEN_STATUSES.includes(fir.status)) || null;
+  }
+
+  /**
+   * Registered FIRs with coordinates since a date, as incidents for risk
+   * checks. FIRs started from an alert are left out so that alert is not
+   * counted twice.
+   */
+  async listIncidents(since: Date): Promise<FIRRecord[]> {
+    const firs = await getStorage().firs.find({}, { sort: 'incidentDate', order: 'desc' });
+
+    return firs.filter(fir =>
+      REGISTERED_STATUSES.includes(fir.status) &&
+      fir.coordinates &&
+      fir.source?.type !== 'alert' &&
+      fir.incidentDate.getTime() >= since.getTime()
+    );
+  }
+
+  /**
+   * Check a stored FIR against its anchored revisions. Every history entry
+   * must match the hash anchored for it and the FIR must still match the
+   * content hash of its latest revision; the first revision where either
+   * fails is reported. Revisions still in the mempool are checked the same way.
+   */
+  async verify(firNumber: string): Promise<FIRVerification> {
+    const [fir] = await getStorage().firs.find({ firNumber }, { limit: 1 });
+
+    if (!fir) {
+      throw createApiError('FIR not found', 404);
+    }
+
+    const anchors = new Map<number, { record: ChainRecord; blockIndex: number | null }>();
+    blockchain.findRecords(isFIRRevision(firNumber)).forEach(anchor => {
+      if (!anchors.has(anchor.record.revision)) anchors.set(anchor.record.revision, anchor);
+    });
+
+    const count = Math.max(fir.history.length, ...Array.from(anchors.keys()).map(revision => revision + 1));
+    const revisions: FIRRevisionCheck[] = [];
+    let firstDivergentRevision: number | null = null;
+    let reason: string | null = null;
+
+    for (let revision = 0; revision < count; revision++) {
+      const event = fir.history[revision];
+      const anchor = anchors.get(revision);
+      let problem: string | null = null;
+
+      if (!anchor) {
+        problem = `Revision ${revision} was never anchored`;
+      } else if (!event) {
+        problem = `Revision ${revision} is missing from the stored history`;
+      } else if (anchor.record.eventHash !== hashFIREvent(event)) {
+        problem = `Revision ${revision} does not match its anchored hash`;
+      } else if (revision === count - 1 && anchor.record.contentHash !== hashFIRContent(fir)) {
+        problem = `The stored FIR no longer matches revision ${revision}`;
+      }
+
+      revisions.push({
+        revision,
+        action: event?.action || anchor?.record.action || null,
+        at: event?.at || new Date(anchor!.record.timestamp).toISOString(),
+        blockIndex: anchor?.blockIndex ?? null,
+        matches: !problem
+      });
+
+      if (problem && firstDivergentRevision === null) {
+        firstDivergentRevision = revision;
+        reason = problem;
+      }
+    }
+
+    if (firstDivergentRevision !== null) {
+      logger.warn('FIR failed verification', { firNumber, revision: firstDivergentRevision, reason });
+    }
+
+    return {
+      firNumber,
+      valid: firstDivergentRevision === null,
+      revisions,
+      firstDivergentRevision,
+      reason
+    };
+  }
+
+  private async insert(input: FIRInput, creator: UserRecord): Promise<FIRRecord> {
+    const station = (input.station || DEFAULT_STATION).toUpperCase();
+    const year = new Date().getFullYear();
+    const [last] = await getStorage().firs.find({ station, year }, { sort: 'sequence', order: 'desc', limit: 1 });
+    const sequence = (last?.sequence || 0) + 1;
+
+    return getStorage().firs.create({
+      firNumber: `FIR-${station}-${year}-${String(sequence).padStart(4, '0')}`,
+      station,
+      year,
+      sequence,
+      title: input.title,
+      description: input.description,
+      incidentType: input.incidentType,
+      severity: input.severity,
+      status: 'draft',
+      reportedBy: input.reportedBy,
+      incidentDate: input.incidentDate,
+      location: input.location,
+      coordinates: input.coordinates || null,
+      involvedPersons: input.involvedPersons || [],
+      touristId: input.touristId || null,
+      source: input.source || null,
+      assignedTo: null,
+      assignedOfficerName: null,
+      createdBy: creator._id,
+      createdByName: creator.name,
+      evidence: [],
+      history: [event('created', creator, input.source ? { note: `Started from ${input.source.type.replace('_', ' ')} ${input.source.id}` } : {})]
+    });
+  }
+
+  /**
+   * Run a read-modify-write of one FIR after any still running for it
+   */
+  private async serialize<T>(id: string, write: () => Promise<T>): Promise<T> {
+    const next = (this.writes.get(id) || Promise.resolve()).then(write);
+    const settled = next.catch(() => undefined);
+    this.writes.set(id, settled);
+
+    settled.then(() => {
+      if (this.writes.get(id) === settled) this.writes.delete(id);
+    });
+
+    return next;
+  }
+
+  private async resolveSource(source: FIRSource): Promise<{ alert: AlertRecord | null; tourist: UserRecord | null }> {
+    if (source.type === 'alert') {
+      const alert = await alertService.getAlert(source.id);
+      const tourist = alert.userId ? await getStorage().users.findById(alert.userId) : null;
+      return { alert, tourist };
+    }
+
+    const tourist = await getStorage().users.findById(source.id);
+
+    if (!tourist || tourist.role !== 'tourist') {
+      throw createApiError('Tourist not found', 404);
+    }
+
+    return { alert: null, tourist };
+  }
+
+  /**
+   * Anchor the FIR's newest history entry as a revision and publish the change
+   */
+  private commit(type: string, fir: FIRRecord) {
+    const revision = fir.history.length - 1;
+
+    blockchain.submitRecord({
+      type: 'fir_revision',
+      timestamp: Date.now(),
+      firNumber: fir.firNumber,
+      revision,
+      action: fir.history[revision].action,
+      eventHash: hashFIREvent(fir.history[revision]),
+      contentHash: hashFIRContent(fir)
+    });
+
+    eventBus.publish('firs', type, fir);
+  }
+}
+
+export const firService = new FIRService();
+export default firService;
@@ -0,0 +1,443 @@
+import { createApiError } from '../middleware/errorHandler';
+import {
+  AlertRecord,
+  GeoPoint,
+  getStorage,
+  NewRecord,
+  UserRecord,
+  ZoneRecord,
+  ZoneTimeWindow
+} from '../repositories';
+import { logger } from '../utils/logger';
+import { alertService, OPEN_ALERT_STATUSES } from './alertService';
+import { eventBus } from './eventBus';
+import { coarsen } from './locationService';
+
+export type GeofenceEventType = 'enter' | 'exit' | 'dwell';
+
+export type ZoneInput = Omit<NewRecord<ZoneRecord>, 'createdBy' | 'createdByName'>;
+
+export interface GeofenceEvent {
+  type: GeofenceEventType;
+  zoneId: string;
+  zoneName: string;
+  zoneType: ZoneRecord['type'];
+  userId: string;
+  location: GeoPoint;
+  at: string;
+  touristsInside: number;
+}
+
+export interface ZoneWithOccupancy extends ZoneRecord {
+  touristsInside: number;
+  activeAlerts: number;
+  inEffect: boolean;
+}
+
+interface Presence {
+  enteredAt: number;
+  lastSeenAt: number;
+  location: GeoPoint;
+  dwellRaised: boolean;
+}
+
+// Alert severity for each breach; events without an entry are published but raise no alert
+const BREACH_SEVERITY: Record<ZoneRecord['type'], Partial<Record<GeofenceEventType, AlertRecord['severity']>>> = {
+  restricted: { enter: 'high', dwell: 'critical', exit: 'low' },
+  alert: { enter: 'moderate', dwell: 'high', exit: 'low' },
+  safe: {}
+};
+
+const EARTH_RADIUS_METERS = 6371000;
+const DEFAULT_DWELL_SECONDS = parseInt(process.env.GEOFENCE_DWELL_SECONDS || '600', 10);
+const PRESENCE_TTL_MS = parseInt(process.env.GEOFENCE_PRESENCE_TTL_SECONDS || '1800', 10) * 1000;
+const SWEEP_INTERVAL_MS = parseInt(process.env.GEOFENCE_SWEEP_MS || '30000', 10);
+const ZONE_TIMEZONE = process.env.ZONE_TIMEZONE || 'Asia/Kolkata';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+export const distanceMeters = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Ray casting on raw lat/lng; accurate enough for city-scale zones
+ */
+export const pointInPolygon = (point: GeoPoint, polygon: GeoPoint[]): boolean => {
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+
+    if ((a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < (b.lng - a.lng) * (point.lat - a.lat) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+};
+
+export const zoneContains = (zone: Pick<ZoneRecord, 'shape' | 'coordinates' | 'radius'>, point: GeoPoint): boolean => {
+  if (zone.shape === 'circle') {
+    return distanceMeters(zone.coordinates[0], point) <= (zone.radius || 0);
+  }
+
+  return pointInPolygon(point, zone.coordinates);
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Day of week and minutes past midnight in the zones' local timezone
+ */
+export const localTime = (at: Date): { day: number; minutes: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: ZONE_TIMEZONE,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(at);
+
+  const part = (type: string) => parts.find(p => p.type === type)!.value;
+
+  return {
+    day: WEEKDAYS.indexOf(part('weekday')),
+    minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10)
+  };
+};
+
+/**
+ * A window whose end is before its start runs past midnight; its days are the
+ * days it starts on
+ */
+export const inTimeWindow = (window: ZoneTimeWindow, at: Date): boolean => {
+  const { day, minutes } = localTime(at);
+  return windowCovers(window, day, minutes);
+};
+
+/**
+ * Same check for a local day of week and minutes past midnight, e.g. a
+ * planned itinerary time rather than an instant
+ */
+export const windowCovers = (window: ZoneTimeWindow, day: number, minutes: number): boolean => {
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  const onDay = (d: number) => !window.days || window.days.length === 0 || window.days.includes(d);
+
+  if (start <= end) {
+    return onDay(day) && minutes >= start && minutes < end;
+  }
+
+  return (onDay(day) && minutes >= start) || (onDay((day + 6) % 7) && minutes < end);
+};
+
+export const isZoneInEffect = (zone: ZoneRecord, at: Date = new Date()): boolean => {
+  if (zone.status !== 'active') return false;
+  if (!zone.timeWindows || zone.timeWindows.length === 0) return true;
+
+  return zone.timeWindows.some(window => inTimeWindow(window, at));
+};
+
+/**
+ * Zones CRUD plus the geofence engine. Tourist location pings are checked
+ * against every zone in effect; crossing a boundary or lingering inside
+ * publishes an event on the 'zones' topic and, for restricted and alert
+ * zones, raises a geofence alert. Both carry the position rounded as in
+ * coarse mode. Presence is held in memory and dropped when a tourist stops
+ * sending pings.
+ */
+export class GeofenceService {
+  private zones: ZoneRecord[] | null = null;
+  private presence: Map<string, Map<string, Presence>> = new Map();
+  private checks: Map<string, Promise<unknown>> = new Map();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  async listZones(): Promise<ZoneWithOccupancy[]> {
+    const zones = await this.getZones();
+    const alerts = await getStorage().alerts.find({ type: 'geofence' });
+    const openAlerts = alerts.filter(alert => OPEN_ALERT_STATUSES.includes(alert.status));
+    const now = new Date();
+
+    return zones.map(zone => ({
+      ...zone,
+      touristsInside: this.countInside(zone._id),
+      activeAlerts: openAlerts.filter(alert => alert.data?.zoneId === zone._id).length,
+      inEffect: isZoneInEffect(zone, now)
+    }));
+  }
+
+  async getZone(id: string): Promise<ZoneRecord> {
+    const zone = await getStorage().zones.findById(id);
+
+    if (!zone) {
+      throw createApiError('Zone not found', 404);
+    }
+
+    return zone;
+  }
+
+  async createZone(input: ZoneInput, creator: UserRecord): Promise<ZoneRecord> {
+    const zone = await getStorage().zones.create({
+      ...input,
+      createdBy: creator._id,
+      createdByName: creator.name
+    });
+
+    this.zones = null;
+    logger.info('Zone created', { zoneId: zone._id, name: zone.name, type: zone.type, by: creator._id });
+    eventBus.publish('zones', 'zone_created', { ...zone, touristsInside: 0 });
+
+    return zone;
+  }
+
+  async updateZone(id: string, updates: Partial<ZoneInput>): Promise<ZoneRecord> {
+    await this.getZone(id);
+
+    const zone = await getStorage().zones.update(id, updates);
+    this.zones = null;
+    eventBus.publish('zones', 'zone_updated', { ...zone, touristsInside: this.countInside(id) });
+
+    return zone!;
+  }
+
+  async deleteZone(id: string): Promise<void> {
+    await this.getZone(id);
+    await getStorage().zones.delete(id);
+
+    this.zones = null;
+    this.presence.forEach(zones => zones.delete(id));
+    eventBus.publish('zones', 'zone_deleted', { _id: id });
+  }
+
+  /**
+   * Users currently inside a zone, with when they entered
+   */
+  getOccupants(zoneId: string): { userId: string; enteredAt: string; lastSeenAt: string; location: GeoPoint }[] {
+    const occupants: { userId: string; enteredAt: string; lastSeenAt: string; location: GeoPoint }[] = [];
+
+    this.presence.forEach((zones, userId) => {
+      const presence = zones.get(zoneId);
+      if (presence) {
+        occupants.push({
+          userId,
+          enteredAt: new Date(presence.enteredAt).toISOString(),
+          lastSeenAt: new Date(presence.lastSeenAt).toISOString(),
+          location: coarsen(presence.location)
+        });
+      }
+    });
+
+    return occupants;
+  }
+
+  /**
+   * Zones in effect at a point, without recording anything
+   */
+  async zonesAt(location: GeoPoint, at: Date = new Date()): Promise<ZoneRecord[]> {
+    const zones = await this.getZones();
+    return zones.filter(zone => isZoneInEffect(zone, at) && zoneContains(zone, location));
+  }
+
+  /**
+   * Active zones containing a point whatever their time windows, for planning ahead
+   */
+  async zonesContaining(location: GeoPoint): Promise<ZoneRecord[]> {
+    const zones = await this.getZones();
+    return zones.filter(zone => zone.status === 'active' && zoneContains(zone, location));
+  }
+
+  /**
+   * Check a tourist's location ping and emit enter, exit and dwell events.
+   * One tourist's pings are checked one at a time, so overlapping batches
+   * cannot both find them outside a zone and both emit the entry.
+   */
+  async processLocation(user: UserRecord, location: GeoPoint, at: Date = new Date()): Promise<GeofenceEvent[]> {
+    const next = (this.checks.get(user._id) || Promise.resolve()).then(() => this.checkLocation(user, location, at));
+    const settled = next.catch(() => undefined);
+    this.checks.set(user._id, settled);
+
+    settled.then(() => {
+      if (this.checks.get(user._id) === settled) this.checks.delete(user._id);
+    });
+
+    return next;
+  }
+
+  /**
+   * Drop a tourist from every zone without exit events, e.g. when they stop
+   * sharing their location and we can no longer tell where they are
+   */
+  forgetUser(userId: string): void {
+    const current = this.presence.get(userId);
+    if (!current) return;
+
+    this.presence.delete(userId);
+    current.forEach((_, zoneId) => {
+      eventBus.publish('zones', 'occupancy', { zoneId, touristsInside: this.countInside(zoneId) });
+    });
+  }
+
+  /**
+   * Raise dwell events for tourists who stay put without pinging, and forget
+   * tourists whose last ping is older than the presence TTL
+   */
+  async sweep(now: Date = new Date()): Promise<void> {
+    const zones = await this.getZones();
+
+    for (const [userId, current] of Array.from(this.presence)) {
+      for (const [zoneId, presence] of Array.from(current)) {
+        const zone = zones.find(z => z._id === zoneId);
+
+        if (!zone || now.getTime() - presence.lastSeenAt > PRESENCE_TTL_MS) {
+          current.delete(zoneId);
+          eventBus.publish('zones', 'occupancy', { zoneId, touristsInside: this.countInside(zoneId) });
+          continue;
+        }
+
+        if (!presence.dwellRaised && isZoneInEffect(zone, now) && now.getTime() - presence.enteredAt >= this.dwellMs(zone)) {
+          const user = await getStorage().users.findById(userId);
+          if (!user) continue;
+
+          presence.dwellRaised = true;
+          await this.emit('dwell', zone, user, presence.location, now);
+        }
+      }
+
+      if (current.size === 0) {
+        this.presence.delete(userId);
+      }
+    }
+  }
+
+  public startMonitoring() {
+    if (this.sweepTimer) return;
+
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch(error => {
+        logger.error('Geofence sweep failed', { error: error.message });
+      });
+    }, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+
+    logger.info('Geofence monitoring started', { sweepIntervalMs: SWEEP_INTERVAL_MS, timezone: ZONE_TIMEZONE });
+  }
+
+  public stopMonitoring() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  private async checkLocation(user: UserRecord, location: GeoPoint, at: Date): Promise<GeofenceEvent[]> {
+    const zones = await this.getZones();
+    const inside = await this.zonesAt(location, at);
+    const current = this.presence.get(user._id) || new Map<string, Presence>();
+    const events: GeofenceEvent[] = [];
+
+    // Left zones: only a real boundary crossing is an exit, not a curfew ending
+    for (const [zoneId] of current) {
+      if (inside.some(zone => zone._id === zoneId)) continue;
+
+      current.delete(zoneId);
+      const zone = zones.find(z => z._id === zoneId);
+
+      if (zone && isZoneInEffect(zone, at) && !zoneContains(zone, location)) {
+        events.push(await this.emit('exit', zone, user, location, at));
+      }
+    }
+
+    for (const zone of inside) {
+      const presence = current.get(zone._id);
+
+      if (!presence) {
+        current.set(zone._id, { enteredAt: at.getTime(), lastSeenAt: at.getTime(), location, dwellRaised: false });
+        this.presence.set(user._id, current);
+        events.push(await this.emit('enter', zone, user, location, at));
+        continue;
+      }
+
+      presence.lastSeenAt = at.getTime();
+      presence.location = location;
+
+      if (!presence.dwellRaised && at.getTime() - presence.enteredAt >= this.dwellMs(zone)) {
+        presence.dwellRaised = true;
+        events.push(await this.emit('dwell', zone, user, location, at));
+      }
+    }
+
+    if (current.size > 0) {
+      this.presence.set(user._id, current);
+    } else {
+      this.presence.delete(user._id);
+    }
+
+    return events;
+  }
+
+  private async getZones(): Promise<ZoneRecord[]> {
+    if (!this.zones) {
+      this.zones = await getStorage().zones.find({}, { sort: 'createdAt', order: 'asc' });
+    }
+
+    return this.zones;
+  }
+
+  private countInside(zoneId: string): number {
+    let count = 0;
+    this.presence.forEach(zones => {
+      if (zones.has(zoneId)) count++;
+    });
+    return count;
+  }
+
+  private dwellMs(zone: ZoneRecord): number {
+    return (zone.dwellSeconds || DEFAULT_DWELL_SECONDS) * 1000;
+  }
+
+  private async emit(
+    type: GeofenceEventType,
+    zone: ZoneRecord,
+    user: UserRecord,
+    location: GeoPoint,
+    at: Date
+  ): Promise<GeofenceEvent> {
+    // Events and alerts reach every dashboard user, so they only get the rounded position
+    const event: GeofenceEvent = {
+      type,
+      zoneId: zone._id,
+      zoneName: zone.name,
+      zoneType: zone.type,
+      userId: user._id,
+      location: coarsen(location),
+      at: at.toISOString(),
+      touristsInside: this.countInside(zone._id)
+    };
+
+    eventBus.publish('zones', type, event, user._id);
+    logger.info(`Geofence ${type}`, { zoneId: zone._id, zone: zone.name, userId: user._id });
+
+    const severity = BREACH_SEVERITY[zone.type][type];
+    if (severity) {
+      await alertService.raiseGeofenceAlert(user, { event: type, severity, zone, location: event.location });
+    }
+
+    return event;
+  }
+}
+
+export const geofenceService = new GeofenceService();
+export default geofenceService;
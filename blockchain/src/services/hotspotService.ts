@@ -0,0 +1,275 @@
+import { AlertRecord, GeoPoint, getStorage, ZoneRecord, ZoneTimeWindow } from '../repositories';
+import { firService } from './firService';
+import { distanceMeters, inTimeWindow, localTime, zoneContains } from './geofenceService';
+
+export type HotspotSource = 'fir' | 'sos' | 'geofence';
+
+export interface HotspotQuery {
+  from: Date;
+  to: Date;
+  // Only incidents at this local time of day, e.g. 22:00–05:00
+  timeWindow?: ZoneTimeWindow | null;
+  sources?: HotspotSource[];
+}
+
+export interface HeatPoint extends GeoPoint {
+  weight: number;
+}
+
+export interface Hotspot {
+  id: string;
+  center: GeoPoint;
+  // Metres from the centre to the furthest incident, at least half a cell
+  radius: number;
+  weight: number;
+  incidents: number;
+  // Weight per square kilometre of the hotspot's circle
+  density: number;
+  // Weight relative to the heaviest hotspot, 0–1
+  intensity: number;
+  sources: Record<HotspotSource, number>;
+  // Local hour of day with the most weight
+  peakHour: number;
+  lastIncidentAt: string;
+  // Active zones that already cover the centre
+  zones: { id: string; name: string; type: ZoneRecord['type'] }[];
+}
+
+export interface HotspotReport {
+  from: string;
+  to: string;
+  timeWindow: ZoneTimeWindow | null;
+  sources: HotspotSource[];
+  cellMeters: number;
+  // One per grid cell with incidents, at the weighted centre of its incidents
+  points: HeatPoint[];
+  maxWeight: number;
+  // Heaviest first
+  hotspots: Hotspot[];
+  generatedAt: string;
+}
+
+interface Incident extends GeoPoint {
+  source: HotspotSource;
+  weight: number;
+  at: Date;
+}
+
+interface Cell {
+  row: number;
+  col: number;
+  incidents: Incident[];
+  weight: number;
+}
+
+export const HOTSPOT_SOURCES: HotspotSource[] = ['fir', 'sos', 'geofence'];
+
+const ALERT_SOURCES: HotspotSource[] = ['sos', 'geofence'];
+
+const SEVERITY_WEIGHTS: Record<AlertRecord['severity'], number> = {
+  low: 1,
+  moderate: 2,
+  high: 3,
+  critical: 4
+};
+
+const METERS_PER_DEGREE = 111320;
+const CELL_METERS = parseInt(process.env.HOTSPOT_CELL_METERS || '250', 10);
+const MIN_WEIGHT = parseFloat(process.env.HOTSPOT_MIN_WEIGHT || '6');
+// A registered FIR counts like a high-severity alert
+const FIR_WEIGHT = parseFloat(process.env.HOTSPOT_FIR_WEIGHT || '3');
+// Share of a neighbouring cell's weight that counts towards a cell's density
+const NEIGHBOUR_SHARE = 0.5;
+
+const NEIGHBOURS = [-1, 0, 1].flatMap(dRow => [-1, 0, 1].map(dCol => [dRow, dCol]))
+  .filter(([dRow, dCol]) => dRow !== 0 || dCol !== 0);
+
+const cellKey = (row: number, col: number) => `${row}:${col}`;
+
+const weightedCentre = (incidents: Incident[]): GeoPoint => {
+  const total = incidents.reduce((sum, incident) => sum + incident.weight, 0);
+
+  return {
+    lat: incidents.reduce((sum, incident) => sum + incident.lat * incident.weight, 0) / total,
+    lng: incidents.reduce((sum, incident) => sum + incident.lng * incident.weight, 0) / total
+  };
+};
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Incident hotspots for the dashboard map. Located SOS and geofence alerts
+ * and registered FIRs are weighted (alerts by severity, FIRs by
+ * HOTSPOT_FIR_WEIGHT) and binned into a grid of HOTSPOT_CELL_METERS cells.
+ * A cell's density is its own weight plus half of each neighbour's; cells
+ * whose density reaches HOTSPOT_MIN_WEIGHT are hot, and touching hot cells
+ * are merged into one hotspot. Worked out on request from the records, like
+ * the safety score's incident history.
+ */
+export class HotspotService {
+  async getHotspots(query: HotspotQuery, now: Date = new Date()): Promise<HotspotReport> {
+    const sources = query.sources && query.sources.length > 0 ? query.sources : HOTSPOT_SOURCES;
+    const incidents = (await this.loadIncidents(query.from, query.to, sources))
+      .filter(incident => !query.timeWindow || inTimeWindow(query.timeWindow, incident.at));
+
+    const report: HotspotReport = {
+      from: query.from.toISOString(),
+      to: query.to.toISOString(),
+      timeWindow: query.timeWindow || null,
+      sources,
+      cellMeters: CELL_METERS,
+      points: [],
+      maxWeight: 0,
+      hotspots: [],
+      generatedAt: now.toISOString()
+    };
+
+    if (incidents.length === 0) return report;
+
+    // Equirectangular grid around the incidents' mean latitude; fine at city scale
+    const meanLat = incidents.reduce((sum, incident) => sum + incident.lat, 0) / incidents.length;
+    const lngMeters = METERS_PER_DEGREE * Math.cos(meanLat * Math.PI / 180);
+
+    const cells = new Map<string, Cell>();
+    incidents.forEach(incident => {
+      const row = Math.floor(incident.lat * METERS_PER_DEGREE / CELL_METERS);
+      const col = Math.floor(incident.lng * lngMeters / CELL_METERS);
+      const key = cellKey(row, col);
+
+      if (!cells.has(key)) cells.set(key, { row, col, incidents: [], weight: 0 });
+      const cell = cells.get(key)!;
+      cell.incidents.push(incident);
+      cell.weight += incident.weight;
+    });
+
+    report.points = [...cells.values()].map(cell => ({
+      ...weightedCentre(cell.incidents),
+      weight: cell.weight
+    }));
+    report.maxWeight = Math.max(...report.points.map(point => point.weight));
+
+    const density = (cell: Cell) => cell.weight + NEIGHBOUR_SHARE * NEIGHBOURS.reduce(
+      (sum, [dRow, dCol]) => sum + (cells.get(cellKey(cell.row + dRow, cell.col + dCol))?.weight || 0),
+      0
+    );
+    const hot = new Set([...cells.entries()].filter(([, cell]) => density(cell) >= MIN_WEIGHT).map(([key]) => key));
+
+    // Flood fill over touching hot cells
+    const clusters: Cell[][] = [];
+    const visited = new Set<string>();
+    hot.forEach(start => {
+      if (visited.has(start)) return;
+
+      const cluster: Cell[] = [];
+      const queue = [start];
+      visited.add(start);
+
+      while (queue.length > 0) {
+        const cell = cells.get(queue.shift()!)!;
+        cluster.push(cell);
+
+        NEIGHBOURS.forEach(([dRow, dCol]) => {
+          const key = cellKey(cell.row + dRow, cell.col + dCol);
+          if (hot.has(key) && !visited.has(key)) {
+            visited.add(key);
+            queue.push(key);
+          }
+        });
+      }
+
+      clusters.push(cluster);
+    });
+
+    const zones = await getStorage().zones.find({ status: 'active' });
+    const hotspots = clusters.map(cluster => this.describe(cluster, zones));
+    const heaviest = Math.max(...hotspots.map(hotspot => hotspot.weight));
+
+    report.hotspots = hotspots
+      .map(hotspot => ({ ...hotspot, intensity: round(hotspot.weight / heaviest, 2) }))
+      .sort((a, b) => b.weight - a.weight);
+
+    return report;
+  }
+
+  private async loadIncidents(from: Date, to: Date, sources: HotspotSource[]): Promise<Incident[]> {
+    const incidents: Incident[] = [];
+    const inRange = (at: Date) => at.getTime() >= from.getTime() && at.getTime() < to.getTime();
+
+    if (sources.includes('sos') || sources.includes('geofence')) {
+      const alerts = await getStorage().alerts.find({});
+
+      alerts.forEach(alert => {
+        // Movement anomalies say little about the place itself
+        const source = alert.type as HotspotSource;
+        if (!ALERT_SOURCES.includes(source) || !sources.includes(source)) return;
+        if (!alert.location || !inRange(alert.createdAt)) return;
+
+        incidents.push({
+          lat: alert.location.lat,
+          lng: alert.location.lng,
+          source,
+          weight: SEVERITY_WEIGHTS[alert.severity],
+          at: alert.createdAt
+        });
+      });
+    }
+
+    // FIRs started from an alert are left out so that alert is not counted twice
+    if (sources.includes('fir')) {
+      const firs = await firService.listIncidents(from);
+
+      firs.forEach(fir => {
+        if (!inRange(fir.incidentDate)) return;
+
+        incidents.push({
+          lat: fir.coordinates!.lat,
+          lng: fir.coordinates!.lng,
+          source: 'fir',
+          weight: FIR_WEIGHT,
+          at: fir.incidentDate
+        });
+      });
+    }
+
+    return incidents;
+  }
+
+  private describe(cluster: Cell[], zones: ZoneRecord[]): Hotspot {
+    const incidents = cluster.flatMap(cell => cell.incidents);
+    const center = weightedCentre(incidents);
+    const weight = incidents.reduce((sum, incident) => sum + incident.weight, 0);
+    const radius = Math.ceil(Math.max(
+      CELL_METERS / 2,
+      ...incidents.map(incident => distanceMeters(center, incident))
+    ) / 10) * 10;
+
+    const sources: Record<HotspotSource, number> = { fir: 0, sos: 0, geofence: 0 };
+    const byHour: number[] = new Array(24).fill(0);
+    incidents.forEach(incident => {
+      sources[incident.source]++;
+      byHour[Math.floor(localTime(incident.at).minutes / 60)] += incident.weight;
+    });
+
+    // The densest cell names the hotspot, so it keeps its id while it grows
+    const peak = cluster.reduce((best, cell) => cell.weight > best.weight ? cell : best);
+
+    return {
+      id: cellKey(peak.row, peak.col),
+      center: { lat: round(center.lat, 6), lng: round(center.lng, 6) },
+      radius,
+      weight: round(weight, 1),
+      incidents: incidents.length,
+      density: round(weight / (Math.PI * (radius / 1000) ** 2), 1),
+      intensity: 0,
+      sources,
+      peakHour: byHour.indexOf(Math.max(...byHour)),
+      lastIncidentAt: new Date(Math.max(...incidents.map(incident => incident.at.getTime()))).toISOString(),
+      zones: zones
+        .filter(zone => zoneContains(zone, center))
+        .map(zone => ({ id: zone._id, name: zone.name, type: zone.type }))
+    };
+  }
+}
+
+export const hotspotService = new HotspotService();
+export default hotspotService;
@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { encodeBase58, decodeBase58, toBeArray } from 'ethers';
+import { logger } from '../utils/logger';
+
+export interface IssuerKey {
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+  kid: string;
+  did: string;
+}
+
+// Multicodec varint prefix for a compressed P-256 public key (0x1200)
+const P256_PUB_MULTICODEC = Buffer.from([0x80, 0x24]);
+
+/**
+ * Multibase base58btc encoding ('z' prefix) used by did:key and Data Integrity proofs
+ */
+export const toMultibase = (bytes: Buffer): string => {
+  // encodeBase58 drops leading zero bytes, which base58btc keeps as '1's
+  let leadingZeros = 0;
+  while (leadingZeros < bytes.length && bytes[leadingZeros] === 0) {
+    leadingZeros++;
+  }
+
+  const encoded = leadingZeros === bytes.length ? '' : encodeBase58(bytes);
+  return `z${'1'.repeat(leadingZeros)}${encoded}`;
+};
+
+export const fromMultibase = (value: string): Buffer => {
+  if (!value.startsWith('z')) {
+    throw new Error('Only base58btc multibase values are supported');
+  }
+
+  const body = value.slice(1);
+  let leadingZeros = 0;
+  while (leadingZeros < body.length && body[leadingZeros] === '1') {
+    leadingZeros++;
+  }
+
+  const rest = body.slice(leadingZeros);
+  const decoded = rest ? Buffer.from(toBeArray(decodeBase58(rest))) : Buffer.alloc(0);
+  return Buffer.concat([Buffer.alloc(leadingZeros), decoded]);
+};
+
+/**
+ * did:key identifier for a P-256 public key
+ */
+export const publicKeyToDidKey = (publicKey: crypto.KeyObject): string => {
+  const compressed = crypto.ECDH.convertKey(
+    publicKey.export({ type: 'spki', format: 'der' }).subarray(-65),
+    'prime256v1',
+    undefined,
+    undefined,
+    'compressed'
+  ) as Buffer;
+
+  return `did:key:${toMultibase(Buffer.concat([P256_PUB_MULTICODEC, compressed]))}`;
+};
+
+/**
+ * Resolve a P-256 did:key (optionally with a #fragment) back to a public key
+ */
+export const didKeyToPublicKey = (did: string): crypto.KeyObject => {
+  const identifier = did.split('#')[0];
+
+  if (!identifier.startsWith('did:key:')) {
+    throw new Error(`Unsupported DID method: ${identifier}`);
+  }
+
+  const bytes = fromMultibase(identifier.slice('did:key:'.length));
+
+  if (!bytes.subarray(0, 2).equals(P256_PUB_MULTICODEC) || bytes.length !== 35) {
+    throw new Error('did:key is not a P-256 public key');
+  }
+
+  const uncompressed = crypto.ECDH.convertKey(bytes.subarray(2), 'prime256v1', undefined, undefined, 'uncompressed') as Buffer;
+
+  return crypto.createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: uncompressed.subarray(1, 33).toString('base64url'),
+      y: uncompressed.subarray(33).toString('base64url')
+    },
+    format: 'jwk'
+  });
+};
+
+let issuerKey: IssuerKey | null = null;
+
+/**
+ * Load the ES256 issuer key from QR_ISSUER_PRIVATE_KEY, or from the data
+ * directory, generating one on first use so issued QR codes and credentials
+ * survive restarts.
+ */
+export const getIssuerKey = (): IssuerKey => {
+  if (issuerKey) {
+    return issuerKey;
+  }
+
+  let privateKey: crypto.KeyObject;
+
+  if (process.env.QR_ISSUER_PRIVATE_KEY) {
+    privateKey = crypto.createPrivateKey(process.env.QR_ISSUER_PRIVATE_KEY.replace(/\\n/g, '\n'));
+  } else {
+    const keyPath = path.join(process.cwd(), 'data', 'qr-issuer-key.pem');
+
+    if (fs.existsSync(keyPath)) {
+      privateKey = crypto.createPrivateKey(fs.readFileSync(keyPath, 'utf8'));
+    } else {
+      privateKey = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey;
+      fs.mkdirSync(path.dirname(keyPath), { recursive: true });
+      fs.writeFileSync(keyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+      logger.info(`🔑 Generated issuer key: ${keyPath}`);
+    }
+  }
+
+  if (privateKey.asymmetricKeyType !== 'ec' || privateKey.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+    throw new Error('Issuer key must be a P-256 EC private key');
+  }
+
+  const publicKey = crypto.createPublicKey(privateKey);
+  const jwk = publicKey.export({ format: 'jwk' });
+
+  // RFC 7638 thumbprint, so verifiers can match the key id to a cached key
+  const kid = crypto.createHash('sha256')
+    .update(JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }))
+    .digest('base64url');
+
+  issuerKey = { privateKey, publicKey, kid, did: publicKeyToDidKey(publicKey) };
+  return issuerKey;
+};
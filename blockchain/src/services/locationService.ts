@@ -0,0 +1,307 @@
+import { createApiError } from '../middleware/errorHandler';
+import {
+  AlertStatus,
+  GeoPoint,
+  getStorage,
+  LocationAccessRecord,
+  LocationPrecision,
+  LocationRecord,
+  MissingPersonStatus,
+  UserRecord
+} from '../repositories';
+import { logger } from '../utils/logger';
+import { OPEN_ALERT_STATUSES } from './alertService';
+import { anomalyService } from './anomalyService';
+import { eventBus } from './eventBus';
+import { firService } from './firService';
+import { GeofenceEvent, geofenceService } from './geofenceService';
+import { tripService } from './tripService';
+
+export interface LocationPing {
+  lat: number;
+  lng: number;
+  accuracy?: number | null;
+  recordedAt?: string | Date;
+}
+
+export interface LocationSharing {
+  enabled: boolean;
+  precision: LocationPrecision;
+}
+
+export interface IngestResult {
+  accepted: number;
+  // Pings outside the retention window or too far in the future
+  dropped: number;
+  precision: LocationPrecision;
+  events: GeofenceEvent[];
+}
+
+export interface TrackQuery {
+  since?: Date;
+  limit?: number;
+}
+
+// The open case that lets police see a tourist's precise track
+export interface LocationCase {
+  type: LocationAccessRecord['caseType'];
+  id: string;
+}
+
+export interface LocationTrack {
+  touristId: string;
+  precision: LocationPrecision;
+  case: LocationCase | null;
+  points: LocationRecord[];
+}
+
+const SEARCHING_STATUSES: MissingPersonStatus[] = ['searching', 'sighted'];
+
+export const RETENTION_MS = parseFloat(process.env.LOCATION_RETENTION_HOURS || '72') * 60 * 60 * 1000;
+const COARSE_DECIMALS = parseInt(process.env.LOCATION_COARSE_DECIMALS || '2', 10);
+const PRUNE_INTERVAL_MS = parseInt(process.env.LOCATION_PRUNE_INTERVAL_MS || '3600000', 10);
+const DEFAULT_TRACK_LIMIT = 500;
+// Allow for device clocks running slightly ahead
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Round a point to LOCATION_COARSE_DECIMALS places (2 ≈ 1 km)
+ */
+export const coarsen = (point: GeoPoint): GeoPoint => {
+  const factor = 10 ** COARSE_DECIMALS;
+  return {
+    lat: Math.round(point.lat * factor) / factor,
+    lng: Math.round(point.lng * factor) / factor
+  };
+};
+
+const asCoarse = (record: LocationRecord): LocationRecord => ({
+  ...record,
+  ...coarsen(record),
+  accuracy: null,
+  precision: 'coarse'
+});
+
+/**
+ * Opt-in location pings from the tourist app. Pings are refused unless the
+ * tourist has sharing switched on, are rounded before storage in coarse mode
+ * and are deleted after LOCATION_RETENTION_HOURS. Police see a precise track
+ * only while the tourist has an open case (see findOpenCase: an open SOS, a
+ * missing-person case being searched for, or a pending or approved FIR), and
+ * every such view is logged. Everything else raised from pings (the dashboard
+ * ping feed, zone events and occupants, geofence and anomaly alerts) carries
+ * the rounded position. The one exemption is an SOS, which keeps the precise
+ * position the tourist sent with it so officers can reach them.
+ */
+export class LocationService {
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  getSharing(user: UserRecord): LocationSharing {
+    return {
+      enabled: Boolean(user.locationSharing),
+      precision: user.locationPrecision || 'coarse'
+    };
+  }
+
+  async setSharing(user: UserRecord, sharing: Partial<LocationSharing>): Promise<LocationSharing> {
+    const updated = await getStorage().users.update(user._id, {
+      ...(sharing.enabled !== undefined ? { locationSharing: sharing.enabled } : {}),
+      ...(sharing.precision ? { locationPrecision: sharing.precision } : {})
+    });
+
+    if (!updated) {
+      throw createApiError('User not found', 404);
+    }
+
+    const previous = this.getSharing(user);
+    const result = this.getSharing(updated);
+
+    if (previous.enabled === result.enabled && previous.precision === result.precision) {
+      return result;
+    }
+
+    // Stop tracking at once rather than waiting for presence to go stale
+    if (!result.enabled) {
+      geofenceService.forgetUser(user._id);
+      anomalyService.forgetUser(user._id);
+    }
+
+    logger.info(`Location sharing ${result.enabled ? 'on' : 'off'}`, { userId: user._id, precision: result.precision });
+    eventBus.publish('locations', 'sharing_changed', { userId: user._id, ...result }, user._id);
+
+    return result;
+  }
+
+  /**
+   * Store a batch of pings in the order they were taken and run each one
+   * through the geofence engine, the anomaly detector and the trip tracker
+   */
+  async ingest(user: UserRecord, pings: LocationPing[], now: Date = new Date()): Promise<IngestResult> {
+    const { enabled, precision } = this.getSharing(user);
+
+    if (!enabled) {
+      throw createApiError('Location sharing is turned off', 403);
+    }
+
+    const oldest = now.getTime() - RETENTION_MS;
+    const newest = now.getTime() + MAX_CLOCK_SKEW_MS;
+    const ordered = pings
+      .map(ping => ({ ...ping, recordedAt: ping.recordedAt ? new Date(ping.recordedAt) : now }))
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+    const fresh = ordered.filter(ping => ping.recordedAt.getTime() >= oldest && ping.recordedAt.getTime() <= newest);
+
+    const events: GeofenceEvent[] = [];
+    let latest: LocationRecord | null = null;
+
+    for (const ping of fresh) {
+      const point = precision === 'coarse' ? coarsen(ping) : { lat: ping.lat, lng: ping.lng };
+
+      latest = await getStorage().locations.create({
+        userId: user._id,
+        ...point,
+        accuracy: precision === 'coarse' ? null : ping.accuracy ?? null,
+        precision,
+        recordedAt: ping.recordedAt
+      });
+
+      events.push(...await geofenceService.processLocation(user, point, ping.recordedAt));
+      await anomalyService.analyze(user, latest);
+      await tripService.recordVisit(user, point, precision, ping.recordedAt);
+    }
+
+    // Dashboards only ever get the rounded position
+    if (latest) {
+      eventBus.publish('locations', 'ping', {
+        userId: user._id,
+        ...coarsen(latest),
+        precision: 'coarse',
+        recordedAt: latest.recordedAt.toISOString()
+      }, user._id);
+    }
+
+    return {
+      accepted: fresh.length,
+      dropped: pings.length - fresh.length,
+      precision,
+      events
+    };
+  }
+
+  /**
+   * A tourist's own stored pings, newest first
+   */
+  async listOwn(userId: string, query: TrackQuery = {}): Promise<LocationRecord[]> {
+    return this.findPoints(userId, query);
+  }
+
+  /**
+   * A tourist's track for dashboard staff. Police with an open case get the
+   * stored points and the access is logged; everyone else gets them rounded.
+   */
+  async getTrack(touristId: string, viewer: UserRecord, query: TrackQuery = {}): Promise<LocationTrack> {
+    const tourist = await getStorage().users.findById(touristId);
+
+    if (!tourist || tourist.role !== 'tourist') {
+      throw createApiError('Tourist not found', 404);
+    }
+
+    const points = await this.findPoints(touristId, query);
+    const openCase = viewer.role === 'police' ? await this.findOpenCase(touristId) : null;
+
+    if (!openCase) {
+      return { touristId, precision: 'coarse', case: null, points: points.map(asCoarse) };
+    }
+
+    await getStorage().locationAccess.create({
+      touristId,
+      officerId: viewer._id,
+      officerName: viewer.name,
+      caseType: openCase.type,
+      caseId: openCase.id,
+      points: points.length
+    });
+    logger.warn('📍 Precise location accessed', {
+      touristId,
+      officerId: viewer._id,
+      caseType: openCase.type,
+      caseId: openCase.id,
+      points: points.length
+    });
+
+    return { touristId, precision: 'precise', case: openCase, points };
+  }
+
+  /**
+   * The tourist's most recent open SOS, else a missing-person case still being
+   * searched for, else their pending or approved FIR
+   */
+  async findOpenCase(touristId: string): Promise<LocationCase | null> {
+    const alerts = await getStorage().alerts.find({ userId: touristId, type: 'sos' }, { sort: 'createdAt', order: 'desc' });
+    const open = alerts.find(alert => OPEN_ALERT_STATUSES.includes(alert.status));
+
+    if (open) return { type: 'sos', id: open._id };
+
+    const cases = await getStorage().missingPersons.find({ touristId }, { sort: 'createdAt', order: 'desc' });
+    const searching = cases.find(record => SEARCHING_STATUSES.includes(record.status));
+
+    if (searching) return { type: 'missing', id: searching._id };
+
+    const fir = await firService.findOpenFIR(touristId);
+    return fir ? { type: 'fir', id: fir._id } : null;
+  }
+
+  async listAccessLog(filter: { touristId?: string; officerId?: string; limit?: number } = {}): Promise<LocationAccessRecord[]> {
+    const { limit, ...where } = filter;
+    return getStorage().locationAccess.find(where, { sort: 'createdAt', order: 'desc', limit });
+  }
+
+  /**
+   * Delete pings older than the retention window
+   */
+  async prune(now: Date = new Date()): Promise<number> {
+    const deleted = await getStorage().locations.deleteBefore('recordedAt', new Date(now.getTime() - RETENTION_MS));
+
+    if (deleted > 0) {
+      logger.info(`Pruned ${deleted} location pings past retention`);
+    }
+
+    return deleted;
+  }
+
+  public startRetention() {
+    if (this.pruneTimer) return;
+
+    this.pruneTimer = setInterval(() => {
+      this.prune().catch(error => {
+        logger.error('Location pruning failed', { error: error.message });
+      });
+    }, PRUNE_INTERVAL_MS);
+    this.pruneTimer.unref();
+
+    logger.info('Location retention started', { retentionHours: RETENTION_MS / 3600000, pruneIntervalMs: PRUNE_INTERVAL_MS });
+  }
+
+  public stopRetention() {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+  }
+
+  private async findPoints(userId: string, query: TrackQuery): Promise<LocationRecord[]> {
+    const points = await getStorage().locations.find(
+      { userId },
+      { sort: 'recordedAt', order: 'desc', limit: query.since ? undefined : query.limit || DEFAULT_TRACK_LIMIT }
+    );
+
+    if (!query.since) return points;
+
+    const since = query.since.getTime();
+    return points
+      .filter(point => point.recordedAt.getTime() >= since)
+      .slice(0, query.limit || DEFAULT_TRACK_LIMIT);
+  }
+}
+
+export const locationService = new LocationService();
+export default locationService;
@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import { sqliteChain } from '../models/SqliteChain';
+import { ChainRecord } from './simpleBlockchain';
+
+export interface MempoolEntry {
+  id: string;
+  record: ChainRecord;
+  receivedAt: number;
+}
+
+/**
+ * Records waiting to be sealed into a block. Entries are persisted so that
+ * nothing submitted is lost if the server restarts before the next block.
+ */
+export class Mempool {
+  private entries: MempoolEntry[] = [];
+  private inFlight: MempoolEntry[] = [];
+
+  load() {
+    this.entries = sqliteChain.getMempoolEntries();
+  }
+
+  add(record: ChainRecord): MempoolEntry {
+    const entry: MempoolEntry = {
+      id: crypto.randomUUID(),
+      record,
+      receivedAt: Date.now()
+    };
+
+    sqliteChain.saveMempoolEntry(entry);
+    this.entries.push(entry);
+
+    return entry;
+  }
+
+  /**
+   * Move up to `max` of the oldest entries in flight for mining. They stay in
+   * SQLite until the block that contains them is saved.
+   */
+  take(max: number): MempoolEntry[] {
+    this.inFlight = this.entries.splice(0, max);
+    return this.inFlight;
+  }
+
+  /**
+   * The in-flight entries were sealed into a block
+   */
+  commit() {
+    this.inFlight = [];
+  }
+
+  /**
+   * Put in-flight entries back at the front after a failed mining attempt
+   */
+  restore() {
+    this.entries.unshift(...this.inFlight);
+    this.inFlight = [];
+  }
+
+  find(predicate: (record: ChainRecord) => boolean): MempoolEntry | null {
+    return [...this.inFlight, ...this.entries].find(entry => predicate(entry.record)) || null;
+  }
+
+  getEntries(): MempoolEntry[] {
+    return this.entries;
+  }
+
+  getInFlight(): MempoolEntry[] {
+    return this.inFlight;
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+
+  oldestAgeMs(): number {
+    return this.entries.length > 0 ? Date.now() - this.entries[0].receivedAt : 0;
+  }
+}
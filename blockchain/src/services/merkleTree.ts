@@ -0,0 +1,142 @@
+import crypto from 'crypto';
+
+export interface MerkleProofStep {
+  position: 'left' | 'right';
+  hash: string;
+}
+
+// Domain-separation prefixes so a leaf can never be passed off as an inner node
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+/**
+ * Serialize a value as JSON with object keys sorted, so that any client can
+ * reproduce the exact bytes that were hashed into a leaf.
+ */
+export const canonicalize = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item)).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    const keys = Object.keys(object).filter(key => object[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalize(object[key])}`).join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+};
+
+export class MerkleTree {
+  private levels: string[][];
+
+  constructor(leafHashes: string[]) {
+    this.levels = MerkleTree.buildLevels(leafHashes);
+  }
+
+  /**
+   * Hash a record into a leaf: sha256(0x00 || canonical JSON)
+   */
+  static hashLeaf(record: unknown): string {
+    return crypto
+      .createHash('sha256')
+      .update(Buffer.concat([LEAF_PREFIX, Buffer.from(canonicalize(record), 'utf8')]))
+      .digest('hex');
+  }
+
+  /**
+   * Hash two child nodes into their parent: sha256(0x01 || left || right)
+   */
+  static hashNode(left: string, right: string): string {
+    return crypto
+      .createHash('sha256')
+      .update(Buffer.concat([NODE_PREFIX, Buffer.from(left, 'hex'), Buffer.from(right, 'hex')]))
+      .digest('hex');
+  }
+
+  /**
+   * Build every level of the tree. An odd node at the end of a level is
+   * promoted unchanged rather than duplicated.
+   */
+  private static buildLevels(leafHashes: string[]): string[][] {
+    const levels: string[][] = [leafHashes];
+
+    while (levels[levels.length - 1].length > 1) {
+      const current = levels[levels.length - 1];
+      const next: string[] = [];
+
+      for (let i = 0; i < current.length; i += 2) {
+        if (i + 1 < current.length) {
+          next.push(MerkleTree.hashNode(current[i], current[i + 1]));
+        } else {
+          next.push(current[i]);
+        }
+      }
+
+      levels.push(next);
+    }
+
+    return levels;
+  }
+
+  /**
+   * Root of the tree; an empty tree has the hash of an empty leaf set
+   */
+  getRoot(): string {
+    const top = this.levels[this.levels.length - 1];
+
+    if (top.length === 0) {
+      return crypto.createHash('sha256').update('').digest('hex');
+    }
+
+    return top[0];
+  }
+
+  /**
+   * Sibling path from a leaf up to the root
+   */
+  getProof(leafIndex: number): MerkleProofStep[] {
+    if (leafIndex < 0 || leafIndex >= this.levels[0].length) {
+      throw new Error(`Leaf index ${leafIndex} out of range`);
+    }
+
+    const proof: MerkleProofStep[] = [];
+    let index = leafIndex;
+
+    for (let level = 0; level < this.levels.length - 1; level++) {
+      const nodes = this.levels[level];
+      const isRight = index % 2 === 1;
+      const siblingIndex = isRight ? index - 1 : index + 1;
+
+      if (siblingIndex < nodes.length) {
+        proof.push({
+          position: isRight ? 'left' : 'right',
+          hash: nodes[siblingIndex]
+        });
+      }
+
+      index = Math.floor(index / 2);
+    }
+
+    return proof;
+  }
+
+  /**
+   * Fold a proof path over a leaf hash and compare with the expected root
+   */
+  static verifyProof(leafHash: string, proof: MerkleProofStep[], root: string): boolean {
+    const computed = proof.reduce((hash, step) => (
+      step.position === 'left'
+        ? MerkleTree.hashNode(step.hash, hash)
+        : MerkleTree.hashNode(hash, step.hash)
+    ), leafHash);
+
+    return computed === root;
+  }
+
+  static computeRoot(records: unknown[]): string {
+    return new MerkleTree(records.map(record => MerkleTree.hashLeaf(record))).getRoot();
+  }
+}
+
+export default MerkleTree;
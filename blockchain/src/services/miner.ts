@@ -0,0 +1,118 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+import { logger } from '../utils/logger';
+import { BlockHeader, ProofOfWorkResult } from './proofOfWork';
+import { MiningJob } from './miningWorker';
+
+export interface MiningConfig {
+  blockIntervalMs: number;
+  maxBlockRecords: number;
+  targetBlockTimeMs: number;
+  initialDifficulty: number;
+  minDifficulty: number;
+  maxDifficulty: number;
+  retargetWindow: number;
+}
+
+export const getMiningConfig = (): MiningConfig => ({
+  blockIntervalMs: parseInt(process.env.MINING_BLOCK_INTERVAL_MS || '10000'),
+  maxBlockRecords: parseInt(process.env.MINING_MAX_BLOCK_RECORDS || '50'),
+  targetBlockTimeMs: parseInt(process.env.MINING_TARGET_BLOCK_TIME_MS || '2000'),
+  initialDifficulty: parseInt(process.env.MINING_INITIAL_DIFFICULTY || '2'),
+  minDifficulty: parseInt(process.env.MINING_MIN_DIFFICULTY || '1'),
+  maxDifficulty: parseInt(process.env.MINING_MAX_DIFFICULTY || '6'),
+  retargetWindow: parseInt(process.env.MINING_RETARGET_WINDOW || '5')
+});
+
+interface PendingJob {
+  resolve: (result: ProofOfWorkResult) => void;
+  reject: (error: Error) => void;
+}
+
+const createWorker = (): Worker => {
+  const extension = path.extname(__filename);
+  const workerFile = path.join(__dirname, `miningWorker${extension}`);
+
+  if (extension === '.ts') {
+    // Under tsx in development the worker needs its require hook registered first
+    const tsxHook = require.resolve('tsx/cjs');
+    return new Worker(`require(${JSON.stringify(tsxHook)}); require(${JSON.stringify(workerFile)});`, { eval: true });
+  }
+
+  return new Worker(workerFile);
+};
+
+/**
+ * Runs proof-of-work in a dedicated worker thread
+ */
+export class BlockMiner {
+  private worker: Worker | null = null;
+  private jobs: Map<number, PendingJob> = new Map();
+  private nextJobId = 1;
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      const worker = createWorker();
+
+      worker.on('message', (message: { id: number; result?: ProofOfWorkResult; error?: string }) => {
+        const job = this.jobs.get(message.id);
+        if (!job) return;
+
+        this.jobs.delete(message.id);
+        if (message.result) {
+          job.resolve(message.result);
+        } else {
+          job.reject(new Error(message.error || 'Mining failed'));
+        }
+
+        if (this.jobs.size === 0) {
+          worker.unref();
+        }
+      });
+
+      worker.on('error', (error) => {
+        logger.error('Mining worker crashed', { error: error.message });
+        this.failAll(error);
+      });
+
+      worker.on('exit', (code) => {
+        if (this.worker === worker) {
+          this.worker = null;
+        }
+        if (code !== 0) {
+          this.failAll(new Error(`Mining worker exited with code ${code}`));
+        }
+      });
+
+      this.worker = worker;
+    }
+
+    return this.worker;
+  }
+
+  private failAll(error: Error) {
+    this.jobs.forEach(job => job.reject(error));
+    this.jobs.clear();
+    this.worker = null;
+  }
+
+  mine(header: Omit<BlockHeader, 'nonce'>): Promise<ProofOfWorkResult> {
+    const worker = this.getWorker();
+    const job: MiningJob = { id: this.nextJobId++, header };
+
+    return new Promise((resolve, reject) => {
+      this.jobs.set(job.id, { resolve, reject });
+      // Keep the process alive only while a job is in flight
+      worker.ref();
+      worker.postMessage(job);
+    });
+  }
+
+  async terminate(): Promise<void> {
+    if (this.worker) {
+      const worker = this.worker;
+      this.worker = null;
+      await worker.terminate();
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { parentPort } from 'worker_threads';
+import { BlockHeader, solveProofOfWork } from './proofOfWork';
+
+export interface MiningJob {
+  id: number;
+  header: Omit<BlockHeader, 'nonce'>;
+}
+
+// Runs in a worker thread so the nonce search never blocks the API event loop
+if (parentPort) {
+  const port = parentPort;
+
+  port.on('message', (job: MiningJob) => {
+    try {
+      port.postMessage({ id: job.id, result: solveProofOfWork(job.header) });
+    } catch (error: any) {
+      port.postMessage({ id: job.id, error: error.message });
+    }
+  });
+}
@@ -0,0 +1,537 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { createApiError } from '../middleware/errorHandler';
+import {
+  DigitalIDRecord,
+  FIRRecord,
+  GeoPoint,
+  getStorage,
+  LocationPrecision,
+  LocationRecord,
+  MissingPersonBulletin,
+  MissingPersonEvent,
+  MissingPersonRecord,
+  MissingPersonStatus,
+  TripRecord,
+  UserRecord
+} from '../repositories';
+import { formatPoint } from '../utils/format';
+import { logger } from '../utils/logger';
+import { BusEvent, eventBus } from './eventBus';
+import { detectMimeType } from './evidenceService';
+import { firService } from './firService';
+import { locationService } from './locationService';
+import { tripService } from './tripService';
+
+export interface MissingPersonInput {
+  touristId: string;
+  description: string;
+  reportedBy: string;
+  reportedByContact?: string | null;
+  // Defaults to the tourist's last ping, or now
+  lastSeenAt?: Date;
+  lastSeenPlace?: string | null;
+  lastSeenLocation?: GeoPoint | null;
+  firId?: string | null;
+}
+
+export interface MissingPersonListFilter {
+  status?: MissingPersonStatus;
+  touristId?: string;
+  assignedTo?: string;
+  limit?: number;
+}
+
+export interface StatusChange {
+  note?: string;
+  // Where the tourist was seen, for a sighting
+  location?: GeoPoint | null;
+  place?: string | null;
+}
+
+export interface BulletinInput {
+  radiusKm?: number;
+  // Added to the generated text, e.g. who to call
+  message?: string;
+}
+
+export interface LastKnownLocation extends GeoPoint {
+  at: string;
+  source: 'ping' | 'report';
+}
+
+/**
+ * Everything about a missing tourist in one place, assembled when asked for
+ * so the pings and trip are current
+ */
+export interface MissingPersonCaseFile {
+  case: MissingPersonRecord;
+  tourist: Pick<UserRecord, '_id' | 'name' | 'email' | 'nationality' | 'language' | 'emergencyContacts'>;
+  digitalId: Pick<DigitalIDRecord, 'hash' | 'status' | 'verified' | 'expiresAt'> | null;
+  // Newest first; precise for police, who have the case as grounds, and rounded for admins
+  pings: LocationRecord[];
+  pingPrecision: LocationPrecision;
+  lastKnown: LastKnownLocation | null;
+  trip: TripRecord | null;
+  fir: Pick<FIRRecord, '_id' | 'firNumber' | 'status' | 'title'> | null;
+}
+
+const CASE_PINGS = parseInt(process.env.MISSING_PERSON_CASE_PINGS || '20', 10);
+const BULLETIN_RADIUS_KM = parseFloat(process.env.MISSING_PERSON_BULLETIN_RADIUS_KM || '10');
+const PHOTO_DIR = process.env.MISSING_PERSON_PHOTO_DIR || path.join(process.cwd(), 'data', 'missing-persons');
+const PHOTO_SIZE = parseInt(process.env.MISSING_PERSON_PHOTO_SIZE || '800', 10);
+export const MISSING_PERSON_PHOTO_MAX_BYTES = parseInt(process.env.MISSING_PERSON_PHOTO_MAX_MB || '10', 10) * 1024 * 1024;
+// Bulletins give times in the same local time used for zone curfews
+const LOCAL_TIMEZONE = process.env.ZONE_TIMEZONE || 'Asia/Kolkata';
+
+// Status a case may move to from each status; anything else is a 409
+const TRANSITIONS: Record<MissingPersonStatus, MissingPersonStatus[]> = {
+  searching: ['sighted', 'found', 'closed'],
+  sighted: ['searching', 'found', 'closed'],
+  found: ['closed'],
+  closed: []
+};
+
+// Cases still being searched for; these justify precise location access and bulletins
+const ACTIVE_SEARCH_STATUSES: MissingPersonStatus[] = ['searching', 'sighted'];
+
+const PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// FIRs a new case is linked to automatically
+const LINKABLE_FIR_STATUSES: FIRRecord['status'][] = ['draft', 'pending', 'approved'];
+
+const event = (
+  action: MissingPersonEvent['action'],
+  actor: Pick<UserRecord, '_id' | 'name'>,
+  extra: Partial<MissingPersonEvent> = {}
+): MissingPersonEvent => ({
+  action,
+  by: actor._id,
+  byName: actor.name,
+  at: new Date().toISOString(),
+  ...extra
+});
+
+const formatTime = (value: Date | string) => new Date(value).toLocaleString('en-IN', {
+  timeZone: LOCAL_TIMEZONE,
+  dateStyle: 'medium',
+  timeStyle: 'short'
+});
+
+const photoPath = (sha256: string) => path.join(PHOTO_DIR, `${sha256}.webp`);
+
+/**
+ * Missing-person cases. A case ties the tourist to their digital ID, last
+ * pings, current trip, emergency contacts and FIR, and tracks the search:
+ * searching ⇄ sighted → found → closed, or closed when the search is called
+ * off. Bulletins are broadcast to officers on the 'missing-persons' topic
+ * with the area to search, centred on where the tourist was last known to be.
+ * Changes to one case are applied one at a time so none overwrites another's
+ * history.
+ */
+export class MissingPersonService {
+  // Cases are numbered one at a time, and a tourist has one open case at most
+  private numbering: Promise<unknown> = Promise.resolve();
+  private stopListening: (() => void) | null = null;
+  private writes: Map<string, Promise<unknown>> = new Map();
+
+  async listCases(filter: MissingPersonListFilter = {}): Promise<MissingPersonRecord[]> {
+    const { limit, ...where } = filter;
+    return getStorage().missingPersons.find(where, { sort: 'createdAt', order: 'desc', limit });
+  }
+
+  async getCase(id: string): Promise<MissingPersonRecord> {
+    const record = await getStorage().missingPersons.findById(id);
+
+    if (!record) {
+      throw createApiError('Case not found', 404);
+    }
+
+    return record;
+  }
+
+  /**
+   * The tourist's case that is still being searched for, if any
+   */
+  async findActiveCase(touristId: string): Promise<MissingPersonRecord | null> {
+    const cases = await getStorage().missingPersons.find({ touristId }, { sort: 'createdAt', order: 'desc' });
+    return cases.find(record => ACTIVE_SEARCH_STATUSES.includes(record.status)) || null;
+  }
+
+  async openCase(input: MissingPersonInput, officer: UserRecord): Promise<MissingPersonRecord> {
+    const tourist = await getStorage().users.findById(input.touristId);
+
+    if (!tourist || tourist.role !== 'tourist') {
+      throw createApiError('Tourist not found', 404);
+    }
+
+    const fir = input.firId ? await this.checkFIR(input.firId, tourist._id) : await this.findMissingFIR(tourist._id);
+
+    const next = this.numbering.then(() => this.insert(input, tourist, fir, officer));
+    this.numbering = next.catch(() => undefined);
+    const record = await next;
+
+    logger.warn('🔎 Missing-person case opened', { caseId: record._id, caseNumber: record.caseNumber, touristId: tourist._id, by: officer._id });
+    this.publish('case_opened', record);
+
+    return record;
+  }
+
+  /**
+   * The case with the tourist's details, digital ID, recent pings, current
+   * trip and FIR. Pings go through the location service so police access is
+   * logged against the case.
+   */
+  async getCaseFile(id: string, viewer: UserRecord): Promise<MissingPersonCaseFile> {
+    const record = await this.getCase(id);
+    const tourist = await getStorage().users.findById(record.touristId);
+
+    if (!tourist) {
+      throw createApiError('Tourist not found', 404);
+    }
+
+    const [digitalId] = await getStorage().digitalIDs.find({ userId: tourist._id }, { sort: 'createdAt', order: 'desc', limit: 1 });
+    const track = await locationService.getTrack(tourist._id, viewer, { limit: CASE_PINGS });
+    const trip = await tripService.getCurrentTrip(tourist._id, record.lastSeenAt);
+    const fir = record.firId ? await getStorage().firs.findById(record.firId) : null;
+
+    return {
+      case: record,
+      tourist: {
+        _id: tourist._id,
+        name: tourist.name,
+        email: tourist.email,
+        nationality: tourist.nationality,
+        language: tourist.language,
+        emergencyContacts: tourist.emergencyContacts || []
+      },
+      digitalId: digitalId
+        ? { hash: digitalId.hash, status: digitalId.status, verified: digitalId.verified, expiresAt: digitalId.expiresAt }
+        : null,
+      pings: track.points,
+      pingPrecision: track.precision,
+      lastKnown: this.lastKnown(record, track.points[0] || null),
+      trip,
+      fir: fir ? { _id: fir._id, firNumber: fir.firNumber, status: fir.status, title: fir.title } : null
+    };
+  }
+
+  async transition(id: string, status: MissingPersonStatus, actor: UserRecord, change: StatusChange = {}): Promise<MissingPersonRecord> {
+    return this.serialize(id, async () => {
+      const record = await this.getCase(id);
+
+      if (!TRANSITIONS[record.status].includes(status)) {
+        throw createApiError(`Cannot move case from ${record.status} to ${status}`, 409);
+      }
+      if (status === 'sighted' && !change.note) {
+        throw createApiError('Describe the sighting', 400);
+      }
+      // Closing without finding the tourist means calling off the search
+      if (status === 'closed' && record.status !== 'found' && !change.note) {
+        throw createApiError('A reason is required to close a case before the tourist is found', 400);
+      }
+
+      const sighting = status === 'sighted' && (change.location || change.place);
+      const updated = await getStorage().missingPersons.update(id, {
+        status,
+        ...(sighting ? {
+          lastSeenAt: new Date(),
+          lastSeenLocation: change.location || null,
+          lastSeenPlace: change.place || null
+        } : {}),
+        ...(status === 'closed' ? { closedAt: new Date() } : {}),
+        history: [...record.history, event('status_changed', actor, {
+          from: record.status,
+          to: status,
+          ...(change.note ? { note: change.note } : {}),
+          ...(change.location ? { location: change.location } : {})
+        })]
+      });
+      logger.info(`Missing-person case ${record.caseNumber} ${record.status} → ${status}`, { by: actor._id });
+
+      this.publish('status_changed', updated!);
+      return updated!;
+    });
+  }
+
+  /**
+   * Broadcast a bulletin to officers around the tourist's last known
+   * location. The text is generated from the case file so every officer
+   * gets the same details.
+   */
+  async issueBulletin(id: string, actor: UserRecord, input: BulletinInput = {}): Promise<{ case: MissingPersonRecord; bulletin: MissingPersonBulletin }> {
+    return this.serialize(id, async () => {
+      const record = await this.getCase(id);
+
+      if (!ACTIVE_SEARCH_STATUSES.includes(record.status)) {
+        throw createApiError(`Cannot issue a bulletin for a ${record.status} case`, 409);
+      }
+
+      const tourist = await getStorage().users.findById(record.touristId);
+      // Rounded unless the issuing officer may see the precise track, as in the case file
+      const { points: [lastPing] } = await locationService.getTrack(record.touristId, actor, { limit: 1 });
+      const [digitalId] = await getStorage().digitalIDs.find({ userId: record.touristId }, { sort: 'createdAt', order: 'desc', limit: 1 });
+      const trip = await tripService.getCurrentTrip(record.touristId, record.lastSeenAt);
+      const lastKnown = this.lastKnown(record, lastPing || null);
+      const radiusKm = input.radiusKm || BULLETIN_RADIUS_KM;
+
+      const upcoming = trip?.destinations.filter(destination => destination.status === 'upcoming') || [];
+      const lines = [
+        `MISSING PERSON - ${record.caseNumber}${record.status === 'sighted' ? ' (SIGHTED)' : ''}`,
+        `Name: ${record.touristName}${tourist?.nationality ? ` (${tourist.nationality})` : ''}`,
+        `Last seen: ${record.lastSeenPlace || (record.lastSeenLocation ? formatPoint(record.lastSeenLocation) : 'unknown')} at ${formatTime(record.lastSeenAt)}`,
+        ...(lastKnown?.source === 'ping' ? [`Last device ping: ${formatPoint(lastKnown)} at ${formatTime(lastKnown.at)}`] : []),
+        `Description: ${record.description}`,
+        ...(digitalId ? [`Digital ID: ${digitalId.hash.slice(0, 16)} (${digitalId.status})`] : []),
+        ...(trip ? [`Trip: ${trip.title}${upcoming.length ? `; next stops ${upcoming.map(stop => `${stop.name} ${stop.time}`).join(', ')}` : ''}`] : []),
+        `Search area: ${radiusKm} km around ${lastKnown ? formatPoint(lastKnown) : 'the last seen place'}`,
+        `Officer in charge: ${record.assignedOfficerName || record.openedByName}`,
+        ...(input.message ? [input.message] : [])
+      ];
+
+      const bulletin: MissingPersonBulletin = {
+        id: crypto.randomUUID(),
+        issuedAt: new Date().toISOString(),
+        issuedBy: actor._id,
+        issuedByName: actor.name,
+        center: lastKnown ? { lat: lastKnown.lat, lng: lastKnown.lng } : null,
+        radiusKm,
+        text: lines.join('\n')
+      };
+
+      const updated = await getStorage().missingPersons.update(id, {
+        bulletins: [...record.bulletins, bulletin],
+        history: [...record.history, event('bulletin_issued', actor, { note: `Broadcast to officers within ${radiusKm} km` })]
+      });
+      logger.warn('📣 Missing-person bulletin issued', { caseNumber: record.caseNumber, radiusKm, center: bulletin.center, by: actor._id });
+
+      eventBus.publish('missing-persons', 'bulletin_issued', { ...updated!, bulletin });
+      return { case: updated!, bulletin };
+    });
+  }
+
+  /**
+   * Store a photo of the tourist for bulletins. Photos are re-encoded, which
+   * also drops their metadata, and stored under the hash of the result.
+   */
+  async setPhoto(id: string, buffer: Buffer, actor: UserRecord): Promise<MissingPersonRecord> {
+    return this.serialize(id, async () => {
+      const record = await this.getCase(id);
+
+      if (record.status === 'closed') {
+        throw createApiError('Cannot change the photo of a closed case', 409);
+      }
+
+      const mimeType = detectMimeType(buffer);
+      if (!mimeType || !PHOTO_TYPES.includes(mimeType)) {
+        throw createApiError(`Photos must be one of ${PHOTO_TYPES.join(', ')}`, 415);
+      }
+
+      const photo = await sharp(buffer)
+        .rotate()
+        .resize(PHOTO_SIZE, PHOTO_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp()
+        .toBuffer();
+      const sha256 = crypto.createHash('sha256').update(photo).digest('hex');
+
+      if (!fs.existsSync(photoPath(sha256))) {
+        await fs.promises.mkdir(PHOTO_DIR, { recursive: true });
+        await fs.promises.writeFile(photoPath(sha256), photo);
+      }
+
+      const updated = await getStorage().missingPersons.update(id, {
+        photoSha256: sha256,
+        history: [...record.history, event('photo_added', actor)]
+      });
+
+      this.publish('photo_added', updated!);
+      return updated!;
+    });
+  }
+
+  async getPhotoPath(id: string): Promise<string> {
+    const record = await this.getCase(id);
+
+    if (!record.photoSha256 || !fs.existsSync(photoPath(record.photoSha256))) {
+      throw createApiError('No photo for this case', 404);
+    }
+
+    return photoPath(record.photoSha256);
+  }
+
+  async linkFIR(id: string, firId: string, actor: Pick<UserRecord, '_id' | 'name'>): Promise<MissingPersonRecord> {
+    return this.serialize(id, async () => {
+      const record = await this.getCase(id);
+      const fir = await this.checkFIR(firId, record.touristId);
+
+      const updated = await getStorage().missingPersons.update(id, {
+        firId: fir._id,
+        firNumber: fir.firNumber,
+        history: [...record.history, event('fir_linked', actor, { note: fir.firNumber })]
+      });
+
+      this.publish('fir_linked', updated!);
+      return updated!;
+    });
+  }
+
+  async assign(id: string, officerId: string, actor: UserRecord): Promise<MissingPersonRecord> {
+    return this.serialize(id, async () => {
+      const record = await this.getCase(id);
+
+      if (record.status === 'closed') {
+        throw createApiError('Cannot assign a closed case', 409);
+      }
+
+      const officer = await getStorage().users.findById(officerId);
+
+      if (!officer || officer.role !== 'police' || !officer.isActive) {
+        throw createApiError('Officer not found', 400);
+      }
+
+      const updated = await getStorage().missingPersons.update(id, {
+        assignedTo: officer._id,
+        assignedOfficerName: officer.name,
+        history: [...record.history, event('assigned', actor, { note: `Assigned to ${officer.name}` })]
+      });
+
+      this.publish('assigned', updated!);
+      return updated!;
+    });
+  }
+
+  // Notes may be added at any stage, including after closing
+  async addNote(id: string, note: string, actor: UserRecord): Promise<MissingPersonRecord> {
+    return this.serialize(id, async () => {
+      const record = await this.getCase(id);
+
+      const updated = await getStorage().missingPersons.update(id, {
+        history: [...record.history, event('note', actor, { note })]
+      });
+
+      this.publish('note', updated!);
+      return updated!;
+    });
+  }
+
+  /**
+   * Link missing-person FIRs to the tourist's open case as they are filed
+   */
+  public startMonitoring() {
+    if (this.stopListening) return;
+
+    this.stopListening = eventBus.listen(['firs'], event => {
+      this.handleFIREvent(event).catch(error => {
+        logger.error('Failed to link FIR to missing-person case', { error: error.message });
+      });
+    });
+
+    logger.info('Missing-person case linking started');
+  }
+
+  public stopMonitoring() {
+    if (this.stopListening) {
+      this.stopListening();
+      this.stopListening = null;
+    }
+  }
+
+  private async handleFIREvent(event: BusEvent) {
+    const fir = event.data as FIRRecord;
+    if (event.type !== 'created' || fir.incidentType !== 'missing' || !fir.touristId) return;
+
+    const record = await this.findActiveCase(fir.touristId);
+    if (!record || record.firId) return;
+
+    await this.linkFIR(record._id, fir._id, { _id: fir.createdBy, name: fir.createdByName });
+  }
+
+  /**
+   * Run a read-modify-write of one case after any still running for it
+   */
+  private async serialize<T>(id: string, write: () => Promise<T>): Promise<T> {
+    const next = (this.writes.get(id) || Promise.resolve()).then(write);
+    const settled = next.catch(() => undefined);
+    this.writes.set(id, settled);
+
+    settled.then(() => {
+      if (this.writes.get(id) === settled) this.writes.delete(id);
+    });
+
+    return next;
+  }
+
+  private async insert(input: MissingPersonInput, tourist: UserRecord, fir: FIRRecord | null, officer: UserRecord): Promise<MissingPersonRecord> {
+    if (await this.findActiveCase(tourist._id)) {
+      throw createApiError(`${tourist.name} already has an open missing-person case`, 409);
+    }
+
+    const year = new Date().getFullYear();
+    const [last] = await getStorage().missingPersons.find({ year }, { sort: 'sequence', order: 'desc', limit: 1 });
+    const sequence = (last?.sequence || 0) + 1;
+    const [lastPing] = await getStorage().locations.find({ userId: tourist._id }, { sort: 'recordedAt', order: 'desc', limit: 1 });
+
+    return getStorage().missingPersons.create({
+      caseNumber: `MP-${year}-${String(sequence).padStart(4, '0')}`,
+      year,
+      sequence,
+      touristId: tourist._id,
+      touristName: tourist.name,
+      status: 'searching',
+      description: input.description,
+      reportedBy: input.reportedBy,
+      reportedByContact: input.reportedByContact || null,
+      lastSeenAt: input.lastSeenAt || lastPing?.recordedAt || new Date(),
+      lastSeenPlace: input.lastSeenPlace || null,
+      lastSeenLocation: input.lastSeenLocation || null,
+      photoSha256: null,
+      firId: fir?._id || null,
+      firNumber: fir?.firNumber || null,
+      assignedTo: null,
+      assignedOfficerName: null,
+      openedBy: officer._id,
+      openedByName: officer.name,
+      closedAt: null,
+      bulletins: [],
+      history: [event('opened', officer, fir ? { note: `Linked to ${fir.firNumber}` } : {})]
+    });
+  }
+
+  private async checkFIR(firId: string, touristId: string): Promise<FIRRecord> {
+    const fir = await firService.getFIR(firId);
+
+    if (fir.touristId !== touristId) {
+      throw createApiError('FIR does not concern this tourist', 400);
+    }
+
+    return fir;
+  }
+
+  // The tourist's newest missing-person FIR that is still in progress
+  private async findMissingFIR(touristId: string): Promise<FIRRecord | null> {
+    const firs = await firService.listFIRs({ touristId });
+    return firs.find(fir => fir.incidentType === 'missing' && LINKABLE_FIR_STATUSES.includes(fir.status)) || null;
+  }
+
+  // The newer of the reported last sighting and the tourist's last ping
+  private lastKnown(record: MissingPersonRecord, lastPing: LocationRecord | null): LastKnownLocation | null {
+    const reported = record.lastSeenLocation
+      ? { ...record.lastSeenLocation, at: record.lastSeenAt.toISOString(), source: 'report' as const }
+      : null;
+    const pinged = lastPing
+      ? { lat: lastPing.lat, lng: lastPing.lng, at: lastPing.recordedAt.toISOString(), source: 'ping' as const }
+      : null;
+
+    if (!reported || !pinged) return reported || pinged;
+    return new Date(pinged.at).getTime() > new Date(reported.at).getTime() ? pinged : reported;
+  }
+
+  private publish(type: string, record: MissingPersonRecord) {
+    eventBus.publish('missing-persons', type, record);
+  }
+}
+
+export const missingPersonService = new MissingPersonService();
+export default missingPersonService;
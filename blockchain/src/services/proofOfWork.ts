@@ -0,0 +1,61 @@
+import crypto from 'crypto';
+import { canonicalize } from './merkleTree';
+
+export interface BlockHeader {
+  index: number;
+  timestamp: number;
+  merkleRoot: string;
+  previousHash: string;
+  difficulty: number;
+  nonce: number;
+}
+
+export interface ProofOfWorkResult {
+  nonce: number;
+  hash: string;
+  hashes: number;
+  durationMs: number;
+}
+
+/**
+ * Block hash covers only the header; the records are committed to through
+ * the Merkle root, so a header plus a Merkle path is enough to verify a record.
+ */
+export const hashBlockHeader = (header: BlockHeader): string => {
+  return crypto
+    .createHash('sha256')
+    .update(canonicalize({
+      index: header.index,
+      timestamp: header.timestamp,
+      merkleRoot: header.merkleRoot,
+      previousHash: header.previousHash,
+      difficulty: header.difficulty,
+      nonce: header.nonce
+    }))
+    .digest('hex');
+};
+
+export const meetsDifficulty = (hash: string, difficulty: number): boolean => {
+  return hash.startsWith('0'.repeat(difficulty));
+};
+
+/**
+ * Search for a nonce whose header hash has `difficulty` leading zeros
+ */
+export const solveProofOfWork = (header: Omit<BlockHeader, 'nonce'>): ProofOfWorkResult => {
+  const startedAt = Date.now();
+  let nonce = 0;
+  let hash = hashBlockHeader({ ...header, nonce });
+
+  while (!meetsDifficulty(hash, header.difficulty)) {
+    nonce++;
+    hash = hashBlockHeader({ ...header, nonce });
+  }
+
+  return {
+    nonce,
+    hash,
+    hashes: nonce + 1,
+    durationMs: Date.now() - startedAt
+  };
+};
@@ -1,29 +1,240 @@
 import QRCode from 'qrcode';
+import crypto from 'crypto';
 import { logger } from '../utils/logger';
+import { getIssuerKey } from './issuerKey';
+import type { Presentation } from './selectiveDisclosure';
 
 export interface QRCodeData {
   userId: string;
   walletAddress: string;
   timestamp: number;
-  type: 'digital_id' | 'wallet' | 'transaction';
+  type: 'digital_id' | 'wallet' | 'transaction' | 'presentation';
   data?: any;
+  expiresAt?: number;
+  nonce?: string;
 }
 
+/**
+ * What a digital ID code vouches for, all taken from the issued ID
+ */
+export interface DigitalIDQRData {
+  digitalIdHash: string;
+  status: string;
+  expiresAt: number | null;
+}
+
+/**
+ * JWS claims carried inside a signed QR code
+ */
+export interface QRTokenClaims {
+  iss: string;
+  sub: string;
+  wallet: string;
+  typ: QRCodeData['type'];
+  iat: number;
+  exp: number;
+  // Random token id; verifiers accept each one only once
+  jti: string;
+  data?: any;
+}
+
+export type QRVerificationFailure =
+  | 'malformed'
+  | 'unsupported_algorithm'
+  | 'unknown_issuer_key'
+  | 'invalid_signature'
+  | 'wrong_issuer'
+  | 'not_yet_valid'
+  | 'expired'
+  | 'replayed';
+
+export type QRVerificationResult =
+  | { valid: true; data: QRCodeData; claims: QRTokenClaims }
+  | { valid: false; reason: QRVerificationFailure; message: string };
+
+export interface QRIssuerKey {
+  issuer: string;
+  alg: 'ES256';
+  kid: string;
+  jwk: crypto.JsonWebKey;
+}
+
+const QR_ISSUER = process.env.QR_ISSUER || 'raksha-setu';
+const QR_TOKEN_TTL_SECONDS = parseInt(process.env.QR_TOKEN_TTL_SECONDS || '86400', 10);
+// Allowance for officer devices whose clocks drift while offline
+const QR_CLOCK_SKEW_SECONDS = 60;
+
+// Nonces of codes already verified, until they expire
+const seenNonces: Map<string, number> = new Map();
+
+const base64url = (input: Buffer | string): string => Buffer.from(input).toString('base64url');
+
 export class QRService {
   /**
-   * Generate QR code for digital ID
+   * Public half of the issuer key, published so QR codes can be checked offline
+   */
+  static getIssuerPublicKey(): QRIssuerKey {
+    const { publicKey, kid } = getIssuerKey();
+
+    return {
+      issuer: QR_ISSUER,
+      alg: 'ES256',
+      kid,
+      jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg: 'ES256', use: 'sig' }
+    };
+  }
+
+  /**
+   * Sign QR code data as a compact JWS (ES256). The token expires after
+   * QR_TOKEN_TTL_SECONDS, or earlier if expiresAt is given.
+   */
+  static signQRData(qrData: QRCodeData, expiresAt?: number): string {
+    const { privateKey, kid } = getIssuerKey();
+    const iat = Math.floor(qrData.timestamp / 1000);
+    let exp = iat + QR_TOKEN_TTL_SECONDS;
+
+    if (expiresAt) {
+      exp = Math.min(exp, Math.floor(expiresAt / 1000));
+    }
+
+    const claims: QRTokenClaims = {
+      iss: QR_ISSUER,
+      sub: qrData.userId,
+      wallet: qrData.walletAddress,
+      typ: qrData.type,
+      iat,
+      exp,
+      jti: crypto.randomBytes(16).toString('hex'),
+      data: qrData.data
+    };
+
+    const header = { alg: 'ES256', typ: 'JWT', kid };
+    const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(claims))}`;
+    const signature = crypto.sign('sha256', Buffer.from(signingInput), {
+      key: privateKey,
+      dsaEncoding: 'ieee-p1363'
+    });
+
+    return `${signingInput}.${base64url(signature)}`;
+  }
+
+  /**
+   * Verify a signed QR token, reporting why it was rejected
    */
-  static async generateDigitalIDQR(userId: string, walletAddress: string, additionalData?: any): Promise<string> {
+  static verifyQRCode(token: string): QRVerificationResult {
+    const fail = (reason: QRVerificationFailure, message: string): QRVerificationResult => ({
+      valid: false,
+      reason,
+      message
+    });
+
+    const parts = typeof token === 'string' ? token.trim().split('.') : [];
+
+    if (parts.length !== 3) {
+      return fail('malformed', 'QR code is not a signed RakshaSetu code');
+    }
+
+    let header: any;
+    let claims: QRTokenClaims;
+
+    try {
+      header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+      claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    } catch {
+      return fail('malformed', 'QR code payload could not be decoded');
+    }
+
+    if (header?.alg !== 'ES256') {
+      return fail('unsupported_algorithm', `Unsupported signature algorithm: ${header?.alg}`);
+    }
+
+    const { publicKey, kid } = getIssuerKey();
+
+    if (header.kid !== kid) {
+      return fail('unknown_issuer_key', 'QR code was signed by an unknown issuer key');
+    }
+
+    const signatureValid = crypto.verify(
+      'sha256',
+      Buffer.from(`${parts[0]}.${parts[1]}`),
+      { key: publicKey, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(parts[2], 'base64url')
+    );
+
+    if (!signatureValid) {
+      return fail('invalid_signature', 'QR code signature is invalid; the code may have been tampered with');
+    }
+
+    if (claims.iss !== QR_ISSUER) {
+      return fail('wrong_issuer', `QR code was issued by ${claims.iss}`);
+    }
+
+    if (typeof claims.jti !== 'string' || claims.jti === '') {
+      return fail('malformed', 'QR code has no nonce');
+    }
+
+    if (!claims.sub && !claims.wallet) {
+      return fail('malformed', 'QR code does not identify a user or wallet');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+
+    if (typeof claims.iat !== 'number' || claims.iat > now + QR_CLOCK_SKEW_SECONDS) {
+      return fail('not_yet_valid', 'QR code issue time is in the future');
+    }
+
+    if (typeof claims.exp !== 'number' || claims.exp < now - QR_CLOCK_SKEW_SECONDS) {
+      return fail('expired', `QR code expired at ${new Date((claims.exp || 0) * 1000).toISOString()}`);
+    }
+
+    return {
+      valid: true,
+      claims,
+      data: {
+        userId: claims.sub,
+        walletAddress: claims.wallet,
+        timestamp: claims.iat * 1000,
+        type: claims.typ,
+        data: claims.data,
+        expiresAt: claims.exp * 1000,
+        nonce: claims.jti
+      }
+    };
+  }
+
+  /**
+   * Record a verified code's nonce, refusing one seen before. Nonces are kept
+   * until the code expires, after which it fails verification anyway.
+   */
+  static claimNonce(claims: QRTokenClaims): boolean {
+    const now = Date.now();
+
+    seenNonces.forEach((expiresAt, nonce) => {
+      if (expiresAt < now) seenNonces.delete(nonce);
+    });
+
+    if (seenNonces.has(claims.jti)) {
+      return false;
+    }
+
+    seenNonces.set(claims.jti, (claims.exp + QR_CLOCK_SKEW_SECONDS) * 1000);
+    return true;
+  }
+
+  /**
+   * Generate QR code for digital ID; the code never outlives the ID
+   */
+  static async generateDigitalIDQR(userId: string, walletAddress: string, digitalID: DigitalIDQRData): Promise<string> {
     try {
       const qrData: QRCodeData = {
         userId,
         walletAddress,
         timestamp: Date.now(),
         type: 'digital_id',
-        data: additionalData
+        data: digitalID
       };
 
-      const qrString = JSON.stringify(qrData);
+      const qrString = QRService.signQRData(qrData, digitalID.expiresAt || undefined);
       const qrCode = await QRCode.toDataURL(qrString, {
         width: 300,
         margin: 2,
@@ -53,7 +264,7 @@ export class QRService {
         type: 'wallet'
       };
 
-      const qrString = JSON.stringify(qrData);
+      const qrString = QRService.signQRData(qrData);
       const qrCode = await QRCode.toDataURL(qrString, {
         width: 300,
         margin: 2,
@@ -84,7 +295,7 @@ export class QRService {
         data: { transactionHash }
       };
 
-      const qrString = JSON.stringify(qrData);
+      const qrString = QRService.signQRData(qrData);
       const qrCode = await QRCode.toDataURL(qrString, {
         width: 300,
         margin: 2,
@@ -103,22 +314,53 @@ export class QRService {
   }
 
   /**
-   * Parse QR code data
+   * Generate QR code for a selective-disclosure identity presentation
    */
-  static parseQRCode(qrString: string): QRCodeData | null {
+  static async generatePresentationQR(
+    userId: string,
+    walletAddress: string,
+    presentation: Presentation,
+    expiresAt: number
+  ): Promise<string> {
     try {
-      const qrData = JSON.parse(qrString) as QRCodeData;
-      
-      // Validate QR code data structure
-      if (!qrData.userId && !qrData.walletAddress) {
-        throw new Error('Invalid QR code data');
-      }
+      const qrData: QRCodeData = {
+        userId,
+        walletAddress,
+        timestamp: Date.now(),
+        type: 'presentation',
+        data: presentation
+      };
+
+      const qrString = QRService.signQRData(qrData, expiresAt);
+      const qrCode = await QRCode.toDataURL(qrString, {
+        width: 300,
+        margin: 2,
+        color: {
+          dark: '#000000',
+          light: '#FFFFFF'
+        }
+      });
 
-      return qrData;
+      logger.info('Presentation QR code generated', { userId, digitalIdHash: presentation.digitalIdHash });
+      return qrCode;
     } catch (error: any) {
-      logger.error('Error parsing QR code:', error);
+      logger.error('Error generating Presentation QR code:', error);
+      throw new Error('Failed to generate Presentation QR code');
+    }
+  }
+
+  /**
+   * Parse QR code data, accepting only codes with a valid issuer signature
+   */
+  static parseQRCode(qrString: string): QRCodeData | null {
+    const result = QRService.verifyQRCode(qrString);
+
+    if (!result.valid) {
+      logger.error('Error parsing QR code:', { reason: result.reason, message: result.message });
       return null;
     }
+
+    return result.data;
   }
 
   /**
@@ -0,0 +1,354 @@
+import { createApiError } from '../middleware/errorHandler';
+import { AlertRecord, FIRRecord, GeoPoint, getStorage, UserRecord } from '../repositories';
+import { pluralize } from '../utils/format';
+import { logger } from '../utils/logger';
+import { OPEN_ALERT_STATUSES } from './alertService';
+import { BusEvent, eventBus } from './eventBus';
+import { firService } from './firService';
+import { distanceMeters, geofenceService, inTimeWindow } from './geofenceService';
+import { blockchain } from './simpleBlockchain';
+import { mappedDestinations, tripService } from './tripService';
+
+export type SafetyLevel = 'safe' | 'caution' | 'alert';
+
+export type SafetyFactorKey = 'zone' | 'nearbyAlerts' | 'timeOfDay' | 'itinerary' | 'incidentHistory' | 'digitalId';
+
+export interface SafetyFactor {
+  key: SafetyFactorKey;
+  label: string;
+  // Points taken off the score; 0 when the factor is fine or unknown
+  impact: number;
+  detail: string;
+}
+
+export interface SafetyScore {
+  userId: string;
+  score: number;
+  level: SafetyLevel;
+  factors: SafetyFactor[];
+  // The position the score was computed for, if one was recent enough
+  location: GeoPoint | null;
+  computedAt: string;
+}
+
+const LOCATION_MAX_AGE_MS = parseInt(process.env.SAFETY_LOCATION_MAX_AGE_MINUTES || '30', 10) * 60 * 1000;
+const NEARBY_ALERT_RADIUS_METERS = parseInt(process.env.SAFETY_ALERT_RADIUS_METERS || '2000', 10);
+const INCIDENT_RADIUS_METERS = parseInt(process.env.SAFETY_INCIDENT_RADIUS_METERS || '1000', 10);
+const INCIDENT_LOOKBACK_MS = parseInt(process.env.SAFETY_INCIDENT_LOOKBACK_DAYS || '90', 10) * 24 * 60 * 60 * 1000;
+const ITINERARY_DEVIATION_METERS = parseFloat(process.env.SAFETY_ITINERARY_DEVIATION_KM || '5') * 1000;
+const NIGHT_START = process.env.SAFETY_NIGHT_START || '22:00';
+const NIGHT_END = process.env.SAFETY_NIGHT_END || '05:00';
+const REFRESH_INTERVAL_MS = parseInt(process.env.SAFETY_SCORE_REFRESH_MS || '300000', 10);
+
+export const levelFor = (score: number): SafetyLevel => {
+  if (score >= 80) return 'safe';
+  if (score >= 60) return 'caution';
+  return 'alert';
+};
+
+/**
+ * Past incidents within a radius of a point: alerts raised there since a
+ * date plus FIRs from firService.listIncidents. The tourist's own alerts and
+ * FIRs are left out.
+ */
+export const countIncidents = (
+  userId: string,
+  point: GeoPoint,
+  alerts: AlertRecord[],
+  firs: FIRRecord[],
+  radiusMeters: number,
+  since: Date
+): number => alerts.filter(alert =>
+  alert.userId !== userId &&
+  alert.location &&
+  alert.createdAt.getTime() >= since.getTime() &&
+  distanceMeters(point, alert.location) <= radiusMeters
+).length + firs.filter(fir =>
+  fir.touristId !== userId &&
+  distanceMeters(point, fir.coordinates!) <= radiusMeters
+).length;
+
+const factor = (key: SafetyFactorKey, label: string, impact: number, detail: string): SafetyFactor => ({
+  key,
+  label,
+  impact,
+  detail
+});
+
+/**
+ * A tourist's 0–100 safety score and the factors behind it. Every factor
+ * takes points off a perfect 100: the zone they are in, open alerts nearby,
+ * night time, straying from their active trip, past incidents near them and
+ * the state of their digital ID. Scores are cached and recomputed when a
+ * ping, alert, zone, trip or digital ID changes, and each new score is published
+ * as a 'safety_score' event so the tourist app and the dashboard agree.
+ */
+export class SafetyScoreService {
+  private scores: Map<string, SafetyScore> = new Map();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private stopListening: (() => void) | null = null;
+
+  /**
+   * Current score for a tourist, computed fresh
+   */
+  async getScore(userId: string, now: Date = new Date()): Promise<SafetyScore> {
+    const user = await getStorage().users.findById(userId);
+
+    if (!user || user.role !== 'tourist') {
+      throw createApiError('Tourist not found', 404);
+    }
+
+    return this.refresh(user, now);
+  }
+
+  /**
+   * Scores for every active tourist
+   */
+  async listScores(now: Date = new Date()): Promise<SafetyScore[]> {
+    const tourists = await getStorage().users.find({ role: 'tourist', isActive: true });
+    const scores: SafetyScore[] = [];
+
+    for (const tourist of tourists) {
+      scores.push(await this.refresh(tourist, now));
+    }
+
+    return scores;
+  }
+
+  async compute(user: UserRecord, now: Date = new Date()): Promise<SafetyScore> {
+    const location = await this.currentLocation(user._id, now);
+    const alerts = await getStorage().alerts.find({}, { sort: 'createdAt', order: 'desc' });
+    const firs = await firService.listIncidents(new Date(now.getTime() - INCIDENT_LOOKBACK_MS));
+
+    const factors = [
+      await this.zoneFactor(location, now),
+      this.nearbyAlertsFactor(user._id, location, alerts),
+      this.timeOfDayFactor(now),
+      await this.itineraryFactor(user._id, location, now),
+      this.incidentHistoryFactor(user._id, location, alerts, firs, now),
+      this.digitalIdFactor(user._id)
+    ];
+
+    const score = Math.max(0, Math.min(100, 100 - factors.reduce((total, f) => total + f.impact, 0)));
+
+    return {
+      userId: user._id,
+      score,
+      level: levelFor(score),
+      factors,
+      location,
+      computedAt: now.toISOString()
+    };
+  }
+
+  /**
+   * Recompute, cache and publish the score if it moved
+   */
+  async refresh(user: UserRecord, now: Date = new Date()): Promise<SafetyScore> {
+    const score = await this.compute(user, now);
+    const previous = this.scores.get(user._id);
+
+    this.scores.set(user._id, score);
+
+    if (!previous || previous.score !== score.score) {
+      eventBus.publish('locations', 'safety_score', {
+        userId: user._id,
+        score: score.score,
+        level: score.level,
+        factors: score.factors,
+        computedAt: score.computedAt
+      }, user._id);
+    }
+
+    return score;
+  }
+
+  public startMonitoring() {
+    if (this.refreshTimer) return;
+
+    this.stopListening = eventBus.listen(['locations', 'alerts', 'zones', 'trips', 'firs', 'digital-ids'], event => {
+      this.handleEvent(event).catch(error => {
+        logger.error('Safety score refresh failed', { error: error.message });
+      });
+    });
+
+    // Time of day and incident history drift even when nothing else changes
+    this.refreshTimer = setInterval(() => {
+      this.refreshCached().catch(error => {
+        logger.error('Safety score refresh failed', { error: error.message });
+      });
+    }, REFRESH_INTERVAL_MS);
+    this.refreshTimer.unref();
+
+    logger.info('Safety scoring started', { refreshIntervalMs: REFRESH_INTERVAL_MS });
+  }
+
+  public stopMonitoring() {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.stopListening) {
+      this.stopListening();
+      this.stopListening = null;
+    }
+  }
+
+  private async handleEvent(event: BusEvent) {
+    if (event.topic === 'locations') {
+      if (event.type === 'ping' || event.type === 'sharing_changed') {
+        await this.refreshUser(event.userId);
+      }
+      return;
+    }
+
+    if (event.topic === 'digital-ids' || event.topic === 'trips') {
+      await this.refreshUser(event.userId);
+      return;
+    }
+
+    // Only a status change moves an FIR in or out of the incident count
+    if (event.topic === 'firs' && event.type !== 'status_changed') return;
+
+    // Zone changes, alerts and FIRs can affect anyone nearby, so rescore everyone we are tracking
+    await this.refreshCached();
+  }
+
+  private async refreshUser(userId?: string | null) {
+    if (!userId) return;
+
+    const user = await getStorage().users.findById(userId);
+    if (user && user.role === 'tourist') {
+      await this.refresh(user);
+    }
+  }
+
+  private async refreshCached() {
+    for (const userId of Array.from(this.scores.keys())) {
+      await this.refreshUser(userId);
+    }
+  }
+
+  private async currentLocation(userId: string, now: Date): Promise<GeoPoint | null> {
+    const [latest] = await getStorage().locations.find({ userId }, { sort: 'recordedAt', order: 'desc', limit: 1 });
+
+    if (!latest || now.getTime() - latest.recordedAt.getTime() > LOCATION_MAX_AGE_MS) {
+      return null;
+    }
+
+    return { lat: latest.lat, lng: latest.lng };
+  }
+
+  private async zoneFactor(location: GeoPoint | null, now: Date): Promise<SafetyFactor> {
+    if (!location) {
+      return factor('zone', 'Current zone', 0, 'Location unknown');
+    }
+
+    const zones = await geofenceService.zonesAt(location, now);
+    const restricted = zones.find(zone => zone.type === 'restricted');
+    const alert = zones.find(zone => zone.type === 'alert');
+    const safe = zones.find(zone => zone.type === 'safe');
+
+    if (restricted) return factor('zone', 'Current zone', 35, `Inside restricted zone ${restricted.name}`);
+    if (alert) return factor('zone', 'Current zone', 20, `Inside alert zone ${alert.name}`);
+    if (safe) return factor('zone', 'Current zone', 0, `Inside safe zone ${safe.name}`);
+    return factor('zone', 'Current zone', 0, 'Not inside any zone');
+  }
+
+  private nearbyAlertsFactor(userId: string, location: GeoPoint | null, alerts: AlertRecord[]): SafetyFactor {
+    if (!location) {
+      return factor('nearbyAlerts', 'Open alerts nearby', 0, 'Location unknown');
+    }
+
+    const nearby = alerts.filter(alert =>
+      alert.userId !== userId &&
+      OPEN_ALERT_STATUSES.includes(alert.status) &&
+      alert.location &&
+      distanceMeters(location, alert.location) <= NEARBY_ALERT_RADIUS_METERS
+    );
+    // Critical alerts weigh double
+    const weight = nearby.reduce((total, alert) => total + (alert.severity === 'critical' ? 2 : 1), 0);
+
+    return factor(
+      'nearbyAlerts',
+      'Open alerts nearby',
+      Math.min(20, weight * 5),
+      nearby.length > 0
+        ? `${pluralize(nearby.length, 'open alert')} within ${NEARBY_ALERT_RADIUS_METERS / 1000} km`
+        : 'No open alerts nearby'
+    );
+  }
+
+  private timeOfDayFactor(now: Date): SafetyFactor {
+    const night = inTimeWindow({ start: NIGHT_START, end: NIGHT_END }, now);
+
+    return factor('timeOfDay', 'Time of day', night ? 10 : 0, night ? `Night time (${NIGHT_START}–${NIGHT_END})` : 'Daytime');
+  }
+
+  private async itineraryFactor(userId: string, location: GeoPoint | null, now: Date): Promise<SafetyFactor> {
+    const trip = await tripService.getCurrentTrip(userId, now);
+    const destinations = mappedDestinations(trip);
+
+    if (!trip || destinations.length === 0) {
+      return factor('itinerary', 'Itinerary', 0, 'No active trip with mapped destinations');
+    }
+    if (!location) {
+      return factor('itinerary', 'Itinerary', 0, 'Location unknown');
+    }
+
+    const nearest = Math.min(...destinations.map(destination => distanceMeters(location, destination)));
+    const km = (nearest / 1000).toFixed(1);
+
+    if (nearest > ITINERARY_DEVIATION_METERS * 3) {
+      return factor('itinerary', 'Itinerary', 15, `${km} km from the nearest planned destination`);
+    }
+    if (nearest > ITINERARY_DEVIATION_METERS) {
+      return factor('itinerary', 'Itinerary', 10, `${km} km from the nearest planned destination`);
+    }
+    return factor('itinerary', 'Itinerary', 0, `On itinerary for ${trip.title}`);
+  }
+
+  // Alerts and registered FIRs; the tourist's own are left out, the zone and nearby alert factors already cover them
+  private incidentHistoryFactor(
+    userId: string,
+    location: GeoPoint | null,
+    alerts: AlertRecord[],
+    firs: FIRRecord[],
+    now: Date
+  ): SafetyFactor {
+    if (!location) {
+      return factor('incidentHistory', 'Past incidents nearby', 0, 'Location unknown');
+    }
+
+    const since = new Date(now.getTime() - INCIDENT_LOOKBACK_MS);
+    const incidents = countIncidents(userId, location, alerts, firs, INCIDENT_RADIUS_METERS, since);
+    const impact = incidents === 0 ? 0 : incidents <= 2 ? 5 : incidents <= 5 ? 10 : 15;
+
+    return factor(
+      'incidentHistory',
+      'Past incidents nearby',
+      impact,
+      `${pluralize(incidents, 'incident')} within ${INCIDENT_RADIUS_METERS / 1000} km in the last ${INCIDENT_LOOKBACK_MS / 86400000} days`
+    );
+  }
+
+  private digitalIdFactor(userId: string): SafetyFactor {
+    const digitalID = blockchain.findLatestDigitalID(undefined, userId);
+
+    if (!digitalID) {
+      return factor('digitalId', 'Digital ID', 10, 'No digital ID');
+    }
+
+    switch (digitalID.status) {
+      case 'verified':
+        return factor('digitalId', 'Digital ID', 0, 'Verified');
+      case 'pending':
+        return factor('digitalId', 'Digital ID', 5, 'Awaiting verification');
+      default:
+        return factor('digitalId', 'Digital ID', 15, `Digital ID ${digitalID.status}`);
+    }
+  }
+}
+
+export const safetyScoreService = new SafetyScoreService();
+export default safetyScoreService;
@@ -0,0 +1,217 @@
+import crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { IdentityData } from '../types/blockchain';
+import { canonicalize } from './merkleTree';
+import blockchain, { ChainRecord, DigitalID, isDigitalIDValid } from './simpleBlockchain';
+import { IdentityClaimsRecord, sqliteIdentityClaims } from '../models/SqliteIdentityClaims';
+import { UserRecord } from '../repositories';
+import { createApiError } from '../middleware/errorHandler';
+
+export type DisclosableClaim = keyof Pick<
+  IdentityData,
+  'name' | 'email' | 'nationality' | 'emergencyContact' | 'passportHash' | 'aadhaarHash'
+>;
+
+export const DISCLOSABLE_CLAIMS: DisclosableClaim[] = [
+  'name',
+  'email',
+  'nationality',
+  'emergencyContact',
+  'passportHash',
+  'aadhaarHash'
+];
+
+// Document hashes a staff member checked before committing them
+export type DocumentClaims = Partial<Record<'passportHash' | 'aadhaarHash', string>>;
+
+// [salt, claim name, value], hashed as canonical JSON
+export type ClaimDisclosure = [string, DisclosableClaim, string];
+
+export interface Presentation {
+  digitalIdHash: string;
+  disclosures: ClaimDisclosure[];
+  digests: string[];
+}
+
+export interface PresentationVerification {
+  valid: boolean;
+  digitalIdHash: string;
+  claims: Partial<Record<DisclosableClaim, string>>;
+  isVerified: boolean;
+  status: string | null;
+  anchor: { blockIndex: number; blockHash: string } | null;
+  errors: string[];
+}
+
+// Presentations are shown at a checkpoint, so they only need to live briefly
+export const PRESENTATION_TTL_MS = 10 * 60 * 1000;
+
+const isIdentityClaimsRecord = (digitalIdHash: string) => (record: ChainRecord) =>
+  record.type === 'identity_claims' && record.digitalIdHash === digitalIdHash;
+
+export class SelectiveDisclosureService {
+  static digestDisclosure(disclosure: ClaimDisclosure): string {
+    return crypto.createHash('sha256').update(canonicalize(disclosure)).digest('hex');
+  }
+
+  /**
+   * Commitment over every claim digest; sorting hides which digest is which claim
+   */
+  static computeClaimsRoot(digests: string[]): string {
+    return crypto.createHash('sha256').update(canonicalize([...digests].sort())).digest('hex');
+  }
+
+  /**
+   * Salt and hash a tourist's identity claims, hold the salts and anchor the
+   * claims root on the chain against the digital ID. Name and email come from
+   * the digital ID and the rest of the profile from the user record; document
+   * hashes are only taken from staff who checked the documents, and are
+   * otherwise carried over from the last commitment.
+   */
+  static commitClaims(digitalID: DigitalID, user: UserRecord, documents: DocumentClaims = {}) {
+    const previous = sqliteIdentityClaims.findPending(digitalID.hash)
+      || sqliteIdentityClaims.findByDigitalIdHash(digitalID.hash);
+    const carried = Object.fromEntries(
+      (previous?.disclosures || []).map(([, name, value]) => [name, value])
+    ) as Partial<Record<DisclosableClaim, string>>;
+    const contact = user.emergencyContacts?.[0];
+
+    const values: Partial<Record<DisclosableClaim, string>> = {
+      name: digitalID.name,
+      email: digitalID.email,
+      nationality: user.nationality,
+      emergencyContact: contact ? `${contact.name} (${contact.phone})` : undefined,
+      passportHash: documents.passportHash ?? carried.passportHash,
+      aadhaarHash: documents.aadhaarHash ?? carried.aadhaarHash
+    };
+
+    const disclosures: ClaimDisclosure[] = DISCLOSABLE_CLAIMS
+      .filter(name => typeof values[name] === 'string' && values[name] !== '')
+      .map(name => [crypto.randomBytes(16).toString('base64url'), name, values[name] as string]);
+
+    const claimsRoot = SelectiveDisclosureService.computeClaimsRoot(
+      disclosures.map(disclosure => SelectiveDisclosureService.digestDisclosure(disclosure))
+    );
+
+    // Presentations keep using the current salts until this root is mined
+    sqliteIdentityClaims.savePending({ digitalIdHash: digitalID.hash, disclosures, claimsRoot });
+
+    blockchain.submitRecord({
+      type: 'identity_claims',
+      timestamp: Date.now(),
+      digitalIdHash: digitalID.hash,
+      claimsRoot
+    });
+
+    logger.info('Identity claims committed', { digitalIdHash: digitalID.hash, claims: disclosures.length });
+
+    return {
+      digitalIdHash: digitalID.hash,
+      claimsRoot,
+      fields: disclosures.map(([, name]) => name)
+    };
+  }
+
+  /**
+   * The claims whose root is on the chain, switching to the pending ones once
+   * they have been mined
+   */
+  static getConfirmedClaims(digitalIdHash: string): IdentityClaimsRecord | null {
+    const pending = sqliteIdentityClaims.findPending(digitalIdHash);
+
+    if (pending && blockchain.getRecordProof(isIdentityClaimsRecord(digitalIdHash))?.record.claimsRoot === pending.claimsRoot) {
+      sqliteIdentityClaims.confirm(digitalIdHash);
+      return pending;
+    }
+
+    return sqliteIdentityClaims.findByDigitalIdHash(digitalIdHash);
+  }
+
+  /**
+   * Build a presentation revealing only the requested claims
+   */
+  static createPresentation(digitalID: DigitalID, fields: string[]): Presentation {
+    const record = SelectiveDisclosureService.getConfirmedClaims(digitalID.hash);
+
+    if (!record) {
+      throw sqliteIdentityClaims.findPending(digitalID.hash)
+        ? createApiError('Identity claims are not yet anchored', 409)
+        : createApiError('Identity claims have not been committed for this digital ID', 404);
+    }
+
+    const committed = record.disclosures.map(([, name]) => name as string);
+    const unknown = fields.filter(field => !committed.includes(field));
+
+    if (unknown.length > 0) {
+      throw createApiError(`Cannot disclose uncommitted claims: ${unknown.join(', ')}`, 400);
+    }
+
+    return {
+      digitalIdHash: digitalID.hash,
+      disclosures: record.disclosures.filter(([, name]) => fields.includes(name)),
+      digests: record.disclosures.map(disclosure => SelectiveDisclosureService.digestDisclosure(disclosure)).sort()
+    };
+  }
+
+  /**
+   * Check disclosed claims against the claims root anchored for the digital ID
+   */
+  static verifyPresentation(presentation: Presentation): PresentationVerification {
+    const errors: string[] = [];
+    const claims: Partial<Record<DisclosableClaim, string>> = {};
+    const digitalIdHash = presentation?.digitalIdHash;
+
+    if (!digitalIdHash || !Array.isArray(presentation.disclosures) || !Array.isArray(presentation.digests)) {
+      return {
+        valid: false,
+        digitalIdHash,
+        claims,
+        isVerified: false,
+        status: null,
+        anchor: null,
+        errors: ['Presentation is malformed']
+      };
+    }
+
+    presentation.disclosures.forEach(disclosure => {
+      const [, name, value] = disclosure;
+
+      if (!presentation.digests.includes(SelectiveDisclosureService.digestDisclosure(disclosure))) {
+        errors.push(`Disclosed claim ${name} does not match its digest`);
+      } else {
+        claims[name] = value;
+      }
+    });
+
+    const anchored = blockchain.getRecordProof(isIdentityClaimsRecord(digitalIdHash));
+    const claimsRoot = SelectiveDisclosureService.computeClaimsRoot(presentation.digests);
+
+    if (!anchored) {
+      errors.push(blockchain.isRecordPending(isIdentityClaimsRecord(digitalIdHash))
+        ? 'Identity claims are not yet anchored'
+        : 'No identity claims anchored for this digital ID');
+    } else if (anchored.record.claimsRoot !== claimsRoot) {
+      errors.push('Claim digests do not match the anchored claims root');
+    }
+
+    const digitalID = blockchain.getDigitalIDByHash(digitalIdHash);
+
+    if (!digitalID) {
+      errors.push('Digital ID not found');
+    } else if (!isDigitalIDValid(digitalID)) {
+      errors.push(`Digital ID is ${digitalID.status}`);
+    }
+
+    return {
+      valid: errors.length === 0,
+      digitalIdHash,
+      claims,
+      isVerified: digitalID?.status === 'verified',
+      status: digitalID?.status || null,
+      anchor: anchored ? { blockIndex: anchored.block.index, blockHash: anchored.block.hash } : null,
+      errors
+    };
+  }
+}
+
+export default SelectiveDisclosureService;
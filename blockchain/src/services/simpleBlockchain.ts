@@ -1,14 +1,52 @@
 import crypto from 'crypto';
+import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
-import DigitalID from '../models/DigitalID';
+import { createApiError } from '../middleware/errorHandler';
+import { getStorage, DigitalIDRecord } from '../repositories';
+import { sqliteChain } from '../models/SqliteChain';
+import { MerkleTree, MerkleProofStep, canonicalize } from './merkleTree';
+import { BlockHeader, hashBlockHeader, meetsDifficulty } from './proofOfWork';
+import { BlockMiner, MiningConfig, getMiningConfig } from './miner';
+import { Mempool, MempoolEntry } from './mempool';
+import { eventBus } from './eventBus';
 
-export interface Block {
-  index: number;
+export type { BlockHeader } from './proofOfWork';
+
+export type ChainRecordType = 'genesis' | 'digital_id' | 'status_change' | 'identity_claims' | 'transaction' | 'fir_revision';
+
+export interface ChainRecord {
+  type: ChainRecordType;
   timestamp: number;
-  data: any;
-  previousHash: string;
+  [key: string]: any;
+}
+
+export interface Block extends BlockHeader {
+  records: ChainRecord[];
   hash: string;
-  nonce: number;
+}
+
+// A record on the chain, or still in the mempool when blockIndex is null
+export interface LocatedRecord {
+  record: ChainRecord;
+  blockIndex: number | null;
+}
+
+export interface RecordProof {
+  record: ChainRecord;
+  leafHash: string;
+  leafIndex: number;
+  proof: MerkleProofStep[];
+  block: BlockHeader & { hash: string };
+  confirmations: number;
+}
+
+export interface MiningMetrics {
+  isMining: boolean;
+  blocksMined: number;
+  totalHashes: number;
+  lastMiningTimeMs: number | null;
+  averageMiningTimeMs: number | null;
+  lastBlockMinedAt: number | null;
 }
 
 export interface Transaction {
@@ -16,10 +54,35 @@ export interface Transaction {
   from: string;
   to: string;
   amount: number;
+  nonce: number;
   timestamp: number;
-  signature?: string;
+  signature: string;
+  status: 'pending' | 'confirmed';
+  blockIndex?: number;
 }
 
+export interface SignedTransactionRequest {
+  from: string;
+  to: string;
+  amount: number;
+  nonce: number;
+  signature: string;
+}
+
+/**
+ * Message a sender signs (EIP-191 personal_sign) to authorize a transaction
+ */
+export const buildTransactionMessage = (transaction: Omit<SignedTransactionRequest, 'signature'>): string => {
+  return `RakshaSetu transaction\n${canonicalize({
+    from: ethers.getAddress(transaction.from),
+    to: ethers.getAddress(transaction.to),
+    amount: transaction.amount,
+    nonce: transaction.nonce
+  })}`;
+};
+
+export type DigitalIDStatus = 'pending' | 'verified' | 'suspended' | 'revoked' | 'expired';
+
 export interface DigitalID {
   id: string;
   userId: string;
@@ -30,118 +93,432 @@ export interface DigitalID {
   timestamp: number;
   hash: string;
   verified: boolean;
+  status: DigitalIDStatus;
+  statusReason: string | null;
+  statusUpdatedAt: number;
+  expiresAt: number | null;
 }
 
+export interface DigitalIDStatusChange {
+  from: DigitalIDStatus;
+  to: DigitalIDStatus;
+  reason: string;
+  actor: string;
+  timestamp: number;
+  anchored: boolean;
+}
+
+// Allowed lifecycle transitions; revoked and expired are terminal
+const STATUS_TRANSITIONS: Record<DigitalIDStatus, DigitalIDStatus[]> = {
+  pending: ['verified', 'suspended', 'revoked', 'expired'],
+  verified: ['suspended', 'revoked', 'expired'],
+  suspended: ['verified', 'revoked', 'expired'],
+  revoked: [],
+  expired: []
+};
+
+// Statuses under which a scanned ID must be rejected
+const REJECTED_STATUSES: DigitalIDStatus[] = ['suspended', 'revoked', 'expired'];
+
+export const isDigitalIDValid = (digitalID: DigitalID): boolean => {
+  return !REJECTED_STATUSES.includes(digitalID.status);
+};
+
 export class SimpleBlockchain {
   private chain: Block[];
   private transactions: Transaction[];
   private digitalIDs: DigitalID[];
+  private mempool: Mempool;
+  private miner: BlockMiner;
+  private miningConfig: MiningConfig;
+  private miningJob: Promise<Block | null> | null;
+  private miningTimer: NodeJS.Timeout | null;
+  private miningMetrics: MiningMetrics;
+  private recentMiningTimes: number[];
+  private nonces: Map<string, number>;
   private difficulty: number;
 
   constructor() {
-    this.chain = [this.createGenesisBlock()];
+    this.chain = [];
     this.transactions = [];
     this.digitalIDs = [];
-    this.difficulty = 2;
-    
-    // Load existing digital IDs from MongoDB (async, don't wait)
-    this.loadDigitalIDsFromDB().catch(error => {
-      logger.warn('Failed to load digital IDs on startup:', error.message);
+    this.mempool = new Mempool();
+    this.miner = new BlockMiner();
+    this.miningConfig = getMiningConfig();
+    this.miningJob = null;
+    this.miningTimer = null;
+    this.miningMetrics = {
+      isMining: false,
+      blocksMined: 0,
+      totalHashes: 0,
+      lastMiningTimeMs: null,
+      averageMiningTimeMs: null,
+      lastBlockMinedAt: null
+    };
+    this.recentMiningTimes = [];
+    this.nonces = new Map();
+    this.difficulty = this.miningConfig.initialDifficulty;
+  }
+
+  /**
+   * Load the persisted chain from SQLite (creating the genesis block on first
+   * boot) and refuse to continue if it no longer validates.
+   */
+  public async initialize(): Promise<void> {
+    const blocks = sqliteChain.getBlocks();
+
+    if (blocks.length === 0) {
+      const genesisBlock = this.createGenesisBlock();
+      sqliteChain.saveBlock(genesisBlock);
+      this.chain = [genesisBlock];
+      logger.info('Genesis block created and persisted', { hash: genesisBlock.hash });
+    } else {
+      this.chain = blocks;
+      logger.info(`Loaded ${blocks.length} blocks from SQLite`);
+    }
+
+    this.transactions = sqliteChain.getTransactions();
+    logger.info(`Loaded ${this.transactions.length} transactions from SQLite`);
+
+    // Confirmation status comes from the chain; unsealed transactions are
+    // still waiting in the persisted mempool
+    const anchoredTransactions = new Map<string, number>();
+    this.chain.forEach(block => {
+      block.records
+        .filter(record => record.type === 'transaction')
+        .forEach(record => anchoredTransactions.set(record.transactionId, block.index));
+    });
+
+    this.nonces = new Map();
+    this.transactions.forEach(tx => {
+      const blockIndex = anchoredTransactions.get(tx.id);
+
+      if (blockIndex !== undefined) {
+        tx.status = 'confirmed';
+        tx.blockIndex = blockIndex;
+      } else {
+        tx.status = 'pending';
+      }
+
+      this.nonces.set(tx.from, Math.max(this.nonces.get(tx.from) || 0, tx.nonce + 1));
     });
+
+    if (!this.validateChain()) {
+      throw new Error('Persisted blockchain failed validation');
+    }
+
+    // Resume at the difficulty of the most recently mined block
+    const lastBlock = this.getLastBlock();
+    if (lastBlock.index > 0) {
+      this.difficulty = lastBlock.difficulty;
+    }
+
+    this.mempool.load();
+    logger.info(`Loaded ${this.mempool.size()} pending records into the mempool`);
+
+    // Load existing digital IDs from MongoDB
+    await this.loadDigitalIDsFromDB();
+    this.replayStatusHistory();
+
+    this.startMining();
+  }
+
+  /**
+   * Seal pending records on a fixed interval; a full mempool triggers mining early
+   */
+  public startMining() {
+    if (this.miningTimer) return;
+
+    this.miningTimer = setInterval(() => {
+      this.expireDigitalIDs();
+      this.mineNow().catch(error => {
+        logger.error('Scheduled mining failed', { error: error.message });
+      });
+    }, this.miningConfig.blockIntervalMs);
+    this.miningTimer.unref();
+
+    logger.info('Block mining started', {
+      blockIntervalMs: this.miningConfig.blockIntervalMs,
+      maxBlockRecords: this.miningConfig.maxBlockRecords,
+      targetBlockTimeMs: this.miningConfig.targetBlockTimeMs,
+      difficulty: this.difficulty
+    });
+  }
+
+  public async stopMining(): Promise<void> {
+    if (this.miningTimer) {
+      clearInterval(this.miningTimer);
+      this.miningTimer = null;
+    }
+
+    if (this.miningJob) {
+      await this.miningJob.catch(() => null);
+    }
+
+    await this.miner.terminate();
   }
 
   private async loadDigitalIDsFromDB() {
     try {
-      // Check if MongoDB is connected
-      const mongoose = require('mongoose');
-      if (mongoose.connection.readyState === 1) {
-        const digitalIDs = await DigitalID.find({}).sort({ createdAt: -1 });
-        
-        this.digitalIDs = digitalIDs.map(did => ({
-          id: did._id.toString(),
-          userId: did.userId,
-          name: did.name,
-          email: did.email,
-          role: did.role,
-          walletAddress: did.walletAddress,
-          timestamp: did.timestamp,
-          hash: did.hash,
-          verified: did.verified
-        }));
-        
-        logger.info(`Loaded ${this.digitalIDs.length} digital IDs from MongoDB`);
-      } else {
-        logger.info('MongoDB not connected, starting with empty digital IDs array');
-        this.digitalIDs = [];
-      }
+      const storage = getStorage();
+      const digitalIDs = await storage.digitalIDs.find({}, { sort: 'createdAt', order: 'desc' });
+
+      this.digitalIDs = digitalIDs.map(did => this.toDigitalID(did));
+
+      logger.info(`Loaded ${this.digitalIDs.length} digital IDs from ${storage.driver} storage`);
     } catch (error: any) {
-      logger.warn('Failed to load digital IDs from MongoDB:', error.message);
+      logger.warn('Failed to load digital IDs from storage:', error.message);
       this.digitalIDs = [];
     }
   }
 
-  private createGenesisBlock(): Block {
+  private toDigitalID(did: DigitalIDRecord): DigitalID {
     return {
+      id: did._id,
+      userId: did.userId,
+      name: did.name,
+      email: did.email,
+      role: did.role,
+      walletAddress: did.walletAddress,
+      timestamp: did.timestamp,
+      hash: did.hash,
+      verified: did.verified,
+      status: did.status || (did.verified ? 'verified' : 'pending'),
+      statusReason: did.statusReason || null,
+      statusUpdatedAt: did.updatedAt ? new Date(did.updatedAt).getTime() : did.timestamp,
+      expiresAt: did.expiresAt ? new Date(did.expiresAt).getTime() : null
+    };
+  }
+
+  private createGenesisBlock(): Block {
+    const timestamp = Date.now();
+    const records: ChainRecord[] = [{ type: 'genesis', timestamp, message: 'RakshaSetu Genesis Block' }];
+    const header: BlockHeader = {
       index: 0,
-      timestamp: Date.now(),
-      data: { message: 'RakshaSetu Genesis Block' },
+      timestamp,
+      merkleRoot: MerkleTree.computeRoot(records),
       previousHash: '0',
-      hash: this.calculateHash(0, Date.now(), { message: 'RakshaSetu Genesis Block' }, '0', 0),
+      difficulty: 0,
       nonce: 0
     };
+
+    return {
+      ...header,
+      records,
+      hash: hashBlockHeader(header)
+    };
   }
 
-  private calculateHash(index: number, timestamp: number, data: any, previousHash: string, nonce: number): string {
-    return crypto
-      .createHash('sha256')
-      .update(index + timestamp + JSON.stringify(data) + previousHash + nonce)
-      .digest('hex');
+  /**
+   * Queue a record in the mempool to be sealed into the next block
+   */
+  public submitRecord(record: ChainRecord): MempoolEntry {
+    const entry = this.mempool.add(record);
+
+    if (this.mempool.size() >= this.miningConfig.maxBlockRecords) {
+      this.mineNow().catch(error => {
+        logger.error('Mining on full mempool failed', { error: error.message });
+      });
+    }
+
+    return entry;
   }
 
-  private mineBlock(block: Block): Block {
-    const target = '0'.repeat(this.difficulty);
-    
-    while (block.hash.substring(0, this.difficulty) !== target) {
-      block.nonce++;
-      block.hash = this.calculateHash(block.index, block.timestamp, block.data, block.previousHash, block.nonce);
+  /**
+   * Mine a block from the mempool now. Only one block is mined at a time; a
+   * call made while mining waits for that block and then mines again.
+   */
+  public mineNow(): Promise<Block | null> {
+    if (this.miningJob) {
+      return this.miningJob.catch(() => null).then(() => this.mineNow());
     }
-    
-    return block;
+
+    if (this.mempool.size() === 0) {
+      return Promise.resolve(null);
+    }
+
+    this.miningJob = this.sealBlock().finally(() => {
+      this.miningJob = null;
+      this.miningMetrics.isMining = false;
+
+      if (this.mempool.size() >= this.miningConfig.maxBlockRecords) {
+        this.mineNow().catch(error => {
+          logger.error('Mining on full mempool failed', { error: error.message });
+        });
+      }
+    });
+
+    return this.miningJob;
   }
 
-  public addBlock(data: any): Block {
-    const previousBlock = this.chain[this.chain.length - 1];
-    const newBlock: Block = {
+  private async sealBlock(): Promise<Block> {
+    const entries = this.mempool.take(this.miningConfig.maxBlockRecords);
+    const records = entries.map(entry => entry.record);
+    const previousBlock = this.getLastBlock();
+    const header: Omit<BlockHeader, 'nonce'> = {
       index: previousBlock.index + 1,
       timestamp: Date.now(),
-      data,
+      merkleRoot: MerkleTree.computeRoot(records),
       previousHash: previousBlock.hash,
-      hash: '',
-      nonce: 0
+      difficulty: this.difficulty
     };
 
-    newBlock.hash = this.calculateHash(newBlock.index, newBlock.timestamp, newBlock.data, newBlock.previousHash, newBlock.nonce);
-    const minedBlock = this.mineBlock(newBlock);
-    
-    this.chain.push(minedBlock);
-    
-    logger.info('New block mined', { 
-      index: minedBlock.index, 
-      hash: minedBlock.hash,
-      nonce: minedBlock.nonce 
-    });
-    
-    return minedBlock;
+    this.miningMetrics.isMining = true;
+
+    try {
+      const result = await this.miner.mine(header);
+      const minedBlock: Block = {
+        ...header,
+        nonce: result.nonce,
+        records,
+        hash: result.hash
+      };
+
+      sqliteChain.saveBlock(minedBlock, entries.map(entry => entry.id));
+      this.chain.push(minedBlock);
+      this.mempool.commit();
+      this.confirmTransactions(minedBlock);
+      this.recordMiningResult(result.durationMs, result.hashes);
+
+      logger.info('New block mined', {
+        index: minedBlock.index,
+        hash: minedBlock.hash,
+        nonce: minedBlock.nonce,
+        difficulty: minedBlock.difficulty,
+        records: minedBlock.records.length,
+        merkleRoot: minedBlock.merkleRoot,
+        miningTimeMs: result.durationMs
+      });
+
+      eventBus.publish('blocks', 'mined', {
+        index: minedBlock.index,
+        hash: minedBlock.hash,
+        timestamp: minedBlock.timestamp,
+        difficulty: minedBlock.difficulty,
+        records: minedBlock.records.length
+      });
+
+      return minedBlock;
+    } catch (error: any) {
+      this.mempool.restore();
+      logger.error('Failed to mine block', { error: error.message, records: records.length });
+      throw error;
+    }
+  }
+
+  private recordMiningResult(durationMs: number, hashes: number) {
+    const metrics = this.miningMetrics;
+    metrics.blocksMined++;
+    metrics.totalHashes += hashes;
+    metrics.lastMiningTimeMs = durationMs;
+    metrics.lastBlockMinedAt = Date.now();
+    metrics.averageMiningTimeMs = metrics.averageMiningTimeMs === null
+      ? durationMs
+      : Math.round((metrics.averageMiningTimeMs * (metrics.blocksMined - 1) + durationMs) / metrics.blocksMined);
+
+    this.recentMiningTimes.push(durationMs);
+    if (this.recentMiningTimes.length >= this.miningConfig.retargetWindow) {
+      this.retargetDifficulty();
+    }
   }
 
-  public addTransaction(transaction: Omit<Transaction, 'id' | 'timestamp'>): Transaction {
+  /**
+   * Move difficulty one step towards the target block time once per window
+   */
+  private retargetDifficulty() {
+    const { targetBlockTimeMs, minDifficulty, maxDifficulty } = this.miningConfig;
+    const average = this.recentMiningTimes.reduce((sum, time) => sum + time, 0) / this.recentMiningTimes.length;
+    const previousDifficulty = this.difficulty;
+
+    if (average < targetBlockTimeMs / 2 && this.difficulty < maxDifficulty) {
+      this.difficulty++;
+    } else if (average > targetBlockTimeMs * 2 && this.difficulty > minDifficulty) {
+      this.difficulty--;
+    }
+
+    this.recentMiningTimes = [];
+
+    if (this.difficulty !== previousDifficulty) {
+      logger.info('Mining difficulty adjusted', {
+        from: previousDifficulty,
+        to: this.difficulty,
+        averageMiningTimeMs: Math.round(average),
+        targetBlockTimeMs
+      });
+    }
+  }
+
+  private confirmTransactions(block: Block) {
+    const transactionIds = new Set(
+      block.records
+        .filter(record => record.type === 'transaction')
+        .map(record => record.transactionId)
+    );
+
+    this.transactions
+      .filter(tx => transactionIds.has(tx.id))
+      .forEach(tx => {
+        tx.status = 'confirmed';
+        tx.blockIndex = block.index;
+      });
+  }
+
+  /**
+   * Next nonce expected from an address
+   */
+  public getNextNonce(address: string): number {
+    return this.nonces.get(ethers.getAddress(address)) || 0;
+  }
+
+  /**
+   * Verify the sender's signature and nonce, then add the transaction to the
+   * pending pool. It is confirmed once it is sealed into a block.
+   */
+  public addTransaction(request: SignedTransactionRequest): Transaction {
+    if (!ethers.isAddress(request.from) || !ethers.isAddress(request.to)) {
+      throw createApiError('Invalid sender or recipient address', 400);
+    }
+
+    if (!Number.isFinite(request.amount) || request.amount <= 0) {
+      throw createApiError('Amount must be a positive number', 400);
+    }
+
+    const from = ethers.getAddress(request.from);
+    const to = ethers.getAddress(request.to);
+    const expectedNonce = this.getNextNonce(from);
+
+    if (!Number.isInteger(request.nonce) || request.nonce !== expectedNonce) {
+      throw createApiError(`Invalid nonce: expected ${expectedNonce}`, 409);
+    }
+
+    let signer: string;
+    try {
+      signer = ethers.verifyMessage(buildTransactionMessage(request), request.signature);
+    } catch (error: any) {
+      throw createApiError('Malformed transaction signature', 400);
+    }
+
+    if (signer !== from) {
+      throw createApiError('Transaction signature does not match sender', 401);
+    }
+
     const newTransaction: Transaction = {
       id: crypto.randomUUID(),
+      from,
+      to,
+      amount: request.amount,
+      nonce: request.nonce,
       timestamp: Date.now(),
-      ...transaction
+      signature: request.signature,
+      status: 'pending'
     };
 
+    sqliteChain.saveTransaction(newTransaction);
     this.transactions.push(newTransaction);
+    this.nonces.set(from, request.nonce + 1);
+
+    // Transactions are batched into the next sealed block
+    this.submitRecord(this.createTransactionRecord(newTransaction));
     
     logger.info('Transaction added', { 
       id: newTransaction.id,
@@ -153,12 +530,26 @@ export class SimpleBlockchain {
     return newTransaction;
   }
 
+  private createTransactionRecord(transaction: Transaction): ChainRecord {
+    return {
+      type: 'transaction',
+      timestamp: transaction.timestamp,
+      transactionId: transaction.id,
+      from: transaction.from,
+      to: transaction.to,
+      amount: transaction.amount,
+      nonce: transaction.nonce,
+      signature: transaction.signature
+    };
+  }
+
   public async createDigitalID(userData: {
     userId: string;
     name: string;
     email: string;
     role: string;
     walletAddress: string;
+    expiresAt?: number | null;
     additionalData?: any;
   }): Promise<DigitalID> {
     try {
@@ -175,92 +566,200 @@ export class SimpleBlockchain {
         }))
         .digest('hex');
 
-      // Check if MongoDB is connected and save accordingly
-      const mongoose = require('mongoose');
-      let digitalID;
-      
-      if (mongoose.connection.readyState === 1) {
-        // Save to MongoDB
-        digitalID = await DigitalID.create({
-          userId: userData.userId,
-          name: userData.name,
-          email: userData.email,
-          role: userData.role,
-          walletAddress: userData.walletAddress,
-          timestamp: Date.now(),
-          hash: hash,
-          verified: false,
-          additionalData: userData.additionalData || {}
-        });
-      } else {
-        // Create in-memory digital ID
-        digitalID = {
-          _id: crypto.randomUUID(),
-          userId: userData.userId,
-          name: userData.name,
-          email: userData.email,
-          role: userData.role,
-          walletAddress: userData.walletAddress,
-          timestamp: Date.now(),
-          hash: hash,
-          verified: false,
-          additionalData: userData.additionalData || {}
-        };
-      }
+      const record = await getStorage().digitalIDs.create({
+        userId: userData.userId,
+        name: userData.name,
+        email: userData.email,
+        role: userData.role,
+        walletAddress: userData.walletAddress,
+        timestamp: Date.now(),
+        hash: hash,
+        verified: false,
+        status: 'pending',
+        statusReason: null,
+        expiresAt: userData.expiresAt ? new Date(userData.expiresAt) : null,
+        additionalData: userData.additionalData || {}
+      });
+
+      const newDigitalID = this.toDigitalID(record);
 
       // Add to in-memory array for blockchain
-      this.digitalIDs.push({
-        id: digitalID._id.toString(),
-        userId: digitalID.userId,
-        name: digitalID.name,
-        email: digitalID.email,
-        role: digitalID.role,
-        walletAddress: digitalID.walletAddress,
-        timestamp: digitalID.timestamp,
-        hash: digitalID.hash,
-        verified: digitalID.verified
-      });
+      this.digitalIDs.push(newDigitalID);
       
-      // Add to blockchain
-      this.addBlock({
+      // Queue for anchoring on the blockchain; the expiry is anchored with it
+      // so offline verifiers can enforce it too
+      this.submitRecord({
         type: 'digital_id',
-        digitalID: digitalID._id.toString(),
-        hash: digitalID.hash,
-        verified: digitalID.verified
+        timestamp: newDigitalID.timestamp,
+        digitalIdHash: newDigitalID.hash,
+        walletAddress: newDigitalID.walletAddress,
+        role: newDigitalID.role,
+        expiresAt: newDigitalID.expiresAt
       });
       
-      logger.info('Digital ID created and saved to MongoDB', { 
-        id: digitalID._id,
-        userId: digitalID.userId,
-        hash: digitalID.hash
+      logger.info('Digital ID created and saved', { 
+        id: newDigitalID.id,
+        userId: newDigitalID.userId,
+        hash: newDigitalID.hash
       });
+      eventBus.publish('digital-ids', 'created', newDigitalID, newDigitalID.userId);
       
-      return {
-        id: digitalID._id.toString(),
-        userId: digitalID.userId,
-        name: digitalID.name,
-        email: digitalID.email,
-        role: digitalID.role,
-        walletAddress: digitalID.walletAddress,
-        timestamp: digitalID.timestamp,
-        hash: digitalID.hash,
-        verified: digitalID.verified
-      };
+      return newDigitalID;
     } catch (error: any) {
       logger.error('Failed to create digital ID:', error);
       throw new Error('Failed to create digital ID');
     }
   }
 
-  public verifyDigitalID(digitalIDHash: string): DigitalID | null {
-    const digitalID = this.digitalIDs.find(id => id.hash === digitalIDHash);
-    
-    if (digitalID) {
-      digitalID.verified = true;
-      logger.info('Digital ID verified', { id: digitalID.id, hash: digitalIDHash });
+  /**
+   * Verify a pending digital ID. Suspended IDs are only brought back through
+   * reinstatement, and revoked or expired ones never are.
+   */
+  public verifyDigitalID(digitalIDHash: string, actor: string): DigitalID | null {
+    const digitalID = this.getDigitalIDByHash(digitalIDHash);
+
+    if (!digitalID || digitalID.status === 'verified') {
+      return digitalID;
     }
-    
-    return digitalID || null;
+
+    if (digitalID.status !== 'pending') {
+      throw createApiError(`Only pending digital IDs can be verified; this one is ${digitalID.status}`, 409);
+    }
+
+    this.transitionDigitalID(digitalIDHash, 'verified', 'Identity verified', actor);
+    logger.info('Digital ID verified', { id: digitalID.id, hash: digitalIDHash });
+
+    return digitalID;
+  }
+
+  /**
+   * Move a digital ID to a new lifecycle status. Every transition is anchored
+   * as its own status_change record so the current status can be proven.
+   */
+  public transitionDigitalID(hash: string, to: DigitalIDStatus, reason: string, actor: string): DigitalID {
+    const digitalID = this.digitalIDs.find(did => did.hash === hash);
+
+    if (!digitalID) {
+      throw createApiError('Digital ID not found', 404);
+    }
+
+    if (to !== 'expired') {
+      this.refreshExpiry(digitalID);
+    }
+
+    const from = digitalID.status;
+    if (!STATUS_TRANSITIONS[from].includes(to)) {
+      throw createApiError(
+        `Cannot change digital ID from ${from} to ${to}${digitalID.statusReason ? ` (${digitalID.statusReason})` : ''}`,
+        409
+      );
+    }
+
+    const timestamp = Date.now();
+    this.applyStatus(digitalID, to, reason, timestamp);
+
+    this.submitRecord({
+      type: 'status_change',
+      timestamp,
+      digitalIdHash: hash,
+      from,
+      to,
+      reason,
+      actor
+    });
+
+    this.persistStatus(digitalID);
+
+    // Revocations and suspensions should not wait for the block interval
+    if (to === 'revoked' || to === 'suspended') {
+      this.mineNow().catch(error => {
+        logger.error('Failed to mine status change', { error: error.message, hash });
+      });
+    }
+
+    logger.info('Digital ID status changed', { id: digitalID.id, hash, from, to, reason, actor });
+    eventBus.publish('digital-ids', 'status_changed', { ...digitalID, from }, digitalID.userId);
+
+    return digitalID;
+  }
+
+  private applyStatus(digitalID: DigitalID, status: DigitalIDStatus, reason: string | null, timestamp: number) {
+    digitalID.status = status;
+    digitalID.statusReason = reason;
+    digitalID.statusUpdatedAt = timestamp;
+    digitalID.verified = status === 'verified';
+  }
+
+  private persistStatus(digitalID: DigitalID) {
+    getStorage().digitalIDs.update(digitalID.id, {
+      status: digitalID.status,
+      statusReason: digitalID.statusReason,
+      verified: digitalID.verified
+    }).catch((error: any) => {
+      logger.warn('Failed to persist digital ID status', { error: error.message, hash: digitalID.hash });
+    });
+  }
+
+  /**
+   * Expire an ID whose trip has ended, unless it is already in a terminal status
+   */
+  private refreshExpiry(digitalID: DigitalID) {
+    if (digitalID.expiresAt && Date.now() >= digitalID.expiresAt && STATUS_TRANSITIONS[digitalID.status].includes('expired')) {
+      this.transitionDigitalID(digitalID.hash, 'expired', 'Trip ended', 'system');
+    }
+  }
+
+  private expireDigitalIDs() {
+    this.digitalIDs.forEach(digitalID => this.refreshExpiry(digitalID));
+  }
+
+  /**
+   * Rebuild current statuses from the anchored (and pending) status changes
+   */
+  private replayStatusHistory() {
+    const records = [
+      ...this.chain.flatMap(block => block.records),
+      ...this.mempool.getEntries().map(entry => entry.record)
+    ];
+
+    records.forEach(record => {
+      const digitalID = this.digitalIDs.find(did => did.hash === record.digitalIdHash);
+      if (!digitalID) return;
+
+      if (record.type === 'digital_id' && record.expiresAt && !digitalID.expiresAt) {
+        digitalID.expiresAt = record.expiresAt;
+      } else if (record.type === 'status_change') {
+        this.applyStatus(digitalID, record.to, record.reason, record.timestamp);
+      }
+    });
+  }
+
+  public getDigitalIDStatusHistory(hash: string): DigitalIDStatusChange[] {
+    return this.findRecords(record => record.type === 'status_change' && record.digitalIdHash === hash)
+      .map(({ record, blockIndex }) => ({
+        from: record.from,
+        to: record.to,
+        reason: record.reason,
+        actor: record.actor,
+        timestamp: record.timestamp,
+        anchored: blockIndex !== null
+      }));
+  }
+
+  /**
+   * Every record matching the predicate in chain order, followed by matching
+   * records still waiting to be mined
+   */
+  public findRecords(predicate: (record: ChainRecord) => boolean): LocatedRecord[] {
+    return [
+      ...this.chain.flatMap(block => block.records
+        .filter(predicate)
+        .map(record => ({ record, blockIndex: block.index }))),
+      ...[...this.mempool.getInFlight(), ...this.mempool.getEntries()]
+        .map(entry => entry.record)
+        .filter(predicate)
+        .map(record => ({ record, blockIndex: null }))
+    ];
   }
 
   public getChain(): Block[] {
@@ -271,6 +770,10 @@ export class SimpleBlockchain {
     return this.transactions;
   }
 
+  public getPendingTransactions(): Transaction[] {
+    return this.transactions.filter(tx => tx.status === 'pending');
+  }
+
   public getDigitalIDs(): DigitalID[] {
     return this.digitalIDs;
   }
@@ -288,40 +791,148 @@ export class SimpleBlockchain {
   }
 
   public getDigitalIDById(id: string): DigitalID | null {
-    return this.digitalIDs.find(did => did.id === id) || null;
+    const digitalID = this.digitalIDs.find(did => did.id === id) || null;
+    if (digitalID) this.refreshExpiry(digitalID);
+    return digitalID;
   }
 
   public getDigitalIDByHash(hash: string): DigitalID | null {
-    return this.digitalIDs.find(did => did.hash === hash) || null;
+    const digitalID = this.digitalIDs.find(did => did.hash === hash) || null;
+    if (digitalID) this.refreshExpiry(digitalID);
+    return digitalID;
+  }
+
+  /**
+   * Most recent digital ID issued to a wallet or user
+   */
+  public findLatestDigitalID(walletAddress?: string, userId?: string): DigitalID | null {
+    const matches = this.digitalIDs
+      .filter(did => (walletAddress && did.walletAddress.toLowerCase() === walletAddress.toLowerCase()) ||
+        (userId && did.userId === userId))
+      .sort((a, b) => b.timestamp - a.timestamp);
+
+    if (matches.length === 0) return null;
+
+    this.refreshExpiry(matches[0]);
+    return matches[0];
+  }
+
+  /**
+   * Build a Merkle inclusion proof for the most recent record matching the predicate
+   */
+  public getRecordProof(predicate: (record: ChainRecord) => boolean): RecordProof | null {
+    for (let i = this.chain.length - 1; i >= 0; i--) {
+      const block = this.chain[i];
+      let leafIndex = block.records.length - 1;
+
+      while (leafIndex >= 0 && !predicate(block.records[leafIndex])) {
+        leafIndex--;
+      }
+
+      if (leafIndex === -1) {
+        continue;
+      }
+
+      const tree = new MerkleTree(block.records.map(record => MerkleTree.hashLeaf(record)));
+
+      return {
+        record: block.records[leafIndex],
+        leafHash: MerkleTree.hashLeaf(block.records[leafIndex]),
+        leafIndex,
+        proof: tree.getProof(leafIndex),
+        block: {
+          index: block.index,
+          timestamp: block.timestamp,
+          merkleRoot: block.merkleRoot,
+          previousHash: block.previousHash,
+          difficulty: block.difficulty,
+          nonce: block.nonce,
+          hash: block.hash
+        },
+        confirmations: this.chain.length - 1 - block.index
+      };
+    }
+
+    return null;
+  }
+
+  public getDigitalIDProof(hash: string): { anchor: RecordProof; latestStatus: RecordProof | null } | null {
+    const anchor = this.getRecordProof(record => record.type === 'digital_id' && record.digitalIdHash === hash);
+
+    if (!anchor) {
+      return null;
+    }
+
+    return {
+      anchor,
+      latestStatus: this.getRecordProof(record => record.type === 'status_change' && record.digitalIdHash === hash)
+    };
+  }
+
+  /**
+   * Whether a record matching the predicate is still waiting to be mined
+   */
+  public isRecordPending(predicate: (record: ChainRecord) => boolean): boolean {
+    return this.mempool.find(predicate) !== null;
+  }
+
+  public getMempool() {
+    return {
+      pending: this.mempool.getEntries(),
+      mining: this.mempool.getInFlight(),
+      size: this.mempool.size(),
+      oldestAgeMs: this.mempool.oldestAgeMs(),
+      maxBlockRecords: this.miningConfig.maxBlockRecords,
+      blockIntervalMs: this.miningConfig.blockIntervalMs
+    };
   }
 
   public getStats() {
     return {
       chainLength: this.chain.length,
       totalTransactions: this.transactions.length,
+      pendingTransactions: this.getPendingTransactions().length,
       totalDigitalIDs: this.digitalIDs.length,
       verifiedDigitalIDs: this.digitalIDs.filter(id => id.verified).length,
+      revokedDigitalIDs: this.digitalIDs.filter(id => id.status === 'revoked').length,
+      expiredDigitalIDs: this.digitalIDs.filter(id => id.status === 'expired').length,
+      mempoolSize: this.mempool.size(),
       lastBlock: this.getLastBlock(),
-      difficulty: this.difficulty
+      difficulty: this.difficulty,
+      mining: {
+        ...this.miningMetrics,
+        targetBlockTimeMs: this.miningConfig.targetBlockTimeMs,
+        blockIntervalMs: this.miningConfig.blockIntervalMs,
+        maxBlockRecords: this.miningConfig.maxBlockRecords
+      }
     };
   }
 
   public validateChain(): boolean {
-    for (let i = 1; i < this.chain.length; i++) {
+    if (this.chain.length === 0) {
+      return false;
+    }
+
+    for (let i = 0; i < this.chain.length; i++) {
       const currentBlock = this.chain[i];
-      const previousBlock = this.chain[i - 1];
 
-      // Check if current block hash is valid
-      if (currentBlock.hash !== this.calculateHash(
-        currentBlock.index,
-        currentBlock.timestamp,
-        currentBlock.data,
-        currentBlock.previousHash,
-        currentBlock.nonce
-      )) {
+      // Check that the records still match the committed Merkle root
+      if (currentBlock.merkleRoot !== MerkleTree.computeRoot(currentBlock.records)) {
         return false;
       }
 
+      // Check if current block hash is valid and carries its proof-of-work
+      if (currentBlock.hash !== hashBlockHeader(currentBlock) ||
+          !meetsDifficulty(currentBlock.hash, currentBlock.difficulty)) {
+        return false;
+      }
+
+      if (i === 0) {
+        continue;
+      }
+
+      const previousBlock = this.chain[i - 1];
+
       // Check if current block points to previous block
       if (currentBlock.previousHash !== previousBlock.hash) {
         return false;
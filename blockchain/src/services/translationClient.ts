@@ -0,0 +1,44 @@
+import axios from 'axios';
+import { logger } from '../utils/logger';
+
+const LANGUAGE_API_URL = process.env.LANGUAGE_API_URL || 'http://localhost:3001/api/language';
+const TRANSLATION_TIMEOUT_MS = parseInt(process.env.TRANSLATION_TIMEOUT_MS || '15000', 10);
+
+/**
+ * Client for the language backend's translationService, which wraps Google
+ * Translate or LibreTranslate
+ */
+export class TranslationClient {
+  /**
+   * Translate English texts in one batch, keeping their order. Throws when
+   * the language backend is unavailable so callers can fall back to English.
+   */
+  async translate(texts: string[], targetLanguage: string): Promise<string[]> {
+    if (targetLanguage === 'en' || texts.length === 0) {
+      return texts;
+    }
+
+    // Blank strings are rejected by the backend, so only real text is sent
+    const indexes = texts.map((text, i) => (text.trim() ? i : -1)).filter(i => i !== -1);
+
+    try {
+      const response = await axios.post(`${LANGUAGE_API_URL}/translate/batch`, {
+        translations: indexes.map(i => ({ text: texts[i], sourceLanguage: 'en', targetLanguage }))
+      }, { timeout: TRANSLATION_TIMEOUT_MS });
+
+      const translated: { translatedText: string }[] = response.data.data;
+      const result = [...texts];
+      indexes.forEach((textIndex, i) => {
+        result[textIndex] = translated[i]?.translatedText || texts[textIndex];
+      });
+
+      return result;
+    } catch (error: any) {
+      logger.warn('Translation failed', { targetLanguage, error: error.response?.data?.error || error.message });
+      throw new Error('Translation service unavailable');
+    }
+  }
+}
+
+export const translationClient = new TranslationClient();
+export default translationClient;
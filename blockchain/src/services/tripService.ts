@@ -0,0 +1,287 @@
+import crypto from 'crypto';
+import { createApiError } from '../middleware/errorHandler';
+import {
+  GeoPoint,
+  getStorage,
+  LocationPrecision,
+  TripDestination,
+  TripRecord,
+  TripStatus,
+  UserRecord
+} from '../repositories';
+import { logger } from '../utils/logger';
+import { advisoryService } from './advisoryService';
+import { eventBus } from './eventBus';
+import { distanceMeters } from './geofenceService';
+
+export type DestinationInput = Omit<TripDestination, 'id' | 'status' | 'completedAt' | 'warnings'> & { id?: string };
+
+export interface TripInput {
+  title: string;
+  description?: string;
+  startDate: Date;
+  endDate: Date;
+  destinations: DestinationInput[];
+  members?: string[];
+}
+
+// A destination with coordinates, usable for distance checks
+export type MappedDestination = TripDestination & GeoPoint;
+
+// Status a trip may move to from each status; anything else is a 409
+const TRANSITIONS: Record<TripStatus, TripStatus[]> = {
+  planned: ['active', 'cancelled'],
+  active: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: []
+};
+
+const OPEN_STATUSES: TripStatus[] = ['planned', 'active'];
+
+const ARRIVAL_RADIUS_METERS = parseInt(process.env.TRIP_ARRIVAL_RADIUS_METERS || '250', 10);
+// Coarse pings are rounded to about a kilometre, so allow for that
+const COARSE_ARRIVAL_RADIUS_METERS = 1000;
+const STATUS_CHECK_INTERVAL_MS = parseInt(process.env.TRIP_STATUS_CHECK_MS || '60000', 10);
+
+export const mappedDestinations = (trip: TripRecord | null | undefined): MappedDestination[] =>
+  (trip?.destinations || []).filter((destination): destination is MappedDestination =>
+    Number.isFinite(destination.lat) && Number.isFinite(destination.lng));
+
+/**
+ * Trips and itineraries planned in the tourist app. Trips start and finish on
+ * their dates without anyone touching them, and destinations are ticked off
+ * when the tourist's location pings pass within ARRIVAL_RADIUS of them. The
+ * end of the current trip is also when the tourist's digital ID expires.
+ * Upcoming stops carry warnings from the advisory service.
+ */
+export class TripService {
+  private statusTimer: NodeJS.Timeout | null = null;
+
+  async listTrips(userId: string, status?: TripStatus): Promise<TripRecord[]> {
+    return getStorage().trips.find(
+      { userId, ...(status ? { status } : {}) },
+      { sort: 'startDate', order: 'asc' }
+    );
+  }
+
+  /**
+   * Tourists may only see their own trips; staff may see anyone's
+   */
+  async getTrip(id: string, viewer: UserRecord): Promise<TripRecord> {
+    const trip = await getStorage().trips.findById(id);
+
+    if (!trip || (viewer.role === 'tourist' && trip.userId !== viewer._id)) {
+      throw createApiError('Trip not found', 404);
+    }
+
+    return trip;
+  }
+
+  async createTrip(user: UserRecord, input: TripInput, now: Date = new Date()): Promise<TripRecord> {
+    const destinations = await advisoryService.annotate({
+      userId: user._id,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      destinations: this.mergeDestinations([], input.destinations)
+    }, now);
+
+    const trip = await getStorage().trips.create({
+      userId: user._id,
+      title: input.title,
+      description: input.description || '',
+      status: input.startDate.getTime() <= now.getTime() ? 'active' : 'planned',
+      startDate: input.startDate,
+      endDate: input.endDate,
+      destinations,
+      members: input.members || []
+    });
+
+    logger.info('Trip created', { tripId: trip._id, userId: user._id, destinations: trip.destinations.length });
+    eventBus.publish('trips', 'trip_created', trip, user._id);
+
+    return trip;
+  }
+
+  async updateTrip(id: string, user: UserRecord, updates: Partial<TripInput>): Promise<TripRecord> {
+    const trip = await this.getOwnTrip(id, user);
+
+    if (!OPEN_STATUSES.includes(trip.status)) {
+      throw createApiError(`Cannot edit a ${trip.status} trip`, 409);
+    }
+
+    const startDate = updates.startDate || trip.startDate;
+    const endDate = updates.endDate || trip.endDate;
+    if (endDate.getTime() < startDate.getTime()) {
+      throw createApiError('endDate must not be before startDate', 400);
+    }
+
+    // New stops, times or dates all move the warnings, so they are always redone
+    const { destinations, ...fields } = updates;
+    const updated = await getStorage().trips.update(id, {
+      ...fields,
+      destinations: await advisoryService.annotate({
+        userId: trip.userId,
+        startDate,
+        endDate,
+        destinations: destinations ? this.mergeDestinations(trip.destinations, destinations) : trip.destinations
+      })
+    });
+
+    eventBus.publish('trips', 'trip_updated', updated, user._id);
+    return updated!;
+  }
+
+  async deleteTrip(id: string, user: UserRecord): Promise<void> {
+    await this.getOwnTrip(id, user);
+    await getStorage().trips.delete(id);
+
+    eventBus.publish('trips', 'trip_deleted', { _id: id, userId: user._id }, user._id);
+  }
+
+  async setStatus(id: string, user: UserRecord, status: TripStatus): Promise<TripRecord> {
+    const trip = await this.getOwnTrip(id, user);
+    return this.transition(trip, status);
+  }
+
+  /**
+   * The trip the tourist is on: an active trip covering the moment, else any active trip
+   */
+  async getCurrentTrip(userId: string, at: Date = new Date()): Promise<TripRecord | null> {
+    const trips = await getStorage().trips.find({ userId, status: 'active' }, { sort: 'startDate', order: 'asc' });
+
+    return trips.find(trip => trip.startDate.getTime() <= at.getTime() && trip.endDate.getTime() >= at.getTime())
+      || trips[0]
+      || null;
+  }
+
+  /**
+   * When the tourist's digital ID should expire: the end of their current
+   * trip, or of the next planned one
+   */
+  async getIdExpiry(userId: string, now: Date = new Date()): Promise<Date | null> {
+    const current = await this.getCurrentTrip(userId, now);
+    if (current) return current.endDate;
+
+    const [next] = (await this.listTrips(userId, 'planned'))
+      .filter(trip => trip.endDate.getTime() > now.getTime());
+
+    return next ? next.endDate : null;
+  }
+
+  /**
+   * Tick off destinations on the current trip that a location ping passes through
+   */
+  async recordVisit(user: UserRecord, point: GeoPoint, precision: LocationPrecision, at: Date = new Date()): Promise<TripDestination[]> {
+    const trip = await this.getCurrentTrip(user._id, at);
+    if (!trip) return [];
+
+    const radius = precision === 'coarse' ? Math.max(ARRIVAL_RADIUS_METERS, COARSE_ARRIVAL_RADIUS_METERS) : ARRIVAL_RADIUS_METERS;
+    const reached = mappedDestinations(trip)
+      .filter(destination => destination.status !== 'completed' && distanceMeters(destination, point) <= radius);
+
+    if (reached.length === 0) return [];
+
+    const completedAt = at.toISOString();
+    const reachedIds = reached.map(destination => destination.id);
+    const destinations = trip.destinations.map(destination => reachedIds.includes(destination.id)
+      ? { ...destination, status: 'completed' as const, completedAt }
+      : destination);
+
+    const updated = await getStorage().trips.update(trip._id, { destinations });
+    logger.info('Trip destinations reached', { tripId: trip._id, userId: user._id, destinations: reachedIds });
+    eventBus.publish('trips', 'destination_completed', updated, user._id);
+
+    return destinations.filter(destination => reachedIds.includes(destination.id));
+  }
+
+  /**
+   * Start trips whose start date has come and complete those that have ended
+   */
+  async refreshStatuses(now: Date = new Date()): Promise<number> {
+    let changed = 0;
+
+    for (const status of OPEN_STATUSES) {
+      const trips = await getStorage().trips.find({ status });
+
+      for (let trip of trips) {
+        // A trip that ended while nobody was checking still starts first
+        if (trip.status === 'planned' && trip.startDate.getTime() <= now.getTime()) {
+          trip = await this.transition(trip, 'active');
+          changed++;
+        }
+        if (trip.status === 'active' && trip.endDate.getTime() < now.getTime()) {
+          await this.transition(trip, 'completed');
+          changed++;
+        }
+      }
+    }
+
+    return changed;
+  }
+
+  public startMonitoring() {
+    if (this.statusTimer) return;
+
+    this.statusTimer = setInterval(() => {
+      this.refreshStatuses().catch(error => {
+        logger.error('Trip status refresh failed', { error: error.message });
+      });
+    }, STATUS_CHECK_INTERVAL_MS);
+    this.statusTimer.unref();
+
+    logger.info('Trip status checks started', { intervalMs: STATUS_CHECK_INTERVAL_MS });
+  }
+
+  public stopMonitoring() {
+    if (this.statusTimer) {
+      clearInterval(this.statusTimer);
+      this.statusTimer = null;
+    }
+  }
+
+  private async getOwnTrip(id: string, user: UserRecord): Promise<TripRecord> {
+    const trip = await getStorage().trips.findById(id);
+
+    if (!trip || trip.userId !== user._id) {
+      throw createApiError('Trip not found', 404);
+    }
+
+    return trip;
+  }
+
+  private async transition(trip: TripRecord, status: TripStatus): Promise<TripRecord> {
+    if (!TRANSITIONS[trip.status].includes(status)) {
+      throw createApiError(`Cannot move trip from ${trip.status} to ${status}`, 409);
+    }
+
+    const updated = await getStorage().trips.update(trip._id, { status });
+    logger.info('Trip status changed', { tripId: trip._id, from: trip.status, to: status });
+    eventBus.publish('trips', 'status_changed', { ...updated, from: trip.status }, trip.userId);
+
+    return updated!;
+  }
+
+  /**
+   * Keep the progress of destinations that are being resubmitted by ID
+   */
+  private mergeDestinations(existing: TripDestination[], inputs: DestinationInput[]): TripDestination[] {
+    return inputs.map(input => {
+      const previous = input.id ? existing.find(destination => destination.id === input.id) : undefined;
+
+      return {
+        id: previous?.id || crypto.randomUUID(),
+        name: input.name,
+        time: input.time,
+        notes: input.notes || '',
+        lat: input.lat ?? null,
+        lng: input.lng ?? null,
+        status: previous?.status || 'upcoming',
+        completedAt: previous?.completedAt || null,
+        warnings: previous?.warnings || []
+      };
+    });
+  }
+}
+
+export const tripService = new TripService();
+export default tripService;
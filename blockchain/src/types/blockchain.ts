@@ -87,6 +87,51 @@ export interface BlockchainStats {
   contractAddress: string;
 }
 
+export interface DataIntegrityProof {
+  type: 'DataIntegrityProof';
+  cryptosuite: 'ecdsa-jcs-2019';
+  created: string;
+  verificationMethod: string;
+  proofPurpose: 'assertionMethod';
+  proofValue: string;
+}
+
+export interface TouristCredentialSubject {
+  id: string; // did:ethr of the tourist's wallet
+  name: string;
+  role: string;
+  walletAddress: string;
+  digitalIdHash: string;
+  nationality?: string;
+}
+
+export interface VerifiableCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: { id: string; name: string };
+  validFrom: string;
+  validUntil?: string;
+  credentialSubject: TouristCredentialSubject;
+  credentialStatus: {
+    id: string;
+    type: 'RakshaSetuDigitalIDStatus';
+  };
+  proof?: DataIntegrityProof;
+}
+
+export interface CredentialVerification {
+  valid: boolean;
+  checks: {
+    signature: boolean;
+    issuer: boolean;
+    expiry: boolean;
+    revocation: boolean;
+  };
+  errors: string[];
+  status?: string;
+}
+
 export interface DigitalIDContract {
   createIdentity(
     name: string,
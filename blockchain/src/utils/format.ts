@@ -0,0 +1,6 @@
+import { GeoPoint } from '../repositories';
+
+export const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Five decimal places, about a metre
+export const formatPoint = (point: GeoPoint) => `${point.lat.toFixed(5)}, ${point.lng.toFixed(5)}`;
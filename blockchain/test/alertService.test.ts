@@ -0,0 +1,87 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { getStorage, initializeStorage, UserRecord } from '../src/repositories';
+import { alertService } from '../src/services/alertService';
+
+jest.mock('../src/utils/logger');
+
+const tourist = { _id: 'tourist', name: 'Asha', email: 'asha@example.com', role: 'tourist', isActive: true } as UserRecord;
+const officer = { _id: 'officer', name: 'Inspector Rao', email: 'rao@police.in', role: 'police', isActive: true } as UserRecord;
+
+describe('alertService SOS', () => {
+  beforeAll(async () => {
+    process.env.STORAGE_DRIVER = 'memory';
+    await initializeStorage();
+  });
+
+  beforeEach(async () => {
+    await getStorage().alerts.clear();
+  });
+
+  it('only moves an alert along its lifecycle', async () => {
+    const { alert } = await alertService.raiseSOS(tourist, {});
+
+    await expect(alertService.transition(alert._id, 'investigating', officer)).rejects.toMatchObject({ statusCode: 409 });
+
+    const acknowledged = await alertService.transition(alert._id, 'acknowledged', officer);
+    expect(acknowledged).toMatchObject({ status: 'acknowledged', assignedTo: officer._id, acknowledgeBy: null });
+
+    await alertService.transition(alert._id, 'resolved', officer);
+    await expect(alertService.transition(alert._id, 'active', officer)).rejects.toMatchObject({ statusCode: 409 });
+    await expect(alertService.transition(alert._id, 'acknowledged', officer)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('refreshes the open alert when SOS is pressed again', async () => {
+    const first = await alertService.raiseSOS(tourist, { location: { lat: 25.3, lng: 83.0 }, battery: 60 });
+    const again = await alertService.raiseSOS(tourist, { location: { lat: 25.31, lng: 83.01 } });
+
+    expect(again.created).toBe(false);
+    expect(again.alert._id).toBe(first.alert._id);
+    expect(again.alert).toMatchObject({ location: { lat: 25.31, lng: 83.01 }, battery: 60 });
+    expect(again.alert.history!.map(event => event.action)).toEqual(['created', 'updated']);
+    expect(await getStorage().alerts.count({ type: 'sos' })).toBe(1);
+
+    await alertService.transition(first.alert._id, 'resolved', officer);
+    expect((await alertService.raiseSOS(tourist, {})).created).toBe(true);
+  });
+
+  it('keeps the acknowledgement timeout between 10 seconds and 10 minutes', async () => {
+    const timeoutOf = async (sosTimeout?: number) => {
+      await getStorage().alerts.clear();
+      const { alert } = await alertService.raiseSOS(tourist, { sosTimeout });
+      return alert.data?.sosTimeout;
+    };
+
+    expect(await timeoutOf()).toBe(30);
+    expect(await timeoutOf(NaN)).toBe(30);
+    expect(await timeoutOf(1)).toBe(10);
+    expect(await timeoutOf(44.6)).toBe(45);
+    expect(await timeoutOf(3600)).toBe(600);
+  });
+
+  it('escalates an unacknowledged alert a level at a time and restarts its deadline', async () => {
+    const { alert } = await alertService.raiseSOS(tourist, { sosTimeout: 20 });
+    const start = alert.acknowledgeBy!.getTime();
+
+    expect(await alertService.escalateOverdue(new Date(start - 1000))).toHaveLength(0);
+
+    const [first] = await alertService.escalateOverdue(new Date(start));
+    expect(first).toMatchObject({ escalationLevel: 1, acknowledgeBy: new Date(start + 20000) });
+
+    const [second] = await alertService.escalateOverdue(new Date(start + 20000));
+    expect(second).toMatchObject({ escalationLevel: 2, acknowledgeBy: new Date(start + 40000) });
+
+    // The last level has no further deadline
+    const [third] = await alertService.escalateOverdue(new Date(start + 40000));
+    expect(third).toMatchObject({ escalationLevel: 3, acknowledgeBy: null });
+    expect(await alertService.escalateOverdue(new Date(start + 600000))).toHaveLength(0);
+
+    expect(third.history!.filter(event => event.action === 'escalated')).toHaveLength(3);
+  });
+
+  it('stops escalating once the alert is acknowledged', async () => {
+    const { alert } = await alertService.raiseSOS(tourist, {});
+    await alertService.transition(alert._id, 'acknowledged', officer);
+
+    expect(await alertService.escalateOverdue(new Date(Date.now() + 600000))).toHaveLength(0);
+  });
+});
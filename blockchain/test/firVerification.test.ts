@@ -0,0 +1,104 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { ChainRecord } from '../src/services/simpleBlockchain';
+import { FIRRecord, getStorage, initializeStorage, UserRecord } from '../src/repositories';
+import { firService } from '../src/services/firService';
+
+// Records the service anchors; the test decides which of them reached a block
+const anchored: { record: ChainRecord; blockIndex: number | null }[] = [];
+
+jest.mock('../src/services/simpleBlockchain', () => ({
+  blockchain: {
+    submitRecord: (record: ChainRecord) => anchored.push({ record, blockIndex: null }),
+    findRecords: (predicate: (record: ChainRecord) => boolean) => anchored.filter(({ record }) => predicate(record))
+  }
+}));
+jest.mock('../src/services/alertService', () => ({ alertService: {} }));
+jest.mock('../src/utils/logger');
+
+const officer = (name: string) => ({ _id: name, name, email: `${name}@police.in`, role: 'police', isActive: true }) as UserRecord;
+const writer = officer('writer');
+const approver = officer('approver');
+
+describe('firService.verify', () => {
+  let fir: FIRRecord;
+
+  beforeAll(async () => {
+    process.env.STORAGE_DRIVER = 'memory';
+    await initializeStorage();
+  });
+
+  beforeEach(async () => {
+    anchored.length = 0;
+    await getStorage().firs.clear();
+
+    fir = await firService.createFIR({
+      title: 'Stolen bag',
+      description: 'Bag taken at the ghat',
+      incidentType: 'theft',
+      severity: 'low',
+      reportedBy: 'Tourist',
+      incidentDate: new Date('2026-03-01T10:00:00Z'),
+      location: 'Dashashwamedh Ghat'
+    }, writer);
+    await firService.transition(fir._id, 'pending', writer);
+    fir = await firService.transition(fir._id, 'approved', approver);
+  });
+
+  it('accepts an FIR whose every revision matches its anchor', async () => {
+    const result = await firService.verify(fir.firNumber);
+
+    expect(result.valid).toBe(true);
+    expect(result.revisions.map(revision => revision.action)).toEqual(['created', 'submitted', 'approved']);
+    expect(result.firstDivergentRevision).toBeNull();
+  });
+
+  it('reports the first revision whose stored history was edited', async () => {
+    const history = fir.history.map((event, index) => index === 1 ? { ...event, note: 'rewritten' } : event);
+    await getStorage().firs.update(fir._id, { history });
+
+    const result = await firService.verify(fir.firNumber);
+
+    expect(result.valid).toBe(false);
+    expect(result.firstDivergentRevision).toBe(1);
+    expect(result.reason).toBe('Revision 1 does not match its anchored hash');
+    expect(result.revisions.map(revision => revision.matches)).toEqual([true, false, true]);
+  });
+
+  it('reports an FIR edited after its latest revision', async () => {
+    await getStorage().firs.update(fir._id, { title: 'Lost bag' });
+
+    const result = await firService.verify(fir.firNumber);
+
+    expect(result.firstDivergentRevision).toBe(2);
+    expect(result.reason).toBe('The stored FIR no longer matches revision 2');
+  });
+
+  it('reports a revision that was never anchored', async () => {
+    anchored.splice(1, 1);
+
+    const result = await firService.verify(fir.firNumber);
+
+    expect(result.firstDivergentRevision).toBe(1);
+    expect(result.reason).toBe('Revision 1 was never anchored');
+  });
+
+  it('reports anchored revisions missing from the stored history', async () => {
+    await getStorage().firs.update(fir._id, { history: fir.history.slice(0, 2) });
+
+    const result = await firService.verify(fir.firNumber);
+
+    expect(result.revisions).toHaveLength(3);
+    expect(result.firstDivergentRevision).toBe(2);
+    expect(result.reason).toBe('Revision 2 is missing from the stored history');
+  });
+
+  it('keeps the first anchor of a revision anchored twice', async () => {
+    anchored.push({ ...anchored[1], record: { ...anchored[1].record, eventHash: 'forged' } });
+
+    expect((await firService.verify(fir.firNumber)).valid).toBe(true);
+  });
+
+  it('fails for an unknown FIR number', async () => {
+    await expect(firService.verify('FIR-PS001-2026-9999')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import type { ZoneRecord } from '../src/repositories';
+import { thresholdFor } from '../src/services/anomalyService';
+import { distanceMeters } from '../src/services/geofenceService';
+
+jest.mock('../src/services/alertService', () => ({ alertService: {} }));
+jest.mock('../src/services/tripService', () => ({ tripService: {}, mappedDestinations: () => [] }));
+jest.mock('../src/services/locationService', () => ({ coarsen: (point: unknown) => point }));
+jest.mock('../src/utils/logger');
+
+const zone = (anomalyThresholds: ZoneRecord['anomalyThresholds']) => ({ anomalyThresholds }) as ZoneRecord;
+
+describe('distanceMeters', () => {
+  it('is zero between a point and itself', () => {
+    expect(distanceMeters({ lat: 25.3176, lng: 82.9739 }, { lat: 25.3176, lng: 82.9739 })).toBe(0);
+  });
+
+  it('measures one degree of latitude as about 111 km', () => {
+    expect(distanceMeters({ lat: 0, lng: 0 }, { lat: 1, lng: 0 })).toBeCloseTo(111195, -1);
+  });
+
+  it('shrinks a degree of longitude away from the equator', () => {
+    const atEquator = distanceMeters({ lat: 0, lng: 0 }, { lat: 0, lng: 1 });
+    const at60 = distanceMeters({ lat: 60, lng: 0 }, { lat: 60, lng: 1 });
+
+    expect(at60).toBeCloseTo(atEquator / 2, -2);
+  });
+
+  it('gives the great-circle distance between two cities either way round', () => {
+    const delhi = { lat: 28.6139, lng: 77.209 };
+    const varanasi = { lat: 25.3176, lng: 82.9739 };
+
+    expect(distanceMeters(delhi, varanasi) / 1000).toBeCloseTo(678.6, 1);
+    expect(distanceMeters(varanasi, delhi)).toBe(distanceMeters(delhi, varanasi));
+  });
+});
+
+describe('thresholdFor', () => {
+  it('falls back to the default outside any zone', () => {
+    expect(thresholdFor([], 'inactivityMinutes')).toBe(20);
+    expect(thresholdFor([], 'maxSpeedKmh')).toBe(150);
+    expect(thresholdFor([], 'signalLossMinutes')).toBe(30);
+    expect(thresholdFor([], 'deviationKm')).toBe(20);
+  });
+
+  it('falls back to the default when no zone sets the threshold', () => {
+    expect(thresholdFor([zone(null), zone({ maxSpeedKmh: 60 })], 'inactivityMinutes')).toBe(20);
+  });
+
+  it('takes the strictest value any zone sets', () => {
+    const zones = [zone({ inactivityMinutes: 15 }), zone({ inactivityMinutes: 5 }), zone(undefined)];
+
+    expect(thresholdFor(zones, 'inactivityMinutes')).toBe(5);
+  });
+
+  it('lets a zone relax a threshold above the default', () => {
+    expect(thresholdFor([zone({ signalLossMinutes: 120 })], 'signalLossMinutes')).toBe(120);
+  });
+
+  it('ignores cleared and invalid values', () => {
+    const zones = [zone({ deviationKm: null }), zone({ deviationKm: Number.NaN }), zone({ deviationKm: 8 })];
+
+    expect(thresholdFor(zones, 'deviationKm')).toBe(8);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from '@jest/globals';
+import { MerkleTree, canonicalize } from '../src/services/merkleTree';
+
+const records = ['a', 'b', 'c', 'd', 'e'].map((id, index) => ({ type: 'transaction', id, index }));
+const leaves = records.map(record => MerkleTree.hashLeaf(record));
+
+describe('canonicalize', () => {
+  it('sorts object keys at every depth and drops undefined values', () => {
+    expect(canonicalize({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: undefined } }))
+      .toBe('{"a":{"d":[2,{"e":4,"f":3}]},"b":1}');
+  });
+});
+
+describe('MerkleTree', () => {
+  it('hashes a record the same whatever its key order', () => {
+    expect(MerkleTree.hashLeaf({ id: 'a', type: 'transaction' }))
+      .toBe(MerkleTree.hashLeaf({ type: 'transaction', id: 'a' }));
+  });
+
+  it('uses the leaf itself as the root of a one-leaf tree', () => {
+    expect(new MerkleTree([leaves[0]]).getRoot()).toBe(leaves[0]);
+  });
+
+  it('hashes pairs into the root and promotes an odd last node', () => {
+    const left = MerkleTree.hashNode(MerkleTree.hashNode(leaves[0], leaves[1]), MerkleTree.hashNode(leaves[2], leaves[3]));
+
+    expect(new MerkleTree(leaves.slice(0, 4)).getRoot()).toBe(left);
+    expect(new MerkleTree(leaves).getRoot()).toBe(MerkleTree.hashNode(left, leaves[4]));
+    expect(MerkleTree.computeRoot(records)).toBe(MerkleTree.hashNode(left, leaves[4]));
+  });
+
+  it('changes the root when any record changes', () => {
+    const tampered = records.map((record, index) => index === 2 ? { ...record, id: 'x' } : record);
+
+    expect(MerkleTree.computeRoot(tampered)).not.toBe(MerkleTree.computeRoot(records));
+  });
+
+  it('proves every leaf against the root', () => {
+    const tree = new MerkleTree(leaves);
+    const root = tree.getRoot();
+
+    leaves.forEach((leaf, index) => {
+      expect(MerkleTree.verifyProof(leaf, tree.getProof(index), root)).toBe(true);
+    });
+  });
+
+  it('rejects a proof for another leaf or another root', () => {
+    const tree = new MerkleTree(leaves);
+    const proof = tree.getProof(1);
+
+    expect(MerkleTree.verifyProof(leaves[2], proof, tree.getRoot())).toBe(false);
+    expect(MerkleTree.verifyProof(leaves[1], proof, new MerkleTree(leaves.slice(0, 4)).getRoot())).toBe(false);
+  });
+
+  it('refuses a proof for a leaf outside the tree', () => {
+    const tree = new MerkleTree(leaves);
+
+    expect(() => tree.getProof(-1)).toThrow('out of range');
+    expect(() => tree.getProof(leaves.length)).toThrow('out of range');
+  });
+});
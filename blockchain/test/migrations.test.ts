@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getMigrationStatus, loadMigrations, Migration, rollbackMigrations, runMigrations } from '../src/config/migrations';
+
+jest.mock('../src/utils/logger');
+
+const createTable = (version: number, name: string, applied: number[]): Migration => ({
+  version,
+  name,
+  up: db => {
+    applied.push(version);
+    db.exec(`CREATE TABLE ${name} (id TEXT PRIMARY KEY)`);
+  },
+  down: db => db.exec(`DROP TABLE ${name}`)
+});
+
+const tables = (db: Database.Database) =>
+  (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 't_%' ORDER BY name").all() as { name: string }[])
+    .map(row => row.name);
+
+describe('runMigrations', () => {
+  let db: Database.Database;
+  let applied: number[];
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    applied = [];
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('applies pending migrations in version order and records them', () => {
+    const migrations = [createTable(1, 't_one', applied), createTable(2, 't_two', applied), createTable(3, 't_three', applied)];
+
+    runMigrations(db, { migrations });
+
+    expect(applied).toEqual([1, 2, 3]);
+    expect(tables(db)).toEqual(['t_one', 't_three', 't_two']);
+    expect(getMigrationStatus(db, migrations).map(status => status.state)).toEqual(['applied', 'applied', 'applied']);
+  });
+
+  it('only applies migrations added since the last run', () => {
+    runMigrations(db, { migrations: [createTable(1, 't_one', applied)] });
+    const ran = runMigrations(db, { migrations: [createTable(1, 't_one', applied), createTable(2, 't_two', applied)] });
+
+    expect(ran.map(migration => migration.version)).toEqual([2]);
+    expect(applied).toEqual([1, 2]);
+  });
+
+  it('rolls a failed migration back, records it and refuses to start again', () => {
+    const failing: Migration = {
+      version: 2,
+      name: 't_broken',
+      up: database => {
+        database.exec('CREATE TABLE t_broken (id TEXT)');
+        throw new Error('boom');
+      },
+      down: () => undefined
+    };
+    const migrations = [createTable(1, 't_one', applied), failing];
+
+    expect(() => runMigrations(db, { migrations })).toThrow('Migration 002_t_broken failed: boom');
+    expect(tables(db)).toEqual(['t_one']);
+    expect(getMigrationStatus(db, migrations)[1]).toMatchObject({ state: 'failed', error: 'boom' });
+    expect(() => runMigrations(db, { migrations })).toThrow('previously failed (boom)');
+  });
+
+  it('retries a failed migration when asked to', () => {
+    let attempts = 0;
+    const flaky: Migration = {
+      version: 1,
+      name: 't_flaky',
+      up: database => {
+        if (++attempts === 1) throw new Error('boom');
+        database.exec('CREATE TABLE t_flaky (id TEXT)');
+      },
+      down: () => undefined
+    };
+
+    expect(() => runMigrations(db, { migrations: [flaky] })).toThrow();
+    runMigrations(db, { migrations: [flaky], retryFailed: true });
+
+    expect(getMigrationStatus(db, [flaky])[0].state).toBe('applied');
+  });
+
+  it('refuses a pending migration older than one already applied', () => {
+    runMigrations(db, { migrations: [createTable(2, 't_two', applied)] });
+
+    expect(() => runMigrations(db, { migrations: [createTable(1, 't_one', applied), createTable(2, 't_two', applied)] }))
+      .toThrow('Migration 001_t_one is older than applied migration 2');
+    expect(applied).toEqual([2]);
+  });
+
+  it('refuses to run when an applied migration has lost its file', () => {
+    runMigrations(db, { migrations: [createTable(1, 't_one', applied), createTable(2, 't_two', applied)] });
+
+    expect(() => runMigrations(db, { migrations: [createTable(1, 't_one', applied)] }))
+      .toThrow('Migration 002_t_two is recorded in schema_migrations but its file is missing');
+  });
+
+  it('rolls back the newest migrations first', () => {
+    const migrations = [createTable(1, 't_one', applied), createTable(2, 't_two', applied), createTable(3, 't_three', applied)];
+    runMigrations(db, { migrations });
+
+    const reverted = rollbackMigrations(db, 2, migrations);
+
+    expect(reverted.map(migration => migration.version)).toEqual([3, 2]);
+    expect(tables(db)).toEqual(['t_one']);
+    expect(getMigrationStatus(db, migrations).map(status => status.state)).toEqual(['applied', 'pending', 'pending']);
+  });
+});
+
+describe('loadMigrations', () => {
+  let dir: string;
+
+  const write = (file: string) =>
+    fs.writeFileSync(path.join(dir, file), 'exports.up = () => undefined; exports.down = () => undefined;');
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('orders migration files by version and skips other files', () => {
+    write('010_zones.js');
+    write('002_users.js');
+    write('README.md');
+
+    expect(loadMigrations(dir).map(migration => `${migration.version}:${migration.name}`)).toEqual(['2:users', '10:zones']);
+  });
+
+  it('refuses two migrations with the same version', () => {
+    write('003_alerts.js');
+    write('003_trips.js');
+
+    expect(() => loadMigrations(dir)).toThrow('Duplicate migration version 3');
+  });
+
+  it('refuses a migration without a down function', () => {
+    fs.writeFileSync(path.join(dir, '001_users.js'), 'exports.up = () => undefined;');
+
+    expect(() => loadMigrations(dir)).toThrow('Migration 001_users.js must export up and down functions');
+  });
+});
@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import type { BlockHeader } from '../src/services/proofOfWork';
+import { initializeStorage } from '../src/repositories';
+import { buildTransactionMessage, SimpleBlockchain } from '../src/services/simpleBlockchain';
+
+// Keep the chain in memory and mine on this thread instead of a worker
+jest.mock('../src/models/SqliteChain', () => ({
+  sqliteChain: {
+    getBlocks: () => [],
+    saveBlock: () => undefined,
+    getTransactions: () => [],
+    saveTransaction: () => undefined,
+    getMempoolEntries: () => [],
+    saveMempoolEntry: () => undefined
+  }
+}));
+jest.mock('../src/services/miner', () => {
+  const actual = jest.requireActual<typeof import('../src/services/miner')>('../src/services/miner');
+  const { solveProofOfWork } = jest.requireActual<typeof import('../src/services/proofOfWork')>('../src/services/proofOfWork');
+
+  return {
+    ...actual,
+    BlockMiner: class {
+      mine(header: Omit<BlockHeader, 'nonce'>) {
+        return Promise.resolve(solveProofOfWork(header));
+      }
+
+      async terminate() {}
+    }
+  };
+});
+jest.mock('../src/utils/logger');
+
+const sender = ethers.Wallet.createRandom();
+const recipient = ethers.Wallet.createRandom().address;
+
+const sign = async (wallet: ethers.HDNodeWallet, nonce: number, amount = 5) => ({
+  from: wallet.address,
+  to: recipient,
+  amount,
+  nonce,
+  signature: await wallet.signMessage(buildTransactionMessage({ from: wallet.address, to: recipient, amount, nonce }))
+});
+
+describe('SimpleBlockchain.addTransaction', () => {
+  let chain: SimpleBlockchain;
+
+  beforeAll(async () => {
+    process.env.STORAGE_DRIVER = 'memory';
+    await initializeStorage();
+
+    chain = new SimpleBlockchain();
+    await chain.initialize();
+  });
+
+  afterAll(async () => {
+    await chain.stopMining();
+  });
+
+  it('refuses a transaction signed by someone other than the sender', async () => {
+    const forged = { ...(await sign(sender, 0)), signature: (await sign(ethers.Wallet.createRandom(), 0)).signature };
+
+    expect(() => chain.addTransaction(forged)).toThrow(expect.objectContaining({ statusCode: 401 }));
+    expect(() => chain.addTransaction({ ...forged, signature: '0x1234' })).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(chain.getNextNonce(sender.address)).toBe(0);
+  });
+
+  it('refuses a replayed nonce', async () => {
+    const first = await sign(sender, 0);
+    chain.addTransaction(first);
+
+    expect(() => chain.addTransaction(first)).toThrow(expect.objectContaining({ statusCode: 409 }));
+    expect(chain.getNextNonce(sender.address)).toBe(1);
+  });
+
+  it('confirms a transaction only once it is mined into a block', async () => {
+    const transaction = chain.addTransaction(await sign(sender, 1));
+
+    expect(transaction.status).toBe('pending');
+    expect(chain.getPendingTransactions().map(tx => tx.id)).toContain(transaction.id);
+
+    const block = await chain.mineNow();
+
+    expect(block!.records.map(record => record.transactionId)).toContain(transaction.id);
+    expect(chain.getTransactionById(transaction.id)).toMatchObject({ status: 'confirmed', blockIndex: block!.index });
+    expect(chain.getPendingTransactions()).toHaveLength(0);
+  });
+});
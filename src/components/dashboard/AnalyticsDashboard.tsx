@@ -1,9 +1,10 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
 import { 
   BarChart, 
   Bar, 
@@ -30,95 +31,168 @@ import {
   Download,
   Filter,
   Calendar,
-  ArrowLeft
+  ArrowLeft,
+  Loader2
 } from 'lucide-react';
+import { analyticsApi, AnalyticsRange, AnalyticsReport, HotspotReport } from '@/services/analyticsApi';
+import { zoneApi, ZoneData, ZoneInput } from '@/services/zoneApi';
+import { hotspotZoneDraft, TimeOfDay, timeOfDayWindow, TIME_OF_DAY_OPTIONS } from '@/lib/hotspots';
+import InteractiveMap from '../map/InteractiveMap';
 // import { useTranslation } from 'react-i18next';
 
 interface AnalyticsDashboardProps {
   onBack: () => void;
+  // Opens zone management with an alert zone drawn around a hotspot
+  onCreateZone?: (zone: ZoneInput) => void;
 }
 
-const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ onBack }) => {
+const INCIDENT_COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff7300', '#00ff88', '#ef4444', '#3b82f6', '#a855f7'];
+
+// Percentage change from the previous period; null when there is nothing to compare with
+const percentChange = (current: number | null, previous: number | null): number | null => {
+  if (current === null || previous === null || previous === 0) return null;
+  return Math.round((current - previous) / previous * 100);
+};
+
+const toLocalInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ onBack, onCreateZone }) => {
   // const { t } = useTranslation();
-  const [timeRange, setTimeRange] = useState('7d');
+  const [timeRange, setTimeRange] = useState<AnalyticsRange>('7d');
   const [selectedMetric, setSelectedMetric] = useState('alerts');
+  // 'all', 'zone:<id>' or 'district:<name>'
+  const [scope, setScope] = useState('all');
+  const [customFrom, setCustomFrom] = useState(() => toLocalInput(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)));
+  const [customTo, setCustomTo] = useState(() => toLocalInput(new Date()));
+  const [zones, setZones] = useState<ZoneData[]>([]);
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [timeOfDay, setTimeOfDay] = useState<TimeOfDay>('all');
+  const [hotspots, setHotspots] = useState<HotspotReport | null>(null);
+  const [hotspotError, setHotspotError] = useState<string | null>(null);
 
-  // Mock data
-  const alertTrends = [
-    { date: '2024-01-01', critical: 2, moderate: 5, low: 8 },
-    { date: '2024-01-02', critical: 1, moderate: 7, low: 12 },
-    { date: '2024-01-03', critical: 3, moderate: 4, low: 9 },
-    { date: '2024-01-04', critical: 0, moderate: 6, low: 11 },
-    { date: '2024-01-05', critical: 2, moderate: 8, low: 15 },
-    { date: '2024-01-06', critical: 1, moderate: 5, low: 7 },
-    { date: '2024-01-07', critical: 2, moderate: 9, low: 13 },
-  ];
+  useEffect(() => {
+    zoneApi.getZones().then(response => {
+      if (response.success && response.data) setZones(response.data);
+    });
+  }, []);
 
-  const touristFlow = [
-    { hour: '00:00', count: 12 },
-    { hour: '03:00', count: 8 },
-    { hour: '06:00', count: 25 },
-    { hour: '09:00', count: 45 },
-    { hour: '12:00', count: 78 },
-    { hour: '15:00', count: 92 },
-    { hour: '18:00', count: 65 },
-    { hour: '21:00', count: 34 },
-  ];
+  useEffect(() => {
+    if (timeRange === 'custom' && (!customFrom || !customTo)) return;
 
-  const incidentTypes = [
-    { name: 'Lost Tourist', value: 35, color: '#8884d8' },
-    { name: 'Medical Emergency', value: 20, color: '#82ca9d' },
-    { name: 'Theft Report', value: 15, color: '#ffc658' },
-    { name: 'Traffic Incident', value: 18, color: '#ff7300' },
-    { name: 'Other', value: 12, color: '#00ff88' },
-  ];
+    let cancelled = false;
+    const [scopeType, ...scopeValue] = scope.split(':');
 
-  const responseTime = [
-    { zone: 'Zone A', avgTime: 3.2, incidents: 15 },
-    { zone: 'Zone B', avgTime: 4.1, incidents: 23 },
-    { zone: 'Zone C', avgTime: 2.8, incidents: 18 },
-    { zone: 'Zone D', avgTime: 5.2, incidents: 12 },
-    { zone: 'Zone E', avgTime: 3.9, incidents: 20 },
-  ];
+    setLoading(true);
+    analyticsApi.getReport({
+      range: timeRange,
+      ...(timeRange === 'custom' ? { from: new Date(customFrom).toISOString(), to: new Date(customTo).toISOString() } : {}),
+      ...(scopeType === 'zone' ? { zoneId: scopeValue.join(':') } : {}),
+      ...(scopeType === 'district' ? { district: scopeValue.join(':') } : {})
+    }).then(response => {
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setReport(response.data);
+        setError(null);
+      } else {
+        setError(response.error || 'Failed to load analytics');
+      }
+    }).finally(() => {
+      if (!cancelled) setLoading(false);
+    });
 
-  const heatmapData = [
-    { zone: 'Central Market', incidents: 25, risk: 'high' },
-    { zone: 'Tourist District', incidents: 18, risk: 'medium' },
-    { zone: 'Heritage Site', incidents: 12, risk: 'low' },
-    { zone: 'Transport Hub', incidents: 22, risk: 'high' },
-    { zone: 'Shopping Area', incidents: 15, risk: 'medium' },
-    { zone: 'Business District', incidents: 8, risk: 'low' },
-  ];
+    return () => {
+      cancelled = true;
+    };
+  }, [timeRange, scope, customFrom, customTo]);
+
+  // Hotspots cover every area; the scope filter only applies to the report
+  useEffect(() => {
+    if (timeRange === 'custom' && (!customFrom || !customTo)) return;
+
+    let cancelled = false;
+    const window = timeOfDayWindow(timeOfDay);
+
+    analyticsApi.getHotspots({
+      range: timeRange,
+      ...(timeRange === 'custom' ? { from: new Date(customFrom).toISOString(), to: new Date(customTo).toISOString() } : {}),
+      ...(window ? { timeStart: window.start, timeEnd: window.end } : {})
+    }).then(response => {
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setHotspots(response.data);
+        setHotspotError(null);
+      } else {
+        setHotspotError(response.error || 'Failed to load hotspots');
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [timeRange, customFrom, customTo, timeOfDay]);
+
+  const districts = [...new Set(zones.map(zone => zone.district).filter((district): district is string => !!district))].sort();
+
+  const alertTrends = report?.alertTrends || [];
+  const touristFlow = report?.touristFlow || [];
+  const incidentTypes = (report?.incidentTypes || []).map((entry, index) => ({
+    ...entry,
+    color: INCIDENT_COLORS[index % INCIDENT_COLORS.length]
+  }));
+  const responseTime = report?.responseTime || [];
+  const heatmapData = report?.heatmapData || [];
+
+  const mapFocus = hotspots?.hotspots[0]?.center || zones[0]?.coordinates[0];
+
+  const formatTrendDate = (date: string) => report?.granularity === 'hour'
+    ? new Date(date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : new Date(date).toLocaleDateString();
+
+  const summary = report?.summary;
+  const previous = report?.previous;
+
+  // Up means more; for response time, down is the good direction
+  const trendOf = (change: number | null) => change === null || change === 0 ? 'neutral' : change > 0 ? 'up' : 'down';
+  const formatChange = (change: number | null) => change === null ? '—' : `${change > 0 ? '+' : ''}${change}%`;
+
+  const alertChange = percentChange(summary?.alerts ?? null, previous?.alerts ?? null);
+  const touristChange = percentChange(summary?.peakTourists ?? null, previous?.peakTourists ?? null);
+  const responseChange = percentChange(summary?.avgResponseMinutes ?? null, previous?.avgResponseMinutes ?? null);
 
   const stats = [
     {
-      title: 'Total Alerts Today',
-      value: '47',
-      change: '+12%',
-      trend: 'up',
+      title: 'Total Alerts',
+      value: summary ? summary.alerts.toLocaleString() : '—',
+      change: formatChange(alertChange),
+      trend: trendOf(alertChange),
       icon: AlertTriangle,
       color: 'text-orange-600'
     },
     {
-      title: 'Active Tourists',
-      value: '1,234',
-      change: '+5%',
-      trend: 'up',
+      title: 'Peak Active Tourists',
+      value: summary ? summary.peakTourists.toLocaleString() : '—',
+      change: formatChange(touristChange),
+      trend: trendOf(touristChange),
       icon: Users,
       color: 'text-blue-600'
     },
     {
       title: 'Avg Response Time',
-      value: '3.8 min',
-      change: '-8%',
-      trend: 'down',
+      value: summary?.avgResponseMinutes != null ? `${summary.avgResponseMinutes} min` : '—',
+      change: formatChange(responseChange),
+      trend: trendOf(responseChange),
       icon: Clock,
       color: 'text-green-600'
     },
     {
       title: 'Risk Zones',
-      value: '12',
-      change: '0%',
+      value: report ? String(report.riskZones) : '—',
+      change: 'Now',
       trend: 'neutral',
       icon: MapPin,
       color: 'text-purple-600'
@@ -146,8 +220,24 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ onBack }) => {
             <h1 className="text-2xl font-bold">Analytics Dashboard</h1>
           </div>
           <div className="flex items-center gap-2">
-            <Select value={timeRange} onValueChange={setTimeRange}>
-              <SelectTrigger className="w-32">
+            {loading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="w-48">
+                <Filter className="w-4 h-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All areas</SelectItem>
+                {districts.map(district => (
+                  <SelectItem key={district} value={`district:${district}`}>District: {district}</SelectItem>
+                ))}
+                {zones.map(zone => (
+                  <SelectItem key={zone._id} value={`zone:${zone._id}`}>{zone.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={timeRange} onValueChange={(value) => setTimeRange(value as AnalyticsRange)}>
+              <SelectTrigger className="w-36">
                 <Calendar className="w-4 h-4 mr-2" />
                 <SelectValue />
               </SelectTrigger>
@@ -156,8 +246,27 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ onBack }) => {
                 <SelectItem value="7d">Last 7 days</SelectItem>
                 <SelectItem value="30d">Last 30 days</SelectItem>
                 <SelectItem value="90d">Last 90 days</SelectItem>
+                <SelectItem value="custom">Custom</SelectItem>
               </SelectContent>
             </Select>
+            {timeRange === 'custom' && (
+              <>
+                <Input
+                  type="datetime-local"
+                  className="w-52"
+                  value={customFrom}
+                  max={customTo}
+                  onChange={(e) => setCustomFrom(e.target.value)}
+                />
+                <Input
+                  type="datetime-local"
+                  className="w-52"
+                  value={customTo}
+                  min={customFrom}
+                  onChange={(e) => setCustomTo(e.target.value)}
+                />
+              </>
+            )}
             <Button variant="outline">
               <Download className="w-4 h-4 mr-2" />
               Export
@@ -167,6 +276,12 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ onBack }) => {
       </div>
 
       <div className="p-6">
+        {error && (
+          <div className="mb-4 p-3 rounded-md bg-red-50 text-red-700 text-sm dark:bg-red-950/20 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
         {/* Stats Overview */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
           {stats.map((stat, index) => (
@@ -206,16 +321,17 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ onBack }) => {
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               <Card>
                 <CardHeader>
-                  <CardTitle>Daily Alert Trends</CardTitle>
+                  <CardTitle>{report?.granularity === 'hour' ? 'Hourly' : 'Daily'} Alert Trends</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <ResponsiveContainer width="100%" height={300}>
                     <AreaChart data={alertTrends}>
                       <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="date" tickFormatter={(date) => new Date(date).toLocaleDateString()} />
+                      <XAxis dataKey="date" tickFormatter={formatTrendDate} />
                       <YAxis />
-                      <Tooltip />
+                      <Tooltip labelFormatter={formatTrendDate} />
                       <Area type="monotone" dataKey="critical" stackId="1" stroke="#ef4444" fill="#ef4444" />
+                      <Area type="monotone" dataKey="high" stackId="1" stroke="#f97316" fill="#f97316" />
                       <Area type="monotone" dataKey="moderate" stackId="1" stroke="#f59e0b" fill="#f59e0b" />
                       <Area type="monotone" dataKey="low" stackId="1" stroke="#10b981" fill="#10b981" />
                     </AreaChart>
@@ -261,7 +377,10 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ onBack }) => {
                     <XAxis dataKey="hour" />
                     <YAxis />
                     <Tooltip />
-                    <Line type="monotone" dataKey="count" stroke="#3b82f6" strokeWidth={2} />
+                    <Line type="monotone" dataKey="count" stroke="#3b82f6" strokeWidth={2} name="Avg tourists" />
+                    {summary?.registrations != null && (
+                      <Line type="monotone" dataKey="registrations" stroke="#10b981" strokeWidth={2} name="New digital IDs" />
+                    )}
                   </LineChart>
                 </ResponsiveContainer>
               </CardContent>
@@ -271,16 +390,17 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ onBack }) => {
           <TabsContent value="alerts" className="space-y-6">
             <Card>
               <CardHeader>
-                <CardTitle>Daily Breakdown</CardTitle>
+                <CardTitle>{report?.granularity === 'hour' ? 'Hourly' : 'Daily'} Breakdown</CardTitle>
               </CardHeader>
               <CardContent>
                 <ResponsiveContainer width="100%" height={400}>
                   <BarChart data={alertTrends}>
                     <CartesianGrid strokeDasharray="3 3" />
-                    <XAxis dataKey="date" tickFormatter={(date) => new Date(date).toLocaleDateString()} />
+                    <XAxis dataKey="date" tickFormatter={formatTrendDate} />
                     <YAxis />
-                    <Tooltip />
+                    <Tooltip labelFormatter={formatTrendDate} />
                     <Bar dataKey="critical" fill="#ef4444" name="Critical" />
+                    <Bar dataKey="high" fill="#f97316" name="High" />
                     <Bar dataKey="moderate" fill="#f59e0b" name="Moderate" />
                     <Bar dataKey="low" fill="#10b981" name="Low" />
                   </BarChart>
@@ -302,7 +422,7 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ onBack }) => {
                       <XAxis dataKey="hour" />
                       <YAxis />
                       <Tooltip />
-                      <Bar dataKey="count" fill="#3b82f6" />
+                      <Bar dataKey="count" fill="#3b82f6" name="Avg tourists" />
                     </BarChart>
                   </ResponsiveContainer>
                 </CardContent>
@@ -334,8 +454,11 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ onBack }) => {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {heatmapData.map((zone, index) => (
-                    <div key={index} className="flex items-center justify-between p-4 border rounded-lg">
+                  {heatmapData.length === 0 && (
+                    <p className="text-sm text-muted-foreground text-center py-6">No zones to rank for this filter.</p>
+                  )}
+                  {heatmapData.map((zone) => (
+                    <div key={zone.zoneId} className="flex items-center justify-between p-4 border rounded-lg">
                       <div className="flex items-center gap-3">
                         <div className="flex items-center gap-2">
                           <MapPin className="w-4 h-4 text-muted-foreground" />
@@ -357,22 +480,44 @@ const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ onBack }) => {
 
             <Card>
               <CardHeader>
-                <CardTitle>Geographic Distribution</CardTitle>
+                <CardTitle className="flex items-center justify-between gap-4">
+                  <span>Geographic Distribution</span>
+                  <Select value={timeOfDay} onValueChange={(value) => setTimeOfDay(value as TimeOfDay)}>
+                    <SelectTrigger className="w-48">
+                      <Clock className="w-4 h-4 mr-2" />
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIME_OF_DAY_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </CardTitle>
               </CardHeader>
-              <CardContent>
-                <div className="h-96 bg-gradient-to-br from-blue-50 to-green-50 dark:from-blue-950 dark:to-green-950 rounded-lg flex items-center justify-center relative overflow-hidden">
-                  <div className="text-center">
-                    <MapPin className="w-16 h-16 mx-auto text-primary mb-4" />
-                    <h3 className="text-lg font-semibold mb-2">Interactive Heatmap</h3>
-                    <p className="text-muted-foreground">Geographic visualization of incident density</p>
+              <CardContent className="space-y-3">
+                {hotspotError && (
+                  <div className="p-3 rounded-md bg-red-50 text-red-700 text-sm dark:bg-red-950/20 dark:text-red-400">
+                    {hotspotError}
                   </div>
-                  
-                  {/* Mock heatmap points */}
-                  <div className="absolute top-12 left-16 w-8 h-8 bg-red-500/60 rounded-full blur-sm"></div>
-                  <div className="absolute bottom-20 right-20 w-12 h-12 bg-red-600/80 rounded-full blur-sm"></div>
-                  <div className="absolute top-24 right-32 w-6 h-6 bg-yellow-500/60 rounded-full blur-sm"></div>
-                  <div className="absolute bottom-32 left-24 w-4 h-4 bg-green-500/60 rounded-full blur-sm"></div>
+                )}
+                <div className="h-96 rounded-lg overflow-hidden">
+                  <InteractiveMap
+                    center={mapFocus ? { lat: mapFocus.lat, lng: mapFocus.lng } : undefined}
+                    zoom={13}
+                    heat={hotspots}
+                    onCreateZone={onCreateZone && hotspots
+                      ? (hotspot) => onCreateZone(hotspotZoneDraft(hotspot, hotspots))
+                      : undefined}
+                  />
                 </div>
+                {hotspots && (
+                  <p className="text-sm text-muted-foreground">
+                    {hotspots.hotspots.length === 0
+                      ? 'No incident clusters in this range and time of day.'
+                      : `${hotspots.hotspots.length} hotspot(s) from ${hotspots.points.length} map cell(s) of ${hotspots.cellMeters} m.${onCreateZone ? ' Select one to turn it into an alert zone.' : ''}`}
+                  </p>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -13,33 +13,175 @@ import {
   UserCheck,
   Settings as SettingsIcon,
   Bell,
-  Languages
+  Languages,
+  UserSearch
 } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
 import { useTranslation } from '@/hooks/useTranslation';
 import { useNavigate } from 'react-router-dom';
-import InteractiveMap from '../map/InteractiveMap';
+import { useEventStream } from '@/hooks/useEventStream';
+import { alertApi, Alert } from '@/services/alertApi';
+import { portalApi } from '@/services/portalApi';
+import { zoneApi, ZoneData, ZoneInput } from '@/services/zoneApi';
+import { firApi, FIR, FIRSource } from '@/services/firApi';
+import { missingPersonApi, MissingPersonCase } from '@/services/missingPersonApi';
+import { blockchainService } from '@/services/blockchainService';
+import { analyticsApi, Hotspot, HotspotReport } from '@/services/analyticsApi';
+import { hotspotZoneDraft, TimeOfDay, timeOfDayWindow } from '@/lib/hotspots';
+import InteractiveMap, { MapLocation } from '../map/InteractiveMap';
 import LiveAlerts from './LiveAlerts';
 import TouristManagement from './TouristManagement';
 import ZoneManagement from './ZoneManagement';
 import AnalyticsDashboard from './AnalyticsDashboard';
 import EFIRManagement from './EFIRManagement';
+import MissingPersons from './MissingPersons';
+import MissingPersonBulletins from './MissingPersonBulletins';
+import IncidentHotspots from './IncidentHotspots';
 import RoleManagement from './RoleManagement';
 import SystemHealth from './SystemHealth';
 
+const HOTSPOT_RELOAD_MS = 60 * 1000;
+
+const isActiveSearch = (record: MissingPersonCase) => record.status === 'searching' || record.status === 'sighted';
+
 const Dashboard: React.FC = () => {
   const { auth } = useAuth();
   const { tCards, tCommon } = useTranslation();
   const navigate = useNavigate();
   const userRole = auth.user?.role;
-  const [currentView, setCurrentView] = useState<'dashboard' | 'alerts' | 'tourists' | 'zones' | 'efir' | 'analytics' | 'roles' | 'system'>('dashboard');
+  const canFileFIR = userRole === 'police' || userRole === 'admin';
+  const [currentView, setCurrentView] = useState<'dashboard' | 'alerts' | 'tourists' | 'zones' | 'efir' | 'missing' | 'analytics' | 'roles' | 'system'>('dashboard');
+
+  const [openAlerts, setOpenAlerts] = useState<Alert[]>([]);
+  const [touristTotal, setTouristTotal] = useState(0);
+  const [verifiedIDs, setVerifiedIDs] = useState<Record<string, boolean>>({});
+  const [zones, setZones] = useState<ZoneData[]>([]);
+  const [firs, setFirs] = useState<FIR[]>([]);
+  // Alert or tourist the e-FIR view should start a new FIR from
+  const [firSource, setFirSource] = useState<FIRSource | null>(null);
+  const [missingCases, setMissingCases] = useState<MissingPersonCase[]>([]);
+  // Tourist reported missing, or case opened from a bulletin, for the missing persons view
+  const [missingTouristId, setMissingTouristId] = useState<string | null>(null);
+  const [missingCaseId, setMissingCaseId] = useState<string | null>(null);
+  const [hotspots, setHotspots] = useState<HotspotReport | null>(null);
+  const [hotspotError, setHotspotError] = useState<string | null>(null);
+  const [timeOfDay, setTimeOfDay] = useState<TimeOfDay>('all');
+  // Zone the zones view should open prefilled, e.g. from a hotspot
+  const [zoneDraft, setZoneDraft] = useState<ZoneInput | null>(null);
+
+  const loadDashboardData = useCallback(async () => {
+    const [alertsResponse, statsResponse, digitalIDsResponse, zonesResponse, firsResponse, missingResponse] = await Promise.all([
+      alertApi.getAlerts({ limit: 500 }),
+      portalApi.getStats(),
+      blockchainService.getDigitalIDs(),
+      zoneApi.getZones(),
+      canFileFIR ? firApi.getFIRs({ limit: 500 }) : Promise.resolve(null),
+      canFileFIR ? missingPersonApi.getCases({ limit: 500 }) : Promise.resolve(null)
+    ]);
+
+    if (alertsResponse.success && alertsResponse.data) {
+      setOpenAlerts(alertsResponse.data.filter(alert => alert.status !== 'resolved'));
+    }
+    if (zonesResponse.success && zonesResponse.data) {
+      setZones(zonesResponse.data);
+    }
+    if (firsResponse?.success && firsResponse.data) {
+      setFirs(firsResponse.data);
+    }
+    if (missingResponse?.success && missingResponse.data) {
+      setMissingCases(missingResponse.data.filter(isActiveSearch));
+    }
+    if (statsResponse.success && statsResponse.data) {
+      setTouristTotal(statsResponse.data.usersByRole.find(role => role._id === 'tourist')?.count || 0);
+    }
+    if (digitalIDsResponse?.success) {
+      const ids: { hash: string; status: string; role: string }[] = digitalIDsResponse.data.digitalIDs;
+      setVerifiedIDs(Object.fromEntries(
+        ids.filter(id => id.role === 'tourist').map(id => [id.hash, id.status === 'verified'])
+      ));
+    }
+  }, [canFileFIR]);
+
+  useEffect(() => {
+    loadDashboardData();
+  }, [loadDashboardData]);
+
+  const loadHotspots = useCallback(async () => {
+    const window = timeOfDayWindow(timeOfDay);
+    const response = await analyticsApi.getHotspots({ range: '30d', timeStart: window?.start, timeEnd: window?.end });
+
+    if (response.success && response.data) {
+      setHotspots(response.data);
+      setHotspotError(null);
+    } else {
+      setHotspotError(response.error || 'Failed to load hotspots');
+    }
+  }, [timeOfDay]);
+
+  useEffect(() => {
+    loadHotspots();
+  }, [loadHotspots]);
+
+  // New incidents barely move a 30-day heat map, so they reload it at most once a minute
+  const hotspotReload = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scheduleHotspots = useCallback(() => {
+    if (hotspotReload.current) return;
+    hotspotReload.current = setTimeout(() => {
+      hotspotReload.current = null;
+      loadHotspots();
+    }, HOTSPOT_RELOAD_MS);
+  }, [loadHotspots]);
+
+  useEffect(() => () => {
+    if (hotspotReload.current) clearTimeout(hotspotReload.current);
+  }, []);
+
+  // Sub-views open their own streams
+  useEventStream(['alerts', 'digital-ids', 'zones', 'firs', 'missing-persons'], (event) => {
+    if (event.topic === 'alerts') {
+      const alert = event.data as Alert;
+      setOpenAlerts(current => [
+        ...current.filter(a => a._id !== alert._id),
+        ...(alert.status !== 'resolved' ? [alert] : [])
+      ]);
+      if (event.type === 'created') scheduleHotspots();
+    } else if (event.topic === 'digital-ids') {
+      const digitalID = event.data as { hash: string; status: string; role: string };
+      if (digitalID.role === 'tourist') {
+        setVerifiedIDs(current => ({ ...current, [digitalID.hash]: digitalID.status === 'verified' }));
+      }
+    } else if (event.topic === 'firs') {
+      const fir = event.data as FIR;
+      setFirs(current => [...current.filter(f => f._id !== fir._id), fir]);
+      scheduleHotspots();
+    } else if (event.topic === 'missing-persons') {
+      const record = event.data as MissingPersonCase;
+      setMissingCases(current => [
+        ...current.filter(c => c._id !== record._id),
+        ...(isActiveSearch(record) ? [record] : [])
+      ]);
+    } else if (event.type.startsWith('zone_')) {
+      zoneApi.getZones().then(response => {
+        if (response.success && response.data) setZones(response.data);
+      });
+    }
+  }, { onReset: () => { loadDashboardData(); loadHotspots(); }, enabled: currentView === 'dashboard' });
+
+  const countAlerts = (severity: Alert['severity']) => openAlerts.filter(alert => alert.severity === severity).length;
+
+  const countZones = (type: ZoneData['type']) => zones.filter(zone => zone.type === type && zone.status === 'active').length;
+
+  const countFIRs = (status: FIR['status']) => firs.filter(fir => fir.status === status).length;
 
-  // Mock dashboard data
   const dashboardData = {
-    tourists: { total: 1247, active: 892, alerts: 23 },
-    zones: { safe: 45, restricted: 12, monitored: 8 },
-    alerts: { critical: 3, moderate: 15, low: 45 },
-    efirs: { pending: 7, approved: 156, drafts: 12 }
+    tourists: {
+      total: touristTotal,
+      active: Object.values(verifiedIDs).filter(Boolean).length,
+      alerts: new Set(openAlerts.map(alert => alert.userId)).size
+    },
+    zones: { safe: countZones('safe'), restricted: countZones('restricted'), monitored: countZones('alert') },
+    alerts: { critical: countAlerts('critical'), moderate: countAlerts('moderate'), low: countAlerts('low') },
+    efirs: { pending: countFIRs('pending'), approved: countFIRs('approved'), drafts: countFIRs('draft') }
   };
 
   const getCardsByRole = () => {
@@ -69,11 +211,11 @@ const Dashboard: React.FC = () => {
         data: `${dashboardData.zones.safe} Safe, ${dashboardData.zones.restricted} Restricted`,
         color: 'text-success',
         action: 'Manage',
-        onClick: () => setCurrentView('zones')
+        onClick: () => openZoneDraft(null)
       }
     ];
 
-    if (userRole === 'police' || userRole === 'admin') {
+    if (canFileFIR) {
       baseCards.push({
         title: tCards('efir'),
         icon: FileText,
@@ -81,7 +223,17 @@ const Dashboard: React.FC = () => {
         data: `${dashboardData.efirs.pending} Pending`,
         color: 'text-warning',
         action: 'Process',
-        onClick: () => setCurrentView('efir')
+        onClick: () => { setFirSource(null); setCurrentView('efir'); }
+      });
+
+      baseCards.push({
+        title: 'Missing Persons',
+        icon: UserSearch,
+        description: 'Search cases & officer bulletins',
+        data: `${missingCases.length} Searching`,
+        color: 'text-emergency',
+        action: 'Open Cases',
+        onClick: () => openMissing({})
       });
     }
 
@@ -136,24 +288,86 @@ const Dashboard: React.FC = () => {
 
   const cards = getCardsByRole();
 
+  // Active zones at their first point, and open alerts that carry a position
+  const mapLocations: MapLocation[] = [
+    ...zones.filter(zone => zone.status === 'active').map(zone => ({
+      id: zone._id,
+      lat: zone.coordinates[0].lat,
+      lng: zone.coordinates[0].lng,
+      type: zone.type === 'safe' ? 'safe_zone' as const : zone.type === 'restricted' ? 'restricted_zone' as const : 'alert' as const,
+      title: zone.name,
+      description: zone.description,
+      status: zone.inEffect ? 'active' as const : 'inactive' as const
+    })),
+    ...openAlerts.filter(alert => alert.location).map(alert => ({
+      id: alert._id,
+      lat: alert.location!.lat,
+      lng: alert.location!.lng,
+      type: 'alert' as const,
+      title: alert.message,
+      description: `${alert.type.toUpperCase()} · ${alert.severity}`,
+      status: 'warning' as const
+    }))
+  ];
+
+  // Centred on the busiest hotspot, else the first zone
+  const mapFocus = hotspots?.hotspots[0]?.center || zones[0]?.coordinates[0];
+  const mapCenter = mapFocus ? { lat: mapFocus.lat, lng: mapFocus.lng } : { lat: 28.6139, lng: 77.2090 };
+
+  const openFIR = (source: FIRSource) => {
+    setFirSource(source);
+    setCurrentView('efir');
+  };
+
+  const openZoneDraft = (zone: ZoneInput | null) => {
+    setZoneDraft(zone);
+    setCurrentView('zones');
+  };
+
+  const createZoneFromHotspot = (hotspot: Hotspot) => {
+    if (hotspots) openZoneDraft(hotspotZoneDraft(hotspot, hotspots));
+  };
+
+  const openMissing = ({ touristId = null, caseId = null }: { touristId?: string | null; caseId?: string | null }) => {
+    setMissingTouristId(touristId);
+    setMissingCaseId(caseId);
+    setCurrentView('missing');
+  };
+
   if (currentView === 'alerts') {
-    return <LiveAlerts onBack={() => setCurrentView('dashboard')} />;
+    return <LiveAlerts onBack={() => setCurrentView('dashboard')} onFileFIR={canFileFIR ? openFIR : undefined} />;
   }
 
   if (currentView === 'tourists') {
-    return <TouristManagement onBack={() => setCurrentView('dashboard')} />;
+    return (
+      <TouristManagement
+        onBack={() => setCurrentView('dashboard')}
+        onReportMissing={canFileFIR ? (touristId) => openMissing({ touristId }) : undefined}
+      />
+    );
+  }
+
+  if (currentView === 'missing') {
+    return (
+      <MissingPersons
+        onBack={() => setCurrentView('dashboard')}
+        touristId={missingTouristId}
+        caseId={missingCaseId}
+        onFileFIR={openFIR}
+      />
+    );
   }
 
   if (currentView === 'zones') {
-    return <ZoneManagement onBack={() => setCurrentView('dashboard')} />;
+    return <ZoneManagement onBack={() => setCurrentView('dashboard')} draft={zoneDraft} />;
   }
 
   if (currentView === 'analytics') {
-    return <AnalyticsDashboard onBack={() => setCurrentView('dashboard')} />;
+    return <AnalyticsDashboard onBack={() => setCurrentView('dashboard')} onCreateZone={openZoneDraft} />;
   }
 
   if (currentView === 'efir') {
-    return <EFIRManagement onBack={() => setCurrentView('dashboard')} />;
+    return <EFIRManagement onBack={() => setCurrentView('dashboard')} source={firSource} />;
   }
 
   if (currentView === 'roles') {
@@ -191,9 +405,12 @@ const Dashboard: React.FC = () => {
       {/* Map Background */}
       <div className="fixed inset-0 pt-16 bg-muted/20">
         <InteractiveMap 
-          center={{ lat: 28.6139, lng: 77.2090 }}
+          center={mapCenter}
           zoom={11}
           showControls={true}
+          locations={mapLocations}
+          heat={hotspots}
+          onCreateZone={createZoneFromHotspot}
         />
       </div>
 
@@ -254,6 +471,18 @@ const Dashboard: React.FC = () => {
             })}
           </div>
 
+          {canFileFIR && (
+            <MissingPersonBulletins cases={missingCases} onOpen={(caseId) => openMissing({ caseId })} />
+          )}
+
+          <IncidentHotspots
+            report={hotspots}
+            error={hotspotError}
+            timeOfDay={timeOfDay}
+            onTimeOfDayChange={setTimeOfDay}
+            onCreateZone={createZoneFromHotspot}
+          />
+
           {/* System Status Bar */}
           <div className="mt-6">
             <Card className="bg-background/95 backdrop-blur-sm">
@@ -1,119 +1,371 @@
-import React, { useState } from 'react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
-import { 
-  FileText, 
-  Plus, 
-  Eye, 
-  Edit, 
-  CheckCircle, 
-  Clock, 
+import {
+  FileText,
+  Plus,
+  Eye,
+  Edit,
+  CheckCircle,
+  Clock,
   AlertTriangle,
   User,
   Calendar,
   MapPin,
-  Download,
   Search,
   Filter,
-  ArrowLeft
+  ArrowLeft,
+  History,
+  Send,
+  Undo2,
+  XCircle,
+  ShieldCheck,
+  ShieldAlert,
+  Upload,
+  Download,
+  Paperclip
 } from 'lucide-react';
-// import { useTranslation } from 'react-i18next';
+import { useAuth } from '@/context/AuthContext';
+import { firApi, Evidence, FIR, FIRAction, FIRInput, FIRSeverity, FIRSource, FIRVerification } from '@/services/firApi';
+import { alertApi, Officer } from '@/services/alertApi';
+import { useEventStream } from '@/hooks/useEventStream';
+
+interface EFIRManagementProps {
+  onBack: () => void;
+  // Open the create dialog filled in from an alert or a missing tourist
+  source?: FIRSource | null;
+}
 
-interface FIR {
-  id: string;
-  firNumber: string;
+interface FIRForm {
   title: string;
-  description: string;
   incidentType: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  status: 'draft' | 'pending' | 'approved' | 'rejected' | 'closed';
-  reportedBy: string;
-  reportedDate: string;
-  incidentDate: string;
+  severity: FIRSeverity | '';
   location: string;
-  involvedPersons: string[];
-  evidenceFiles: string[];
-  assignedOfficer?: string;
-  lastUpdated: string;
-  remarks?: string;
+  description: string;
+  incidentDate: string;
+  reportedBy: string;
+  involvedPersons: string;
 }
 
-interface EFIRManagementProps {
-  onBack: () => void;
-}
+const EMPTY_FORM: FIRForm = {
+  title: '',
+  incidentType: '',
+  severity: '',
+  location: '',
+  description: '',
+  incidentDate: '',
+  reportedBy: '',
+  involvedPersons: ''
+};
+
+// Languages a PDF copy can be translated into; 'auto' uses the tourist's own
+const PDF_LANGUAGES: Record<string, string> = {
+  auto: "Tourist's language",
+  en: 'English only',
+  hi: 'Hindi',
+  as: 'Assamese',
+  bn: 'Bengali',
+  mni: 'Manipuri',
+  kha: 'Khasi',
+  nsm: 'Nagamese',
+  brx: 'Bodo',
+  ta: 'Tamil',
+  te: 'Telugu',
+  mr: 'Marathi',
+  gu: 'Gujarati'
+};
+
+const INCIDENT_TYPES: Record<string, string> = {
+  theft: 'Theft',
+  missing: 'Missing Person',
+  accident: 'Traffic Accident',
+  assault: 'Assault',
+  fraud: 'Fraud',
+  other: 'Other'
+};
+
+const HISTORY_LABELS: Record<FIR['history'][number]['action'], string> = {
+  created: 'Created',
+  updated: 'Edited',
+  submitted: 'Submitted for approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  closed: 'Closed',
+  returned: 'Returned to draft',
+  assigned: 'Assigned',
+  remark: 'Remark',
+  evidence_added: 'Evidence added'
+};
 
-const EFIRManagement: React.FC<EFIRManagementProps> = ({ onBack }) => {
-  // const { t } = useTranslation();
+const CUSTODY_LABELS: Record<Evidence['custody'][number]['action'], string> = {
+  uploaded: 'Uploaded',
+  viewed: 'Viewed',
+  downloaded: 'Downloaded'
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toForm = (fir: FIRInput | FIR): FIRForm => ({
+  title: fir.title,
+  incidentType: fir.incidentType,
+  severity: fir.severity,
+  location: fir.location,
+  description: fir.description,
+  incidentDate: toLocalInput(fir.incidentDate),
+  reportedBy: fir.reportedBy,
+  involvedPersons: (fir.involvedPersons || []).join('\n')
+});
+
+const EFIRManagement: React.FC<EFIRManagementProps> = ({ onBack, source }) => {
+  const { auth } = useAuth();
+  const [firs, setFirs] = useState<FIR[]>([]);
+  const [officers, setOfficers] = useState<Officer[]>([]);
+  const [error, setError] = useState<string | null>(null);
   const [selectedFIR, setSelectedFIR] = useState<FIR | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<FIRForm>(EMPTY_FORM);
+  // The unsaved parts of a prefilled FIR that have no form field
+  const [prefill, setPrefill] = useState<Pick<FIRInput, 'coordinates' | 'touristId' | 'source'> | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [note, setNote] = useState('');
+  const [verification, setVerification] = useState<FIRVerification | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [evidence, setEvidence] = useState<Evidence[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [pdfLanguage, setPdfLanguage] = useState('auto');
+  const [downloading, setDownloading] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [severityFilter, setSeverityFilter] = useState('all');
 
-  // Mock data
-  const firs: FIR[] = [
-    {
-      id: '1',
-      firNumber: 'FIR-2024-001',
-      title: 'Lost Tourist Report',
-      description: 'Tourist reported missing from central market area. Last seen around 2 PM near the main entrance.',
-      incidentType: 'Missing Person',
-      severity: 'high',
-      status: 'pending',
-      reportedBy: 'Tourist Guide - Rajesh Kumar',
-      reportedDate: '2024-01-15T14:30:00Z',
-      incidentDate: '2024-01-15T14:00:00Z',
-      location: 'Central Market, Main Entrance',
-      involvedPersons: ['John Smith (Tourist)', 'Sarah Johnson (Companion)'],
-      evidenceFiles: ['photo1.jpg', 'witness_statement.pdf'],
-      assignedOfficer: 'Inspector Sharma',
-      lastUpdated: '2024-01-15T15:00:00Z',
-      remarks: 'Search operation initiated'
-    },
-    {
-      id: '2',
-      firNumber: 'FIR-2024-002',
-      title: 'Theft at Hotel',
-      description: 'Tourist reported theft of personal belongings from hotel room. Items include passport, wallet, and camera.',
-      incidentType: 'Theft',
-      severity: 'medium',
-      status: 'approved',
-      reportedBy: 'Hotel Manager - Priya Patel',
-      reportedDate: '2024-01-14T10:15:00Z',
-      incidentDate: '2024-01-14T08:00:00Z',
-      location: 'Grand Palace Hotel, Room 302',
-      involvedPersons: ['Michael Brown (Tourist)', 'Hotel Staff'],
-      evidenceFiles: ['room_photos.zip', 'cctv_footage.mp4'],
-      assignedOfficer: 'Sub-Inspector Singh',
-      lastUpdated: '2024-01-14T16:30:00Z',
-      remarks: 'Investigation in progress'
-    },
-    {
-      id: '3',
-      firNumber: 'FIR-2024-003',
-      title: 'Traffic Accident Involving Tourist',
-      description: 'Minor traffic accident involving tourist vehicle. No major injuries reported.',
-      incidentType: 'Traffic Accident',
-      severity: 'low',
-      status: 'closed',
-      reportedBy: 'Traffic Police - Constable Verma',
-      reportedDate: '2024-01-13T16:45:00Z',
-      incidentDate: '2024-01-13T16:30:00Z',
-      location: 'Highway 45, Near Tourist Complex',
-      involvedPersons: ['David Wilson (Tourist)', 'Local Driver'],
-      evidenceFiles: ['accident_report.pdf', 'vehicle_photos.jpg'],
-      assignedOfficer: 'Traffic Inspector Kumar',
-      lastUpdated: '2024-01-13T18:00:00Z',
-      remarks: 'Case closed - minor damages settled'
+  const loadFIRs = useCallback(async () => {
+    const response = await firApi.getFIRs({ limit: 500 });
+    if (response.success && response.data) {
+      setFirs(response.data);
+      setError(null);
+    } else {
+      setError(response.error || 'Failed to load FIRs');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFIRs();
+  }, [loadFIRs]);
+
+  useEffect(() => {
+    alertApi.getOfficers().then(response => {
+      if (response.success && response.data) {
+        setOfficers(response.data);
+      }
+    });
+  }, []);
+
+  useEventStream(['firs'], (event) => {
+    const fir = event.data as FIR;
+    setFirs(current => current.some(f => f._id === fir._id)
+      ? current.map(f => f._id === fir._id ? fir : f)
+      : [fir, ...current]);
+    setSelectedFIR(current => current && current._id === fir._id ? fir : current);
+  }, { onReset: loadFIRs });
+
+  // Started from an alert or a missing tourist elsewhere in the dashboard
+  useEffect(() => {
+    if (!source) return;
+
+    firApi.prefill(source).then(response => {
+      if (response.success && response.data) {
+        const { coordinates, touristId } = response.data;
+        setEditingId(null);
+        setForm(toForm(response.data));
+        setPrefill({ coordinates, touristId, source });
+        setFormError(null);
+        setIsCreateDialogOpen(true);
+      } else {
+        setError(response.error || 'Failed to prefill FIR');
+      }
+    });
+  }, [source]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setPrefill(null);
+    setFormError(null);
+    setIsCreateDialogOpen(true);
+  };
+
+  const openEdit = (fir: FIR) => {
+    setEditingId(fir._id);
+    setForm(toForm(fir));
+    setPrefill(null);
+    setFormError(null);
+    setSelectedFIR(null);
+    setIsCreateDialogOpen(true);
+  };
+
+  const updateForm = (field: keyof FIRForm, value: string) => {
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  const saveFIR = async (submit: boolean) => {
+    if (!form.title || !form.incidentType || !form.severity || !form.location ||
+        !form.description || !form.incidentDate || !form.reportedBy) {
+      setFormError('Please fill in all fields');
+      return;
     }
-  ];
+
+    const input: FIRInput = {
+      title: form.title,
+      incidentType: form.incidentType,
+      severity: form.severity,
+      location: form.location,
+      description: form.description,
+      incidentDate: new Date(form.incidentDate).toISOString(),
+      reportedBy: form.reportedBy,
+      involvedPersons: form.involvedPersons.split('\n').map(person => person.trim()).filter(Boolean),
+      ...(prefill || {})
+    };
+
+    setSaving(true);
+    try {
+      const response = editingId
+        ? await firApi.updateFIR(editingId, input)
+        : await firApi.createFIR(input);
+
+      if (!response.success || !response.data) {
+        setFormError(response.error || 'Failed to save FIR');
+        return;
+      }
+
+      if (submit) {
+        const submitted = await firApi.transition(response.data._id, 'submit');
+        if (!submitted.success) {
+          setError(submitted.error || 'Saved as draft but failed to submit');
+        }
+      }
+
+      setIsCreateDialogOpen(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runAction = async (fir: FIR, action: () => Promise<{ success: boolean; data?: FIR; error?: string }>) => {
+    setUpdatingId(fir._id);
+    try {
+      const response = await action();
+      if (response.success && response.data) {
+        setFirs(current => current.map(f => f._id === fir._id ? response.data! : f));
+        setSelectedFIR(current => current && current._id === fir._id ? response.data! : current);
+        setNote('');
+        setError(null);
+      } else {
+        setError(response.error || 'Failed to update FIR');
+      }
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  // A verification only describes the revision it was run against
+  useEffect(() => {
+    setVerification(null);
+  }, [selectedFIR?._id, selectedFIR?.updatedAt]);
+
+  const selectedId = selectedFIR?._id;
+  const evidenceCount = selectedFIR?.evidence?.length || 0;
+
+  // Reloaded when files are added, here or by another officer
+  useEffect(() => {
+    if (!selectedId) {
+      setEvidence([]);
+      return;
+    }
+
+    firApi.getEvidence(selectedId).then(response => {
+      if (response.success && response.data) {
+        setEvidence(response.data);
+      }
+    });
+  }, [selectedId, evidenceCount]);
+
+  const uploadEvidence = async (fir: FIR, files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setUploading(true);
+    try {
+      const response = await firApi.uploadEvidence(fir._id, Array.from(files));
+      if (response.success) {
+        const updated = await firApi.getFIR(fir._id);
+        if (updated.success && updated.data) {
+          setSelectedFIR(current => current && current._id === fir._id ? updated.data! : current);
+        }
+        setError(null);
+      } else {
+        setError(response.error || 'Failed to upload evidence');
+      }
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const openEvidence = async (fir: FIR, item: Evidence, kind: 'view' | 'download') => {
+    const response = await firApi.getEvidenceLink(fir._id, item._id, kind);
+    if (response.success && response.data) {
+      window.open(response.data.url, '_blank');
+    } else {
+      setError(response.error || 'Failed to open evidence');
+    }
+  };
+
+  const downloadPDF = async (fir: FIR) => {
+    setDownloading(true);
+    try {
+      const response = await firApi.downloadPDF(fir._id, pdfLanguage === 'auto' ? undefined : pdfLanguage);
+      if (!response.success) {
+        setError(response.error || 'Failed to download FIR');
+      }
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const verifyFIR = async (fir: FIR) => {
+    setVerifying(true);
+    try {
+      const response = await firApi.verify(fir.firNumber);
+      if (response.success && response.data) {
+        setVerification(response.data);
+      } else {
+        setError(response.error || 'Failed to verify FIR');
+      }
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const transition = (fir: FIR, action: FIRAction) =>
+    runAction(fir, () => firApi.transition(fir._id, action, note || undefined));
+
+  // Police sign off on each other's FIRs, not their own
+  const canApprove = (fir: FIR) =>
+    fir.status === 'pending' && (auth.user?.role === 'admin' || fir.createdBy !== auth.user?.id);
 
   const filteredFIRs = firs.filter(fir => {
     const matchesSearch = fir.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -164,122 +416,151 @@ const EFIRManagement: React.FC<EFIRManagementProps> = ({ onBack }) => {
             <Button variant="ghost" size="sm" onClick={onBack}>
               <ArrowLeft className="w-4 h-4" />
             </Button>
-            <h1 className="text-2xl font-bold">"Static Text"</h1>
+            <h1 className="text-2xl font-bold">E-FIR Management</h1>
+            <Badge variant="outline">
+              {firs.filter(fir => fir.status === 'pending').length} Pending
+            </Badge>
           </div>
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="w-4 h-4 mr-2" />
-                "Static Text"
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle>Create New E-FIR</DialogTitle>
-              </DialogHeader>
-              <div className="grid gap-6 py-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="title">FIR Title</Label>
-                    <Input id="title" placeholder="Enter FIR title" />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="incidentType">Incident Type</Label>
-                    <Select>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select incident type" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="theft">Theft</SelectItem>
-                        <SelectItem value="missing">Missing Person</SelectItem>
-                        <SelectItem value="accident">Traffic Accident</SelectItem>
-                        <SelectItem value="assault">Assault</SelectItem>
-                        <SelectItem value="fraud">Fraud</SelectItem>
-                        <SelectItem value="other">Other</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="severity">Severity</Label>
-                    <Select>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select severity" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="low">Low</SelectItem>
-                        <SelectItem value="medium">Medium</SelectItem>
-                        <SelectItem value="high">High</SelectItem>
-                        <SelectItem value="critical">Critical</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="location">Incident Location</Label>
-                    <Input id="location" placeholder="Enter incident location" />
-                  </div>
-                </div>
+          <Button onClick={openCreate}>
+            <Plus className="w-4 h-4 mr-2" />
+            New E-FIR
+          </Button>
+        </div>
+      </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="description">Incident Description</Label>
-                  <Textarea 
-                    id="description" 
-                    placeholder="Detailed description of the incident..." 
-                    rows={4}
-                  />
-                </div>
+      {/* Create / edit dialog */}
+      <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit E-FIR' : 'Create New E-FIR'}</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-6 py-4">
+            {prefill?.source && (
+              <p className="text-sm text-muted-foreground">
+                Filled in from {prefill.source.type === 'alert' ? 'a live alert' : 'a missing tourist report'}. Review every field before saving.
+              </p>
+            )}
 
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="incidentDate">Incident Date & Time</Label>
-                    <Input id="incidentDate" type="datetime-local" />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="reportedBy">Reported By</Label>
-                    <Input id="reportedBy" placeholder="Name and designation" />
-                  </div>
-                </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="title">FIR Title</Label>
+                <Input
+                  id="title"
+                  placeholder="Enter FIR title"
+                  value={form.title}
+                  onChange={(e) => updateForm('title', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="incidentType">Incident Type</Label>
+                <Select value={form.incidentType} onValueChange={(value) => updateForm('incidentType', value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select incident type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(INCIDENT_TYPES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="involvedPersons">Involved Persons</Label>
-                  <Textarea 
-                    id="involvedPersons" 
-                    placeholder="List all persons involved (one per line)" 
-                    rows={3}
-                  />
-                </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="severity">Severity</Label>
+                <Select value={form.severity} onValueChange={(value) => updateForm('severity', value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select severity" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="critical">Critical</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="location">Incident Location</Label>
+                <Input
+                  id="location"
+                  placeholder="Enter incident location"
+                  value={form.location}
+                  onChange={(e) => updateForm('location', e.target.value)}
+                />
+              </div>
+            </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="evidence">Evidence Files</Label>
-                  <div className="border-2 border-dashed border-muted rounded-lg p-6 text-center">
-                    <div className="text-muted-foreground">
-                      <FileText className="w-8 h-8 mx-auto mb-2" />
-                      <p>Drag and drop files here or click to browse</p>
-                      <p className="text-xs">Supports: PDF, JPG, PNG, MP4 (Max 10MB each)</p>
-                    </div>
-                  </div>
-                </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Incident Description</Label>
+              <Textarea
+                id="description"
+                placeholder="Detailed description of the incident..."
+                rows={4}
+                value={form.description}
+                onChange={(e) => updateForm('description', e.target.value)}
+              />
+            </div>
 
-                <div className="flex justify-end gap-2">
-                  <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-                    "Static Text"
-                  </Button>
-                  <Button variant="outline">
-                    Save as "Static Text"
-                  </Button>
-                  <Button onClick={() => setIsCreateDialogOpen(false)}>
-                    "Static Text"
-                  </Button>
-                </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="incidentDate">Incident Date & Time</Label>
+                <Input
+                  id="incidentDate"
+                  type="datetime-local"
+                  value={form.incidentDate}
+                  onChange={(e) => updateForm('incidentDate', e.target.value)}
+                />
               </div>
-            </DialogContent>
-          </Dialog>
-        </div>
-      </div>
+              <div className="space-y-2">
+                <Label htmlFor="reportedBy">Reported By</Label>
+                <Input
+                  id="reportedBy"
+                  placeholder="Name and designation"
+                  value={form.reportedBy}
+                  onChange={(e) => updateForm('reportedBy', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="involvedPersons">Involved Persons</Label>
+              <Textarea
+                id="involvedPersons"
+                placeholder="List all persons involved (one per line)"
+                rows={3}
+                value={form.involvedPersons}
+                onChange={(e) => updateForm('involvedPersons', e.target.value)}
+              />
+            </div>
+
+            {formError && (
+              <p className="text-sm text-red-600">{formError}</p>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button variant="outline" disabled={saving} onClick={() => saveFIR(false)}>
+                Save as Draft
+              </Button>
+              <Button disabled={saving} onClick={() => saveFIR(true)}>
+                Submit for Approval
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
 
       <div className="p-6">
+        {error && (
+          <div className="mb-4 p-3 rounded-md bg-red-50 text-red-700 text-sm dark:bg-red-950/20 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
         {/* Filters */}
         <div className="flex flex-col sm:flex-row gap-4 mb-6">
           <div className="flex-1">
@@ -300,9 +581,9 @@ const EFIRManagement: React.FC<EFIRManagementProps> = ({ onBack }) => {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Status</SelectItem>
-              <SelectItem value="draft">"Static Text"</SelectItem>
-              <SelectItem value="pending">"Static Text"</SelectItem>
-              <SelectItem value="approved">"Static Text"</SelectItem>
+              <SelectItem value="draft">Draft</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
               <SelectItem value="rejected">Rejected</SelectItem>
               <SelectItem value="closed">Closed</SelectItem>
             </SelectContent>
@@ -324,7 +605,7 @@ const EFIRManagement: React.FC<EFIRManagementProps> = ({ onBack }) => {
         {/* FIR List */}
         <div className="space-y-4">
           {filteredFIRs.map((fir) => (
-            <Card key={fir.id} className="hover:shadow-md transition-shadow">
+            <Card key={fir._id} className="hover:shadow-md transition-shadow">
               <CardContent className="p-6">
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
@@ -338,10 +619,10 @@ const EFIRManagement: React.FC<EFIRManagementProps> = ({ onBack }) => {
                       </Badge>
                       <span className="text-sm font-mono text-muted-foreground">{fir.firNumber}</span>
                     </div>
-                    
+
                     <h3 className="text-lg font-semibold mb-2">{fir.title}</h3>
                     <p className="text-muted-foreground mb-4 line-clamp-2">{fir.description}</p>
-                    
+
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
                       <div className="flex items-center gap-2">
                         <User className="w-4 h-4 text-muted-foreground" />
@@ -356,33 +637,32 @@ const EFIRManagement: React.FC<EFIRManagementProps> = ({ onBack }) => {
                         <span>{fir.location}</span>
                       </div>
                       <div className="flex items-center gap-2">
-                        <FileText className="w-4 h-4 text-muted-foreground" />
-                        <span>{fir.evidenceFiles.length} files</span>
+                        <History className="w-4 h-4 text-muted-foreground" />
+                        <span>{fir.history.length} {fir.history.length === 1 ? 'entry' : 'entries'}</span>
                       </div>
                     </div>
-                    
-                    {fir.assignedOfficer && (
+
+                    {fir.assignedOfficerName && (
                       <div className="mt-2 text-sm">
                         <span className="text-muted-foreground">Assigned to: </span>
-                        <span className="font-medium">{fir.assignedOfficer}</span>
+                        <span className="font-medium">{fir.assignedOfficerName}</span>
                       </div>
                     )}
                   </div>
-                  
+
                   <div className="flex items-center gap-2 ml-4">
                     <Button variant="outline" size="sm" onClick={() => setSelectedFIR(fir)}>
                       <Eye className="w-4 h-4" />
                     </Button>
-                    <Button variant="outline" size="sm">
-                      <Edit className="w-4 h-4" />
-                    </Button>
-                    <Button variant="outline" size="sm">
-                      <Download className="w-4 h-4" />
-                    </Button>
-                    {fir.status === 'pending' && (
-                      <Button size="sm">
+                    {fir.status === 'draft' && (
+                      <Button variant="outline" size="sm" onClick={() => openEdit(fir)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {canApprove(fir) && (
+                      <Button size="sm" disabled={updatingId === fir._id} onClick={() => transition(fir, 'approve')}>
                         <CheckCircle className="w-4 h-4 mr-1" />
-                        "Static Text"
+                        Approve
                       </Button>
                     )}
                   </div>
@@ -405,7 +685,7 @@ const EFIRManagement: React.FC<EFIRManagementProps> = ({ onBack }) => {
 
       {/* FIR Details Dialog */}
       {selectedFIR && (
-        <Dialog open={!!selectedFIR} onOpenChange={() => setSelectedFIR(null)}>
+        <Dialog open={!!selectedFIR} onOpenChange={() => { setSelectedFIR(null); setNote(''); }}>
           <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle className="flex items-center gap-2">
@@ -423,7 +703,7 @@ const EFIRManagement: React.FC<EFIRManagementProps> = ({ onBack }) => {
                   {selectedFIR.severity}
                 </Badge>
               </div>
-              
+
               <div className="grid grid-cols-2 gap-6">
                 <div className="space-y-4">
                   <div>
@@ -431,7 +711,7 @@ const EFIRManagement: React.FC<EFIRManagementProps> = ({ onBack }) => {
                     <div className="space-y-2 text-sm">
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Type:</span>
-                        <span>{selectedFIR.incidentType}</span>
+                        <span>{INCIDENT_TYPES[selectedFIR.incidentType] || selectedFIR.incidentType}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Date:</span>
@@ -443,7 +723,7 @@ const EFIRManagement: React.FC<EFIRManagementProps> = ({ onBack }) => {
                       </div>
                     </div>
                   </div>
-                  
+
                   <div>
                     <h4 className="font-semibold mb-2">Reporting Details</h4>
                     <div className="space-y-2 text-sm">
@@ -452,19 +732,37 @@ const EFIRManagement: React.FC<EFIRManagementProps> = ({ onBack }) => {
                         <span>{selectedFIR.reportedBy}</span>
                       </div>
                       <div className="flex justify-between">
-                        <span className="text-muted-foreground">Reported Date:</span>
-                        <span>{new Date(selectedFIR.reportedDate).toLocaleString()}</span>
+                        <span className="text-muted-foreground">Filed By:</span>
+                        <span>{selectedFIR.createdByName}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Filed On:</span>
+                        <span>{new Date(selectedFIR.createdAt).toLocaleString()}</span>
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-muted-foreground">Assigned Officer:</span>
+                        {selectedFIR.status === 'closed' ? (
+                          <span>{selectedFIR.assignedOfficerName || 'Unassigned'}</span>
+                        ) : (
+                          <Select
+                            value={selectedFIR.assignedTo || undefined}
+                            onValueChange={(officerId) => runAction(selectedFIR, () => firApi.assign(selectedFIR._id, officerId))}
+                          >
+                            <SelectTrigger className="h-8 w-44">
+                              <SelectValue placeholder="Unassigned" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {officers.map(officer => (
+                                <SelectItem key={officer._id} value={officer._id}>{officer.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
                       </div>
-                      {selectedFIR.assignedOfficer && (
-                        <div className="flex justify-between">
-                          <span className="text-muted-foreground">Assigned Officer:</span>
-                          <span>{selectedFIR.assignedOfficer}</span>
-                        </div>
-                      )}
                     </div>
                   </div>
                 </div>
-                
+
                 <div className="space-y-4">
                   <div>
                     <h4 className="font-semibold mb-2">Involved Persons</h4>
@@ -475,64 +773,215 @@ const EFIRManagement: React.FC<EFIRManagementProps> = ({ onBack }) => {
                           {person}
                         </li>
                       ))}
+                      {selectedFIR.involvedPersons.length === 0 && (
+                        <li className="text-muted-foreground">None recorded</li>
+                      )}
                     </ul>
                   </div>
-                  
+
                   <div>
-                    <h4 className="font-semibold mb-2">Evidence Files</h4>
-                    <div className="space-y-2">
-                      {selectedFIR.evidenceFiles.map((file, index) => (
-                        <div key={index} className="flex items-center justify-between p-2 bg-muted rounded">
-                          <div className="flex items-center gap-2">
-                            <FileText className="w-4 h-4 text-muted-foreground" />
-                            <span className="text-sm">{file}</span>
+                    <h4 className="font-semibold mb-2">History</h4>
+                    <ol className="space-y-2 text-sm">
+                      {selectedFIR.history.map((entry, index) => (
+                        <li key={index} className="p-2 bg-muted rounded">
+                          <div className="flex justify-between">
+                            <span className="font-medium">{HISTORY_LABELS[entry.action]}</span>
+                            <span className="text-xs text-muted-foreground">{new Date(entry.at).toLocaleString()}</span>
                           </div>
-                          <Button variant="ghost" size="sm">
-                            <Download className="w-3 h-3" />
-                          </Button>
-                        </div>
+                          <p className="text-xs text-muted-foreground">by {entry.byName}</p>
+                          {entry.note && <p className="mt-1">{entry.note}</p>}
+                        </li>
                       ))}
-                    </div>
+                    </ol>
                   </div>
                 </div>
               </div>
-              
+
               <div>
                 <h4 className="font-semibold mb-2">Description</h4>
                 <p className="text-sm text-muted-foreground bg-muted p-4 rounded-lg">
                   {selectedFIR.description}
                 </p>
               </div>
-              
-              {selectedFIR.remarks && (
-                <div>
-                  <h4 className="font-semibold mb-2">Remarks</h4>
-                  <p className="text-sm text-muted-foreground bg-muted p-4 rounded-lg">
-                    {selectedFIR.remarks}
-                  </p>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-semibold">Evidence</h4>
+                  {selectedFIR.status !== 'closed' && (
+                    <Label
+                      htmlFor="evidence-upload"
+                      className={`inline-flex items-center gap-2 text-sm border rounded-md px-3 py-1.5 ${uploading ? 'opacity-50' : 'cursor-pointer hover:bg-muted'}`}
+                    >
+                      <Upload className="w-4 h-4" />
+                      {uploading ? 'Uploading...' : 'Upload Files'}
+                      <input
+                        id="evidence-upload"
+                        type="file"
+                        multiple
+                        className="hidden"
+                        disabled={uploading}
+                        accept="image/jpeg,image/png,image/webp,video/mp4,video/quicktime,audio/mpeg,audio/wav,application/pdf"
+                        onChange={(e) => { uploadEvidence(selectedFIR, e.target.files); e.target.value = ''; }}
+                      />
+                    </Label>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  {evidence.map(item => (
+                    <div key={item._id} className="flex items-start gap-3 p-2 bg-muted rounded text-sm">
+                      {item.thumbnailUrl ? (
+                        <img src={item.thumbnailUrl} alt={item.fileName} className="w-16 h-16 object-cover rounded" />
+                      ) : (
+                        <div className="w-16 h-16 flex items-center justify-center rounded bg-background">
+                          <Paperclip className="w-5 h-5 text-muted-foreground" />
+                        </div>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{item.fileName}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatSize(item.size)} · uploaded by {item.uploadedByName}
+                        </p>
+                        <p className="text-xs font-mono text-muted-foreground truncate" title={item.sha256}>
+                          SHA-256 {item.sha256}
+                        </p>
+                        <details className="text-xs mt-1">
+                          <summary className="cursor-pointer text-muted-foreground">
+                            Chain of custody ({item.custody.length})
+                          </summary>
+                          <ol className="mt-1 space-y-0.5">
+                            {item.custody.map((entry, index) => (
+                              <li key={index}>
+                                {CUSTODY_LABELS[entry.action]} by {entry.byName} ({entry.role}) · {new Date(entry.at).toLocaleString()}
+                              </li>
+                            ))}
+                          </ol>
+                        </details>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button variant="outline" size="sm" onClick={() => openEvidence(selectedFIR, item, 'view')}>
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => openEvidence(selectedFIR, item, 'download')}>
+                          <Download className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  {evidence.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No evidence attached</p>
+                  )}
+                </div>
+              </div>
+
+              {verification && (
+                <div className={`p-3 rounded-lg text-sm ${verification.valid
+                  ? 'bg-green-50 text-green-800 dark:bg-green-950/20 dark:text-green-300'
+                  : 'bg-red-50 text-red-800 dark:bg-red-950/20 dark:text-red-300'}`}>
+                  <div className="flex items-center gap-2 font-medium mb-2">
+                    {verification.valid ? <ShieldCheck className="w-4 h-4" /> : <ShieldAlert className="w-4 h-4" />}
+                    {verification.valid ? 'Matches its anchored history' : verification.reason}
+                  </div>
+                  <ol className="space-y-1 text-xs">
+                    {verification.revisions.map(revision => (
+                      <li key={revision.revision} className="flex justify-between">
+                        <span>
+                          #{revision.revision} {revision.action ? HISTORY_LABELS[revision.action] : 'Unknown'}
+                          {!revision.matches && ' — diverges'}
+                        </span>
+                        <span>{revision.blockIndex !== null ? `Block ${revision.blockIndex}` : 'Awaiting block'}</span>
+                      </li>
+                    ))}
+                  </ol>
                 </div>
               )}
-              
+
+              <div className="space-y-2">
+                <Label htmlFor="note">Remark or reason</Label>
+                <Textarea
+                  id="note"
+                  placeholder="Added to the FIR's history; required to reject"
+                  rows={2}
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+              </div>
+
               <div className="flex justify-between items-center pt-4 border-t">
                 <span className="text-sm text-muted-foreground">
-                  Last updated: {new Date(selectedFIR.lastUpdated).toLocaleString()}
+                  Last updated: {new Date(selectedFIR.updatedAt).toLocaleString()}
                 </span>
-                <div className="flex gap-2">
-                  <Button variant="outline" onClick={() => setSelectedFIR(null)}>
-                    "Static Text"
-                  </Button>
-                  <Button variant="outline">
-                    <Edit className="w-4 h-4 mr-2" />
-                    Edit
-                  </Button>
-                  <Button variant="outline">
+                <div className="flex flex-wrap gap-2">
+                  <Select value={pdfLanguage} onValueChange={setPdfLanguage}>
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PDF_LANGUAGES).map(([code, name]) => (
+                        <SelectItem key={code} value={code}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    disabled={downloading}
+                    onClick={() => downloadPDF(selectedFIR)}
+                  >
                     <Download className="w-4 h-4 mr-2" />
                     Download PDF
                   </Button>
-                  {selectedFIR.status === 'pending' && (
-                    <Button>
+                  <Button
+                    variant="outline"
+                    disabled={verifying}
+                    onClick={() => verifyFIR(selectedFIR)}
+                  >
+                    <ShieldCheck className="w-4 h-4 mr-2" />
+                    Verify on Chain
+                  </Button>
+                  <Button
+                    variant="outline"
+                    disabled={!note.trim() || updatingId === selectedFIR._id}
+                    onClick={() => runAction(selectedFIR, () => firApi.addRemark(selectedFIR._id, note.trim()))}
+                  >
+                    Add Remark
+                  </Button>
+                  {selectedFIR.status === 'draft' && (
+                    <>
+                      <Button variant="outline" onClick={() => openEdit(selectedFIR)}>
+                        <Edit className="w-4 h-4 mr-2" />
+                        Edit
+                      </Button>
+                      <Button disabled={updatingId === selectedFIR._id} onClick={() => transition(selectedFIR, 'submit')}>
+                        <Send className="w-4 h-4 mr-2" />
+                        Submit
+                      </Button>
+                    </>
+                  )}
+                  {(selectedFIR.status === 'pending' || selectedFIR.status === 'rejected') && (
+                    <Button variant="outline" disabled={updatingId === selectedFIR._id} onClick={() => transition(selectedFIR, 'return')}>
+                      <Undo2 className="w-4 h-4 mr-2" />
+                      Return to Draft
+                    </Button>
+                  )}
+                  {canApprove(selectedFIR) && (
+                    <>
+                      <Button
+                        variant="outline"
+                        disabled={!note.trim() || updatingId === selectedFIR._id}
+                        onClick={() => transition(selectedFIR, 'reject')}
+                      >
+                        <XCircle className="w-4 h-4 mr-2" />
+                        Reject
+                      </Button>
+                      <Button disabled={updatingId === selectedFIR._id} onClick={() => transition(selectedFIR, 'approve')}>
+                        <CheckCircle className="w-4 h-4 mr-2" />
+                        Approve
+                      </Button>
+                    </>
+                  )}
+                  {selectedFIR.status === 'approved' && (
+                    <Button disabled={updatingId === selectedFIR._id} onClick={() => transition(selectedFIR, 'close')}>
                       <CheckCircle className="w-4 h-4 mr-2" />
-                      "Static Text"
+                      Close Case
                     </Button>
                   )}
                 </div>
@@ -545,4 +994,4 @@ const EFIRManagement: React.FC<EFIRManagementProps> = ({ onBack }) => {
   );
 };
 
-export default EFIRManagement;
\ No newline at end of file
+export default EFIRManagement;
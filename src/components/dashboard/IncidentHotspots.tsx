@@ -0,0 +1,91 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Flame } from 'lucide-react';
+import { Hotspot, HotspotReport } from '@/services/analyticsApi';
+import { describeSources, formatHour, TimeOfDay, TIME_OF_DAY_OPTIONS } from '@/lib/hotspots';
+
+interface IncidentHotspotsProps {
+  report: HotspotReport | null;
+  error?: string | null;
+  timeOfDay: TimeOfDay;
+  onTimeOfDayChange: (timeOfDay: TimeOfDay) => void;
+  onCreateZone: (hotspot: Hotspot) => void;
+  // Hotspots listed; the map shows them all
+  limit?: number;
+}
+
+/**
+ * The heaviest incident hotspots on the dashboard map, each of which can be
+ * turned into an alert zone
+ */
+const IncidentHotspots: React.FC<IncidentHotspotsProps> = ({
+  report,
+  error,
+  timeOfDay,
+  onTimeOfDayChange,
+  onCreateZone,
+  limit = 5
+}) => {
+  const hotspots = report?.hotspots.slice(0, limit) || [];
+
+  return (
+    <Card className="mt-6 bg-background/95 backdrop-blur-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between gap-4 text-sm">
+          <div className="flex items-center gap-2">
+            <Flame className="w-5 h-5 text-red-600" />
+            Incident Hotspots
+            {report && <Badge variant="outline">{report.hotspots.length}</Badge>}
+            {report && (
+              <span className="text-xs font-normal text-muted-foreground">
+                Since {new Date(report.from).toLocaleDateString()}
+              </span>
+            )}
+          </div>
+          <Select value={timeOfDay} onValueChange={(value) => onTimeOfDayChange(value as TimeOfDay)}>
+            <SelectTrigger className="w-44 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIME_OF_DAY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && (
+          <p className="text-sm text-destructive">{error}</p>
+        )}
+        {!error && report && hotspots.length === 0 && (
+          <p className="text-sm text-muted-foreground">No incident clusters for this time of day.</p>
+        )}
+        {hotspots.map(hotspot => (
+          <div key={hotspot.id} className="flex items-center justify-between gap-4 p-3 bg-muted rounded">
+            <div className="min-w-0">
+              <p className="font-medium text-sm">
+                {describeSources(hotspot)}
+                <span className="ml-2 font-mono text-xs text-muted-foreground">
+                  {hotspot.center.lat.toFixed(4)}, {hotspot.center.lng.toFixed(4)}
+                </span>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Within {hotspot.radius} m · weight {hotspot.weight} · peak {formatHour(hotspot.peakHour)}
+                {hotspot.zones.length > 0 && ` · in ${hotspot.zones.map(zone => zone.name).join(', ')}`}
+              </p>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => onCreateZone(hotspot)}>
+              Create Alert Zone
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IncidentHotspots;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -13,88 +13,93 @@ import {
   Eye,
   CheckCircle,
   XCircle,
-  ArrowLeft
+  ArrowLeft,
+  Battery,
+  ArrowUpCircle,
+  FileText
 } from 'lucide-react';
+import { alertApi, Alert, Officer } from '@/services/alertApi';
+import { FIRSource } from '@/services/firApi';
+import { useEventStream } from '@/hooks/useEventStream';
 
 interface LiveAlertsProps {
   onBack: () => void;
+  // Start an e-FIR from an alert; omitted for roles that cannot file one
+  onFileFIR?: (source: FIRSource) => void;
 }
 
-const LiveAlerts: React.FC<LiveAlertsProps> = ({ onBack }) => {
+const LiveAlerts: React.FC<LiveAlertsProps> = ({ onBack, onFileFIR }) => {
   const [filter, setFilter] = useState('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [officers, setOfficers] = useState<Officer[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
 
-  const alerts = [
-    {
-      id: 1,
-      type: 'panic',
-      severity: 'critical',
-      title: 'Tourist Panic Alert',
-      description: 'Emergency SOS activated by tourist in Central Market area',
-      location: 'Central Market, Block A',
-      timestamp: new Date(Date.now() - 5 * 60 * 1000),
-      status: 'active',
-      touristId: 'TRS-2024-001',
-      touristName: 'John Smith',
-      assignedTo: 'Officer Kumar'
-    },
-    {
-      id: 2,
-      type: 'geofence',
-      severity: 'moderate',
-      title: 'Restricted Zone Entry',
-      description: 'Tourist entered restricted military area',
-      location: 'Military Cantonment Area',
-      timestamp: new Date(Date.now() - 15 * 60 * 1000),
-      status: 'investigating',
-      touristId: 'TRS-2024-045',
-      touristName: 'Maria Garcia',
-      assignedTo: 'Officer Singh'
-    },
-    {
-      id: 3,
-      type: 'anomaly',
-      severity: 'low',
-      title: 'Unusual Movement Pattern',
-      description: 'Tourist showing erratic movement in Old City area',
-      location: 'Old City Heritage District',
-      timestamp: new Date(Date.now() - 30 * 60 * 1000),
-      status: 'monitoring',
-      touristId: 'TRS-2024-023',
-      touristName: 'Ahmed Hassan',
-      assignedTo: 'Officer Patel'
-    },
-    {
-      id: 4,
-      type: 'panic',
-      severity: 'critical',
-      title: 'Medical Emergency',
-      description: 'Tourist requested medical assistance via SOS',
-      location: 'Railway Station Platform 3',
-      timestamp: new Date(Date.now() - 45 * 60 * 1000),
-      status: 'resolved',
-      touristId: 'TRS-2024-067',
-      touristName: 'Li Wei',
-      assignedTo: 'Officer Sharma'
-    },
-    {
-      id: 5,
-      type: 'geofence',
-      severity: 'moderate',
-      title: 'Curfew Zone Entry',
-      description: 'Tourist entered area under night curfew',
-      location: 'Industrial Area Zone 2',
-      timestamp: new Date(Date.now() - 60 * 60 * 1000),
-      status: 'resolved',
-      touristId: 'TRS-2024-012',
-      touristName: 'Robert Johnson',
-      assignedTo: 'Officer Gupta'
+  const loadAlerts = useCallback(async () => {
+    const response = await alertApi.getAlerts({ limit: 200 });
+    if (response.success && response.data) {
+      setAlerts(response.data);
+      setError(null);
+    } else {
+      setError(response.error || 'Failed to load alerts');
     }
-  ];
+  }, []);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  const { connected } = useEventStream(['alerts'], (event) => {
+    const alert = event.data as Alert;
+    setAlerts(current => current.some(a => a._id === alert._id)
+      ? current.map(a => a._id === alert._id ? alert : a)
+      : [alert, ...current]);
+  }, { onReset: loadAlerts });
+
+  useEffect(() => {
+    alertApi.getOfficers().then(response => {
+      if (response.success && response.data) {
+        setOfficers(response.data);
+      }
+    });
+  }, []);
+
+  const runAction = async (id: string, action: () => Promise<{ success: boolean; data?: Alert; error?: string }>) => {
+    setUpdatingId(id);
+    try {
+      const response = await action();
+      if (response.success && response.data) {
+        setAlerts(current => current.map(alert => alert._id === id ? response.data! : alert));
+      } else {
+        setError(response.error || 'Failed to update alert');
+      }
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const getOfficerName = (officerId?: string | null) => {
+    if (!officerId) return 'Unassigned';
+    return officers.find(officer => officer._id === officerId)?.name || officerId;
+  };
+
+  const getTitle = (alert: Alert) => {
+    if (alert.type === 'sos') return 'Tourist SOS Alert';
+    if (alert.type === 'anomaly') return 'Unusual Movement Pattern';
+    return alert.type.charAt(0).toUpperCase() + alert.type.slice(1) + ' Alert';
+  };
+
+  const formatLocation = (alert: Alert) => {
+    if (!alert.location) return 'Location unavailable';
+    if (alert.location.address) return alert.location.address;
+    return `${alert.location.lat.toFixed(5)}, ${alert.location.lng.toFixed(5)}`;
+  };
 
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'critical': return 'destructive';
+      case 'high': return 'destructive';
       case 'moderate': return 'default';
       case 'low': return 'secondary';
       default: return 'secondary';
@@ -104,8 +109,8 @@ const LiveAlerts: React.FC<LiveAlertsProps> = ({ onBack }) => {
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'active': return 'bg-red-500';
+      case 'acknowledged': return 'bg-orange-500';
       case 'investigating': return 'bg-yellow-500';
-      case 'monitoring': return 'bg-blue-500';
       case 'resolved': return 'bg-green-500';
       default: return 'bg-gray-500';
     }
@@ -113,9 +118,11 @@ const LiveAlerts: React.FC<LiveAlertsProps> = ({ onBack }) => {
 
   const filteredAlerts = alerts.filter(alert => {
     const matchesFilter = filter === 'all' || alert.severity === filter || alert.status === filter;
-    const matchesSearch = alert.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         alert.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         alert.touristName.toLowerCase().includes(searchTerm.toLowerCase());
+    const search = searchTerm.toLowerCase();
+    const matchesSearch = getTitle(alert).toLowerCase().includes(search) ||
+                         alert.message.toLowerCase().includes(search) ||
+                         formatLocation(alert).toLowerCase().includes(search) ||
+                         (alert.data?.touristName || '').toLowerCase().includes(search);
     return matchesFilter && matchesSearch;
   });
 
@@ -132,6 +139,9 @@ const LiveAlerts: React.FC<LiveAlertsProps> = ({ onBack }) => {
             <Badge variant="destructive" className="animate-pulse">
               {alerts.filter(a => a.status === 'active').length} Active
             </Badge>
+            <Badge variant="outline" className={connected ? 'text-green-600' : 'text-muted-foreground'}>
+              {connected ? 'Live' : 'Reconnecting…'}
+            </Badge>
           </div>
           <Button size="sm" variant="outline">
             Sound On
@@ -161,9 +171,11 @@ const LiveAlerts: React.FC<LiveAlertsProps> = ({ onBack }) => {
             <SelectContent>
               <SelectItem value="all">All Alerts</SelectItem>
               <SelectItem value="critical">Critical</SelectItem>
+              <SelectItem value="high">High</SelectItem>
               <SelectItem value="moderate">Moderate</SelectItem>
               <SelectItem value="low">Low</SelectItem>
               <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="acknowledged">Acknowledged</SelectItem>
               <SelectItem value="investigating">Investigating</SelectItem>
               <SelectItem value="resolved">Resolved</SelectItem>
             </SelectContent>
@@ -171,10 +183,16 @@ const LiveAlerts: React.FC<LiveAlertsProps> = ({ onBack }) => {
         </div>
       </div>
 
+      {error && (
+        <div className="mx-4 mt-4 p-3 rounded-md bg-red-50 text-red-700 text-sm dark:bg-red-950/20 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
       {/* Alerts List */}
       <div className="p-4 space-y-3">
         {filteredAlerts.map((alert) => (
-          <Card key={alert.id} className={`${alert.status === 'active' ? 'border-red-200 bg-red-50/50 dark:border-red-800 dark:bg-red-950/20' : ''}`}>
+          <Card key={alert._id} className={`${alert.status === 'active' ? 'border-red-200 bg-red-50/50 dark:border-red-800 dark:bg-red-950/20' : ''}`}>
             <CardHeader className="pb-3">
               <div className="flex items-start justify-between">
                 <div className="flex-1">
@@ -184,21 +202,77 @@ const LiveAlerts: React.FC<LiveAlertsProps> = ({ onBack }) => {
                       {alert.severity.toUpperCase()}
                     </Badge>
                     <Badge variant="outline">{alert.type}</Badge>
+                    {(alert.escalationLevel || 0) > 0 && (
+                      <Badge variant="destructive">
+                        <ArrowUpCircle className="w-3 h-3 mr-1" />
+                        Escalated ×{alert.escalationLevel}
+                      </Badge>
+                    )}
                   </div>
-                  <CardTitle className="text-base">{alert.title}</CardTitle>
-                  <p className="text-sm text-muted-foreground mt-1">{alert.description}</p>
+                  <CardTitle className="text-base">{getTitle(alert)}</CardTitle>
+                  <p className="text-sm text-muted-foreground mt-1">{alert.message}</p>
+                  {alert.data?.evidence && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Evidence: {alert.data.evidence.observed} {alert.data.evidence.unit} against a threshold of {alert.data.evidence.threshold} {alert.data.evidence.unit}
+                      {alert.data.evidence.zoneName ? ` in ${alert.data.evidence.zoneName}` : ''}
+                      {` · ${alert.data.evidence.points.length} ping${alert.data.evidence.points.length === 1 ? '' : 's'}`}
+                    </p>
+                  )}
                 </div>
                 <div className="flex gap-2">
-                  <Button size="sm" variant="outline">
-                    <Eye className="w-4 h-4 mr-1" />
-                    View
-                  </Button>
+                  {alert.location && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => window.open(`https://www.google.com/maps?q=${alert.location!.lat},${alert.location!.lng}`, '_blank')}
+                    >
+                      <Eye className="w-4 h-4 mr-1" />
+                      View
+                    </Button>
+                  )}
                   {alert.status === 'active' && (
-                    <Button size="sm" variant="default">
+                    <Button
+                      size="sm"
+                      variant="default"
+                      disabled={updatingId === alert._id}
+                      onClick={() => runAction(alert._id, () => alertApi.acknowledge(alert._id))}
+                    >
                       <CheckCircle className="w-4 h-4 mr-1" />
                       Respond
                     </Button>
                   )}
+                  {alert.status === 'acknowledged' && (
+                    <Button
+                      size="sm"
+                      variant="default"
+                      disabled={updatingId === alert._id}
+                      onClick={() => runAction(alert._id, () => alertApi.investigate(alert._id))}
+                    >
+                      <Search className="w-4 h-4 mr-1" />
+                      Investigate
+                    </Button>
+                  )}
+                  {alert.status !== 'resolved' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={updatingId === alert._id}
+                      onClick={() => runAction(alert._id, () => alertApi.resolve(alert._id))}
+                    >
+                      <XCircle className="w-4 h-4 mr-1" />
+                      Resolve
+                    </Button>
+                  )}
+                  {onFileFIR && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onFileFIR({ type: 'alert', id: alert._id })}
+                    >
+                      <FileText className="w-4 h-4 mr-1" />
+                      File FIR
+                    </Button>
+                  )}
                 </div>
               </div>
             </CardHeader>
@@ -209,25 +283,49 @@ const LiveAlerts: React.FC<LiveAlertsProps> = ({ onBack }) => {
                     <MapPin className="w-3 h-3" />
                     Location
                   </div>
-                  <p className="font-medium">{alert.location}</p>
+                  <p className="font-medium">{formatLocation(alert)}</p>
+                  {alert.battery !== undefined && alert.battery !== null && (
+                    <p className="text-xs text-muted-foreground flex items-center gap-1">
+                      <Battery className="w-3 h-3" />
+                      {alert.battery}% battery
+                    </p>
+                  )}
                 </div>
                 <div>
                   <div className="flex items-center gap-1 text-muted-foreground mb-1">
                     <Clock className="w-3 h-3" />
                     Time
                   </div>
-                  <p className="font-medium">{alert.timestamp.toLocaleTimeString()}</p>
+                  <p className="font-medium">{new Date(alert.reportedAt || alert.createdAt).toLocaleTimeString()}</p>
                 </div>
                 <div>
                   <div className="text-muted-foreground mb-1">Tourist</div>
-                  <p className="font-medium">{alert.touristName}</p>
-                  <p className="text-xs text-muted-foreground">{alert.touristId}</p>
+                  <p className="font-medium">{alert.data?.touristName || 'Unknown'}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {alert.digitalIdHash ? `${alert.digitalIdHash.slice(0, 12)}…` : 'No digital ID'}
+                  </p>
                 </div>
               </div>
               <div className="mt-3 pt-3 border-t flex items-center justify-between">
-                <div className="text-sm">
+                <div className="text-sm flex items-center gap-2">
                   <span className="text-muted-foreground">Assigned to: </span>
-                  <span className="font-medium">{alert.assignedTo}</span>
+                  {alert.status === 'resolved' ? (
+                    <span className="font-medium">{getOfficerName(alert.assignedTo)}</span>
+                  ) : (
+                    <Select
+                      value={alert.assignedTo || undefined}
+                      onValueChange={(officerId) => runAction(alert._id, () => alertApi.assign(alert._id, officerId))}
+                    >
+                      <SelectTrigger className="h-8 w-44">
+                        <SelectValue placeholder="Unassigned" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {officers.map(officer => (
+                          <SelectItem key={officer._id} value={officer._id}>{officer.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                 </div>
                 <div className="text-sm text-muted-foreground">
                   Status: <span className="capitalize font-medium">{alert.status}</span>
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Megaphone } from 'lucide-react';
+import { GeoPoint, MissingPersonCase } from '@/services/missingPersonApi';
+
+interface MissingPersonBulletinsProps {
+  // Active cases; only their latest bulletin is shown
+  cases: MissingPersonCase[];
+  onOpen: (caseId: string) => void;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const distanceKm = (a: GeoPoint, b: GeoPoint) => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Bulletins for missing tourists whose search area covers this officer.
+ * Without a position fix every bulletin is shown, as are bulletins issued
+ * before anything was known of the tourist's whereabouts.
+ */
+const MissingPersonBulletins: React.FC<MissingPersonBulletinsProps> = ({ cases, onOpen }) => {
+  const [position, setPosition] = useState<GeoPoint | null>(null);
+
+  useEffect(() => {
+    if (!navigator.geolocation) return;
+
+    navigator.geolocation.getCurrentPosition(
+      (fix) => setPosition({ lat: fix.coords.latitude, lng: fix.coords.longitude }),
+      () => setPosition(null),
+      { timeout: 5000, maximumAge: 300000 }
+    );
+  }, []);
+
+  const bulletins = cases
+    .filter(record => record.bulletins.length > 0)
+    .map(record => ({ record, bulletin: record.bulletins[record.bulletins.length - 1] }))
+    .filter(({ bulletin }) => !position || !bulletin.center || distanceKm(position, bulletin.center) <= bulletin.radiusKm)
+    .sort((a, b) => new Date(b.bulletin.issuedAt).getTime() - new Date(a.bulletin.issuedAt).getTime());
+
+  if (bulletins.length === 0) return null;
+
+  return (
+    <Card className="mt-6 bg-background/95 backdrop-blur-sm border-emergency/40">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-sm">
+          <Megaphone className="w-5 h-5 text-emergency" />
+          Missing Person Bulletins
+          <Badge variant="destructive">{bulletins.length}</Badge>
+          {!position && (
+            <span className="text-xs font-normal text-muted-foreground">Location unavailable; showing all areas</span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {bulletins.map(({ record, bulletin }) => (
+          <div key={bulletin.id} className="flex items-start justify-between gap-4 p-3 bg-muted rounded">
+            <div className="min-w-0">
+              <p className="font-medium text-sm">
+                {record.touristName} <span className="font-mono text-xs text-muted-foreground">{record.caseNumber}</span>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {new Date(bulletin.issuedAt).toLocaleString()} · {bulletin.issuedByName}
+                {position && bulletin.center && ` · ${distanceKm(position, bulletin.center).toFixed(1)} km away`}
+              </p>
+              <pre className="mt-1 whitespace-pre-wrap font-sans text-xs line-clamp-4">{bulletin.text}</pre>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => onOpen(record._id)}>
+              Open Case
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MissingPersonBulletins;
@@ -0,0 +1,861 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  ArrowLeft,
+  Plus,
+  Search,
+  Filter,
+  Eye,
+  UserSearch,
+  MapPin,
+  Clock,
+  Phone,
+  Megaphone,
+  CheckCircle,
+  Upload,
+  FileText,
+  IdCard,
+  Route,
+  History
+} from 'lucide-react';
+import {
+  missingPersonApi,
+  MissingPersonAction,
+  MissingPersonCase,
+  MissingPersonCaseFile,
+  MissingPersonEvent,
+  MissingPersonStatus
+} from '@/services/missingPersonApi';
+import { FIRSource } from '@/services/firApi';
+import { alertApi, Officer } from '@/services/alertApi';
+import { portalApi, PortalUser } from '@/services/portalApi';
+import { useEventStream } from '@/hooks/useEventStream';
+
+interface MissingPersonsProps {
+  onBack: () => void;
+  // Open the new case dialog for this tourist, e.g. from Tourist Management
+  touristId?: string | null;
+  // Open this case, e.g. from a bulletin on the dashboard
+  caseId?: string | null;
+  // Start a missing-person e-FIR; omitted for roles that cannot file one
+  onFileFIR?: (source: FIRSource) => void;
+}
+
+interface CaseForm {
+  touristId: string;
+  description: string;
+  reportedBy: string;
+  reportedByContact: string;
+  lastSeenAt: string;
+  lastSeenPlace: string;
+  lastSeenCoordinates: string;
+}
+
+const EMPTY_FORM: CaseForm = {
+  touristId: '',
+  description: '',
+  reportedBy: '',
+  reportedByContact: '',
+  lastSeenAt: '',
+  lastSeenPlace: '',
+  lastSeenCoordinates: ''
+};
+
+const STATUS_LABELS: Record<MissingPersonStatus, string> = {
+  searching: 'Searching',
+  sighted: 'Sighted',
+  found: 'Found',
+  closed: 'Closed'
+};
+
+const HISTORY_LABELS: Record<MissingPersonEvent['action'], string> = {
+  opened: 'Case opened',
+  status_changed: 'Status changed',
+  bulletin_issued: 'Bulletin issued',
+  photo_added: 'Photo added',
+  fir_linked: 'FIR linked',
+  assigned: 'Assigned',
+  note: 'Note'
+};
+
+// "lat, lng"; blank is allowed, anything else unparseable is null
+const parseCoordinates = (text: string): { lat: number; lng: number } | undefined | null => {
+  if (!text.trim()) return undefined;
+
+  const [lat, lng] = text.split(',').map(part => Number(part.trim()));
+  if (text.split(',').length !== 2 || Number.isNaN(lat) || Number.isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+
+  return { lat, lng };
+};
+
+const formatPoint = (point: { lat: number; lng: number }) => `${point.lat.toFixed(5)}, ${point.lng.toFixed(5)}`;
+
+const MissingPersons: React.FC<MissingPersonsProps> = ({ onBack, touristId, caseId, onFileFIR }) => {
+  const [cases, setCases] = useState<MissingPersonCase[]>([]);
+  const [officers, setOfficers] = useState<Officer[]>([]);
+  const [tourists, setTourists] = useState<PortalUser[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [caseFile, setCaseFile] = useState<MissingPersonCaseFile | null>(null);
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const [isOpenDialogOpen, setIsOpenDialogOpen] = useState(false);
+  const [form, setForm] = useState<CaseForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [updating, setUpdating] = useState(false);
+  const [note, setNote] = useState('');
+  const [sightingPlace, setSightingPlace] = useState('');
+  const [sightingCoordinates, setSightingCoordinates] = useState('');
+  const [bulletinRadius, setBulletinRadius] = useState('');
+  const [bulletinMessage, setBulletinMessage] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('active');
+
+  const loadCases = useCallback(async () => {
+    const response = await missingPersonApi.getCases({ limit: 500 });
+    if (response.success && response.data) {
+      setCases(response.data);
+      setError(null);
+    } else {
+      setError(response.error || 'Failed to load missing-person cases');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCases();
+  }, [loadCases]);
+
+  useEffect(() => {
+    alertApi.getOfficers().then(response => {
+      if (response.success && response.data) {
+        setOfficers(response.data);
+      }
+    });
+  }, []);
+
+  const openCaseFile = useCallback(async (id: string) => {
+    const response = await missingPersonApi.getCaseFile(id);
+    if (response.success && response.data) {
+      setCaseFile(response.data);
+      setError(null);
+    } else {
+      setError(response.error || 'Failed to load case file');
+    }
+  }, []);
+
+  const selectedId = caseFile?.case._id;
+  const photoSha256 = caseFile?.case.photoSha256;
+
+  // Photos need the auth header, so they are fetched rather than linked
+  useEffect(() => {
+    if (!selectedId || !photoSha256) {
+      setPhotoUrl(null);
+      return;
+    }
+
+    let url: string | null = null;
+    let cancelled = false;
+    missingPersonApi.getPhotoUrl(selectedId).then(objectUrl => {
+      url = objectUrl;
+      if (cancelled && objectUrl) URL.revokeObjectURL(objectUrl);
+      else setPhotoUrl(objectUrl);
+    });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [selectedId, photoSha256]);
+
+  useEventStream(['missing-persons'], (event) => {
+    const record = event.data as MissingPersonCase;
+    setCases(current => current.some(c => c._id === record._id)
+      ? current.map(c => c._id === record._id ? record : c)
+      : [record, ...current]);
+    // The case file's pings and trip are assembled by the server, so reload it
+    if (record._id === selectedId) {
+      openCaseFile(record._id);
+    }
+  }, { onReset: loadCases });
+
+  const openCreate = useCallback((forTourist?: string | null) => {
+    setForm({ ...EMPTY_FORM, touristId: forTourist || '' });
+    setFormError(null);
+    setIsOpenDialogOpen(true);
+
+    if (!forTourist) {
+      portalApi.searchUsers({ role: 'tourist', active: true }).then(response => {
+        if (response.success && response.data) {
+          setTourists(response.data);
+        }
+      });
+    }
+  }, []);
+
+  // Reported missing from Tourist Management
+  useEffect(() => {
+    if (touristId) openCreate(touristId);
+  }, [touristId, openCreate]);
+
+  // Opened from a bulletin
+  useEffect(() => {
+    if (caseId) openCaseFile(caseId);
+  }, [caseId, openCaseFile]);
+
+  const updateForm = (field: keyof CaseForm, value: string) => {
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  const saveCase = async () => {
+    if (!form.touristId || !form.description || !form.reportedBy) {
+      setFormError('Please choose the tourist and fill in the description and who reported it');
+      return;
+    }
+
+    const coordinates = parseCoordinates(form.lastSeenCoordinates);
+    if (coordinates === null) {
+      setFormError('Enter coordinates as "lat, lng", or leave them blank');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await missingPersonApi.openCase({
+        touristId: form.touristId,
+        description: form.description,
+        reportedBy: form.reportedBy,
+        ...(form.reportedByContact ? { reportedByContact: form.reportedByContact } : {}),
+        ...(form.lastSeenAt ? { lastSeenAt: new Date(form.lastSeenAt).toISOString() } : {}),
+        ...(form.lastSeenPlace ? { lastSeenPlace: form.lastSeenPlace } : {}),
+        lastSeenLocation: coordinates || null
+      });
+
+      if (!response.success || !response.data) {
+        setFormError(response.error || 'Failed to open case');
+        return;
+      }
+
+      setIsOpenDialogOpen(false);
+      openCaseFile(response.data._id);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    if (!caseFile) return;
+
+    setUpdating(true);
+    try {
+      const response = await action();
+      if (response.success) {
+        setNote('');
+        setError(null);
+        await openCaseFile(caseFile.case._id);
+      } else {
+        setError(response.error || 'Failed to update case');
+      }
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const transition = (action: MissingPersonAction) => {
+    if (!caseFile) return;
+
+    const location = action === 'sighted' ? parseCoordinates(sightingCoordinates) : undefined;
+    if (location === null) {
+      setError('Enter sighting coordinates as "lat, lng", or leave them blank');
+      return;
+    }
+
+    runAction(() => missingPersonApi.transition(caseFile.case._id, action, {
+      ...(note.trim() ? { note: note.trim() } : {}),
+      ...(action === 'sighted' ? { location: location || null, place: sightingPlace.trim() || undefined } : {})
+    })).then(() => {
+      setSightingPlace('');
+      setSightingCoordinates('');
+    });
+  };
+
+  const issueBulletin = () => {
+    if (!caseFile) return;
+
+    const radiusKm = bulletinRadius ? Number(bulletinRadius) : undefined;
+    if (radiusKm !== undefined && (Number.isNaN(radiusKm) || radiusKm <= 0)) {
+      setError('Enter the search radius in kilometres');
+      return;
+    }
+
+    runAction(() => missingPersonApi.issueBulletin(caseFile.case._id, {
+      ...(radiusKm ? { radiusKm } : {}),
+      ...(bulletinMessage.trim() ? { message: bulletinMessage.trim() } : {})
+    })).then(() => {
+      setBulletinMessage('');
+    });
+  };
+
+  const uploadPhoto = (files: FileList | null) => {
+    if (!caseFile || !files || files.length === 0) return;
+    runAction(() => missingPersonApi.uploadPhoto(caseFile.case._id, files[0]));
+  };
+
+  const filteredCases = cases.filter(record => {
+    const matchesSearch = record.touristName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         record.caseNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (record.lastSeenPlace || '').toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesStatus = statusFilter === 'all' ||
+                         (statusFilter === 'active' ? record.status === 'searching' || record.status === 'sighted' : record.status === statusFilter);
+    return matchesSearch && matchesStatus;
+  });
+
+  const getStatusColor = (status: MissingPersonStatus) => {
+    switch (status) {
+      case 'searching': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+      case 'sighted': return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
+      case 'found': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
+      case 'closed': return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
+      default: return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
+    }
+  };
+
+  const selected = caseFile?.case;
+  const searching = selected?.status === 'searching' || selected?.status === 'sighted';
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="sticky top-0 z-40 bg-background/95 backdrop-blur-sm border-b p-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" onClick={onBack}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <h1 className="text-2xl font-bold">Missing Persons</h1>
+            <Badge variant="outline">
+              {cases.filter(record => record.status === 'searching' || record.status === 'sighted').length} Active
+            </Badge>
+          </div>
+          <Button onClick={() => openCreate()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Open Case
+          </Button>
+        </div>
+      </div>
+
+      {/* Open case dialog */}
+      <Dialog open={isOpenDialogOpen} onOpenChange={setIsOpenDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Open Missing-Person Case</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            {touristId && form.touristId === touristId ? (
+              <p className="text-sm text-muted-foreground">
+                Reported from Tourist Management. The case file gathers the tourist's digital ID, pings, trip and contacts once the case is open.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <Label>Tourist</Label>
+                <Select value={form.touristId} onValueChange={(value) => updateForm('touristId', value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select the missing tourist" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tourists.map(tourist => (
+                      <SelectItem key={tourist._id} value={tourist._id}>
+                        {tourist.name} ({tourist.email})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                placeholder="Appearance, clothing and circumstances"
+                rows={4}
+                value={form.description}
+                onChange={(e) => updateForm('description', e.target.value)}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="reportedBy">Reported By</Label>
+                <Input
+                  id="reportedBy"
+                  placeholder="Name and relation"
+                  value={form.reportedBy}
+                  onChange={(e) => updateForm('reportedBy', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reportedByContact">Reporter Contact</Label>
+                <Input
+                  id="reportedByContact"
+                  placeholder="Phone number"
+                  value={form.reportedByContact}
+                  onChange={(e) => updateForm('reportedByContact', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="lastSeenAt">Last Seen</Label>
+                <Input
+                  id="lastSeenAt"
+                  type="datetime-local"
+                  value={form.lastSeenAt}
+                  onChange={(e) => updateForm('lastSeenAt', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lastSeenPlace">Last Seen At</Label>
+                <Input
+                  id="lastSeenPlace"
+                  placeholder="Place name"
+                  value={form.lastSeenPlace}
+                  onChange={(e) => updateForm('lastSeenPlace', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="lastSeenCoordinates">Last Seen Coordinates</Label>
+              <Input
+                id="lastSeenCoordinates"
+                placeholder="lat, lng (optional; the last ping is used otherwise)"
+                value={form.lastSeenCoordinates}
+                onChange={(e) => updateForm('lastSeenCoordinates', e.target.value)}
+              />
+            </div>
+
+            {formError && (
+              <p className="text-sm text-red-600">{formError}</p>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsOpenDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button disabled={saving} onClick={saveCase}>
+                Open Case
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <div className="p-6">
+        {error && (
+          <div className="mb-4 p-3 rounded-md bg-red-50 text-red-700 text-sm dark:bg-red-950/20 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-4 mb-6">
+          <div className="flex-1">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+              <Input
+                placeholder="Search cases..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-48">
+              <Filter className="w-4 h-4 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Active Searches</SelectItem>
+              <SelectItem value="all">All Status</SelectItem>
+              <SelectItem value="searching">Searching</SelectItem>
+              <SelectItem value="sighted">Sighted</SelectItem>
+              <SelectItem value="found">Found</SelectItem>
+              <SelectItem value="closed">Closed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Case List */}
+        <div className="space-y-4">
+          {filteredCases.map((record) => (
+            <Card key={record._id} className="hover:shadow-md transition-shadow">
+              <CardContent className="p-6">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-3 mb-2">
+                      <Badge className={getStatusColor(record.status)}>
+                        {STATUS_LABELS[record.status]}
+                      </Badge>
+                      <span className="text-sm font-mono text-muted-foreground">{record.caseNumber}</span>
+                      {record.firNumber && (
+                        <span className="text-sm font-mono text-muted-foreground">{record.firNumber}</span>
+                      )}
+                    </div>
+
+                    <h3 className="text-lg font-semibold mb-2">{record.touristName}</h3>
+                    <p className="text-muted-foreground mb-4 line-clamp-2">{record.description}</p>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Clock className="w-4 h-4 text-muted-foreground" />
+                        <span>Last seen {new Date(record.lastSeenAt).toLocaleString()}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <MapPin className="w-4 h-4 text-muted-foreground" />
+                        <span>{record.lastSeenPlace || (record.lastSeenLocation ? formatPoint(record.lastSeenLocation) : 'Unknown')}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Megaphone className="w-4 h-4 text-muted-foreground" />
+                        <span>{record.bulletins.length} {record.bulletins.length === 1 ? 'bulletin' : 'bulletins'}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <UserSearch className="w-4 h-4 text-muted-foreground" />
+                        <span>{record.assignedOfficerName || 'Unassigned'}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-2 ml-4">
+                    <Button variant="outline" size="sm" onClick={() => openCaseFile(record._id)}>
+                      <Eye className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {filteredCases.length === 0 && (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <UserSearch className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No Cases Found</h3>
+              <p className="text-muted-foreground">No missing-person cases match your current search criteria.</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Case File Dialog */}
+      {caseFile && selected && (
+        <Dialog open={!!caseFile} onOpenChange={() => { setCaseFile(null); setNote(''); }}>
+          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <UserSearch className="w-5 h-5" />
+                {selected.caseNumber} - {selected.touristName}
+              </DialogTitle>
+            </DialogHeader>
+            <div className="space-y-6">
+              <div className="flex items-center gap-2">
+                <Badge className={getStatusColor(selected.status)}>
+                  {STATUS_LABELS[selected.status]}
+                </Badge>
+                <span className="text-sm text-muted-foreground">
+                  Opened by {selected.openedByName} · {new Date(selected.createdAt).toLocaleString()}
+                </span>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className="space-y-2">
+                  {photoUrl ? (
+                    <img src={photoUrl} alt={selected.touristName} className="w-full rounded-lg object-cover" />
+                  ) : (
+                    <div className="w-full aspect-square flex items-center justify-center rounded-lg bg-muted">
+                      <UserSearch className="w-12 h-12 text-muted-foreground" />
+                    </div>
+                  )}
+                  {selected.status !== 'closed' && (
+                    <Label
+                      htmlFor="photo-upload"
+                      className={`inline-flex items-center gap-2 text-sm border rounded-md px-3 py-1.5 ${updating ? 'opacity-50' : 'cursor-pointer hover:bg-muted'}`}
+                    >
+                      <Upload className="w-4 h-4" />
+                      {selected.photoSha256 ? 'Replace Photo' : 'Upload Photo'}
+                      <input
+                        id="photo-upload"
+                        type="file"
+                        className="hidden"
+                        disabled={updating}
+                        accept="image/jpeg,image/png,image/webp"
+                        onChange={(e) => { uploadPhoto(e.target.files); e.target.value = ''; }}
+                      />
+                    </Label>
+                  )}
+                </div>
+
+                <div className="md:col-span-2 space-y-4 text-sm">
+                  <div>
+                    <h4 className="font-semibold mb-2">Tourist</h4>
+                    <div className="space-y-1">
+                      <p><span className="text-muted-foreground">Name:</span> {caseFile.tourist.name}</p>
+                      <p><span className="text-muted-foreground">Nationality:</span> {caseFile.tourist.nationality || 'Unknown'}</p>
+                      <p><span className="text-muted-foreground">Email:</span> {caseFile.tourist.email}</p>
+                      <p><span className="text-muted-foreground">Reported by:</span> {selected.reportedBy}{selected.reportedByContact ? ` (${selected.reportedByContact})` : ''}</p>
+                    </div>
+                  </div>
+
+                  <div>
+                    <h4 className="font-semibold mb-2 flex items-center gap-2"><IdCard className="w-4 h-4" /> Digital ID</h4>
+                    {caseFile.digitalId ? (
+                      <p>
+                        <span className="font-mono text-xs">{caseFile.digitalId.hash.slice(0, 24)}…</span>
+                        <Badge variant="outline" className="ml-2 capitalize">{caseFile.digitalId.status}</Badge>
+                        {caseFile.digitalId.expiresAt && (
+                          <span className="text-muted-foreground ml-2">expires {new Date(caseFile.digitalId.expiresAt).toLocaleDateString()}</span>
+                        )}
+                      </p>
+                    ) : (
+                      <p className="text-muted-foreground">No digital ID issued</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <h4 className="font-semibold mb-2 flex items-center gap-2"><Phone className="w-4 h-4" /> Emergency Contacts</h4>
+                    <div className="space-y-1">
+                      {caseFile.tourist.emergencyContacts.map((contact, index) => (
+                        <p key={index}>
+                          {contact.name}{contact.relation ? ` (${contact.relation})` : ''} · <a href={`tel:${contact.phone}`} className="underline">{contact.phone}</a>
+                        </p>
+                      ))}
+                      {caseFile.tourist.emergencyContacts.length === 0 && (
+                        <p className="text-muted-foreground">None on file</p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+                <div>
+                  <h4 className="font-semibold mb-2 flex items-center gap-2"><MapPin className="w-4 h-4" /> Last Known Location</h4>
+                  {caseFile.lastKnown ? (
+                    <p className="mb-2">
+                      {formatPoint(caseFile.lastKnown)} · {new Date(caseFile.lastKnown.at).toLocaleString()}
+                      <span className="text-muted-foreground"> ({caseFile.lastKnown.source === 'ping' ? 'device ping' : 'reported sighting'})</span>
+                    </p>
+                  ) : (
+                    <p className="text-muted-foreground mb-2">No location known</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mb-1">
+                    Last pings ({caseFile.pingPrecision === 'precise' ? 'precise; this view is logged' : 'rounded'})
+                  </p>
+                  <ol className="space-y-0.5 text-xs font-mono max-h-32 overflow-y-auto">
+                    {caseFile.pings.map(ping => (
+                      <li key={ping._id}>{formatPoint(ping)} · {new Date(ping.recordedAt).toLocaleString()}</li>
+                    ))}
+                    {caseFile.pings.length === 0 && <li className="text-muted-foreground">No pings shared</li>}
+                  </ol>
+                </div>
+
+                <div>
+                  <h4 className="font-semibold mb-2 flex items-center gap-2"><Route className="w-4 h-4" /> Current Trip</h4>
+                  {caseFile.trip ? (
+                    <>
+                      <p className="mb-2">{caseFile.trip.title}</p>
+                      <ol className="space-y-1">
+                        {caseFile.trip.destinations.map(destination => (
+                          <li key={destination.id} className="flex items-center gap-2">
+                            {destination.status === 'completed'
+                              ? <CheckCircle className="w-3 h-3 text-green-600" />
+                              : <Clock className="w-3 h-3 text-muted-foreground" />}
+                            <span>{destination.name}</span>
+                            <span className="text-muted-foreground">{destination.time}</span>
+                          </li>
+                        ))}
+                      </ol>
+                    </>
+                  ) : (
+                    <p className="text-muted-foreground">No active trip</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+                <div>
+                  <h4 className="font-semibold mb-2 flex items-center gap-2"><FileText className="w-4 h-4" /> FIR</h4>
+                  {caseFile.fir ? (
+                    <p>
+                      <span className="font-mono">{caseFile.fir.firNumber}</span>
+                      <Badge variant="outline" className="ml-2 capitalize">{caseFile.fir.status}</Badge>
+                    </p>
+                  ) : onFileFIR ? (
+                    <Button size="sm" variant="outline" onClick={() => onFileFIR({ type: 'missing_tourist', id: selected.touristId })}>
+                      <FileText className="w-4 h-4 mr-2" />
+                      File FIR
+                    </Button>
+                  ) : (
+                    <p className="text-muted-foreground">No FIR filed</p>
+                  )}
+                </div>
+
+                <div>
+                  <h4 className="font-semibold mb-2">Assigned Officer</h4>
+                  {selected.status === 'closed' ? (
+                    <span>{selected.assignedOfficerName || 'Unassigned'}</span>
+                  ) : (
+                    <Select
+                      value={selected.assignedTo || undefined}
+                      onValueChange={(officerId) => runAction(() => missingPersonApi.assign(selected._id, officerId))}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue placeholder="Unassigned" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {officers.map(officer => (
+                          <SelectItem key={officer._id} value={officer._id}>{officer.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <h4 className="font-semibold mb-2 flex items-center gap-2"><Megaphone className="w-4 h-4" /> Bulletins</h4>
+                <div className="space-y-2">
+                  {[...selected.bulletins].reverse().map(bulletin => (
+                    <div key={bulletin.id} className="p-3 bg-muted rounded text-sm">
+                      <p className="text-xs text-muted-foreground mb-1">
+                        {new Date(bulletin.issuedAt).toLocaleString()} · {bulletin.issuedByName} · {bulletin.radiusKm} km
+                      </p>
+                      <pre className="whitespace-pre-wrap font-sans">{bulletin.text}</pre>
+                    </div>
+                  ))}
+                  {selected.bulletins.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No bulletins issued</p>
+                  )}
+                </div>
+                {searching && (
+                  <div className="flex flex-col sm:flex-row gap-2 mt-3">
+                    <Input
+                      className="sm:w-36"
+                      type="number"
+                      min={0.5}
+                      placeholder="Radius (km)"
+                      value={bulletinRadius}
+                      onChange={(e) => setBulletinRadius(e.target.value)}
+                    />
+                    <Input
+                      placeholder="Extra message, e.g. who to call"
+                      value={bulletinMessage}
+                      onChange={(e) => setBulletinMessage(e.target.value)}
+                    />
+                    <Button disabled={updating} onClick={issueBulletin}>
+                      <Megaphone className="w-4 h-4 mr-2" />
+                      Broadcast
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h4 className="font-semibold mb-2 flex items-center gap-2"><History className="w-4 h-4" /> History</h4>
+                <ol className="space-y-2 text-sm">
+                  {selected.history.map((entry, index) => (
+                    <li key={index} className="p-2 bg-muted rounded">
+                      <div className="flex justify-between">
+                        <span className="font-medium">
+                          {HISTORY_LABELS[entry.action]}
+                          {entry.to && ` → ${STATUS_LABELS[entry.to]}`}
+                        </span>
+                        <span className="text-xs text-muted-foreground">{new Date(entry.at).toLocaleString()}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">by {entry.byName}</p>
+                      {entry.note && <p className="mt-1">{entry.note}</p>}
+                      {entry.location && <p className="mt-1 text-xs font-mono">{formatPoint(entry.location)}</p>}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="case-note">Note, sighting or reason</Label>
+                <Textarea
+                  id="case-note"
+                  placeholder="Added to the case history; required for a sighting, and to close before the tourist is found"
+                  rows={2}
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+                {searching && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      placeholder="Sighting place"
+                      value={sightingPlace}
+                      onChange={(e) => setSightingPlace(e.target.value)}
+                    />
+                    <Input
+                      placeholder="Sighting lat, lng"
+                      value={sightingCoordinates}
+                      onChange={(e) => setSightingCoordinates(e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-between items-center pt-4 border-t">
+                <span className="text-sm text-muted-foreground">
+                  Last updated: {new Date(selected.updatedAt).toLocaleString()}
+                </span>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant="outline"
+                    disabled={!note.trim() || updating}
+                    onClick={() => runAction(() => missingPersonApi.addNote(selected._id, note.trim()))}
+                  >
+                    Add Note
+                  </Button>
+                  {searching && (
+                    <Button variant="outline" disabled={updating} onClick={() => transition('sighted')}>
+                      Record Sighting
+                    </Button>
+                  )}
+                  {selected.status === 'sighted' && (
+                    <Button variant="outline" disabled={updating} onClick={() => transition('searching')}>
+                      Resume Search
+                    </Button>
+                  )}
+                  {searching && (
+                    <Button disabled={updating} onClick={() => transition('found')}>
+                      <CheckCircle className="w-4 h-4 mr-2" />
+                      Mark Found
+                    </Button>
+                  )}
+                  {selected.status !== 'closed' && (
+                    <Button variant="outline" disabled={updating} onClick={() => transition('close')}>
+                      Close Case
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+};
+
+export default MissingPersons;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -19,11 +19,15 @@ import {
   HardDrive,
   MemoryStick
 } from 'lucide-react';
+import { eventApi } from '@/services/eventApi';
 
 interface SystemHealthProps {
   onBack: () => void;
 }
 
+// Polls share the API rate limit (50 requests per 15 minutes by default) with the rest of the dashboard
+const EVENT_STATS_POLL_MS = 60 * 1000;
+
 const SystemHealth: React.FC<SystemHealthProps> = ({ onBack }) => {
   const [lastUpdate, setLastUpdate] = useState(new Date());
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -44,12 +48,12 @@ const SystemHealth: React.FC<SystemHealthProps> = ({ onBack }) => {
       queryTime: 1.2,
       storage: 78
     },
-    websocket: {
-      status: 'healthy',
-      connections: 892,
-      maxConnections: 5000,
-      messagesSent: 45231,
-      messagesReceived: 38942
+    events: {
+      status: 'unknown',
+      connections: 0,
+      maxConnections: 1,
+      messagesSent: 0,
+      eventsPublished: 0
     },
     server: {
       cpu: 42,
@@ -77,14 +81,35 @@ const SystemHealth: React.FC<SystemHealthProps> = ({ onBack }) => {
     }
   };
 
+  const loadEventStats = useCallback(async () => {
+    const response = await eventApi.getStats();
+    setSystemData(prev => ({
+      ...prev,
+      events: response.success && response.data
+        ? {
+            status: response.data.connections >= response.data.maxConnections * 0.9 ? 'warning' : 'healthy',
+            connections: response.data.connections,
+            maxConnections: response.data.maxConnections,
+            messagesSent: response.data.messagesSent,
+            eventsPublished: response.data.eventsPublished
+          }
+        : { ...prev.events, status: 'error' }
+    }));
+  }, []);
+
   const handleRefresh = async () => {
     setIsRefreshing(true);
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    await loadEventStats();
     setLastUpdate(new Date());
     setIsRefreshing(false);
   };
 
+  useEffect(() => {
+    loadEventStats();
+    const interval = setInterval(loadEventStats, EVENT_STATS_POLL_MS);
+    return () => clearInterval(interval);
+  }, [loadEventStats]);
+
   // Simulate real-time updates
   useEffect(() => {
     const interval = setInterval(() => {
@@ -100,11 +125,6 @@ const SystemHealth: React.FC<SystemHealthProps> = ({ onBack }) => {
           connections: Math.floor(Math.random() * 20) + 35,
           queryTime: Math.random() * 0.5 + 1
         },
-        websocket: {
-          ...prev.websocket,
-          connections: Math.floor(Math.random() * 50) + 850,
-          messagesSent: prev.websocket.messagesSent + Math.floor(Math.random() * 50) + 10
-        },
         server: {
           cpu: Math.floor(Math.random() * 20) + 35,
           memory: Math.floor(Math.random() * 15) + 60,
@@ -246,12 +266,12 @@ const SystemHealth: React.FC<SystemHealthProps> = ({ onBack }) => {
             </CardContent>
           </Card>
 
-          {/* WebSocket Status */}
+          {/* Real-time Event Stream Status */}
           <Card>
             <CardHeader className="pb-3">
               <CardTitle className="flex items-center gap-2">
                 <Wifi className="w-5 h-5" />
-                WebSocket
+                Event Stream
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -259,26 +279,30 @@ const SystemHealth: React.FC<SystemHealthProps> = ({ onBack }) => {
                 <div className="flex items-center justify-between">
                   <span className="text-sm">Status</span>
                   <div className="flex items-center gap-2">
-                    {getStatusIcon(systemData.websocket.status)}
-                    <Badge className={getStatusColor(systemData.websocket.status)} variant="secondary">
-                      {systemData.websocket.status}
+                    {getStatusIcon(systemData.events.status)}
+                    <Badge className={getStatusColor(systemData.events.status)} variant="secondary">
+                      {systemData.events.status}
                     </Badge>
                   </div>
                 </div>
                 <div className="flex items-center justify-between text-sm">
                   <span>Active Connections</span>
-                  <span className="font-mono">{systemData.websocket.connections.toLocaleString()}</span>
+                  <span className="font-mono">{systemData.events.connections.toLocaleString()}</span>
                 </div>
                 <div className="space-y-1">
                   <div className="flex items-center justify-between text-sm">
                     <span>Capacity</span>
-                    <span className="font-mono">{Math.round((systemData.websocket.connections / systemData.websocket.maxConnections) * 100)}%</span>
+                    <span className="font-mono">{Math.round((systemData.events.connections / systemData.events.maxConnections) * 100)}%</span>
                   </div>
-                  <Progress value={(systemData.websocket.connections / systemData.websocket.maxConnections) * 100} className="h-2" />
+                  <Progress value={(systemData.events.connections / systemData.events.maxConnections) * 100} className="h-2" />
+                </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span>Events Published</span>
+                  <span className="font-mono">{systemData.events.eventsPublished.toLocaleString()}</span>
                 </div>
                 <div className="flex items-center justify-between text-sm">
                   <span>Messages Sent</span>
-                  <span className="font-mono">{systemData.websocket.messagesSent.toLocaleString()}</span>
+                  <span className="font-mono">{systemData.events.messagesSent.toLocaleString()}</span>
                 </div>
               </div>
             </CardContent>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -15,95 +15,150 @@ import {
   AlertTriangle,
   Phone,
   ArrowLeft,
-  Download
+  Download,
+  UserSearch
 } from 'lucide-react';
+import { portalApi, PortalUser } from '@/services/portalApi';
+import { alertApi, Alert } from '@/services/alertApi';
+import { blockchainService } from '@/services/blockchainService';
+import { safetyApi, SafetyScore } from '@/services/safetyApi';
+import { useEventStream, StreamEvent } from '@/hooks/useEventStream';
 
 interface TouristManagementProps {
   onBack: () => void;
+  // Open a missing-person case; omitted for roles that cannot open one
+  onReportMissing?: (touristId: string) => void;
 }
 
-const TouristManagement: React.FC<TouristManagementProps> = ({ onBack }) => {
+interface TouristDigitalID {
+  hash: string;
+  userId: string;
+  status: 'pending' | 'verified' | 'suspended' | 'revoked' | 'expired';
+  expiresAt: number | null;
+}
+
+interface LocationUpdate {
+  userId: string;
+  lat: number;
+  lng: number;
+  address?: string;
+  recordedAt?: string;
+}
+
+interface TouristRow {
+  id: string;
+  digitalId: string;
+  name: string;
+  nationality: string;
+  phone: string;
+  email: string;
+  status: 'active' | 'alert' | 'monitoring' | 'safe' | 'offline';
+  safetyScore: number | null;
+  currentLocation: string;
+  lastSeen: Date | null;
+  tripDuration: string;
+  alertCount: number;
+}
+
+const OPEN_ALERT_STATUSES: Alert['status'][] = ['active', 'acknowledged', 'investigating'];
+
+const formatCoordinates = (location: { lat: number; lng: number; address?: string }) =>
+  location.address || `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`;
+
+const TouristManagement: React.FC<TouristManagementProps> = ({ onBack, onReportMissing }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
-  const [selectedTourist, setSelectedTourist] = useState<number | null>(null);
+  const [selectedTourist, setSelectedTourist] = useState<string | null>(null);
+  const [users, setUsers] = useState<PortalUser[]>([]);
+  const [digitalIDs, setDigitalIDs] = useState<TouristDigitalID[]>([]);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [locations, setLocations] = useState<Record<string, LocationUpdate>>({});
+  const [safetyScores, setSafetyScores] = useState<Record<string, number>>({});
+
+  const loadTourists = useCallback(async () => {
+    const [usersResponse, digitalIDsResponse, alertsResponse, safetyResponse] = await Promise.all([
+      portalApi.searchUsers({ role: 'tourist' }),
+      blockchainService.getDigitalIDs(),
+      alertApi.getAlerts({ limit: 500 }),
+      safetyApi.getTourists()
+    ]);
 
-  const tourists = [
-    {
-      id: 1,
-      digitalId: 'TRS-2024-001',
-      name: 'John Smith',
-      nationality: 'American',
-      phone: '+1-555-0123',
-      email: 'john.smith@email.com',
-      status: 'active',
-      safetyScore: 92,
-      currentLocation: 'India Gate, New Delhi',
-      lastSeen: new Date(Date.now() - 10 * 60 * 1000),
-      tripDuration: '5 days',
-      alertCount: 0,
-      emergencyContact: '+1-555-9876'
-    },
-    {
-      id: 2,
-      digitalId: 'TRS-2024-045',
-      name: 'Maria Garcia',
-      nationality: 'Spanish',
-      phone: '+34-612-345-678',
-      email: 'maria.garcia@email.com',
-      status: 'alert',
-      safetyScore: 65,
-      currentLocation: 'Military Cantonment Area',
-      lastSeen: new Date(Date.now() - 15 * 60 * 1000),
-      tripDuration: '3 days',
-      alertCount: 2,
-      emergencyContact: '+34-612-987-654'
-    },
-    {
-      id: 3,
-      digitalId: 'TRS-2024-023',
-      name: 'Ahmed Hassan',
-      nationality: 'Egyptian',
-      phone: '+20-10-1234-5678',
-      email: 'ahmed.hassan@email.com',
-      status: 'monitoring',
-      safetyScore: 78,
-      currentLocation: 'Old City Heritage District',
-      lastSeen: new Date(Date.now() - 30 * 60 * 1000),
-      tripDuration: '7 days',
-      alertCount: 1,
-      emergencyContact: '+20-10-9876-5432'
-    },
-    {
-      id: 4,
-      digitalId: 'TRS-2024-067',
-      name: 'Li Wei',
-      nationality: 'Chinese',
-      phone: '+86-138-0013-8000',
-      email: 'li.wei@email.com',
-      status: 'safe',
-      safetyScore: 95,
-      currentLocation: 'Lotus Temple',
-      lastSeen: new Date(Date.now() - 5 * 60 * 1000),
-      tripDuration: '4 days',
-      alertCount: 0,
-      emergencyContact: '+86-138-9999-8888'
-    },
-    {
-      id: 5,
-      digitalId: 'TRS-2024-012',
-      name: 'Robert Johnson',
-      nationality: 'British',
-      phone: '+44-7700-900123',
-      email: 'robert.johnson@email.com',
-      status: 'offline',
-      safetyScore: 82,
-      currentLocation: 'Hotel Taj Palace',
-      lastSeen: new Date(Date.now() - 120 * 60 * 1000),
-      tripDuration: '6 days',
-      alertCount: 0,
-      emergencyContact: '+44-7700-900456'
+    if (usersResponse.success && usersResponse.data) setUsers(usersResponse.data);
+    if (digitalIDsResponse?.success) setDigitalIDs(digitalIDsResponse.data.digitalIDs);
+    // Only police and admins can read alerts
+    if (alertsResponse.success && alertsResponse.data) setAlerts(alertsResponse.data);
+    if (safetyResponse.success && safetyResponse.data) {
+      setSafetyScores(Object.fromEntries(safetyResponse.data.map(score => [score.userId, score.score])));
     }
-  ];
+  }, []);
+
+  useEffect(() => {
+    loadTourists();
+  }, [loadTourists]);
+
+  const handleEvent = (event: StreamEvent) => {
+    if (event.topic === 'alerts') {
+      const alert = event.data as Alert;
+      setAlerts(current => [alert, ...current.filter(a => a._id !== alert._id)]);
+    } else if (event.topic === 'digital-ids') {
+      const digitalID = event.data as TouristDigitalID;
+      setDigitalIDs(current => [...current.filter(d => d.hash !== digitalID.hash), digitalID]);
+    } else if (event.topic === 'locations' && event.type === 'ping') {
+      const location = event.data as LocationUpdate;
+      setLocations(current => ({ ...current, [location.userId]: location }));
+    } else if (event.topic === 'locations' && event.type === 'safety_score') {
+      const { userId, score } = event.data as SafetyScore;
+      setSafetyScores(current => ({ ...current, [userId]: score }));
+    } else if (event.topic === 'locations' && event.type === 'sharing_changed') {
+      // A tourist who stops sharing no longer has a current position
+      const { userId, enabled } = event.data as { userId: string; enabled: boolean };
+      if (!enabled) {
+        setLocations(current => {
+          const { [userId]: _removed, ...rest } = current;
+          return rest;
+        });
+      }
+    }
+  };
+
+  useEventStream(['alerts', 'digital-ids', 'locations'], handleEvent, { onReset: loadTourists });
+
+  const tourists: TouristRow[] = users.map(user => {
+    const digitalID = digitalIDs.filter(d => d.userId === user._id).pop();
+    const userAlerts = alerts.filter(alert => alert.userId === user._id);
+    const openAlerts = userAlerts.filter(alert => OPEN_ALERT_STATUSES.includes(alert.status));
+    const location = locations[user._id];
+    const lastAlert = userAlerts.find(alert => alert.location);
+
+    let status: TouristRow['status'] = 'offline';
+    if (openAlerts.length > 0) status = 'alert';
+    else if (digitalID?.status === 'suspended') status = 'monitoring';
+    else if (digitalID?.status === 'verified') status = 'active';
+
+    const seen = [location?.recordedAt, lastAlert?.reportedAt, user.lastLogin]
+      .filter((value): value is string => !!value)
+      .map(value => new Date(value))
+      .sort((a, b) => b.getTime() - a.getTime());
+
+    return {
+      id: user._id,
+      digitalId: digitalID ? `${digitalID.hash.slice(0, 12)}…` : 'No digital ID',
+      name: user.name,
+      nationality: user.nationality || 'Unknown',
+      phone: user.emergencyContacts?.[0]?.phone || user.email,
+      email: user.email,
+      status,
+      safetyScore: safetyScores[user._id] ?? null,
+      currentLocation: location
+        ? formatCoordinates(location)
+        : lastAlert?.location ? formatCoordinates(lastAlert.location) : 'Unknown',
+      lastSeen: seen[0] || null,
+      tripDuration: digitalID?.expiresAt
+        ? `Until ${new Date(digitalID.expiresAt).toLocaleDateString()}`
+        : '—',
+      alertCount: openAlerts.length
+    };
+  });
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -127,7 +182,8 @@ const TouristManagement: React.FC<TouristManagementProps> = ({ onBack }) => {
     }
   };
 
-  const getSafetyScoreColor = (score: number) => {
+  const getSafetyScoreColor = (score: number | null) => {
+    if (score === null) return 'text-muted-foreground';
     if (score >= 85) return 'text-green-600';
     if (score >= 70) return 'text-yellow-600';
     return 'text-red-600';
@@ -141,7 +197,8 @@ const TouristManagement: React.FC<TouristManagementProps> = ({ onBack }) => {
     return matchesStatus && matchesSearch;
   });
 
-  const formatTimeAgo = (date: Date) => {
+  const formatTimeAgo = (date: Date | null) => {
+    if (!date) return 'Never';
     const now = new Date();
     const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60));
     
@@ -234,7 +291,7 @@ const TouristManagement: React.FC<TouristManagementProps> = ({ onBack }) => {
                 </div>
                 <div className="text-right">
                   <div className={`text-lg font-bold ${getSafetyScoreColor(tourist.safetyScore)}`}>
-                    {tourist.safetyScore}%
+                    {tourist.safetyScore === null ? '—' : `${tourist.safetyScore}%`}
                   </div>
                   <div className="text-xs text-muted-foreground">Safety Score</div>
                 </div>
@@ -288,6 +345,16 @@ const TouristManagement: React.FC<TouristManagementProps> = ({ onBack }) => {
                       Respond
                     </Button>
                   )}
+                  {onReportMissing && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onReportMissing(tourist.id)}
+                    >
+                      <UserSearch className="w-4 h-4 mr-1" />
+                      Report Missing
+                    </Button>
+                  )}
                 </div>
                 <div className="flex gap-2">
                   <Button size="sm" variant="ghost">
@@ -1,11 +1,11 @@
-import React, { useState } from 'react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { 
@@ -20,87 +20,238 @@ import {
   Clock,
   ArrowLeft
 } from 'lucide-react';
+import { zoneApi, AnomalyThresholds, ZoneData, ZoneInput } from '@/services/zoneApi';
+import { useEventStream } from '@/hooks/useEventStream';
 // import { useTranslation } from 'react-i18next';
 
-interface Zone {
-  id: string;
+type Zone = ZoneData;
+
+interface ZoneForm {
   name: string;
-  type: 'safe' | 'restricted' | 'alert';
-  coordinates: Array<{ lat: number; lng: number }>;
-  radius?: number;
+  type: Zone['type'];
+  shape: Zone['shape'];
   description: string;
-  activeAlerts: number;
-  touristsInside: number;
-  lastUpdated: string;
-  createdBy: string;
-  status: 'active' | 'inactive';
+  district: string;
+  coordinates: string;
+  radius: string;
+  windowStart: string;
+  windowEnd: string;
+  status: Zone['status'];
+  // Anomaly thresholds; blank uses the server defaults
+  inactivityMinutes: string;
+  maxSpeedKmh: string;
+  signalLossMinutes: string;
+  deviationKm: string;
 }
 
 interface ZoneManagementProps {
   onBack: () => void;
+  // Opens the create form prefilled, e.g. an alert zone around an incident hotspot
+  draft?: ZoneInput | null;
 }
 
-const ZoneManagement: React.FC<ZoneManagementProps> = ({ onBack }) => {
+const EMPTY_FORM: ZoneForm = {
+  name: '',
+  type: 'safe',
+  shape: 'polygon',
+  description: '',
+  district: '',
+  coordinates: '',
+  radius: '',
+  windowStart: '',
+  windowEnd: '',
+  status: 'active',
+  inactivityMinutes: '',
+  maxSpeedKmh: '',
+  signalLossMinutes: '',
+  deviationKm: ''
+};
+
+const THRESHOLD_FIELDS: { key: keyof AnomalyThresholds; label: string }[] = [
+  { key: 'inactivityMinutes', label: 'Inactivity (minutes)' },
+  { key: 'maxSpeedKmh', label: 'Max speed (km/h)' },
+  { key: 'signalLossMinutes', label: 'Signal loss (minutes)' },
+  { key: 'deviationKm', label: 'Itinerary deviation (km)' }
+];
+
+const toForm = (zone: ZoneInput): ZoneForm => ({
+  name: zone.name,
+  type: zone.type,
+  shape: zone.shape,
+  description: zone.description,
+  district: zone.district || '',
+  coordinates: zone.coordinates.map(point => `${point.lat}, ${point.lng}`).join('\n'),
+  radius: zone.radius ? String(zone.radius) : '',
+  windowStart: zone.timeWindows?.[0]?.start || '',
+  windowEnd: zone.timeWindows?.[0]?.end || '',
+  status: zone.status || 'active',
+  inactivityMinutes: zone.anomalyThresholds?.inactivityMinutes?.toString() || '',
+  maxSpeedKmh: zone.anomalyThresholds?.maxSpeedKmh?.toString() || '',
+  signalLossMinutes: zone.anomalyThresholds?.signalLossMinutes?.toString() || '',
+  deviationKm: zone.anomalyThresholds?.deviationKm?.toString() || ''
+});
+
+// Only the thresholds that were filled in; null when the zone uses the defaults
+const parseThresholds = (form: ZoneForm): AnomalyThresholds | null => {
+  const thresholds: AnomalyThresholds = {};
+
+  THRESHOLD_FIELDS.forEach(({ key }) => {
+    if (form[key].trim()) thresholds[key] = Number(form[key]);
+  });
+
+  return Object.keys(thresholds).length > 0 ? thresholds : null;
+};
+
+// One "lat, lng" pair per line
+const parseCoordinates = (text: string): ZoneInput['coordinates'] | null => {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  const points = lines.map(line => line.split(',').map(part => Number(part.trim())));
+
+  if (points.some(point => point.length !== 2 || point.some(value => Number.isNaN(value)))) {
+    return null;
+  }
+
+  return points.map(([lat, lng]) => ({ lat, lng }));
+};
+
+const ZoneManagement: React.FC<ZoneManagementProps> = ({ onBack, draft }) => {
   // const { t } = useTranslation();
+  const [zones, setZones] = useState<Zone[]>([]);
   const [selectedZone, setSelectedZone] = useState<Zone | null>(null);
-  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ZoneForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState('all');
 
-  // Mock data
-  const zones: Zone[] = [
-    {
-      id: '1',
-      name: 'Central Tourist District',
-      type: 'safe',
-      coordinates: [
-        { lat: 26.9124, lng: 75.7873 },
-        { lat: 26.9200, lng: 75.7900 },
-        { lat: 26.9150, lng: 75.8000 },
-        { lat: 26.9080, lng: 75.7950 }
-      ],
-      description: 'Main tourist area with high security presence',
-      activeAlerts: 0,
-      touristsInside: 45,
-      lastUpdated: '2 hours ago',
-      createdBy: 'Admin Team',
-      status: 'active'
-    },
-    {
-      id: '2',
-      name: 'Construction Area - East Wing',
-      type: 'restricted',
-      coordinates: [
-        { lat: 26.9250, lng: 75.8100 },
-        { lat: 26.9280, lng: 75.8150 },
-        { lat: 26.9220, lng: 75.8200 },
-        { lat: 26.9190, lng: 75.8120 }
-      ],
-      description: 'Ongoing construction work - restricted access',
-      activeAlerts: 2,
-      touristsInside: 0,
-      lastUpdated: '30 mins ago',
-      createdBy: 'Security Chief',
-      status: 'active'
-    },
-    {
-      id: '3',
-      name: 'Market Square - High Alert',
-      type: 'alert',
-      coordinates: [
-        { lat: 26.9180, lng: 75.7750 },
-        { lat: 26.9220, lng: 75.7780 },
-        { lat: 26.9200, lng: 75.7850 },
-        { lat: 26.9160, lng: 75.7820 }
-      ],
-      description: 'Crowded market area requiring extra vigilance',
-      activeAlerts: 1,
-      touristsInside: 23,
-      lastUpdated: '1 hour ago',
-      createdBy: 'Field Officer',
-      status: 'active'
+  const loadZones = useCallback(async () => {
+    const response = await zoneApi.getZones();
+    if (response.success && response.data) {
+      setZones(response.data);
+      setError(null);
+    } else {
+      setError(response.error || 'Failed to load zones');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadZones();
+  }, [loadZones]);
+
+  useEffect(() => {
+    if (!draft) return;
+    setEditingId(null);
+    setForm(toForm(draft));
+    setFormError(null);
+    setIsFormOpen(true);
+  }, [draft]);
+
+  const { connected } = useEventStream(['zones', 'alerts'], (event) => {
+    // Open alert counts are derived server-side; refetch when a breach is raised or handled
+    if (event.topic === 'alerts') {
+      if ((event.data as { type?: string }).type === 'geofence') loadZones();
+      return;
+    }
+
+    const data = event.data as Partial<Zone> & { zoneId?: string };
+
+    if (event.type === 'zone_deleted') {
+      setZones(current => current.filter(zone => zone._id !== data._id));
+      setSelectedZone(current => current?._id === data._id ? null : current);
+    } else if (event.type === 'zone_created' || event.type === 'zone_updated') {
+      loadZones();
+    } else if (data.zoneId && data.touristsInside !== undefined) {
+      // enter, exit, dwell and occupancy all carry the zone's current head count
+      setZones(current => current.map(zone => zone._id === data.zoneId
+        ? { ...zone, touristsInside: data.touristsInside! }
+        : zone));
+    }
+  }, { onReset: loadZones });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (zone: Zone) => {
+    setEditingId(zone._id);
+    setForm(toForm(zone));
+    setFormError(null);
+    setSelectedZone(null);
+    setIsFormOpen(true);
+  };
+
+  const updateForm = (changes: Partial<ZoneForm>) => setForm(current => ({ ...current, ...changes }));
+
+  const handleSave = async () => {
+    const coordinates = parseCoordinates(form.coordinates);
+    if (!form.name.trim()) {
+      setFormError('Zone name is required');
+      return;
+    }
+    if (!coordinates) {
+      setFormError('Enter one "lat, lng" pair per line');
+      return;
+    }
+    if (Boolean(form.windowStart) !== Boolean(form.windowEnd)) {
+      setFormError('Set both a start and an end time, or neither');
+      return;
+    }
+    const anomalyThresholds = parseThresholds(form);
+    if (anomalyThresholds && Object.values(anomalyThresholds).some(value => !(Number(value) > 0))) {
+      setFormError('Anomaly thresholds must be positive numbers');
+      return;
+    }
+
+    const zone: ZoneInput = {
+      name: form.name.trim(),
+      type: form.type,
+      shape: form.shape,
+      description: form.description.trim(),
+      district: form.district.trim() || null,
+      coordinates,
+      radius: form.shape === 'circle' ? Number(form.radius) || null : null,
+      timeWindows: form.windowStart ? [{ start: form.windowStart, end: form.windowEnd }] : null,
+      anomalyThresholds,
+      status: form.status
+    };
+
+    setSaving(true);
+    try {
+      const response = editingId
+        ? await zoneApi.updateZone(editingId, zone)
+        : await zoneApi.createZone(zone);
+
+      if (!response.success) {
+        setFormError(response.error || 'Failed to save zone');
+        return;
+      }
+
+      setIsFormOpen(false);
+      await loadZones();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (zone: Zone) => {
+    if (!window.confirm(`Delete zone "${zone.name}"?`)) return;
+
+    const response = await zoneApi.deleteZone(zone._id);
+    if (response.success) {
+      setZones(current => current.filter(z => z._id !== zone._id));
+      setSelectedZone(null);
+    } else {
+      setError(response.error || 'Failed to delete zone');
     }
-  ];
+  };
+
+  const formatUpdated = (zone: Zone) => new Date(zone.updatedAt).toLocaleString();
 
   const filteredZones = zones.filter(zone => {
     const matchesSearch = zone.name.toLowerCase().includes(searchTerm.toLowerCase());
@@ -135,63 +286,175 @@ const ZoneManagement: React.FC<ZoneManagementProps> = ({ onBack }) => {
             <Button variant="ghost" size="sm" onClick={onBack}>
               <ArrowLeft className="w-4 h-4" />
             </Button>
-            <h1 className="text-2xl font-bold">"Static Text"</h1>
+            <h1 className="text-2xl font-bold">Zone Management</h1>
+            <Badge variant="outline" className={connected ? 'text-green-600' : 'text-muted-foreground'}>
+              {connected ? 'Live' : 'Reconnecting…'}
+            </Badge>
           </div>
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="w-4 h-4 mr-2" />
-                "Static Text"
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl">
-              <DialogHeader>
-                <DialogTitle>Create New Zone</DialogTitle>
-              </DialogHeader>
-              <div className="grid gap-4 py-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="zoneName">Zone Name</Label>
-                    <Input id="zoneName" placeholder="Enter zone name" />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="zoneType">Zone Type</Label>
-                    <Select>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select type" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="safe">"Static Text"</SelectItem>
-                        <SelectItem value="restricted">"Static Text"</SelectItem>
-                        <SelectItem value="alert">Alert Zone</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="description">Description</Label>
-                  <Textarea id="description" placeholder="Zone description..." />
-                </div>
-                <div className="h-64 bg-muted rounded-lg flex items-center justify-center">
-                  <div className="text-center">
-                    <MapPin className="w-12 h-12 mx-auto text-muted-foreground mb-2" />
-                    <p className="text-sm text-muted-foreground">Map integration for zone drawing</p>
-                    <p className="text-xs text-muted-foreground">Click and drag to define zone boundaries</p>
+          <Button onClick={openCreate}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Zone
+          </Button>
+        </div>
+      </div>
+
+      {/* Create / Edit Zone Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Zone' : 'Create New Zone'}</DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="zoneName">Zone Name</Label>
+                <Input
+                  id="zoneName"
+                  placeholder="Enter zone name"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zoneType">Zone Type</Label>
+                <Select value={form.type} onValueChange={(value) => updateForm({ type: value as Zone['type'] })}>
+                  <SelectTrigger id="zoneType">
+                    <SelectValue placeholder="Select type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="safe">Safe Zone</SelectItem>
+                    <SelectItem value="restricted">Restricted Zone</SelectItem>
+                    <SelectItem value="alert">Alert Zone</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                placeholder="Zone description..."
+                value={form.description}
+                onChange={(e) => updateForm({ description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="district">District</Label>
+              <Input
+                id="district"
+                placeholder="Optional; groups zones in analytics"
+                value={form.district}
+                onChange={(e) => updateForm({ district: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="zoneShape">Shape</Label>
+                <Select value={form.shape} onValueChange={(value) => updateForm({ shape: value as Zone['shape'] })}>
+                  <SelectTrigger id="zoneShape">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="polygon">Polygon</SelectItem>
+                    <SelectItem value="circle">Circle</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zoneRadius">Radius (m)</Label>
+                <Input
+                  id="zoneRadius"
+                  type="number"
+                  min={1}
+                  disabled={form.shape !== 'circle'}
+                  value={form.radius}
+                  onChange={(e) => updateForm({ radius: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zoneStatus">Status</Label>
+                <Select value={form.status} onValueChange={(value) => updateForm({ status: value as Zone['status'] })}>
+                  <SelectTrigger id="zoneStatus">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="inactive">Inactive</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="zoneCoordinates">
+                {form.shape === 'circle' ? 'Centre (lat, lng)' : 'Boundary (one lat, lng per line)'}
+              </Label>
+              <Textarea
+                id="zoneCoordinates"
+                className="font-mono text-sm"
+                rows={form.shape === 'circle' ? 1 : 5}
+                placeholder={form.shape === 'circle' ? '26.9124, 75.7873' : '26.9124, 75.7873\n26.9200, 75.7900\n26.9150, 75.8000'}
+                value={form.coordinates}
+                onChange={(e) => updateForm({ coordinates: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="windowStart">In effect from (optional)</Label>
+                <Input
+                  id="windowStart"
+                  type="time"
+                  value={form.windowStart}
+                  onChange={(e) => updateForm({ windowStart: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="windowEnd">Until</Label>
+                <Input
+                  id="windowEnd"
+                  type="time"
+                  value={form.windowEnd}
+                  onChange={(e) => updateForm({ windowEnd: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Movement anomaly thresholds (optional)</Label>
+              <div className="grid grid-cols-2 gap-4">
+                {THRESHOLD_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={key} className="text-xs text-muted-foreground">{label}</Label>
+                    <Input
+                      id={key}
+                      type="number"
+                      min="0"
+                      placeholder="Default"
+                      value={form[key]}
+                      onChange={(e) => updateForm({ [key]: e.target.value })}
+                    />
                   </div>
-                </div>
-                <div className="flex justify-end gap-2">
-                  <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-                    "Static Text"
-                  </Button>
-                  <Button onClick={() => setIsCreateDialogOpen(false)}>
-                    "Static Text"
-                  </Button>
-                </div>
+                ))}
               </div>
-            </DialogContent>
-          </Dialog>
+            </div>
+            {formError && (
+              <p className="text-sm text-destructive">{formError}</p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving…' : editingId ? 'Save Changes' : 'Create Zone'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {error && (
+        <div className="mx-6 mt-4 p-3 rounded-md bg-red-50 text-red-700 text-sm dark:bg-red-950/20 dark:text-red-400">
+          {error}
         </div>
-      </div>
+      )}
 
       <div className="p-6">
         {/* Filters */}
@@ -210,8 +473,8 @@ const ZoneManagement: React.FC<ZoneManagementProps> = ({ onBack }) => {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Zones</SelectItem>
-              <SelectItem value="safe">"Static Text"</SelectItem>
-              <SelectItem value="restricted">"Static Text"</SelectItem>
+              <SelectItem value="safe">Safe Zones</SelectItem>
+              <SelectItem value="restricted">Restricted Zones</SelectItem>
               <SelectItem value="alert">Alert Zones</SelectItem>
             </SelectContent>
           </Select>
@@ -224,8 +487,13 @@ const ZoneManagement: React.FC<ZoneManagementProps> = ({ onBack }) => {
           </TabsList>
 
           <TabsContent value="list" className="space-y-4">
+            {filteredZones.length === 0 && (
+              <p className="text-center text-muted-foreground py-12">
+                {zones.length === 0 ? 'No zones defined yet' : 'No zones match your filters'}
+              </p>
+            )}
             {filteredZones.map((zone) => (
-              <Card key={zone.id} className="hover:shadow-md transition-shadow">
+              <Card key={zone._id} className="hover:shadow-md transition-shadow">
                 <CardContent className="p-6">
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
@@ -238,6 +506,12 @@ const ZoneManagement: React.FC<ZoneManagementProps> = ({ onBack }) => {
                         <Badge variant={zone.status === 'active' ? 'default' : 'secondary'}>
                           {zone.status}
                         </Badge>
+                        {zone.status === 'active' && !zone.inEffect && (
+                          <Badge variant="outline">Outside hours</Badge>
+                        )}
+                        {zone.district && (
+                          <Badge variant="outline">{zone.district}</Badge>
+                        )}
                       </div>
                       <p className="text-muted-foreground mb-4">{zone.description}</p>
                       
@@ -256,7 +530,7 @@ const ZoneManagement: React.FC<ZoneManagementProps> = ({ onBack }) => {
                         </div>
                         <div className="flex items-center gap-2">
                           <Clock className="w-4 h-4 text-gray-500" />
-                          <span className="text-sm">Updated {zone.lastUpdated}</span>
+                          <span className="text-sm">Updated {formatUpdated(zone)}</span>
                         </div>
                       </div>
                     </div>
@@ -265,10 +539,10 @@ const ZoneManagement: React.FC<ZoneManagementProps> = ({ onBack }) => {
                       <Button variant="outline" size="sm" onClick={() => setSelectedZone(zone)}>
                         <Eye className="w-4 h-4" />
                       </Button>
-                      <Button variant="outline" size="sm">
+                      <Button variant="outline" size="sm" onClick={() => openEdit(zone)}>
                         <Edit className="w-4 h-4" />
                       </Button>
-                      <Button variant="outline" size="sm" className="text-destructive">
+                      <Button variant="outline" size="sm" className="text-destructive" onClick={() => handleDelete(zone)}>
                         <Trash2 className="w-4 h-4" />
                       </Button>
                     </div>
@@ -335,11 +609,11 @@ const ZoneManagement: React.FC<ZoneManagementProps> = ({ onBack }) => {
                 <div className="space-y-2">
                   <div className="flex justify-between">
                     <span className="text-sm text-muted-foreground">Created By:</span>
-                    <span className="font-medium">{selectedZone.createdBy}</span>
+                    <span className="font-medium">{selectedZone.createdByName}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-sm text-muted-foreground">Last Updated:</span>
-                    <span className="font-medium">{selectedZone.lastUpdated}</span>
+                    <span className="font-medium">{formatUpdated(selectedZone)}</span>
                   </div>
                 </div>
               </div>
@@ -353,10 +627,10 @@ const ZoneManagement: React.FC<ZoneManagementProps> = ({ onBack }) => {
               
               <div className="flex justify-end gap-2">
                 <Button variant="outline" onClick={() => setSelectedZone(null)}>
-                  "Static Text"
+                  Close
                 </Button>
-                <Button>
-                  "Static Text"
+                <Button onClick={() => openEdit(selectedZone)}>
+                  Edit Zone
                 </Button>
               </div>
             </div>
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef } from 'react';
+import { HeatPoint } from '@/services/analyticsApi';
+
+interface HeatLayerProps {
+  points: HeatPoint[];
+  maxWeight: number;
+  // Position of a point as a percentage of the map's width and height
+  project: (point: { lat: number; lng: number }) => { x: number; y: number };
+  // Blur radius in pixels for a map of the given width
+  radius: (width: number) => number;
+}
+
+// Cold to hot, indexed by the accumulated alpha
+const buildPalette = (): Uint8ClampedArray => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 1;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, 256, 0);
+  gradient.addColorStop(0.2, '#3b82f6');
+  gradient.addColorStop(0.45, '#22c55e');
+  gradient.addColorStop(0.65, '#eab308');
+  gradient.addColorStop(1, '#dc2626');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 256, 1);
+  return ctx.getImageData(0, 0, 256, 1).data;
+};
+
+/**
+ * Canvas heat layer: each point is drawn as a soft grey disc whose opacity
+ * follows its weight, the discs add up where they overlap, and the summed
+ * opacity is then coloured from the palette.
+ */
+const HeatLayer: React.FC<HeatLayerProps> = ({ points, maxWeight, project, radius }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const paletteRef = useRef<Uint8ClampedArray | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const draw = () => {
+      const { width, height } = canvas.getBoundingClientRect();
+      canvas.width = Math.round(width);
+      canvas.height = Math.round(height);
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx || canvas.width === 0 || canvas.height === 0) return;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      if (points.length === 0 || maxWeight <= 0) return;
+
+      const r = radius(canvas.width);
+      points.forEach(point => {
+        const { x, y } = project(point);
+        const px = x / 100 * canvas.width;
+        const py = y / 100 * canvas.height;
+        if (px < -r || px > canvas.width + r || py < -r || py > canvas.height + r) return;
+
+        const gradient = ctx.createRadialGradient(px, py, 0, px, py, r);
+        // Light points stay visible, heavy ones saturate
+        gradient.addColorStop(0, `rgba(0, 0, 0, ${0.15 + 0.85 * Math.min(1, point.weight / maxWeight)})`);
+        gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(px - r, py - r, r * 2, r * 2);
+      });
+
+      if (!paletteRef.current) paletteRef.current = buildPalette();
+      const palette = paletteRef.current;
+      const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const pixels = image.data;
+      for (let i = 0; i < pixels.length; i += 4) {
+        const alpha = pixels[i + 3];
+        if (alpha === 0) continue;
+        pixels[i] = palette[alpha * 4];
+        pixels[i + 1] = palette[alpha * 4 + 1];
+        pixels[i + 2] = palette[alpha * 4 + 2];
+        pixels[i + 3] = Math.min(255, alpha * 1.2);
+      }
+      ctx.putImageData(image, 0, 0);
+    };
+
+    draw();
+
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [points, maxWeight, project, radius]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none opacity-80" />;
+};
+
+export default HeatLayer;
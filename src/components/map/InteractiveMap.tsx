@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -11,10 +11,14 @@ import {
   Layers,
   ZoomIn,
   ZoomOut,
-  RotateCcw
+  RotateCcw,
+  Flame
 } from 'lucide-react';
+import { Hotspot, HotspotReport } from '@/services/analyticsApi';
+import { describeSources, formatHour } from '@/lib/hotspots';
+import HeatLayer from './HeatLayer';
 
-interface MapLocation {
+export interface MapLocation {
   id: string;
   lat: number;
   lng: number;
@@ -29,70 +33,60 @@ interface InteractiveMapProps {
   center?: { lat: number; lng: number };
   zoom?: number;
   showControls?: boolean;
+  // Incident heat layer with its hotspots
+  heat?: HotspotReport | null;
+  // Offered for a selected hotspot
+  onCreateZone?: (hotspot: Hotspot) => void;
 }
 
+const METERS_PER_DEGREE = 111320;
+// Degrees of latitude and longitude across the map at the default zoom
+const BASE_SPAN = 0.2;
+const BASE_ZOOM = 11;
+
 const InteractiveMap: React.FC<InteractiveMapProps> = ({ 
   locations = [], 
   center = { lat: 28.6139, lng: 77.2090 }, // Delhi coordinates
   zoom = 11,
-  showControls = true 
+  showControls = true,
+  heat = null,
+  onCreateZone
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; center: { lat: number; lng: number } } | null>(null);
   const [currentZoom, setCurrentZoom] = useState(zoom);
   const [mapCenter, setMapCenter] = useState(center);
   const [selectedLocation, setSelectedLocation] = useState<MapLocation | null>(null);
-  const [mapLayer, setMapLayer] = useState<'standard' | 'satellite' | 'terrain'>('standard');
-
-  // Mock locations data
-  const mockLocations: MapLocation[] = [
-    {
-      id: '1',
-      lat: 28.6562,
-      lng: 77.2410,
-      type: 'safe_zone',
-      title: 'Red Fort Safe Zone',
-      description: 'Tourist safe zone with 24/7 monitoring',
-      status: 'active'
-    },
-    {
-      id: '2',
-      lat: 28.6129,
-      lng: 77.2295,
-      type: 'tourist',
-      title: 'Tourist Group Alpha',
-      description: '15 tourists from Japan',
-      status: 'active'
-    },
-    {
-      id: '3',
-      lat: 28.6328,
-      lng: 77.2200,
-      type: 'alert',
-      title: 'Traffic Congestion Alert',
-      description: 'Heavy traffic reported in this area',
-      status: 'warning'
-    },
-    {
-      id: '4',
-      lat: 28.5535,
-      lng: 77.2588,
-      type: 'restricted_zone',
-      title: 'Restricted Area',
-      description: 'Construction zone - avoid this area',
-      status: 'active'
-    },
-    {
-      id: '5',
-      lat: 28.6506,
-      lng: 77.2334,
-      type: 'police_station',
-      title: 'Chandni Chowk Police Station',
-      description: 'Emergency services available',
-      status: 'active'
-    }
-  ];
+  const [selectedHotspot, setSelectedHotspot] = useState<Hotspot | null>(null);
+  const [showHeat, setShowHeat] = useState(true);
+
+  // Follow the caller's centre when it moves, e.g. once data has loaded
+  useEffect(() => {
+    setMapCenter({ lat: center.lat, lng: center.lng });
+  }, [center.lat, center.lng]);
+
+  useEffect(() => {
+    setSelectedHotspot(current => (current && heat?.hotspots.find(hotspot => hotspot.id === current.id)) || null);
+  }, [heat]);
 
-  const allLocations = [...locations, ...mockLocations];
+  const span = BASE_SPAN * 2 ** (BASE_ZOOM - currentZoom);
+
+  const project = useCallback((point: { lat: number; lng: number }) => ({
+    x: ((point.lng - (mapCenter.lng - span / 2)) / span) * 100,
+    y: ((mapCenter.lat + span / 2 - point.lat) / span) * 100
+  }), [mapCenter, span]);
+
+  // A distance as a share of the map's width and height, in percent
+  const metersToPercent = (meters: number) => ({
+    x: meters / (METERS_PER_DEGREE * Math.cos(mapCenter.lat * Math.PI / 180)) / span * 100,
+    y: meters / METERS_PER_DEGREE / span * 100
+  });
+
+  const heatRadius = useCallback((width: number) => {
+    const cellMeters = heat?.cellMeters || 250;
+    const pixels = cellMeters * 1.5 / (METERS_PER_DEGREE * Math.cos(mapCenter.lat * Math.PI / 180)) / span * width;
+    return Math.max(12, Math.min(80, pixels));
+  }, [heat?.cellMeters, mapCenter.lat, span]);
 
   const getLocationIcon = (type: string) => {
     switch (type) {
@@ -128,24 +122,88 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
   };
 
   const handleLocationClick = (location: MapLocation) => {
+    setSelectedHotspot(null);
     setSelectedLocation(location);
   };
 
+  const handleHotspotClick = (hotspot: Hotspot) => {
+    setSelectedLocation(null);
+    setSelectedHotspot(hotspot);
+  };
+
+  // Drag to pan
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, center: mapCenter };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const bounds = mapRef.current?.getBoundingClientRect();
+    if (!drag || !bounds) return;
+
+    setMapCenter({
+      lat: drag.center.lat + (e.clientY - drag.y) / bounds.height * span,
+      lng: drag.center.lng - (e.clientX - drag.x) / bounds.width * span
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
   return (
     <div className="relative w-full h-full bg-muted/20 rounded-lg overflow-hidden">
       {/* Map Background */}
       <div 
         ref={mapRef}
-        className="w-full h-full relative bg-gradient-to-br from-blue-50 to-green-50"
+        className="w-full h-full relative bg-gradient-to-br from-blue-50 to-green-50 cursor-grab active:cursor-grabbing touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
         style={{
           backgroundImage: `url("data:image/svg+xml,%3Csvg width='40' height='40' viewBox='0 0 40 40' xmlns='http://www.w3.org/2000/svg'%3E%3Cg fill='%23f0f0f0' fill-opacity='0.3' fill-rule='evenodd'%3E%3Cpath d='M0 0h40v40H0V0zm10 10h20v20H10V10z'/%3E%3C/g%3E%3C/svg%3E")`,
         }}
       >
+        {/* Incident Heat */}
+        {heat && showHeat && (
+          <HeatLayer points={heat.points} maxWeight={heat.maxWeight} project={project} radius={heatRadius} />
+        )}
+
+        {/* Hotspots */}
+        {heat && showHeat && heat.hotspots.map((hotspot) => {
+          const { x, y } = project(hotspot.center);
+          const size = metersToPercent(hotspot.radius * 2);
+
+          if (x + size.x < 0 || x - size.x > 100 || y + size.y < 0 || y - size.y > 100) {
+            return null;
+          }
+
+          return (
+            <div
+              key={hotspot.id}
+              className={`absolute rounded-full border-2 border-dashed cursor-pointer transition-colors ${
+                selectedHotspot?.id === hotspot.id ? 'border-red-700 bg-red-500/20' : 'border-red-500/70 hover:bg-red-500/10'
+              }`}
+              style={{
+                left: `${x}%`,
+                top: `${y}%`,
+                width: `max(${size.x}%, 16px)`,
+                height: `max(${size.y}%, 16px)`,
+                transform: 'translate(-50%, -50%)'
+              }}
+              onClick={() => handleHotspotClick(hotspot)}
+              title={`${hotspot.incidents} incidents`}
+            />
+          );
+        })}
+
         {/* Location Markers */}
-        {allLocations.map((location) => {
+        {locations.map((location) => {
           const { icon: Icon, color, bg } = getLocationIcon(location.type);
-          const relativeX = ((location.lng - (mapCenter.lng - 0.1)) / 0.2) * 100;
-          const relativeY = ((mapCenter.lat + 0.1 - location.lat) / 0.2) * 100;
+          const { x: relativeX, y: relativeY } = project(location);
           
           // Only show markers that are within the visible area
           if (relativeX < 0 || relativeX > 100 || relativeY < 0 || relativeY > 100) {
@@ -203,11 +261,18 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
             </div>
           </div>
           
-          <div className="bg-background/95 backdrop-blur-sm rounded-lg p-2 shadow-lg">
-            <Button variant="ghost" size="sm">
-              <Layers className="w-4 h-4" />
-            </Button>
-          </div>
+          {heat && (
+            <div className="bg-background/95 backdrop-blur-sm rounded-lg p-2 shadow-lg">
+              <Button
+                variant={showHeat ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setShowHeat(current => !current)}
+                title={showHeat ? 'Hide incident heat' : 'Show incident heat'}
+              >
+                <Layers className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
         </div>
       )}
 
@@ -239,6 +304,12 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
             </div>
             <span>Active Alerts</span>
           </div>
+          {heat && showHeat && (
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-2 rounded-sm bg-gradient-to-r from-blue-500 via-yellow-500 to-red-600" />
+              <span>Incident density</span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -276,6 +347,62 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({
         </div>
       )}
 
+      {/* Hotspot Details Popup */}
+      {selectedHotspot && (
+        <div className="absolute top-4 left-4 bg-background/95 backdrop-blur-sm rounded-lg shadow-lg max-w-sm">
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-start justify-between mb-2">
+                <h3 className="font-medium flex items-center gap-2">
+                  <Flame className="w-4 h-4 text-red-600" />
+                  Incident Hotspot
+                </h3>
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={() => setSelectedHotspot(null)}
+                  className="h-6 w-6 p-0"
+                >
+                  ×
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground mb-2">
+                {describeSources(selectedHotspot)} within {selectedHotspot.radius} m
+              </p>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs mb-3">
+                <span className="text-muted-foreground">Weight</span>
+                <span>{selectedHotspot.weight} ({Math.round(selectedHotspot.intensity * 100)}% of busiest)</span>
+                <span className="text-muted-foreground">Density</span>
+                <span>{selectedHotspot.density} per km²</span>
+                <span className="text-muted-foreground">Peak hour</span>
+                <span>{formatHour(selectedHotspot.peakHour)}</span>
+                <span className="text-muted-foreground">Last incident</span>
+                <span>{new Date(selectedHotspot.lastIncidentAt).toLocaleString()}</span>
+              </div>
+              {selectedHotspot.zones.length > 0 && (
+                <div className="flex flex-wrap gap-1 mb-3">
+                  {selectedHotspot.zones.map(zone => (
+                    <Badge key={zone.id} variant="outline" className="text-xs">
+                      In {zone.name} ({zone.type})
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <div className="text-xs text-muted-foreground">
+                  {selectedHotspot.center.lat.toFixed(4)}, {selectedHotspot.center.lng.toFixed(4)}
+                </div>
+                {onCreateZone && (
+                  <Button size="sm" onClick={() => onCreateZone(selectedHotspot)}>
+                    Create Alert Zone
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Zoom Level Indicator */}
       <div className="absolute bottom-4 right-4 bg-background/95 backdrop-blur-sm rounded-lg px-3 py-1 shadow-lg">
         <div className="text-xs text-muted-foreground">
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Download, FileText, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { firApi, FIR, FIRStatus } from '@/services/firApi';
+
+interface FIRCopiesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Tourists only see FIRs once they have been submitted
+const STATUS_LABELS: Partial<Record<FIRStatus, { label: string; className: string }>> = {
+  pending: { label: 'Awaiting approval', className: 'bg-warning text-white' },
+  approved: { label: 'Registered', className: 'bg-success text-white' },
+  closed: { label: 'Closed', className: 'bg-muted text-muted-foreground' }
+};
+
+const FIRCopiesDialog: React.FC<FIRCopiesDialogProps> = ({ open, onOpenChange }) => {
+  const [firs, setFirs] = useState<FIR[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    firApi.getMyFIRs()
+      .then(response => {
+        if (response.success && response.data) {
+          setFirs(response.data);
+        } else {
+          toast.error(response.error || 'Failed to load your FIRs');
+        }
+      })
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  // The copy comes in the language of the tourist's profile, with the English original attached
+  const handleDownload = async (fir: FIR, language?: string) => {
+    setDownloadingId(fir._id);
+    try {
+      const response = await firApi.downloadPDF(fir._id, language);
+      if (!response.success) {
+        toast.error(response.error || 'Failed to download FIR');
+      }
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5 text-primary" />
+            My FIRs
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          {loading && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!loading && firs.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No FIRs have been registered for you.
+            </p>
+          )}
+
+          {!loading && firs.map(fir => (
+            <div key={fir._id} className="p-3 border rounded-lg space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <div className="font-medium text-sm">{fir.title}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {fir.firNumber} · {new Date(fir.createdAt).toLocaleDateString()}
+                  </div>
+                </div>
+                {STATUS_LABELS[fir.status] && (
+                  <Badge className={STATUS_LABELS[fir.status]!.className}>
+                    {STATUS_LABELS[fir.status]!.label}
+                  </Badge>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  disabled={downloadingId === fir._id}
+                  onClick={() => handleDownload(fir)}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Download Copy
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={downloadingId === fir._id}
+                  onClick={() => handleDownload(fir, 'en')}
+                >
+                  English Only
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FIRCopiesDialog;
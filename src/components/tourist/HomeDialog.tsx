@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -21,6 +21,7 @@ import {
   Settings
 } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
+import FIRCopiesDialog from './FIRCopiesDialog';
 
 interface HomeDialogProps {
   isOpen: boolean;
@@ -30,6 +31,7 @@ interface HomeDialogProps {
 
 const HomeDialog: React.FC<HomeDialogProps> = ({ isOpen, onClose, onNavigate }) => {
   const { auth } = useAuth();
+  const [firCopiesOpen, setFirCopiesOpen] = useState(false);
   
   const getTouristActions = () => [
     {
@@ -65,6 +67,16 @@ const HomeDialog: React.FC<HomeDialogProps> = ({ isOpen, onClose, onNavigate })
       description: 'Send photo report',
       action: () => alert('Camera feature coming soon'),
       color: 'text-warning'
+    },
+    {
+      icon: FileText,
+      label: 'My FIRs',
+      description: 'Download FIR copies',
+      action: () => {
+        setFirCopiesOpen(true);
+        onClose();
+      },
+      color: 'text-primary'
     }
   ];
 
@@ -178,125 +190,128 @@ const HomeDialog: React.FC<HomeDialogProps> = ({ isOpen, onClose, onNavigate })
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
-        <DialogHeader>
-          <DialogTitle className="flex items-center gap-2">
-            <Home className="w-5 h-5" />
-            {auth.user?.role === 'tourist' ? 'Quick Access' : 'Dashboard Hub'}
-          </DialogTitle>
-        </DialogHeader>
+    <>
+      <Dialog open={isOpen} onOpenChange={onClose}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Home className="w-5 h-5" />
+              {auth.user?.role === 'tourist' ? 'Quick Access' : 'Dashboard Hub'}
+            </DialogTitle>
+          </DialogHeader>
 
-        <div className="space-y-6">
-          {/* Quick Actions */}
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="flex items-center gap-2">
-                <Navigation className="w-4 h-4" />
-                Quick Actions
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-2 gap-3">
-                {quickActions.map((action, index) => (
-                  <Button
-                    key={index}
-                    variant="outline"
-                    className="h-auto p-4 flex flex-col items-start gap-2"
-                    onClick={action.action}
-                  >
-                    <action.icon className={`w-5 h-5 ${action.color}`} />
-                    <div className="text-left">
-                      <div className="font-medium text-sm">{action.label}</div>
-                      <div className="text-xs text-muted-foreground">{action.description}</div>
-                    </div>
-                  </Button>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+          <div className="space-y-6">
+            {/* Quick Actions */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2">
+                  <Navigation className="w-4 h-4" />
+                  Quick Actions
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 gap-3">
+                  {quickActions.map((action, index) => (
+                    <Button
+                      key={index}
+                      variant="outline"
+                      className="h-auto p-4 flex flex-col items-start gap-2"
+                      onClick={action.action}
+                    >
+                      <action.icon className={`w-5 h-5 ${action.color}`} />
+                      <div className="text-left">
+                        <div className="font-medium text-sm">{action.label}</div>
+                        <div className="text-xs text-muted-foreground">{action.description}</div>
+                      </div>
+                    </Button>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
 
-          {/* Recent Activities */}
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="flex items-center gap-2">
-                <Clock className="w-4 h-4" />
-                Recent Activities
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {recentActivities.map((activity, index) => (
-                  <div key={index} className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/50">
-                    <activity.icon className={`w-4 h-4 ${getStatusColor(activity.status)}`} />
-                    <div className="flex-1">
-                      <div className="text-sm font-medium">{activity.title}</div>
-                      <div className="text-xs text-muted-foreground">{activity.time}</div>
+            {/* Recent Activities */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2">
+                  <Clock className="w-4 h-4" />
+                  Recent Activities
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {recentActivities.map((activity, index) => (
+                    <div key={index} className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/50">
+                      <activity.icon className={`w-4 h-4 ${getStatusColor(activity.status)}`} />
+                      <div className="flex-1">
+                        <div className="text-sm font-medium">{activity.title}</div>
+                        <div className="text-xs text-muted-foreground">{activity.time}</div>
+                      </div>
                     </div>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
 
-          {/* Favorite Locations */}
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="flex items-center gap-2">
-                <Bookmark className="w-4 h-4" />
-                {auth.user?.role === 'tourist' ? 'Favorite Locations' : 'Frequent Areas'}
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {favoriteLocations.map((location, index) => (
-                  <div key={index} className="flex items-center justify-between p-2 rounded-lg hover:bg-muted/50">
-                    <div className="flex items-center gap-3">
-                      <Star className="w-4 h-4 text-yellow-500" />
-                      <div>
-                        <div className="text-sm font-medium">{location.name}</div>
-                        <div className="text-xs text-muted-foreground">{location.visits} visits</div>
+            {/* Favorite Locations */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2">
+                  <Bookmark className="w-4 h-4" />
+                  {auth.user?.role === 'tourist' ? 'Favorite Locations' : 'Frequent Areas'}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {favoriteLocations.map((location, index) => (
+                    <div key={index} className="flex items-center justify-between p-2 rounded-lg hover:bg-muted/50">
+                      <div className="flex items-center gap-3">
+                        <Star className="w-4 h-4 text-yellow-500" />
+                        <div>
+                          <div className="text-sm font-medium">{location.name}</div>
+                          <div className="text-xs text-muted-foreground">{location.visits} visits</div>
+                        </div>
                       </div>
+                      <Badge className={getSafetyBadge(location.safety)}>
+                        {location.safety}
+                      </Badge>
                     </div>
-                    <Badge className={getSafetyBadge(location.safety)}>
-                      {location.safety}
-                    </Badge>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
 
-          {/* Safety Status */}
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="flex items-center gap-2">
-                <Shield className="w-4 h-4" />
-                Current Status
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <div className="w-3 h-3 rounded-full bg-success animate-pulse"></div>
-                  <div>
-                    <div className="text-sm font-medium">All systems operational</div>
-                    <div className="text-xs text-muted-foreground">Last updated: 2 minutes ago</div>
+            {/* Safety Status */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2">
+                  <Shield className="w-4 h-4" />
+                  Current Status
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="w-3 h-3 rounded-full bg-success animate-pulse"></div>
+                    <div>
+                      <div className="text-sm font-medium">All systems operational</div>
+                      <div className="text-xs text-muted-foreground">Last updated: 2 minutes ago</div>
+                    </div>
                   </div>
+                  <Badge className="bg-success text-white">Safe</Badge>
                 </div>
-                <Badge className="bg-success text-white">Safe</Badge>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+              </CardContent>
+            </Card>
+          </div>
 
-        <div className="flex justify-end pt-4">
-          <Button onClick={onClose}>
-            Close
-          </Button>
-        </div>
-      </DialogContent>
-    </Dialog>
+          <div className="flex justify-end pt-4">
+            <Button onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+      <FIRCopiesDialog open={firCopiesOpen} onOpenChange={setFirCopiesOpen} />
+    </>
   );
 };
 
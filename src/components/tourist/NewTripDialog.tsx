@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -15,32 +15,78 @@ import {
   Clock,
   Users
 } from 'lucide-react';
-import { format } from 'date-fns';
+import { endOfDay, format, startOfDay } from 'date-fns';
 import { toast } from 'sonner';
+import { tripApi, Trip } from '@/services/tripApi';
 
 interface NewTripDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  // Edit this trip instead of creating one
+  trip?: Trip | null;
+  onSaved?: (trip: Trip) => void;
 }
 
 interface Destination {
   id: string;
+  // Set for destinations already saved, so their progress is kept
+  savedId?: string;
   name: string;
   time: string;
   notes?: string;
+  lat?: number | null;
+  lng?: number | null;
 }
 
-const NewTripDialog: React.FC<NewTripDialogProps> = ({ open, onOpenChange }) => {
-  const [tripData, setTripData] = useState({
-    title: '',
-    description: '',
-    startDate: undefined as Date | undefined,
-    endDate: undefined as Date | undefined,
-    groupSize: 1
-  });
+const EMPTY_TRIP = {
+  title: '',
+  description: '',
+  startDate: undefined as Date | undefined,
+  endDate: undefined as Date | undefined,
+  members: ''
+};
+
+// "lat, lng"; blank is allowed, anything else unparseable is null
+const parseCoordinates = (text: string): { lat: number; lng: number } | undefined | null => {
+  if (!text.trim()) return undefined;
+
+  const [lat, lng] = text.split(',').map(part => Number(part.trim()));
+  if (text.split(',').length !== 2 || Number.isNaN(lat) || Number.isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+
+  return { lat, lng };
+};
+
+const NewTripDialog: React.FC<NewTripDialogProps> = ({ open, onOpenChange, trip, onSaved }) => {
+  const [tripData, setTripData] = useState(EMPTY_TRIP);
   
   const [destinations, setDestinations] = useState<Destination[]>([]);
-  const [newDestination, setNewDestination] = useState({ name: '', time: '', notes: '' });
+  const [newDestination, setNewDestination] = useState({ name: '', time: '', notes: '', coordinates: '' });
+  const [saving, setSaving] = useState(false);
+
+  // Start from the trip being edited, or a blank form
+  useEffect(() => {
+    if (!open) return;
+
+    setTripData(trip ? {
+      title: trip.title,
+      description: trip.description || '',
+      startDate: new Date(trip.startDate),
+      endDate: new Date(trip.endDate),
+      members: trip.members.join(', ')
+    } : EMPTY_TRIP);
+    setDestinations(trip ? trip.destinations.map(destination => ({
+      id: destination.id,
+      savedId: destination.id,
+      name: destination.name,
+      time: destination.time,
+      notes: destination.notes,
+      lat: destination.lat,
+      lng: destination.lng
+    })) : []);
+    setNewDestination({ name: '', time: '', notes: '', coordinates: '' });
+  }, [open, trip]);
 
   const handleAddDestination = () => {
     if (!newDestination.name || !newDestination.time) {
@@ -48,45 +94,86 @@ const NewTripDialog: React.FC<NewTripDialogProps> = ({ open, onOpenChange }) =>
       return;
     }
 
+    const coordinates = parseCoordinates(newDestination.coordinates);
+    if (coordinates === null) {
+      toast.error('Enter coordinates as "lat, lng", or leave them blank');
+      return;
+    }
+
     const destination: Destination = {
       id: Date.now().toString(),
       name: newDestination.name,
       time: newDestination.time,
-      notes: newDestination.notes
+      notes: newDestination.notes,
+      lat: coordinates?.lat ?? null,
+      lng: coordinates?.lng ?? null
     };
 
     setDestinations([...destinations, destination]);
-    setNewDestination({ name: '', time: '', notes: '' });
+    setNewDestination({ name: '', time: '', notes: '', coordinates: '' });
   };
 
   const handleRemoveDestination = (id: string) => {
     setDestinations(destinations.filter(d => d.id !== id));
   };
 
-  const handleCreateTrip = () => {
+  const handleCreateTrip = async () => {
     if (!tripData.title || !tripData.startDate || !tripData.endDate) {
       toast.error('Please fill in all required fields');
       return;
     }
 
+    if (tripData.endDate < tripData.startDate) {
+      toast.error('The end date cannot be before the start date');
+      return;
+    }
+
     if (destinations.length === 0) {
       toast.error('Please add at least one destination');
       return;
     }
 
-    // Here you would typically save the trip to your backend
-    toast.success('Trip created successfully!');
-    onOpenChange(false);
-    
-    // Reset form
-    setTripData({
-      title: '',
-      description: '',
-      startDate: undefined,
-      endDate: undefined,
-      groupSize: 1
-    });
-    setDestinations([]);
+    const input = {
+      title: tripData.title,
+      description: tripData.description,
+      startDate: startOfDay(tripData.startDate).toISOString(),
+      // The trip, and the digital ID with it, lasts through the whole last day
+      endDate: endOfDay(tripData.endDate).toISOString(),
+      destinations: destinations.map(destination => ({
+        ...(destination.savedId ? { id: destination.savedId } : {}),
+        name: destination.name,
+        time: destination.time,
+        notes: destination.notes || '',
+        lat: destination.lat ?? null,
+        lng: destination.lng ?? null
+      })),
+      members: tripData.members.split(',').map(member => member.trim()).filter(Boolean)
+    };
+
+    setSaving(true);
+    try {
+      const response = trip
+        ? await tripApi.updateTrip(trip._id, input)
+        : await tripApi.createTrip(input);
+
+      if (!response.success || !response.data) {
+        toast.error(response.error || 'Failed to save trip');
+        return;
+      }
+
+      const flagged = response.data.destinations.filter(destination => destination.warnings?.length);
+      if (flagged.length > 0) {
+        toast.warning(trip ? 'Trip updated' : 'Trip created', {
+          description: `Check the warnings on ${flagged.map(destination => destination.name).join(', ')}`
+        });
+      } else {
+        toast.success(trip ? 'Trip updated' : 'Trip created successfully!');
+      }
+      onSaved?.(response.data);
+      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
   };
 
   return (
@@ -95,7 +182,7 @@ const NewTripDialog: React.FC<NewTripDialogProps> = ({ open, onOpenChange }) =>
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <MapPin className="w-5 h-5 text-primary" />
-            Create New Trip
+            {trip ? 'Edit Trip' : 'Create New Trip'}
           </DialogTitle>
         </DialogHeader>
 
@@ -165,16 +252,14 @@ const NewTripDialog: React.FC<NewTripDialogProps> = ({ open, onOpenChange }) =>
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="groupSize">Group Size</Label>
+                <Label htmlFor="members">Travelling With</Label>
                 <div className="relative">
                   <Users className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
                   <Input
-                    id="groupSize"
-                    type="number"
-                    min="1"
-                    max="20"
-                    value={tripData.groupSize}
-                    onChange={(e) => setTripData(prev => ({ ...prev, groupSize: parseInt(e.target.value) || 1 }))}
+                    id="members"
+                    placeholder="Names, comma separated"
+                    value={tripData.members}
+                    onChange={(e) => setTripData(prev => ({ ...prev, members: e.target.value }))}
                     className="pl-10"
                   />
                 </div>
@@ -218,6 +303,17 @@ const NewTripDialog: React.FC<NewTripDialogProps> = ({ open, onOpenChange }) =>
                   />
                 </div>
               </div>
+              <div className="space-y-1 mb-3">
+                <Label className="text-sm">Coordinates (Optional)</Label>
+                <Input
+                  placeholder="28.6562, 77.2410"
+                  value={newDestination.coordinates}
+                  onChange={(e) => setNewDestination(prev => ({ ...prev, coordinates: e.target.value }))}
+                />
+                <p className="text-xs text-muted-foreground">
+                  With coordinates, the destination is ticked off when you get there
+                </p>
+              </div>
               <Button onClick={handleAddDestination} size="sm" className="w-full">
                 <Plus className="w-4 h-4 mr-2" />
                 Add Destination
@@ -244,6 +340,12 @@ const NewTripDialog: React.FC<NewTripDialogProps> = ({ open, onOpenChange }) =>
                           {destination.notes && (
                             <span>{destination.notes}</span>
                           )}
+                          {destination.lat != null && destination.lng != null && (
+                            <span className="flex items-center gap-1">
+                              <MapPin className="w-3 h-3" />
+                              {destination.lat.toFixed(4)}, {destination.lng.toFixed(4)}
+                            </span>
+                          )}
                         </div>
                       </div>
                       <Button
@@ -274,8 +376,8 @@ const NewTripDialog: React.FC<NewTripDialogProps> = ({ open, onOpenChange }) =>
 
           {/* Action Buttons */}
           <div className="flex gap-3 pt-4">
-            <Button onClick={handleCreateTrip} className="flex-1">
-              Create Trip
+            <Button onClick={handleCreateTrip} className="flex-1" disabled={saving}>
+              {saving ? 'Saving…' : trip ? 'Save Changes' : 'Create Trip'}
             </Button>
             <Button variant="outline" onClick={() => onOpenChange(false)} className="flex-1">
               Cancel
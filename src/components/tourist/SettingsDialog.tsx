@@ -21,6 +21,7 @@ import {
   Lock
 } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
+import { loadSettings, saveSettings } from '@/lib/settings';
 
 interface SettingsDialogProps {
   isOpen: boolean;
@@ -29,13 +30,29 @@ interface SettingsDialogProps {
 
 const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose }) => {
   const { auth } = useAuth();
-  const [notifications, setNotifications] = useState(true);
-  const [locationSharing, setLocationSharing] = useState(true);
-  const [emergencyAlerts, setEmergencyAlerts] = useState(true);
-  const [darkMode, setDarkMode] = useState(false);
-  const [language, setLanguage] = useState('en');
-  const [emergencyContact, setEmergencyContact] = useState('+91 1234567890');
-  const [sosTimeout, setSosTimeout] = useState('30');
+  const [initialSettings] = useState(loadSettings);
+  const [notifications, setNotifications] = useState(initialSettings.notifications);
+  const [locationSharing, setLocationSharing] = useState(initialSettings.locationSharing);
+  const [locationPrecision, setLocationPrecision] = useState(initialSettings.locationPrecision);
+  const [emergencyAlerts, setEmergencyAlerts] = useState(initialSettings.emergencyAlerts);
+  const [darkMode, setDarkMode] = useState(initialSettings.darkMode);
+  const [language, setLanguage] = useState(initialSettings.language);
+  const [emergencyContact, setEmergencyContact] = useState(initialSettings.emergencyContact);
+  const [sosTimeout, setSosTimeout] = useState(initialSettings.sosTimeout);
+
+  const handleSave = () => {
+    saveSettings({
+      notifications,
+      locationSharing,
+      locationPrecision,
+      emergencyAlerts,
+      darkMode,
+      language,
+      emergencyContact,
+      sosTimeout
+    });
+    onClose();
+  };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -91,6 +108,24 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose }) => {
                 </div>
                 <Switch checked={locationSharing} onCheckedChange={setLocationSharing} />
               </div>
+
+              {locationSharing && (
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Location Precision</Label>
+                  <Select value={locationPrecision} onValueChange={(value) => setLocationPrecision(value as typeof locationPrecision)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="coarse">Approximate (about 1 km)</SelectItem>
+                      <SelectItem value="precise">Precise</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Police see your exact track only while you have an open SOS, and every view is logged
+                  </p>
+                </div>
+              )}
               
               <div className="space-y-2">
                 <Label className="text-sm font-medium">SOS Auto-call Timeout</Label>
@@ -249,7 +284,7 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose }) => {
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button onClick={onClose}>
+          <Button onClick={handleSave}>
             Save Changes
           </Button>
         </div>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
@@ -13,9 +13,17 @@ import {
   Clock,
   Plus
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { useAuth } from '@/context/AuthContext';
 import { blockchainService } from '@/services/blockchainService';
+import { alertApi, AlertLocation } from '@/services/alertApi';
+import { loadSettings } from '@/lib/settings';
 import { useTranslation } from '@/hooks/useTranslation';
+import { useLocationSharing } from '@/hooks/useLocationSharing';
+import { useEventStream, StreamEvent } from '@/hooks/useEventStream';
+import { safetyApi, SafetyScore } from '@/services/safetyApi';
+import { useTrips } from '@/hooks/useTrips';
+import { AdvisoryChange } from '@/services/tripApi';
 import MapView from './MapView';
 import TripsView from './TripsView';
 
@@ -24,8 +32,14 @@ const TouristHome: React.FC = () => {
   const { tTourist, tCommon, tSOS } = useTranslation();
   const [currentView, setCurrentView] = useState<'home' | 'map' | 'trips'>('home');
   const [isCreatingDigitalID, setIsCreatingDigitalID] = useState(false);
-  const safetyScore = 85; // Mock safety score
-  const tripEndDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days from now
+  const [isSendingSOS, setIsSendingSOS] = useState(false);
+  const locationSharing = useLocationSharing();
+  const [safety, setSafety] = useState<SafetyScore | null>(null);
+  const safetyScore = safety?.score ?? 0;
+  const { currentTrip, upcomingTrips } = useTrips(currentView === 'home');
+  // The digital ID lasts until the current trip ends, or the next one if none is under way
+  const tripEndDate = currentTrip?.endDate || upcomingTrips[0]?.endDate || null;
+  const [idExpiresAt, setIdExpiresAt] = useState<number | null>(null);
 
   const getSafetyColor = (score: number) => {
     if (score >= 80) return 'text-success';
@@ -40,6 +54,55 @@ const TouristHome: React.FC = () => {
   };
 
   const safetyBadge = getSafetyBadge(safetyScore);
+  // The factors currently costing points, biggest first
+  const safetyConcerns = (safety?.factors || [])
+    .filter(factor => factor.impact > 0)
+    .sort((a, b) => b.impact - a.impact)
+    .slice(0, 3);
+
+  const loadSafetyScore = useCallback(async () => {
+    const response = await safetyApi.getMine();
+    if (response.success && response.data) setSafety(response.data);
+  }, []);
+
+  useEffect(() => {
+    loadSafetyScore();
+  }, [loadSafetyScore]);
+
+  // The server rescores on every ping, alert and zone change
+  useEventStream(['locations'], (event: StreamEvent) => {
+    if (event.type !== 'safety_score') return;
+    setSafety(current => ({ ...current, ...(event.data as SafetyScore) }));
+  }, { onReset: loadSafetyScore });
+
+  // Warnings on upcoming stops are re-checked as alerts and zones change
+  useEventStream(['trips'], (event: StreamEvent) => {
+    if (event.type !== 'advisory_changed' || !loadSettings().notifications) return;
+
+    const trip = event.data as AdvisoryChange;
+    trip.destinations
+      .filter(destination => trip.changedDestinations.includes(destination.id))
+      .forEach(destination => {
+        const [top] = destination.warnings || [];
+        if (top) {
+          toast.warning(`${destination.name}: ${top.message}`, { description: trip.title });
+        } else {
+          toast.success(`No more warnings for ${destination.name}`, { description: trip.title });
+        }
+      });
+  });
+
+  useEffect(() => {
+    if (!auth.user?.digitalId) return;
+
+    blockchainService.getDigitalIDs().then(response => {
+      if (!response?.success) return;
+      const own = (response.data.digitalIDs as { userId: string; expiresAt: number | null }[])
+        .filter(digitalID => digitalID.userId === auth.user?.id)
+        .pop();
+      setIdExpiresAt(own?.expiresAt ?? null);
+    });
+  }, [auth.user?.id, auth.user?.digitalId]);
 
   const handleCreateDigitalID = async () => {
     if (!auth.user) return;
@@ -56,10 +119,13 @@ const TouristHome: React.FC = () => {
           name: auth.user.name,
           email: auth.user.email,
           role: auth.user.role,
-          walletAddress: walletResponse.data.address
+          walletAddress: walletResponse.data.address,
+          // Without a trip loaded yet the server looks up the tourist's trip itself
+          ...(tripEndDate ? { expiresAt: tripEndDate } : {})
         });
         
         if (digitalIDResponse.success && digitalIDResponse.data) {
+          setIdExpiresAt(digitalIDResponse.data.expiresAt);
           // Update user profile with digital ID and wallet info
           updateProfile({
             digitalId: digitalIDResponse.data.id,
@@ -84,9 +150,56 @@ const TouristHome: React.FC = () => {
     }
   };
 
-  const handleSOSClick = () => {
-    // In a real app, this would trigger emergency services
-    alert('SOS Alert Sent! Emergency services have been notified.');
+  const getCurrentLocation = (): Promise<AlertLocation | null> => {
+    if (!navigator.geolocation) return Promise.resolve(null);
+
+    return new Promise((resolve) => {
+      navigator.geolocation.getCurrentPosition(
+        (position) => resolve({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          accuracy: position.coords.accuracy
+        }),
+        () => resolve(null),
+        { enableHighAccuracy: true, timeout: 5000, maximumAge: 30000 }
+      );
+    });
+  };
+
+  const getBatteryLevel = async (): Promise<number | null> => {
+    try {
+      // Battery Status API is not available in every browser
+      const { getBattery } = navigator as Navigator & { getBattery?: () => Promise<{ level: number }> };
+      const battery = await getBattery?.call(navigator);
+      return battery ? Math.round(battery.level * 100) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const handleSOSClick = async () => {
+    if (isSendingSOS) return;
+
+    setIsSendingSOS(true);
+    try {
+      const [location, battery] = await Promise.all([getCurrentLocation(), getBatteryLevel()]);
+
+      const response = await alertApi.raiseSOS({
+        location,
+        battery,
+        reportedAt: new Date().toISOString(),
+        sosTimeout: parseInt(loadSettings().sosTimeout, 10)
+      });
+
+      if (response.success) {
+        alert('SOS Alert Sent! Emergency services have been notified.');
+      } else {
+        console.error('❌ SOS failed:', response.error);
+        alert('Failed to send SOS. Please call emergency services directly.');
+      }
+    } finally {
+      setIsSendingSOS(false);
+    }
   };
 
   const handleEmergencyCall = () => {
@@ -133,14 +246,32 @@ const TouristHome: React.FC = () => {
           <CardContent className="pt-0">
             <div className="flex items-center justify-between">
               <div>
-                <div className="text-2xl font-bold">{safetyScore}%</div>
+                <div className="text-2xl font-bold">{safety ? `${safetyScore}%` : '—'}</div>
                 <div className="text-sm opacity-90">{tTourist('safetyScore')}</div>
               </div>
-              <Badge className={`${safetyBadge.color} text-white`}>
-                {safetyBadge.text}
-              </Badge>
+              {safety && (
+                <Badge className={`${safetyBadge.color} text-white`}>
+                  {safetyBadge.text}
+                </Badge>
+              )}
             </div>
             <Progress value={safetyScore} className="mt-3 bg-white/20" />
+            {safetyConcerns.length > 0 && (
+              <ul className="mt-3 space-y-1 text-xs opacity-90">
+                {safetyConcerns.map(factor => (
+                  <li key={factor.key} className="flex justify-between gap-2">
+                    <span>{factor.detail}</span>
+                    <span>-{factor.impact}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex items-center gap-1 mt-3 text-xs opacity-90">
+              <MapPin className="w-3 h-3" />
+              {locationSharing.sharing
+                ? `Sharing location${locationSharing.lastSentAt ? ` · last sent ${locationSharing.lastSentAt.toLocaleTimeString()}` : ''}`
+                : 'Location sharing is off'}
+            </div>
           </CardContent>
         </Card>
 
@@ -161,7 +292,9 @@ const TouristHome: React.FC = () => {
                       <div className="font-mono text-sm break-all">{auth.user.digitalId}</div>
                       <div className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
                         <Clock className="w-3 h-3" />
-                        Valid till {tripEndDate.toLocaleDateString()}
+                        {idExpiresAt
+                          ? `Valid till ${new Date(idExpiresAt).toLocaleDateString()}`
+                          : 'No trip end date set'}
                       </div>
                     </div>
                     <div className="w-16 h-16 bg-gradient-brand rounded-lg flex items-center justify-center">
@@ -269,6 +402,7 @@ const TouristHome: React.FC = () => {
           size="lg" 
           className="w-16 h-16 rounded-full bg-emergency hover:bg-emergency/90 shadow-elevated animate-pulse-emergency"
           onClick={handleSOSClick}
+          disabled={isSendingSOS}
         >
           <div className="text-center">
             <div className="text-lg font-bold">{tSOS('button')}</div>
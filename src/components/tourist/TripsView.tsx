@@ -2,82 +2,79 @@ import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, MapPin, AlertTriangle, Clock, ArrowLeft, Plus } from 'lucide-react';
+import { Calendar, MapPin, AlertTriangle, Clock, ArrowLeft, Plus, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { useTrips } from '@/hooks/useTrips';
+import { tripApi, Trip, WarningSeverity } from '@/services/tripApi';
 import NewTripDialog from './NewTripDialog';
 
 interface TripsViewProps {
   onBack: () => void;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const tripDays = (trip: Trip) =>
+  Math.max(1, Math.round((new Date(trip.endDate).getTime() - new Date(trip.startDate).getTime()) / DAY_MS));
+
+// Warnings still relevant: those on stops not yet reached
+const warningCount = (trip: Trip) =>
+  trip.destinations.reduce((count, destination) =>
+    count + (destination.status === 'upcoming' ? destination.warnings?.length || 0 : 0), 0);
+
 const TripsView: React.FC<TripsViewProps> = ({ onBack }) => {
   const [isNewTripDialogOpen, setIsNewTripDialogOpen] = useState(false);
-  const currentTrip = {
-    id: 1,
-    title: 'Delhi Heritage Tour',
-    startDate: new Date(),
-    endDate: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000),
-    status: 'active',
-    itinerary: [
-      { 
-        day: 1, 
-        location: 'Red Fort', 
-        time: '09:00 AM', 
-        status: 'completed',
-        warning: null
-      },
-      { 
-        day: 1, 
-        location: 'Jama Masjid', 
-        time: '11:30 AM', 
-        status: 'completed',
-        warning: null
-      },
-      { 
-        day: 2, 
-        location: 'India Gate', 
-        time: '08:00 AM', 
-        status: 'upcoming',
-        warning: null
-      },
-      { 
-        day: 2, 
-        location: 'Connaught Place', 
-        time: '02:00 PM', 
-        status: 'upcoming',
-        warning: 'High tourist activity expected'
-      },
-      { 
-        day: 3, 
-        location: 'Lotus Temple', 
-        time: '10:00 AM', 
-        status: 'upcoming',
-        warning: null
+  const [editingTrip, setEditingTrip] = useState<Trip | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const { trips, currentTrip, upcomingTrips, loading, error, reload } = useTrips();
+
+  const pastTrips = trips.filter(trip => trip.status === 'completed');
+  const placesVisited = trips.reduce(
+    (count, trip) => count + trip.destinations.filter(destination => destination.status === 'completed').length,
+    0
+  );
+  const daysTraveled = [...pastTrips, ...(currentTrip ? [currentTrip] : [])].reduce((days, trip) => {
+    const end = Math.min(Date.now(), new Date(trip.endDate).getTime());
+    return days + Math.max(0, Math.ceil((end - new Date(trip.startDate).getTime()) / DAY_MS));
+  }, 0);
+
+  const openNewTrip = () => {
+    setEditingTrip(null);
+    setIsNewTripDialogOpen(true);
+  };
+
+  const openEditTrip = (trip: Trip) => {
+    setEditingTrip(trip);
+    setIsNewTripDialogOpen(true);
+  };
+
+  const changeStatus = async (trip: Trip, status: 'completed' | 'cancelled') => {
+    setUpdatingId(trip._id);
+    try {
+      const response = await tripApi.setStatus(trip._id, status);
+      if (!response.success) {
+        toast.error(response.error || 'Failed to update trip');
       }
-    ]
+      await reload();
+    } finally {
+      setUpdatingId(null);
+    }
   };
 
-  const upcomingTrips = [
-    {
-      id: 2,
-      title: 'Rajasthan Cultural Tour',
-      startDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
-      duration: '7 days',
-      status: 'planned'
-    },
-    {
-      id: 3,
-      title: 'Kerala Backwaters',
-      startDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-      duration: '5 days',
-      status: 'planned'
+  const getWarningColor = (severity: WarningSeverity) => {
+    switch (severity) {
+      case 'high': return 'text-destructive';
+      case 'moderate': return 'text-warning';
+      default: return 'text-muted-foreground';
     }
-  ];
+  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return 'bg-green-500';
       case 'active': return 'bg-blue-500';
       case 'upcoming': return 'bg-gray-400';
+      case 'cancelled': return 'bg-red-400';
       default: return 'bg-gray-400';
     }
   };
@@ -93,7 +90,7 @@ const TripsView: React.FC<TripsViewProps> = ({ onBack }) => {
             </Button>
             <h1 className="text-lg font-semibold">My Trips</h1>
           </div>
-          <Button size="sm" className="flex items-center gap-2" onClick={() => setIsNewTripDialogOpen(true)}>
+          <Button size="sm" className="flex items-center gap-2" onClick={openNewTrip}>
             <Plus className="w-4 h-4" />
             New Trip
           </Button>
@@ -101,63 +98,113 @@ const TripsView: React.FC<TripsViewProps> = ({ onBack }) => {
       </div>
 
       <div className="p-4 space-y-4">
+        {error && (
+          <div className="p-3 rounded-md bg-red-50 text-red-700 text-sm dark:bg-red-950/20 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
         {/* Current Trip */}
-        <Card className="border-primary/20">
-          <CardHeader className="pb-3">
-            <div className="flex items-center justify-between">
-              <CardTitle className="flex items-center gap-2">
-                <Calendar className="w-5 h-5 text-primary" />
-                {currentTrip.title}
-              </CardTitle>
-              <Badge className="bg-primary text-primary-foreground">Active</Badge>
-            </div>
-          </CardHeader>
-          <CardContent>
-            <div className="flex items-center gap-4 text-sm text-muted-foreground mb-4">
-              <div className="flex items-center gap-1">
-                <Clock className="w-4 h-4" />
-                {currentTrip.startDate.toLocaleDateString()} - {currentTrip.endDate.toLocaleDateString()}
+        {currentTrip ? (
+          <Card className="border-primary/20">
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Calendar className="w-5 h-5 text-primary" />
+                  {currentTrip.title}
+                </CardTitle>
+                <Badge className="bg-primary text-primary-foreground">Active</Badge>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="flex items-center gap-4 text-sm text-muted-foreground mb-4">
+                <div className="flex items-center gap-1">
+                  <Clock className="w-4 h-4" />
+                  {new Date(currentTrip.startDate).toLocaleDateString()} - {new Date(currentTrip.endDate).toLocaleDateString()}
+                </div>
+                {currentTrip.members.length > 0 && (
+                  <div className="flex items-center gap-1">
+                    <Users className="w-4 h-4" />
+                    With {currentTrip.members.join(', ')}
+                  </div>
+                )}
               </div>
-            </div>
 
-            {/* Itinerary */}
-            <div className="space-y-3">
-              <h4 className="font-medium">Itinerary</h4>
-              {currentTrip.itinerary.map((item, index) => (
-                <div key={index} className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
-                  <div className={`w-3 h-3 rounded-full mt-1 ${getStatusColor(item.status)}`}></div>
-                  <div className="flex-1">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="text-sm font-medium">Day {item.day} - {item.location}</p>
-                        <p className="text-xs text-muted-foreground">{item.time}</p>
-                      </div>
-                      {item.warning && (
-                        <div className="flex items-center gap-1 text-warning text-xs">
-                          <AlertTriangle className="w-3 h-3" />
-                          <span>Warning</span>
+              {/* Itinerary */}
+              <div className="space-y-3">
+                <h4 className="font-medium">Itinerary</h4>
+                {currentTrip.destinations.map((item) => (
+                  <div key={item.id} className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
+                    <div className={`w-3 h-3 rounded-full mt-1 ${getStatusColor(item.status)}`}></div>
+                    <div className="flex-1">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="text-sm font-medium">{item.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {item.time}
+                            {item.completedAt && ` · reached ${new Date(item.completedAt).toLocaleString()}`}
+                          </p>
                         </div>
+                        {item.lat == null && (
+                          <div className="flex items-center gap-1 text-muted-foreground text-xs">
+                            <MapPin className="w-3 h-3" />
+                            <span>No coordinates</span>
+                          </div>
+                        )}
+                      </div>
+                      {item.notes && (
+                        <p className="text-xs text-muted-foreground mt-1">{item.notes}</p>
                       )}
+                      {item.status === 'upcoming' && item.warnings?.map((warning, index) => (
+                        <div key={index} className={`flex items-center gap-1 text-xs mt-1 ${getWarningColor(warning.severity)}`}>
+                          <AlertTriangle className="w-3 h-3 shrink-0" />
+                          <span>{warning.message}</span>
+                        </div>
+                      ))}
                     </div>
-                    {item.warning && (
-                      <p className="text-xs text-warning mt-1">{item.warning}</p>
-                    )}
                   </div>
-                </div>
-              ))}
-            </div>
+                ))}
+              </div>
 
-            <Button className="w-full mt-4" variant="outline">
-              View on Map
-            </Button>
-          </CardContent>
-        </Card>
+              <div className="grid grid-cols-2 gap-2 mt-4">
+                <Button variant="outline" onClick={() => openEditTrip(currentTrip)}>
+                  Edit
+                </Button>
+                <Button
+                  variant="outline"
+                  disabled={updatingId === currentTrip._id}
+                  onClick={() => changeStatus(currentTrip, 'completed')}
+                >
+                  End Trip
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-6 text-center space-y-3">
+              <AlertTriangle className="w-8 h-8 mx-auto text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">
+                {loading ? 'Loading trips…' : 'No active trip. Your digital ID is valid until the end of your trip, so plan one before you travel.'}
+              </p>
+              {!loading && (
+                <Button size="sm" onClick={openNewTrip}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Plan a Trip
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
 
         {/* Upcoming Trips */}
         <div className="space-y-3">
           <h3 className="text-lg font-semibold">Upcoming Trips</h3>
+          {upcomingTrips.length === 0 && !loading && (
+            <p className="text-sm text-muted-foreground">No upcoming trips</p>
+          )}
           {upcomingTrips.map((trip) => (
-            <Card key={trip.id}>
+            <Card key={trip._id}>
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
                   <div>
@@ -165,19 +212,40 @@ const TripsView: React.FC<TripsViewProps> = ({ onBack }) => {
                     <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
                       <div className="flex items-center gap-1">
                         <Calendar className="w-3 h-3" />
-                        {trip.startDate.toLocaleDateString()}
+                        {new Date(trip.startDate).toLocaleDateString()}
                       </div>
                       <div className="flex items-center gap-1">
                         <Clock className="w-3 h-3" />
-                        {trip.duration}
+                        {tripDays(trip)} {tripDays(trip) === 1 ? 'day' : 'days'}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <MapPin className="w-3 h-3" />
+                        {trip.destinations.length}
                       </div>
+                      {warningCount(trip) > 0 && (
+                        <div className="flex items-center gap-1 text-warning">
+                          <AlertTriangle className="w-3 h-3" />
+                          {warningCount(trip)}
+                        </div>
+                      )}
                     </div>
                   </div>
                   <div className="text-right">
                     <Badge variant="secondary">{trip.status}</Badge>
-                    <Button size="sm" variant="outline" className="mt-2 block">
-                      Edit
-                    </Button>
+                    <div className="flex gap-2 mt-2">
+                      <Button size="sm" variant="outline" onClick={() => openEditTrip(trip)}>
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-red-600 hover:text-red-700"
+                        disabled={updatingId === trip._id}
+                        onClick={() => changeStatus(trip, 'cancelled')}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
                   </div>
                 </div>
               </CardContent>
@@ -193,15 +261,15 @@ const TripsView: React.FC<TripsViewProps> = ({ onBack }) => {
           <CardContent>
             <div className="grid grid-cols-3 gap-4 text-center">
               <div>
-                <div className="text-2xl font-bold text-primary">5</div>
+                <div className="text-2xl font-bold text-primary">{trips.filter(trip => trip.status !== 'cancelled').length}</div>
                 <div className="text-xs text-muted-foreground">Total Trips</div>
               </div>
               <div>
-                <div className="text-2xl font-bold text-green-600">18</div>
+                <div className="text-2xl font-bold text-green-600">{placesVisited}</div>
                 <div className="text-xs text-muted-foreground">Places Visited</div>
               </div>
               <div>
-                <div className="text-2xl font-bold text-blue-600">45</div>
+                <div className="text-2xl font-bold text-blue-600">{daysTraveled}</div>
                 <div className="text-xs text-muted-foreground">Days Traveled</div>
               </div>
             </div>
@@ -213,6 +281,8 @@ const TripsView: React.FC<TripsViewProps> = ({ onBack }) => {
       <NewTripDialog 
         open={isNewTripDialogOpen} 
         onOpenChange={setIsNewTripDialogOpen} 
+        trip={editingTrip}
+        onSaved={() => reload()}
       />
     </div>
   );
@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from 'react';
+
+const BLOCKCHAIN_API_BASE_URL = import.meta.env.VITE_BLOCKCHAIN_API_BASE_URL || 'http://localhost:3002/api';
+
+export type EventTopic = 'alerts' | 'locations' | 'zones' | 'trips' | 'firs' | 'missing-persons' | 'digital-ids' | 'blocks';
+
+export interface StreamEvent<T = unknown> {
+  id: string;
+  topic: EventTopic;
+  type: string;
+  data: T;
+  timestamp: string;
+}
+
+interface UseEventStreamOptions {
+  // Called when the server can't replay missed events; refetch state here
+  onReset?: () => void;
+  enabled?: boolean;
+}
+
+interface UseEventStreamReturn {
+  connected: boolean;
+  lastEventId: string | null;
+}
+
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+
+/**
+ * Subscribe to server-sent events on the blockchain API. Uses fetch rather
+ * than EventSource so the bearer token travels in a header; on disconnect it
+ * reconnects with backoff and resumes from the last event it received.
+ */
+export const useEventStream = (
+  topics: EventTopic[],
+  onEvent: (event: StreamEvent) => void,
+  options: UseEventStreamOptions = {}
+): UseEventStreamReturn => {
+  const [connected, setConnected] = useState(false);
+  const [lastEventId, setLastEventId] = useState<string | null>(null);
+  const onEventRef = useRef(onEvent);
+  const onResetRef = useRef(options.onReset);
+  const lastEventIdRef = useRef<string | null>(null);
+  const topicKey = topics.join(',');
+  const enabled = options.enabled !== false;
+
+  onEventRef.current = onEvent;
+  onResetRef.current = options.onReset;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const controller = new AbortController();
+    let retryMs = MIN_RETRY_MS;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const dispatch = (frame: string) => {
+      let id: string | null = null;
+      let eventName = 'message';
+      const dataLines: string[] = [];
+
+      frame.split('\n').forEach(line => {
+        if (line.startsWith(':')) return;
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+        if (field === 'id') id = value;
+        else if (field === 'event') eventName = value;
+        else if (field === 'data') dataLines.push(value);
+      });
+
+      if (eventName === 'ready') {
+        setConnected(true);
+        retryMs = MIN_RETRY_MS;
+        return;
+      }
+
+      if (eventName === 'reset') {
+        onResetRef.current?.();
+        return;
+      }
+
+      if (eventName === 'revoked' || dataLines.length === 0) return;
+
+      const payload = JSON.parse(dataLines.join('\n'));
+      if (id) {
+        lastEventIdRef.current = id;
+        setLastEventId(id);
+      }
+
+      onEventRef.current({
+        id: id || '',
+        topic: eventName as EventTopic,
+        type: payload.type,
+        data: payload.data,
+        timestamp: payload.timestamp
+      });
+    };
+
+    const connect = async () => {
+      const token = localStorage.getItem('raksha_token');
+      const headers: Record<string, string> = { Accept: 'text/event-stream' };
+
+      if (token) headers.Authorization = `Bearer ${token}`;
+      if (lastEventIdRef.current) headers['Last-Event-ID'] = lastEventIdRef.current;
+
+      try {
+        const response = await fetch(
+          `${BLOCKCHAIN_API_BASE_URL}/events?topics=${encodeURIComponent(topicKey)}`,
+          { headers, signal: controller.signal }
+        );
+
+        // Signed out or not allowed; retrying won't help
+        if (response.status === 401 || response.status === 403) {
+          console.error('❌ Event stream rejected:', response.status);
+          return;
+        }
+
+        if (!response.ok || !response.body) {
+          throw new Error(`Event stream failed with status ${response.status}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const frames = buffer.split('\n\n');
+          buffer = frames.pop() || '';
+          frames.forEach(dispatch);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('❌ Event stream error:', error);
+      }
+
+      if (controller.signal.aborted) return;
+
+      setConnected(false);
+      retryTimer = setTimeout(connect, retryMs);
+      retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+    };
+
+    connect();
+
+    return () => {
+      controller.abort();
+      if (retryTimer) clearTimeout(retryTimer);
+      setConnected(false);
+    };
+  }, [topicKey, enabled]);
+
+  return { connected, lastEventId };
+};
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { loadSettings, SETTINGS_CHANGED_EVENT } from '@/lib/settings';
+import { locationApi, LocationPing, LocationPrecision } from '@/services/locationApi';
+
+// Send buffered pings at least this often, or sooner once the batch fills up
+const FLUSH_INTERVAL_MS = 60000;
+const MAX_BATCH_SIZE = 20;
+// Skip fixes arriving faster than this
+const MIN_PING_INTERVAL_MS = 15000;
+
+interface UseLocationSharingReturn {
+  sharing: boolean;
+  lastSentAt: Date | null;
+  error: string | null;
+}
+
+/**
+ * Follow the tourist's locationSharing setting: while it is on, watch the
+ * device position and send batched pings; when it is switched off, tell the
+ * server and stop at once, discarding anything not yet sent.
+ */
+export const useLocationSharing = (enabled = true): UseLocationSharingReturn => {
+  const [settings, setSettings] = useState(() => {
+    const { locationSharing, locationPrecision } = loadSettings();
+    return { locationSharing, locationPrecision };
+  });
+  const [lastSentAt, setLastSentAt] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const onChange = () => {
+      const { locationSharing, locationPrecision } = loadSettings();
+      setSettings(current => current.locationSharing === locationSharing && current.locationPrecision === locationPrecision
+        ? current
+        : { locationSharing, locationPrecision });
+    };
+
+    window.addEventListener(SETTINGS_CHANGED_EVENT, onChange);
+    return () => window.removeEventListener(SETTINGS_CHANGED_EVENT, onChange);
+  }, []);
+
+  const sharing = enabled && settings.locationSharing;
+  const precision: LocationPrecision = settings.locationPrecision;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let watchId: number | null = null;
+    let flushTimer: ReturnType<typeof setInterval> | null = null;
+    let buffer: LocationPing[] = [];
+    let lastPingAt = 0;
+
+    const stop = () => {
+      cancelled = true;
+      buffer = [];
+      if (watchId !== null) navigator.geolocation.clearWatch(watchId);
+      if (flushTimer) clearInterval(flushTimer);
+    };
+
+    const flush = async () => {
+      if (cancelled || buffer.length === 0) return;
+
+      const batch = buffer;
+      buffer = [];
+      const response = await locationApi.sendPings(batch);
+
+      if (cancelled) return;
+      if (response.success) {
+        setLastSentAt(new Date());
+        setError(null);
+      } else {
+        setError(response.error || 'Failed to send location');
+        // The server has sharing off (e.g. changed on another device); stop sending
+        if (response.error === 'Location sharing is turned off') stop();
+      }
+    };
+
+    // Sync the preference first so the server stops or starts accepting pings
+    locationApi.updateSharing({ enabled: settings.locationSharing, precision }).then(response => {
+      if (cancelled || !settings.locationSharing) return;
+
+      if (!response.success) {
+        setError(response.error || 'Failed to update location sharing');
+        return;
+      }
+      if (!navigator.geolocation) {
+        setError('Location is not available on this device');
+        return;
+      }
+
+      watchId = navigator.geolocation.watchPosition(
+        (position) => {
+          if (position.timestamp - lastPingAt < MIN_PING_INTERVAL_MS) return;
+
+          lastPingAt = position.timestamp;
+          buffer.push({
+            lat: position.coords.latitude,
+            lng: position.coords.longitude,
+            accuracy: position.coords.accuracy,
+            recordedAt: new Date(position.timestamp).toISOString()
+          });
+
+          if (buffer.length >= MAX_BATCH_SIZE) flush();
+        },
+        (positionError) => setError(positionError.message),
+        { enableHighAccuracy: precision === 'precise', maximumAge: 30000 }
+      );
+      flushTimer = setInterval(flush, FLUSH_INTERVAL_MS);
+    });
+
+    return stop;
+  }, [enabled, settings.locationSharing, precision]);
+
+  return { sharing, lastSentAt, error };
+};
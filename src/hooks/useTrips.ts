@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useEventStream } from '@/hooks/useEventStream';
+import { tripApi, Trip } from '@/services/tripApi';
+
+interface UseTripsReturn {
+  trips: Trip[];
+  // The active trip covering today, else any active trip
+  currentTrip: Trip | null;
+  // Planned trips, soonest first
+  upcomingTrips: Trip[];
+  loading: boolean;
+  error: string | null;
+  reload: () => Promise<void>;
+}
+
+const pickCurrentTrip = (trips: Trip[]): Trip | null => {
+  const active = trips.filter(trip => trip.status === 'active');
+  const now = Date.now();
+
+  return active.find(trip => new Date(trip.startDate).getTime() <= now && new Date(trip.endDate).getTime() >= now)
+    || active[0]
+    || null;
+};
+
+/**
+ * The signed-in tourist's trips, kept current by 'trips' events as trips
+ * start and finish and destinations are reached
+ */
+export const useTrips = (enabled = true): UseTripsReturn => {
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    const response = await tripApi.getTrips();
+
+    if (response.success && response.data) {
+      setTrips(response.data);
+      setError(null);
+    } else {
+      setError(response.error || 'Failed to load trips');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (enabled) reload();
+  }, [enabled, reload]);
+
+  useEventStream(['trips'], (event) => {
+    const trip = event.data as Trip;
+
+    if (event.type === 'trip_deleted') {
+      setTrips(current => current.filter(t => t._id !== trip._id));
+      return;
+    }
+
+    setTrips(current => {
+      const others = current.filter(t => t._id !== trip._id);
+      return [...others, trip].sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+    });
+  }, { onReset: reload, enabled });
+
+  return {
+    trips,
+    currentTrip: pickCurrentTrip(trips),
+    upcomingTrips: trips.filter(trip => trip.status === 'planned'),
+    loading,
+    error,
+    reload
+  };
+};
@@ -0,0 +1,46 @@
+import { Hotspot, HotspotReport } from '@/services/analyticsApi';
+import { ZoneInput, ZoneTimeWindow } from '@/services/zoneApi';
+
+export type TimeOfDay = 'all' | 'morning' | 'afternoon' | 'evening' | 'night';
+
+// Local times of day the hotspot layer can be narrowed to
+export const TIME_OF_DAY_OPTIONS: { value: TimeOfDay; label: string; window: ZoneTimeWindow | null }[] = [
+  { value: 'all', label: 'All day', window: null },
+  { value: 'morning', label: 'Morning (06–12)', window: { start: '06:00', end: '12:00' } },
+  { value: 'afternoon', label: 'Afternoon (12–18)', window: { start: '12:00', end: '18:00' } },
+  { value: 'evening', label: 'Evening (18–22)', window: { start: '18:00', end: '22:00' } },
+  { value: 'night', label: 'Night (22–06)', window: { start: '22:00', end: '06:00' } }
+];
+
+export const timeOfDayWindow = (timeOfDay: TimeOfDay): ZoneTimeWindow | null =>
+  TIME_OF_DAY_OPTIONS.find(option => option.value === timeOfDay)?.window || null;
+
+const pluralize = (count: number, noun: string, plural = `${noun}s`) => `${count} ${count === 1 ? noun : plural}`;
+
+export const describeSources = (hotspot: Hotspot): string => [
+  hotspot.sources.fir > 0 && pluralize(hotspot.sources.fir, 'FIR'),
+  hotspot.sources.sos > 0 && pluralize(hotspot.sources.sos, 'SOS alert'),
+  hotspot.sources.geofence > 0 && pluralize(hotspot.sources.geofence, 'zone breach', 'zone breaches')
+].filter(Boolean).join(', ');
+
+export const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+/**
+ * A circular alert zone covering the hotspot, in effect only at the time of
+ * day the hotspot was found for
+ */
+export const hotspotZoneDraft = (hotspot: Hotspot, report: Pick<HotspotReport, 'from' | 'to' | 'timeWindow'>): ZoneInput => {
+  const period = `${new Date(report.from).toLocaleDateString()} – ${new Date(report.to).toLocaleDateString()}`;
+  const window = report.timeWindow ? `, ${report.timeWindow.start}–${report.timeWindow.end}` : '';
+
+  return {
+    name: `Hotspot ${hotspot.center.lat.toFixed(4)}, ${hotspot.center.lng.toFixed(4)}`,
+    type: 'alert',
+    shape: 'circle',
+    coordinates: [hotspot.center],
+    radius: hotspot.radius,
+    description: `Incident hotspot: ${describeSources(hotspot)} (${period}${window}).`,
+    timeWindows: report.timeWindow ? [report.timeWindow] : null,
+    status: 'active'
+  };
+};
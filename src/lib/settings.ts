@@ -0,0 +1,42 @@
+const SETTINGS_KEY = 'raksha_settings';
+
+// Fired on window whenever settings are saved
+export const SETTINGS_CHANGED_EVENT = 'raksha:settings-changed';
+
+export interface AppSettings {
+  notifications: boolean;
+  locationSharing: boolean;
+  // Coarse locations are rounded to about 1 km before they are stored
+  locationPrecision: 'coarse' | 'precise';
+  emergencyAlerts: boolean;
+  darkMode: boolean;
+  language: string;
+  emergencyContact: string;
+  // Seconds police have to acknowledge an SOS before it escalates
+  sosTimeout: string;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  notifications: true,
+  locationSharing: false,
+  locationPrecision: 'coarse',
+  emergencyAlerts: true,
+  darkMode: false,
+  language: 'en',
+  emergencyContact: '+91 1234567890',
+  sosTimeout: '30'
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings): void => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  window.dispatchEvent(new Event(SETTINGS_CHANGED_EVENT));
+};
@@ -0,0 +1,152 @@
+import axios, { AxiosInstance } from 'axios';
+import { portalApi } from './portalApi';
+
+const BLOCKCHAIN_API_BASE_URL = import.meta.env.VITE_BLOCKCHAIN_API_BASE_URL || 'http://localhost:3002/api';
+
+// Types
+export type AlertStatus = 'active' | 'acknowledged' | 'investigating' | 'resolved';
+export type AlertSeverity = 'low' | 'moderate' | 'high' | 'critical';
+
+export interface AlertLocation {
+  lat: number;
+  lng: number;
+  accuracy?: number;
+  address?: string;
+}
+
+export interface AlertEvent {
+  action: 'created' | 'updated' | 'acknowledged' | 'investigating' | 'resolved' | 'assigned' | 'escalated';
+  by?: string | null;
+  at: string;
+  note?: string;
+}
+
+// Attached to 'anomaly' alerts by the movement anomaly detector
+export interface AnomalyEvidence {
+  observed: number;
+  threshold: number;
+  unit: 'minutes' | 'km/h' | 'km';
+  zoneId?: string | null;
+  zoneName?: string | null;
+  tripId?: string | null;
+  points: Array<{ lat: number; lng: number; recordedAt: string }>;
+}
+
+export interface Alert {
+  _id: string;
+  type: string;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  userId?: string | null;
+  message: string;
+  location?: AlertLocation | null;
+  data?: {
+    touristName?: string;
+    nationality?: string | null;
+    sosTimeout?: number;
+    kind?: 'inactivity' | 'speed' | 'signal_loss' | 'deviation';
+    evidence?: AnomalyEvidence;
+    [key: string]: unknown;
+  };
+  digitalIdHash?: string | null;
+  battery?: number | null;
+  reportedAt?: string | null;
+  assignedTo?: string | null;
+  acknowledgeBy?: string | null;
+  escalationLevel?: number;
+  history?: AlertEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SOSRequest {
+  location?: AlertLocation | null;
+  battery?: number | null;
+  reportedAt?: string;
+  message?: string;
+  sosTimeout?: number;
+}
+
+export interface Officer {
+  _id: string;
+  name: string;
+  email: string;
+}
+
+export interface AlertResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+class AlertApiService {
+  private api: AxiosInstance;
+
+  constructor() {
+    this.api = axios.create({
+      baseURL: BLOCKCHAIN_API_BASE_URL,
+      timeout: 30000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    this.api.interceptors.request.use((config) => {
+      const token = localStorage.getItem('raksha_token');
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config;
+    });
+  }
+
+  private async request<T>(call: () => Promise<{ data: AlertResponse<T> }>, failure: string): Promise<AlertResponse<T>> {
+    try {
+      const response = await call();
+      return response.data;
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      return {
+        success: false,
+        error: error.response?.data?.error || failure
+      };
+    }
+  }
+
+  // Raise an SOS for the signed-in tourist
+  async raiseSOS(request: SOSRequest): Promise<AlertResponse<Alert>> {
+    return this.request(() => this.api.post('/alerts/sos', request), 'Failed to send SOS');
+  }
+
+  // Alerts raised by the signed-in user
+  async getMyAlerts(): Promise<AlertResponse<Alert[]>> {
+    return this.request(() => this.api.get('/alerts/mine'), 'Failed to get alerts');
+  }
+
+  // Alerts for the police dashboard
+  async getAlerts(filter: { status?: AlertStatus; severity?: AlertSeverity; limit?: number } = {}): Promise<AlertResponse<Alert[]>> {
+    return this.request(() => this.api.get('/alerts', { params: filter }), 'Failed to get alerts');
+  }
+
+  async acknowledge(id: string, note?: string): Promise<AlertResponse<Alert>> {
+    return this.request(() => this.api.post(`/alerts/${id}/acknowledge`, { note }), 'Failed to acknowledge alert');
+  }
+
+  async investigate(id: string, note?: string): Promise<AlertResponse<Alert>> {
+    return this.request(() => this.api.post(`/alerts/${id}/investigate`, { note }), 'Failed to update alert');
+  }
+
+  async resolve(id: string, note?: string): Promise<AlertResponse<Alert>> {
+    return this.request(() => this.api.post(`/alerts/${id}/resolve`, { note }), 'Failed to resolve alert');
+  }
+
+  async assign(id: string, officerId: string): Promise<AlertResponse<Alert>> {
+    return this.request(() => this.api.post(`/alerts/${id}/assign`, { officerId }), 'Failed to assign alert');
+  }
+
+  // Active police accounts that alerts can be assigned to
+  async getOfficers(): Promise<AlertResponse<Officer[]>> {
+    return portalApi.searchUsers({ role: 'police', active: true });
+  }
+}
+
+export const alertApi = new AlertApiService();
+export default alertApi;
@@ -0,0 +1,152 @@
+import axios, { AxiosInstance } from 'axios';
+import { ZoneData, ZoneTimeWindow } from './zoneApi';
+
+const BLOCKCHAIN_API_BASE_URL = import.meta.env.VITE_BLOCKCHAIN_API_BASE_URL || 'http://localhost:3002/api';
+
+// Types
+export type AnalyticsRange = '24h' | '7d' | '30d' | '90d' | 'custom';
+
+export interface AnalyticsQuery {
+  range: AnalyticsRange;
+  // Custom ranges only; ISO timestamps
+  from?: string;
+  to?: string;
+  zoneId?: string;
+  district?: string;
+}
+
+export interface AnalyticsSummary {
+  alerts: number;
+  incidents: number;
+  // Most tourists seen in any one hour
+  peakTourists: number;
+  // Null under a zone or district filter
+  registrations: number | null;
+  avgResponseMinutes: number | null;
+}
+
+export interface AnalyticsReport {
+  from: string;
+  to: string;
+  granularity: 'hour' | 'day';
+  zoneId: string | null;
+  district: string | null;
+  summary: AnalyticsSummary;
+  // The same figures for the period of equal length just before
+  previous: AnalyticsSummary;
+  riskZones: number;
+  // One entry per hour or per day, starting at `date`
+  alertTrends: { date: string; critical: number; high: number; moderate: number; low: number }[];
+  // Average tourists by local hour of day
+  touristFlow: { hour: string; count: number; registrations: number }[];
+  incidentTypes: { type: string; name: string; value: number }[];
+  // Minutes to first response; zoneId is null for alerts outside every zone
+  responseTime: { zoneId: string | null; zone: string; avgTime: number | null; incidents: number }[];
+  heatmapData: { zoneId: string; zone: string; type: ZoneData['type']; incidents: number; risk: 'high' | 'medium' | 'low' }[];
+  generatedAt: string;
+}
+
+export type HotspotSource = 'fir' | 'sos' | 'geofence';
+
+export interface HotspotQuery {
+  range: AnalyticsRange;
+  from?: string;
+  to?: string;
+  // Local time of day as HH:MM; wraps past midnight when timeStart is later
+  timeStart?: string;
+  timeEnd?: string;
+  // Comma-separated; every source when omitted
+  sources?: string;
+}
+
+export interface HeatPoint {
+  lat: number;
+  lng: number;
+  weight: number;
+}
+
+export interface Hotspot {
+  id: string;
+  center: { lat: number; lng: number };
+  // Metres
+  radius: number;
+  weight: number;
+  incidents: number;
+  // Weight per square kilometre
+  density: number;
+  // Relative to the heaviest hotspot, 0–1
+  intensity: number;
+  sources: Record<HotspotSource, number>;
+  peakHour: number;
+  lastIncidentAt: string;
+  // Active zones already covering the centre
+  zones: { id: string; name: string; type: ZoneData['type'] }[];
+}
+
+export interface HotspotReport {
+  from: string;
+  to: string;
+  timeWindow: ZoneTimeWindow | null;
+  sources: HotspotSource[];
+  cellMeters: number;
+  points: HeatPoint[];
+  maxWeight: number;
+  // Heaviest first
+  hotspots: Hotspot[];
+  generatedAt: string;
+}
+
+export interface AnalyticsResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+class AnalyticsApiService {
+  private api: AxiosInstance;
+
+  constructor() {
+    this.api = axios.create({
+      baseURL: `${BLOCKCHAIN_API_BASE_URL}/analytics`,
+      timeout: 60000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    this.api.interceptors.request.use((config) => {
+      const token = localStorage.getItem('raksha_token');
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config;
+    });
+  }
+
+  async getReport(query: AnalyticsQuery): Promise<AnalyticsResponse<AnalyticsReport>> {
+    try {
+      const response = await this.api.get('/', { params: query });
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to load analytics:', error);
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to load analytics'
+      };
+    }
+  }
+
+  async getHotspots(query: HotspotQuery): Promise<AnalyticsResponse<HotspotReport>> {
+    try {
+      const response = await this.api.get('/hotspots', { params: query });
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to load hotspots:', error);
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to load hotspots'
+      };
+    }
+  }
+}
+
+export const analyticsApi = new AnalyticsApiService();
+export default analyticsApi;
@@ -8,6 +8,7 @@ interface DigitalIDData {
   email: string;
   role: string;
   walletAddress: string;
+  expiresAt?: string;
 }
 
 interface DigitalIDResponse {
@@ -22,6 +23,9 @@ interface DigitalIDResponse {
     timestamp: number;
     hash: string;
     verified: boolean;
+    status: 'pending' | 'verified' | 'suspended' | 'revoked' | 'expired';
+    statusReason: string | null;
+    expiresAt: number | null;
   };
   error?: string;
 }
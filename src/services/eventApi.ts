@@ -0,0 +1,41 @@
+import axios from 'axios';
+import type { EventTopic } from '@/hooks/useEventStream';
+
+const BLOCKCHAIN_API_BASE_URL = import.meta.env.VITE_BLOCKCHAIN_API_BASE_URL || 'http://localhost:3002/api';
+
+export interface EventStreamStats {
+  connections: number;
+  maxConnections: number;
+  subscriptions: Record<EventTopic, number>;
+  eventsPublished: number;
+  messagesSent: number;
+  bufferedEvents: number;
+  lastEventId: string | null;
+}
+
+class EventApiService {
+  private api = axios.create({
+    baseURL: BLOCKCHAIN_API_BASE_URL,
+    timeout: 30000,
+  });
+
+  // Live connection and delivery counts for the real-time event stream (admin only)
+  async getStats(): Promise<{ success: boolean; data?: EventStreamStats; error?: string }> {
+    try {
+      const token = localStorage.getItem('raksha_token');
+      const response = await this.api.get('/events/stats', {
+        headers: token ? { Authorization: `Bearer ${token}` } : {}
+      });
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to get event stream stats:', error);
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to get event stream stats'
+      };
+    }
+  }
+}
+
+export const eventApi = new EventApiService();
+export default eventApi;
@@ -0,0 +1,268 @@
+import axios, { AxiosInstance } from 'axios';
+
+const BLOCKCHAIN_API_BASE_URL = import.meta.env.VITE_BLOCKCHAIN_API_BASE_URL || 'http://localhost:3002/api';
+
+// Types
+export type FIRStatus = 'draft' | 'pending' | 'approved' | 'rejected' | 'closed';
+
+export type FIRSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface FIREvent {
+  action: 'created' | 'updated' | 'submitted' | 'approved' | 'rejected' | 'closed' | 'returned' | 'assigned' | 'remark' | 'evidence_added';
+  by: string;
+  byName: string;
+  at: string;
+  from?: FIRStatus;
+  to?: FIRStatus;
+  note?: string;
+}
+
+export interface FIRSource {
+  type: 'alert' | 'missing_tourist';
+  id: string;
+}
+
+// An evidence file as recorded on its FIR
+export interface FIREvidence {
+  evidenceId: string;
+  sha256: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface CustodyEvent {
+  action: 'uploaded' | 'viewed' | 'downloaded';
+  by: string;
+  byName: string;
+  role: string;
+  at: string;
+  ip?: string | null;
+}
+
+export interface Evidence {
+  _id: string;
+  firId: string;
+  sha256: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  hasThumbnail: boolean;
+  // Signed for the current user and short-lived
+  thumbnailUrl: string | null;
+  uploadedBy: string;
+  uploadedByName: string;
+  // Append-only; oldest first
+  custody: CustodyEvent[];
+  createdAt: string;
+}
+
+export interface EvidenceLink {
+  url: string;
+  expiresAt: string;
+}
+
+export interface FIR {
+  _id: string;
+  firNumber: string;
+  station: string;
+  title: string;
+  description: string;
+  incidentType: string;
+  severity: FIRSeverity;
+  status: FIRStatus;
+  reportedBy: string;
+  incidentDate: string;
+  location: string;
+  coordinates?: { lat: number; lng: number } | null;
+  involvedPersons: string[];
+  touristId?: string | null;
+  source?: FIRSource | null;
+  assignedTo?: string | null;
+  assignedOfficerName?: string | null;
+  createdBy: string;
+  createdByName: string;
+  evidence: FIREvidence[];
+  // Append-only; oldest first
+  history: FIREvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FIRInput {
+  title: string;
+  description: string;
+  incidentType: string;
+  severity: FIRSeverity;
+  reportedBy: string;
+  incidentDate: string;
+  location: string;
+  coordinates?: { lat: number; lng: number } | null;
+  involvedPersons?: string[];
+  touristId?: string | null;
+  station?: string;
+  source?: FIRSource | null;
+}
+
+export interface FIRFilters {
+  status?: FIRStatus;
+  severity?: FIRSeverity;
+  assignedTo?: string;
+  touristId?: string;
+  limit?: number;
+}
+
+export interface FIRRevisionCheck {
+  revision: number;
+  action: FIREvent['action'] | null;
+  at: string;
+  // Null while the revision is still waiting to be mined
+  blockIndex: number | null;
+  matches: boolean;
+}
+
+export interface FIRVerification {
+  firNumber: string;
+  valid: boolean;
+  revisions: FIRRevisionCheck[];
+  firstDivergentRevision: number | null;
+  reason: string | null;
+}
+
+// Workflow moves; the server decides who may make each one
+export type FIRAction = 'submit' | 'approve' | 'reject' | 'return' | 'close';
+
+export interface FIRResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+class FIRApiService {
+  private api: AxiosInstance;
+
+  constructor() {
+    this.api = axios.create({
+      baseURL: `${BLOCKCHAIN_API_BASE_URL}/firs`,
+      timeout: 30000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    this.api.interceptors.request.use((config) => {
+      const token = localStorage.getItem('raksha_token');
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config;
+    });
+  }
+
+  private async request<T>(call: () => Promise<{ data: FIRResponse<T> }>, failure: string): Promise<FIRResponse<T>> {
+    try {
+      const response = await call();
+      return response.data;
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      return {
+        success: false,
+        error: error.response?.data?.error || failure
+      };
+    }
+  }
+
+  async getFIRs(filters: FIRFilters = {}): Promise<FIRResponse<FIR[]>> {
+    return this.request(() => this.api.get('/', { params: filters }), 'Failed to load FIRs');
+  }
+
+  async getFIR(id: string): Promise<FIRResponse<FIR>> {
+    return this.request(() => this.api.get(`/${id}`), 'Failed to load FIR');
+  }
+
+  // A new FIR filled in from an alert or a missing tourist, for review before saving
+  async prefill(source: FIRSource): Promise<FIRResponse<FIRInput>> {
+    const params = source.type === 'alert' ? { alertId: source.id } : { touristId: source.id };
+    return this.request(() => this.api.get('/prefill', { params }), 'Failed to prefill FIR');
+  }
+
+  async createFIR(fir: FIRInput): Promise<FIRResponse<FIR>> {
+    return this.request(() => this.api.post('/', fir), 'Failed to create FIR');
+  }
+
+  async updateFIR(id: string, updates: Partial<FIRInput>): Promise<FIRResponse<FIR>> {
+    return this.request(() => this.api.put(`/${id}`, updates), 'Failed to update FIR');
+  }
+
+  async transition(id: string, action: FIRAction, note?: string): Promise<FIRResponse<FIR>> {
+    return this.request(() => this.api.post(`/${id}/${action}`, note ? { note } : {}), `Failed to ${action} FIR`);
+  }
+
+  async assign(id: string, officerId: string): Promise<FIRResponse<FIR>> {
+    return this.request(() => this.api.post(`/${id}/assign`, { officerId }), 'Failed to assign FIR');
+  }
+
+  // Check a stored FIR against the revisions anchored on the blockchain
+  async verify(firNumber: string): Promise<FIRResponse<FIRVerification>> {
+    return this.request(() => this.api.get(`/verify/${encodeURIComponent(firNumber)}`), 'Failed to verify FIR');
+  }
+
+  async getEvidence(id: string): Promise<FIRResponse<Evidence[]>> {
+    return this.request(() => this.api.get(`/${id}/evidence`), 'Failed to load evidence');
+  }
+
+  async uploadEvidence(id: string, files: File[]): Promise<FIRResponse<Evidence[]>> {
+    const form = new FormData();
+    files.forEach(file => form.append('files', file));
+
+    return this.request(
+      () => this.api.post(`/${id}/evidence`, form, { headers: { 'Content-Type': 'multipart/form-data' }, timeout: 120000 }),
+      'Failed to upload evidence'
+    );
+  }
+
+  // A short-lived link to open an evidence file; opening it is logged in the file's custody
+  async getEvidenceLink(id: string, evidenceId: string, kind: 'view' | 'download'): Promise<FIRResponse<EvidenceLink>> {
+    return this.request(() => this.api.post(`/${id}/evidence/${evidenceId}/link`, { kind }), 'Failed to open evidence');
+  }
+
+  async addRemark(id: string, note: string): Promise<FIRResponse<FIR>> {
+    return this.request(() => this.api.post(`/${id}/remarks`, { note }), 'Failed to add remark');
+  }
+
+  // The signed-in tourist's registered FIRs
+  async getMyFIRs(): Promise<FIRResponse<FIR[]>> {
+    return this.request(() => this.api.get('/mine'), 'Failed to load your FIRs');
+  }
+
+  // Download an FIR as a PDF, translated into the given language or the tourist's own, with the English original
+  async downloadPDF(id: string, language?: string): Promise<FIRResponse<void>> {
+    try {
+      const response = await this.api.get(`/${id}/pdf`, {
+        params: language ? { language } : {},
+        responseType: 'blob',
+        timeout: 60000
+      });
+      const fileName = /filename="?([^";]+)"?/.exec(response.headers['content-disposition'] || '')?.[1] || `${id}.pdf`;
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Failed to download FIR:', error);
+      // Errors arrive as a blob too, since that is what was asked for
+      const body = error.response?.data instanceof Blob
+        ? await error.response.data.text().then((text: string) => JSON.parse(text)).catch(() => null)
+        : null;
+      return {
+        success: false,
+        error: body?.error || 'Failed to download FIR'
+      };
+    }
+  }
+}
+
+export const firApi = new FIRApiService();
+export default firApi;
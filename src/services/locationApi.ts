@@ -0,0 +1,93 @@
+import axios, { AxiosInstance } from 'axios';
+
+const BLOCKCHAIN_API_BASE_URL = import.meta.env.VITE_BLOCKCHAIN_API_BASE_URL || 'http://localhost:3002/api';
+
+// Types
+export type LocationPrecision = 'coarse' | 'precise';
+
+export interface LocationSharing {
+  enabled: boolean;
+  precision: LocationPrecision;
+}
+
+export interface LocationPing {
+  lat: number;
+  lng: number;
+  accuracy?: number | null;
+  recordedAt: string;
+}
+
+export interface LocationPoint extends LocationPing {
+  _id: string;
+  userId: string;
+  precision: LocationPrecision;
+}
+
+export interface IngestResult {
+  accepted: number;
+  dropped: number;
+  precision: LocationPrecision;
+}
+
+export interface LocationTrack {
+  touristId: string;
+  precision: LocationPrecision;
+  case: { type: 'sos' | 'fir' | 'missing'; id: string } | null;
+  points: LocationPoint[];
+}
+
+export interface LocationResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+class LocationApiService {
+  private api: AxiosInstance;
+
+  constructor() {
+    this.api = axios.create({
+      baseURL: `${BLOCKCHAIN_API_BASE_URL}/locations`,
+      timeout: 30000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    this.api.interceptors.request.use((config) => {
+      const token = localStorage.getItem('raksha_token');
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config;
+    });
+  }
+
+  private async request<T>(call: () => Promise<{ data: LocationResponse<T> }>, failure: string): Promise<LocationResponse<T>> {
+    try {
+      const response = await call();
+      return response.data;
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      return {
+        success: false,
+        error: error.response?.data?.error || failure
+      };
+    }
+  }
+
+  async updateSharing(sharing: Partial<LocationSharing>): Promise<LocationResponse<LocationSharing>> {
+    return this.request(() => this.api.put('/sharing', sharing), 'Failed to update location sharing');
+  }
+
+  // Batched pings; refused by the server while sharing is off
+  async sendPings(pings: LocationPing[]): Promise<LocationResponse<IngestResult>> {
+    return this.request(() => this.api.post('/', { pings }), 'Failed to send location');
+  }
+
+  // A tourist's track; precise only for police with an open case
+  async getTrack(userId: string, limit = 200): Promise<LocationResponse<LocationTrack>> {
+    return this.request(() => this.api.get(`/users/${userId}`, { params: { limit } }), 'Failed to load location track');
+  }
+}
+
+export const locationApi = new LocationApiService();
+export default locationApi;
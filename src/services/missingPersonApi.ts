@@ -0,0 +1,195 @@
+import axios, { AxiosInstance } from 'axios';
+import { FIRStatus } from './firApi';
+import { LocationPoint, LocationPrecision } from './locationApi';
+import { Trip } from './tripApi';
+
+const BLOCKCHAIN_API_BASE_URL = import.meta.env.VITE_BLOCKCHAIN_API_BASE_URL || 'http://localhost:3002/api';
+
+// Types
+export type MissingPersonStatus = 'searching' | 'sighted' | 'found' | 'closed';
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface MissingPersonEvent {
+  action: 'opened' | 'status_changed' | 'bulletin_issued' | 'photo_added' | 'fir_linked' | 'assigned' | 'note';
+  by: string;
+  byName: string;
+  at: string;
+  from?: MissingPersonStatus;
+  to?: MissingPersonStatus;
+  note?: string;
+  location?: GeoPoint | null;
+}
+
+export interface MissingPersonBulletin {
+  id: string;
+  issuedAt: string;
+  issuedBy: string;
+  issuedByName: string;
+  // Null when nothing is known of the tourist's whereabouts
+  center: GeoPoint | null;
+  radiusKm: number;
+  text: string;
+}
+
+export interface MissingPersonCase {
+  _id: string;
+  caseNumber: string;
+  touristId: string;
+  touristName: string;
+  status: MissingPersonStatus;
+  description: string;
+  reportedBy: string;
+  reportedByContact?: string | null;
+  lastSeenAt: string;
+  lastSeenPlace?: string | null;
+  lastSeenLocation?: GeoPoint | null;
+  photoSha256?: string | null;
+  firId?: string | null;
+  firNumber?: string | null;
+  assignedTo?: string | null;
+  assignedOfficerName?: string | null;
+  openedBy: string;
+  openedByName: string;
+  closedAt?: string | null;
+  bulletins: MissingPersonBulletin[];
+  // Append-only; oldest first
+  history: MissingPersonEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Published with 'bulletin_issued' events
+export type BulletinEvent = MissingPersonCase & { bulletin: MissingPersonBulletin };
+
+export interface MissingPersonCaseFile {
+  case: MissingPersonCase;
+  tourist: {
+    _id: string;
+    name: string;
+    email: string;
+    nationality?: string;
+    language?: string;
+    emergencyContacts: { name: string; phone: string; relation?: string }[];
+  };
+  digitalId: { hash: string; status: string; verified: boolean; expiresAt?: string | null } | null;
+  // Newest first; rounded unless the viewer is police
+  pings: LocationPoint[];
+  pingPrecision: LocationPrecision;
+  lastKnown: (GeoPoint & { at: string; source: 'ping' | 'report' }) | null;
+  trip: Trip | null;
+  fir: { _id: string; firNumber: string; status: FIRStatus; title: string } | null;
+}
+
+export interface MissingPersonInput {
+  touristId: string;
+  description: string;
+  reportedBy: string;
+  reportedByContact?: string;
+  lastSeenAt?: string;
+  lastSeenPlace?: string;
+  lastSeenLocation?: GeoPoint | null;
+}
+
+export interface StatusChange {
+  note?: string;
+  location?: GeoPoint | null;
+  place?: string;
+}
+
+// Search status moves; the server checks which are allowed from the current status
+export type MissingPersonAction = 'sighted' | 'searching' | 'found' | 'close';
+
+export interface MissingPersonResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+class MissingPersonApiService {
+  private api: AxiosInstance;
+
+  constructor() {
+    this.api = axios.create({
+      baseURL: `${BLOCKCHAIN_API_BASE_URL}/missing-persons`,
+      timeout: 30000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    this.api.interceptors.request.use((config) => {
+      const token = localStorage.getItem('raksha_token');
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config;
+    });
+  }
+
+  private async request<T>(call: () => Promise<{ data: MissingPersonResponse<T> }>, failure: string): Promise<MissingPersonResponse<T>> {
+    try {
+      const response = await call();
+      return response.data;
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      return {
+        success: false,
+        error: error.response?.data?.error || failure
+      };
+    }
+  }
+
+  async getCases(filters: { status?: MissingPersonStatus; touristId?: string; limit?: number } = {}): Promise<MissingPersonResponse<MissingPersonCase[]>> {
+    return this.request(() => this.api.get('/', { params: filters }), 'Failed to load missing-person cases');
+  }
+
+  async getCaseFile(id: string): Promise<MissingPersonResponse<MissingPersonCaseFile>> {
+    return this.request(() => this.api.get(`/${id}`), 'Failed to load case file');
+  }
+
+  async openCase(input: MissingPersonInput): Promise<MissingPersonResponse<MissingPersonCase>> {
+    return this.request(() => this.api.post('/', input), 'Failed to open case');
+  }
+
+  async transition(id: string, action: MissingPersonAction, change: StatusChange = {}): Promise<MissingPersonResponse<MissingPersonCase>> {
+    return this.request(() => this.api.post(`/${id}/${action}`, change), 'Failed to update case');
+  }
+
+  async issueBulletin(id: string, input: { radiusKm?: number; message?: string } = {}): Promise<MissingPersonResponse<{ case: MissingPersonCase; bulletin: MissingPersonBulletin }>> {
+    return this.request(() => this.api.post(`/${id}/bulletins`, input), 'Failed to issue bulletin');
+  }
+
+  // The photo as an object URL; the caller revokes it when done
+  async getPhotoUrl(id: string): Promise<string | null> {
+    try {
+      const response = await this.api.get(`/${id}/photo`, { responseType: 'blob' });
+      return URL.createObjectURL(response.data);
+    } catch (error) {
+      console.error('Failed to load case photo:', error);
+      return null;
+    }
+  }
+
+  async uploadPhoto(id: string, file: File): Promise<MissingPersonResponse<MissingPersonCase>> {
+    const form = new FormData();
+    form.append('photo', file);
+
+    return this.request(
+      () => this.api.post(`/${id}/photo`, form, { headers: { 'Content-Type': 'multipart/form-data' }, timeout: 60000 }),
+      'Failed to upload photo'
+    );
+  }
+
+  async assign(id: string, officerId: string): Promise<MissingPersonResponse<MissingPersonCase>> {
+    return this.request(() => this.api.post(`/${id}/assign`, { officerId }), 'Failed to assign case');
+  }
+
+  async addNote(id: string, note: string): Promise<MissingPersonResponse<MissingPersonCase>> {
+    return this.request(() => this.api.post(`/${id}/notes`, { note }), 'Failed to add note');
+  }
+}
+
+export const missingPersonApi = new MissingPersonApiService();
+export default missingPersonApi;
@@ -0,0 +1,74 @@
+import axios from 'axios';
+
+const BLOCKCHAIN_API_BASE_URL = import.meta.env.VITE_BLOCKCHAIN_API_BASE_URL || 'http://localhost:3002/api';
+
+// Types
+export interface PortalUser {
+  _id: string;
+  name: string;
+  email: string;
+  role: 'admin' | 'police' | 'tourism' | 'tourist';
+  walletAddress?: string;
+  language?: string;
+  nationality?: string;
+  emergencyContacts?: { name: string; phone: string; relation?: string }[];
+  isActive: boolean;
+  lastLogin?: string;
+  createdAt: string;
+}
+
+export interface PortalStats {
+  totalUsers: number;
+  activeUsers: number;
+  inactiveUsers: number;
+  usersByRole: { _id: string; count: number }[];
+  recentUsers: PortalUser[];
+  timestamp: string;
+}
+
+export interface PortalResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+class PortalApiService {
+  private api = axios.create({
+    baseURL: `${BLOCKCHAIN_API_BASE_URL}/portal`,
+    timeout: 30000,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  // Search registered users by name, email or wallet
+  async searchUsers(query: { q?: string; role?: PortalUser['role']; active?: boolean } = {}): Promise<PortalResponse<PortalUser[]>> {
+    try {
+      const response = await this.api.get('/search', {
+        params: { ...query, active: query.active === undefined ? undefined : String(query.active) }
+      });
+      return { success: true, data: response.data.data.users };
+    } catch (error: any) {
+      console.error('User search failed:', error);
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to search users'
+      };
+    }
+  }
+
+  // User counts by role and status
+  async getStats(): Promise<PortalResponse<PortalStats>> {
+    try {
+      const response = await this.api.get('/stats');
+      return response.data;
+    } catch (error: any) {
+      console.error('Failed to get portal stats:', error);
+      return {
+        success: false,
+        error: error.response?.data?.error || 'Failed to get statistics'
+      };
+    }
+  }
+}
+
+export const portalApi = new PortalApiService();
+export default portalApi;
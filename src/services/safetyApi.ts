@@ -0,0 +1,77 @@
+import axios, { AxiosInstance } from 'axios';
+
+const BLOCKCHAIN_API_BASE_URL = import.meta.env.VITE_BLOCKCHAIN_API_BASE_URL || 'http://localhost:3002/api';
+
+// Types
+export type SafetyLevel = 'safe' | 'caution' | 'alert';
+
+export type SafetyFactorKey = 'zone' | 'nearbyAlerts' | 'timeOfDay' | 'itinerary' | 'incidentHistory' | 'digitalId';
+
+export interface SafetyFactor {
+  key: SafetyFactorKey;
+  label: string;
+  // Points taken off the score
+  impact: number;
+  detail: string;
+}
+
+export interface SafetyScore {
+  userId: string;
+  score: number;
+  level: SafetyLevel;
+  factors: SafetyFactor[];
+  location?: { lat: number; lng: number } | null;
+  computedAt: string;
+}
+
+export interface SafetyResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+class SafetyApiService {
+  private api: AxiosInstance;
+
+  constructor() {
+    this.api = axios.create({
+      baseURL: `${BLOCKCHAIN_API_BASE_URL}/safety`,
+      timeout: 30000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    this.api.interceptors.request.use((config) => {
+      const token = localStorage.getItem('raksha_token');
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config;
+    });
+  }
+
+  private async request<T>(call: () => Promise<{ data: SafetyResponse<T> }>, failure: string): Promise<SafetyResponse<T>> {
+    try {
+      const response = await call();
+      return response.data;
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      return {
+        success: false,
+        error: error.response?.data?.error || failure
+      };
+    }
+  }
+
+  // The signed-in tourist's score
+  async getMine(): Promise<SafetyResponse<SafetyScore>> {
+    return this.request(() => this.api.get('/me'), 'Failed to load safety score');
+  }
+
+  // Scores for every active tourist (police, tourism and admin)
+  async getTourists(): Promise<SafetyResponse<SafetyScore[]>> {
+    return this.request(() => this.api.get('/tourists'), 'Failed to load safety scores');
+  }
+}
+
+export const safetyApi = new SafetyApiService();
+export default safetyApi;
@@ -0,0 +1,120 @@
+import axios, { AxiosInstance } from 'axios';
+
+const BLOCKCHAIN_API_BASE_URL = import.meta.env.VITE_BLOCKCHAIN_API_BASE_URL || 'http://localhost:3002/api';
+
+// Types
+export type TripStatus = 'planned' | 'active' | 'completed' | 'cancelled';
+
+export type WarningSeverity = 'low' | 'moderate' | 'high';
+
+// Generated by the server from zones, curfews and alerts around a stop
+export interface TripWarning {
+  kind: 'restricted_zone' | 'alert_zone' | 'curfew' | 'open_alerts' | 'incident_history';
+  severity: WarningSeverity;
+  message: string;
+  zoneId?: string;
+}
+
+export interface TripDestination {
+  id: string;
+  name: string;
+  time: string;
+  notes?: string;
+  lat?: number | null;
+  lng?: number | null;
+  // Completed automatically when the tourist's location passes through it
+  status: 'upcoming' | 'completed';
+  completedAt?: string | null;
+  warnings?: TripWarning[];
+}
+
+export interface Trip {
+  _id: string;
+  userId: string;
+  title: string;
+  description?: string;
+  status: TripStatus;
+  startDate: string;
+  endDate: string;
+  destinations: TripDestination[];
+  members: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Payload of an 'advisory_changed' event: the trip plus the stops whose warnings moved
+export type AdvisoryChange = Trip & { changedDestinations: string[] };
+
+export type DestinationInput = Pick<TripDestination, 'name' | 'time' | 'notes' | 'lat' | 'lng'> & { id?: string };
+
+export interface TripInput {
+  title: string;
+  description?: string;
+  startDate: string;
+  endDate: string;
+  destinations: DestinationInput[];
+  members?: string[];
+}
+
+export interface TripResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+class TripApiService {
+  private api: AxiosInstance;
+
+  constructor() {
+    this.api = axios.create({
+      baseURL: `${BLOCKCHAIN_API_BASE_URL}/trips`,
+      timeout: 30000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    this.api.interceptors.request.use((config) => {
+      const token = localStorage.getItem('raksha_token');
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config;
+    });
+  }
+
+  private async request<T>(call: () => Promise<{ data: TripResponse<T> }>, failure: string): Promise<TripResponse<T>> {
+    try {
+      const response = await call();
+      return response.data;
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      return {
+        success: false,
+        error: error.response?.data?.error || failure
+      };
+    }
+  }
+
+  // The signed-in tourist's trips, soonest first
+  async getTrips(status?: TripStatus): Promise<TripResponse<Trip[]>> {
+    return this.request(() => this.api.get('/', { params: status ? { status } : {} }), 'Failed to load trips');
+  }
+
+  async createTrip(trip: TripInput): Promise<TripResponse<Trip>> {
+    return this.request(() => this.api.post('/', trip), 'Failed to create trip');
+  }
+
+  async updateTrip(id: string, updates: Partial<TripInput>): Promise<TripResponse<Trip>> {
+    return this.request(() => this.api.put(`/${id}`, updates), 'Failed to update trip');
+  }
+
+  async setStatus(id: string, status: Exclude<TripStatus, 'planned'>): Promise<TripResponse<Trip>> {
+    return this.request(() => this.api.post(`/${id}/status`, { status }), 'Failed to update trip status');
+  }
+
+  async deleteTrip(id: string): Promise<TripResponse<void>> {
+    return this.request(() => this.api.delete(`/${id}`), 'Failed to delete trip');
+  }
+}
+
+export const tripApi = new TripApiService();
+export default tripApi;
@@ -0,0 +1,103 @@
+import axios, { AxiosInstance } from 'axios';
+
+const BLOCKCHAIN_API_BASE_URL = import.meta.env.VITE_BLOCKCHAIN_API_BASE_URL || 'http://localhost:3002/api';
+
+// Types
+export interface ZoneTimeWindow {
+  start: string;
+  end: string;
+  days?: number[];
+}
+
+// Per-zone overrides for the movement anomaly detector
+export interface AnomalyThresholds {
+  inactivityMinutes?: number | null;
+  maxSpeedKmh?: number | null;
+  signalLossMinutes?: number | null;
+  deviationKm?: number | null;
+}
+
+export interface ZoneData {
+  _id: string;
+  name: string;
+  type: 'safe' | 'restricted' | 'alert';
+  shape: 'polygon' | 'circle';
+  coordinates: Array<{ lat: number; lng: number }>;
+  radius?: number | null;
+  description: string;
+  // Groups zones for analytics
+  district?: string | null;
+  status: 'active' | 'inactive';
+  timeWindows?: ZoneTimeWindow[] | null;
+  dwellSeconds?: number | null;
+  anomalyThresholds?: AnomalyThresholds | null;
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+  updatedAt: string;
+  touristsInside: number;
+  activeAlerts: number;
+  inEffect: boolean;
+}
+
+export type ZoneInput = Pick<ZoneData, 'name' | 'type' | 'shape' | 'coordinates' | 'description'> &
+  Partial<Pick<ZoneData, 'radius' | 'district' | 'status' | 'timeWindows' | 'dwellSeconds' | 'anomalyThresholds'>>;
+
+export interface ZoneResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+class ZoneApiService {
+  private api: AxiosInstance;
+
+  constructor() {
+    this.api = axios.create({
+      baseURL: `${BLOCKCHAIN_API_BASE_URL}/zones`,
+      timeout: 30000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    this.api.interceptors.request.use((config) => {
+      const token = localStorage.getItem('raksha_token');
+      if (token) {
+        config.headers.Authorization = `Bearer ${token}`;
+      }
+      return config;
+    });
+  }
+
+  private async request<T>(call: () => Promise<{ data: ZoneResponse<T> }>, failure: string): Promise<ZoneResponse<T>> {
+    try {
+      const response = await call();
+      return response.data;
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      return {
+        success: false,
+        error: error.response?.data?.error || failure
+      };
+    }
+  }
+
+  // Zones with live occupancy and open alert counts
+  async getZones(): Promise<ZoneResponse<ZoneData[]>> {
+    return this.request(() => this.api.get('/'), 'Failed to load zones');
+  }
+
+  async createZone(zone: ZoneInput): Promise<ZoneResponse<ZoneData>> {
+    return this.request(() => this.api.post('/', zone), 'Failed to create zone');
+  }
+
+  async updateZone(id: string, updates: Partial<ZoneInput>): Promise<ZoneResponse<ZoneData>> {
+    return this.request(() => this.api.put(`/${id}`, updates), 'Failed to update zone');
+  }
+
+  async deleteZone(id: string): Promise<ZoneResponse<void>> {
+    return this.request(() => this.api.delete(`/${id}`), 'Failed to delete zone');
+  }
+}
+
+export const zoneApi = new ZoneApiService();
+export default zoneApi;